@@ -0,0 +1,9 @@
+import React from 'react';
+
+import AccountDataScreen from '../../configuratore/app/account-data';
+
+const AccountDataRoute = () => {
+  return <AccountDataScreen />;
+};
+
+export default AccountDataRoute;
@@ -0,0 +1,6 @@
+import React from 'react';
+import AvvisiScreen from '../../configuratore/app/avvisi';
+
+const AvvisiRoute = () => <AvvisiScreen />;
+
+export default AvvisiRoute;
@@ -0,0 +1,6 @@
+import React from 'react';
+import CandidatureScreen from '../../configuratore/app/candidature';
+
+const CandidatureRoute = () => <CandidatureScreen />;
+
+export default CandidatureRoute;
@@ -0,0 +1,9 @@
+import React from 'react';
+
+import ChangePasswordScreen from '../../configuratore/app/change-password';
+
+const ChangePasswordRoute = () => {
+  return <ChangePasswordScreen />;
+};
+
+export default ChangePasswordRoute;
@@ -0,0 +1,9 @@
+import React from 'react';
+
+import DevicesScreen from '../../configuratore/app/devices';
+
+const DevicesRoute = () => {
+  return <DevicesScreen />;
+};
+
+export default DevicesRoute;
@@ -0,0 +1,6 @@
+import React from 'react';
+import DisponibilitaScreen from '../../configuratore/app/disponibilita';
+
+const DisponibilitaRoute = () => <DisponibilitaScreen />;
+
+export default DisponibilitaRoute;
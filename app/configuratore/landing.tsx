@@ -26,8 +26,6 @@ const LandingScreen: React.FC = () => {
   const styles = useThemedStyles((t) => createStyles(t));
 
   const [showLoginForm, setShowLoginForm] = useState(false);
-  const [nome, setNome] = useState('');
-  const [cognome, setCognome] = useState('');
   const [email, setEmail] = useState('');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -40,11 +38,10 @@ const LandingScreen: React.FC = () => {
   }, [loading, profile, router]);
 
   const isLoginValid = useMemo(() => {
-    const byName = nome.trim() !== '' && cognome.trim() !== '' && password.trim().length > 0;
     const byUsername = username.trim().length >= 3 && password.trim().length > 0;
     const byEmail = /.+@.+\..+/.test(email.trim()) && password.trim().length > 0;
-    return byName || byUsername || byEmail;
-  }, [nome, cognome, password, username, email]);
+    return byUsername || byEmail;
+  }, [password, username, email]);
 
   const handleLogin = async () => {
     if (submitting) return;
@@ -56,34 +53,25 @@ const LandingScreen: React.FC = () => {
 
     setSubmitting(true);
     try {
-      if (/.+@.+\..+/.test(email.trim())) {
-        const { signInWithEmailAndPassword } = await import('firebase/auth');
-        const { auth } = await import('../../configuratore/lib/firebase');
-        const cred = await signInWithEmailAndPassword(auth, email.trim(), password);
-        const { getProfileByEmail } = await import('../../configuratore/lib/api');
-        const prof = await getProfileByEmail(cred.user.email ?? email.trim());
-        if (!prof) {
-          Alert.alert('Profilo non trovato', 'Completa la registrazione del profilo.');
-          router.replace('/configuratore');
-          return;
-        }
-        await login(prof as any);
-        router.replace(`/configuratore/${prof.role}`);
-      } else {
-        const { profile: storedProfile } = await authenticateProfile(
-          username.trim().length >= 3
-            ? { username: username.trim(), password }
-            : { nome, cognome, password }
-        );
-        await login(storedProfile);
-        router.replace(`/configuratore/${storedProfile.role}`);
-      }
+      // Email logins go through authenticateProfile as well, so every attempt
+      // lands in the login audit.
+      const { profile: storedProfile } = await authenticateProfile(
+        /.+@.+\..+/.test(email.trim())
+          ? { email: email.trim(), password }
+          : { username: username.trim(), password }
+      );
+      await login(storedProfile);
+      router.replace(`/configuratore/${storedProfile.role}`);
     } catch (error) {
       const code = (error as Error & { code?: string }).code;
-      if (code === 'auth/profile-not-found') {
+      if (code === 'auth/legacy-profile') {
+        Alert.alert('Profilo da aggiornare', (error as Error).message);
+      } else if (code === 'auth/profile-not-found') {
         Alert.alert('Profilo non trovato', 'Verifica le informazioni inserite o registra un nuovo profilo.');
       } else if (code === 'auth/invalid-password') {
         Alert.alert('Password errata', 'La password inserita non è corretta.');
+      } else if (code === 'auth/too-many-attempts') {
+        Alert.alert('Accesso bloccato', (error as Error).message);
       } else {
         console.warn('Login failed:', error);
         Alert.alert('Errore', 'Impossibile effettuare l\'accesso in questo momento.');
@@ -137,7 +125,7 @@ const LandingScreen: React.FC = () => {
           <Text style={styles.formTitle}>Accedi al tuo profilo</Text>
         </View>
 
-        <Text style={styles.label}>Email (opzionale)</Text>
+        <Text style={styles.label}>Email</Text>
         <TextInput
           value={email}
           onChangeText={setEmail}
@@ -147,7 +135,7 @@ const LandingScreen: React.FC = () => {
           keyboardType="email-address"
         />
 
-        <Text style={styles.label}>Username (opzionale)</Text>
+        <Text style={styles.label}>Oppure username</Text>
         <TextInput
           value={username}
           onChangeText={setUsername}
@@ -156,24 +144,6 @@ const LandingScreen: React.FC = () => {
           autoCapitalize="none"
         />
 
-        <Text style={styles.label}>Nome</Text>
-        <TextInput
-          value={nome}
-          onChangeText={setNome}
-          placeholder="Inserisci il nome"
-          style={styles.input}
-          autoCapitalize="words"
-        />
-
-        <Text style={styles.label}>Cognome</Text>
-        <TextInput
-          value={cognome}
-          onChangeText={setCognome}
-          placeholder="Inserisci il cognome"
-          style={styles.input}
-          autoCapitalize="words"
-        />
-
         <Text style={styles.label}>Password</Text>
         <TextInput
           value={password}
@@ -198,12 +168,20 @@ const LandingScreen: React.FC = () => {
           )}
         </Pressable>
 
+        <Pressable
+          style={styles.forgotLink}
+          onPress={() => router.push('/configuratore/reset-password')}
+          accessibilityRole="button"
+        >
+          <Text style={styles.backLinkText}>Password dimenticata?</Text>
+        </Pressable>
+
         <Pressable
           style={styles.backLink}
           onPress={() => {
             setShowLoginForm(false);
-            setNome('');
-            setCognome('');
+            setEmail('');
+            setUsername('');
             setPassword('');
           }}
         >
@@ -368,6 +346,9 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     buttonDisabled: {
       opacity: 0.6,
     },
+    forgotLink: {
+      alignSelf: 'center',
+    },
     backLink: {
       marginTop: 12,
       flexDirection: 'row',
@@ -0,0 +1,9 @@
+import React from 'react';
+
+import LocationsScreen from '../../configuratore/app/locations';
+
+const LocationsRoute = () => {
+  return <LocationsScreen />;
+};
+
+export default LocationsRoute;
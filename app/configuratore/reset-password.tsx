@@ -0,0 +1,226 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Linking,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { confirmProfilePasswordReset, requestPasswordReset } from '../../configuratore/lib/api';
+import { useTheme, useThemedStyles } from '../../configuratore/app/theme';
+
+const extractOobCode = (value: string): string => {
+  const match = /oobCode=([^&]+)/.exec(value);
+  return match ? decodeURIComponent(match[1]) : value;
+};
+
+const ResetPasswordScreen: React.FC = () => {
+  const router = useRouter();
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+
+  const [identifier, setIdentifier] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const sub = Linking.addEventListener('url', ({ url }) => {
+      if (url && /oobCode=/.test(url)) {
+        setCode(extractOobCode(url));
+      }
+    });
+    (async () => {
+      const url = await Linking.getInitialURL();
+      if (url && /oobCode=/.test(url)) {
+        setCode(extractOobCode(url));
+      }
+    })().catch(() => {});
+    return () => sub.remove();
+  }, []);
+
+  const canRequest = identifier.trim().length >= 3;
+  const canConfirm = useMemo(
+    () =>
+      code.trim().length > 0 &&
+      newPassword.trim().length >= 6 &&
+      newPassword === confirmPassword,
+    [code, newPassword, confirmPassword]
+  );
+
+  const handleRequest = useCallback(async () => {
+    if (!canRequest || busy) return;
+    try {
+      setBusy(true);
+      const masked = await requestPasswordReset(identifier);
+      setSentTo(masked);
+    } catch (error) {
+      const errorCode = (error as Error & { code?: string }).code;
+      if (errorCode === 'auth/profile-not-found') {
+        Alert.alert(
+          'Profilo non trovato',
+          'Verifica l\'email o l\'username inserito. Se il profilo è stato creato con una vecchia versione dell\'app, contatta l\'assistenza per aggiornarlo.'
+        );
+      } else if (errorCode === 'auth/no-recovery-email') {
+        Alert.alert('Recupero non disponibile', (error as Error).message);
+      } else {
+        console.warn('Password reset request failed:', error);
+        Alert.alert('Errore', 'Impossibile inviare il codice in questo momento.');
+      }
+    } finally {
+      setBusy(false);
+    }
+  }, [busy, canRequest, identifier]);
+
+  const handleConfirm = useCallback(async () => {
+    if (!canConfirm || busy) return;
+    try {
+      setBusy(true);
+      await confirmProfilePasswordReset(code, newPassword);
+      Alert.alert('Password reimpostata', 'Ora puoi accedere con la nuova password.', [
+        { text: 'OK', onPress: () => router.replace('/configuratore/landing') },
+      ]);
+    } catch (error) {
+      const errorCode = (error as Error & { code?: string }).code;
+      if (errorCode === 'auth/invalid-reset-code') {
+        Alert.alert('Codice non valido', 'Il codice è scaduto o è già stato usato. Richiedine uno nuovo.');
+      } else if (errorCode === 'auth/weak-password') {
+        Alert.alert('Password troppo debole', 'Usa almeno 6 caratteri.');
+      } else {
+        console.warn('Password reset confirm failed:', error);
+        Alert.alert('Errore', 'Impossibile reimpostare la password in questo momento.');
+      }
+    } finally {
+      setBusy(false);
+    }
+  }, [busy, canConfirm, code, newPassword, router]);
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} accessibilityRole="button">
+            <Ionicons name="chevron-back" size={26} color={theme.colors.textPrimary} />
+          </Pressable>
+          <Text style={styles.title}>Recupera password</Text>
+          <View style={{ width: 26 }} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.card}>
+            <Text style={styles.subtitle}>
+              Inserisci l&apos;email o l&apos;username del profilo: invieremo un codice monouso
+              all&apos;email associata.
+            </Text>
+            <TextInput
+              value={identifier}
+              onChangeText={setIdentifier}
+              placeholder="Email o username"
+              placeholderTextColor={theme.colors.muted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={styles.input}
+            />
+            <Pressable
+              style={[styles.secondaryButton, (!canRequest || busy) && styles.buttonDisabled]}
+              onPress={handleRequest}
+              disabled={!canRequest || busy}
+              accessibilityRole="button"
+            >
+              <Text style={styles.secondaryLabel}>{sentTo ? 'Reinvia codice' : 'Invia codice'}</Text>
+            </Pressable>
+            {sentTo ? (
+              <Text style={styles.hint}>
+                Codice inviato a {sentTo}. Apri il link ricevuto oppure incollalo qui sotto.
+              </Text>
+            ) : null}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.subtitle}>
+              Incolla il codice oobCode ricevuto via email oppure l&apos;intero link, poi scegli la
+              nuova password.
+            </Text>
+            <TextInput
+              value={code}
+              onChangeText={(v) => setCode(extractOobCode(v))}
+              placeholder="oobCode o link ricevuto"
+              placeholderTextColor={theme.colors.muted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={styles.input}
+            />
+            <TextInput
+              value={newPassword}
+              onChangeText={setNewPassword}
+              placeholder="Nuova password (min 6 caratteri)"
+              placeholderTextColor={theme.colors.muted}
+              style={styles.input}
+              secureTextEntry
+            />
+            <TextInput
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              placeholder="Conferma nuova password"
+              placeholderTextColor={theme.colors.muted}
+              style={styles.input}
+              secureTextEntry
+            />
+            <Pressable
+              style={[styles.primaryButton, (!canConfirm || busy) && styles.buttonDisabled]}
+              onPress={handleConfirm}
+              disabled={!canConfirm || busy}
+              accessibilityRole="button"
+            >
+              {busy ? (
+                <ActivityIndicator color={theme.colors.surface} />
+              ) : (
+                <Text style={styles.primaryLabel}>Reimposta password</Text>
+              )}
+            </Pressable>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    safeArea: { flex: 1, backgroundColor: t.colors.background },
+    container: { flex: 1, backgroundColor: t.colors.background },
+    header: { flexDirection: 'row', alignItems: 'center', padding: 16, gap: 12 },
+    title: { flex: 1, textAlign: 'center', fontSize: 18, fontWeight: '700', color: t.colors.textPrimary },
+    scrollContent: { padding: 16, paddingBottom: 120, gap: 16 },
+    card: { backgroundColor: t.colors.surface, borderRadius: 16, padding: 16, gap: 12, borderWidth: 1, borderColor: t.colors.border },
+    subtitle: { fontSize: 14, color: t.colors.textSecondary },
+    hint: { fontSize: 13, color: t.colors.success },
+    input: { borderWidth: 1, borderColor: t.colors.border, backgroundColor: t.colors.card, borderRadius: 12, paddingHorizontal: 14, paddingVertical: 12, fontSize: 15, color: t.colors.textPrimary },
+    primaryButton: { marginTop: 6, backgroundColor: t.colors.primary, borderRadius: 14, paddingVertical: 14, alignItems: 'center' },
+    primaryLabel: { color: t.colors.surface, fontSize: 16, fontWeight: '600' },
+    secondaryButton: { backgroundColor: t.colors.card, borderRadius: 14, paddingVertical: 14, alignItems: 'center', borderWidth: 1, borderColor: t.colors.border },
+    secondaryLabel: { color: t.colors.primary, fontSize: 15, fontWeight: '600' },
+    buttonDisabled: { opacity: 0.6 },
+  });
+
+export default ResetPasswordScreen;
@@ -0,0 +1,9 @@
+import React from 'react';
+
+import TeamScreen from '../../configuratore/app/team';
+
+const TeamRoute = () => {
+  return <TeamScreen />;
+};
+
+export default TeamRoute;
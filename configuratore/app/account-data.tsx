@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import { deleteAccount, exportMyData } from '../lib/api';
+import { useProfile } from './profile-context';
+import { useTheme, useThemedStyles } from './theme';
+
+// On web the JSON is downloaded as a file, native platforms use the share sheet.
+const shareExport = async (fileName: string, json: string) => {
+  if (Platform.OS === 'web' && typeof document !== 'undefined') {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+  await Share.share({ title: fileName, message: json });
+};
+
+const AccountDataScreen: React.FC = () => {
+  const router = useRouter();
+  const { profile, loading, logout } = useProfile();
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+
+  const [password, setPassword] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !profile && !deleting) {
+      router.replace('/configuratore/landing');
+    }
+  }, [deleting, loading, profile, router]);
+
+  const handleExport = async () => {
+    if (!profile || exporting) return;
+    setExporting(true);
+    try {
+      const bundle = await exportMyData(profile.profileId);
+      await shareExport(`jobly-${profile.profileId}.json`, JSON.stringify(bundle, null, 2));
+    } catch (error) {
+      console.warn('Data export failed:', error);
+      Alert.alert('Errore', 'Impossibile esportare i dati in questo momento.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const runDelete = async () => {
+    if (!profile) return;
+    setDeleting(true);
+    try {
+      await deleteAccount({ profileId: profile.profileId, password });
+      await logout();
+      Alert.alert('Account eliminato', 'Il profilo e i dati collegati sono stati eliminati.');
+      router.replace('/configuratore/landing');
+    } catch (error) {
+      const code = (error as Error & { code?: string }).code;
+      if (code === 'auth/invalid-password') {
+        Alert.alert('Password errata', 'La password inserita non è corretta.');
+      } else if (code === 'auth/too-many-attempts') {
+        Alert.alert('Accesso bloccato', (error as Error).message);
+      } else if (code === 'auth/requires-recent-login') {
+        Alert.alert('Accesso richiesto', (error as Error).message);
+      } else {
+        console.warn('Account deletion failed:', error);
+        Alert.alert('Errore', 'Impossibile eliminare l\'account in questo momento.');
+      }
+      setDeleting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!profile || deleting || password.length === 0) return;
+    Alert.alert(
+      'Eliminare l\'account?',
+      'Profilo, incarichi e candidature verranno cancellati. L\'operazione non è reversibile.',
+      [
+        { text: 'Annulla', style: 'cancel' },
+        { text: 'Elimina', style: 'destructive', onPress: () => void runDelete() },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} accessibilityRole="button">
+            <Ionicons name="chevron-back" size={26} color={theme.colors.textPrimary} />
+          </Pressable>
+          <Text style={styles.title}>Privacy & sicurezza</Text>
+          <View style={{ width: 26 }} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <MaterialIcons name="file-download" size={22} color={theme.colors.primary} />
+              <Text style={styles.cardTitle}>Esporta i tuoi dati</Text>
+            </View>
+            <Text style={styles.description}>
+              Scarica in formato JSON il profilo, gli incarichi, le candidature, le assunzioni e le
+              chat collegate al tuo account.
+            </Text>
+            <Pressable
+              style={[styles.secondaryButton, exporting && styles.buttonDisabled]}
+              onPress={handleExport}
+              disabled={exporting}
+              accessibilityRole="button"
+            >
+              {exporting ? (
+                <ActivityIndicator color={theme.colors.primary} />
+              ) : (
+                <Text style={styles.secondaryLabel}>Esporta dati</Text>
+              )}
+            </Pressable>
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <MaterialIcons name="delete-forever" size={22} color={theme.colors.danger} />
+              <Text style={styles.cardTitle}>Elimina account</Text>
+            </View>
+            <Text style={styles.description}>
+              Le assunzioni e le chat condivise resteranno visibili alla controparte come
+              &quot;Utente eliminato&quot;. Inserisci la password per confermare.
+            </Text>
+            <TextInput
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Password"
+              placeholderTextColor={theme.colors.muted}
+              style={styles.input}
+              secureTextEntry
+            />
+            <Pressable
+              style={[styles.dangerButton, (password.length === 0 || deleting) && styles.buttonDisabled]}
+              onPress={handleDelete}
+              disabled={password.length === 0 || deleting}
+              accessibilityRole="button"
+            >
+              {deleting ? (
+                <ActivityIndicator color={theme.colors.surface} />
+              ) : (
+                <Text style={styles.dangerLabel}>Elimina definitivamente</Text>
+              )}
+            </Pressable>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    safeArea: { flex: 1, backgroundColor: t.colors.background },
+    container: { flex: 1, backgroundColor: t.colors.background },
+    header: { flexDirection: 'row', alignItems: 'center', padding: 16, gap: 12 },
+    title: { flex: 1, textAlign: 'center', fontSize: 18, fontWeight: '700', color: t.colors.textPrimary },
+    scrollContent: { padding: 16, paddingBottom: 120, gap: 16 },
+    card: { backgroundColor: t.colors.surface, borderRadius: 18, padding: 16, gap: 12, borderWidth: 1, borderColor: t.colors.border },
+    cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+    cardTitle: { fontSize: 16, fontWeight: '600', color: t.colors.textPrimary },
+    description: { fontSize: 14, color: t.colors.textSecondary, lineHeight: 20 },
+    input: { borderWidth: 1, borderColor: t.colors.border, backgroundColor: t.colors.card, borderRadius: 12, paddingHorizontal: 14, paddingVertical: 12, fontSize: 15, color: t.colors.textPrimary },
+    secondaryButton: { backgroundColor: t.colors.card, borderRadius: 14, paddingVertical: 14, alignItems: 'center', borderWidth: 1, borderColor: t.colors.border },
+    secondaryLabel: { color: t.colors.primary, fontSize: 15, fontWeight: '600' },
+    dangerButton: { backgroundColor: t.colors.danger, borderRadius: 14, paddingVertical: 14, alignItems: 'center' },
+    dangerLabel: { color: t.colors.surface, fontSize: 15, fontWeight: '600' },
+    buttonDisabled: { opacity: 0.6 },
+  });
+
+export default AccountDataScreen;
@@ -0,0 +1,485 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import {
+  deleteSavedSearch,
+  markJobAlertOpened,
+  MAX_SAVED_SEARCHES,
+  saveSavedSearch,
+  type JobAlert,
+  type JobCategory,
+  type SavedSearch,
+} from '../lib/api';
+import { useJobAlerts } from './job-alerts';
+import { useProfile } from './profile-context';
+import RadiusFilter from './radius-filter';
+import { useTheme, useThemedStyles } from './theme';
+import type { SearchArea } from './use-job-search';
+
+const categoryOptions: JobCategory[] = ['bar', 'pizzeria', 'ristorante', 'negozio', 'magazzino', 'altro'];
+
+// Monday first, values as Date.getDay().
+const weekdayOptions = [
+  { day: 1, label: 'Lun' },
+  { day: 2, label: 'Mar' },
+  { day: 3, label: 'Mer' },
+  { day: 4, label: 'Gio' },
+  { day: 5, label: 'Ven' },
+  { day: 6, label: 'Sab' },
+  { day: 0, label: 'Dom' },
+];
+
+type SearchDraft = {
+  name: string;
+  categorie: JobCategory[];
+  area: SearchArea | null;
+  minCompenso: string;
+  giorni: number[];
+};
+
+const emptyDraft: SearchDraft = { name: '', categorie: [], area: null, minCompenso: '', giorni: [] };
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+const formatPay = (value: number) =>
+  `€ ${value.toLocaleString('it-IT', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} / ora`;
+
+const describeSearch = (search: SavedSearch) => {
+  const parts = [
+    search.categorie.length > 0 ? search.categorie.map(capitalize).join(', ') : 'Tutte le categorie',
+  ];
+  if (search.area) {
+    parts.push(`entro ${search.area.radiusKm} km${search.area.label ? ` da ${search.area.label}` : ''}`);
+  }
+  if (search.minCompenso) parts.push(`da ${formatPay(search.minCompenso)}`);
+  if (search.giorni.length > 0) {
+    parts.push(
+      weekdayOptions
+        .filter((option) => search.giorni.includes(option.day))
+        .map((option) => option.label)
+        .join(' ')
+    );
+  }
+  return parts.join(' · ');
+};
+
+const formatAlertDate = (alert: JobAlert) => {
+  const date = new Date(`${alert.data}T00:00:00`);
+  const formattedDate = Number.isNaN(date.getTime())
+    ? alert.data
+    : date.toLocaleDateString('it-IT', { weekday: 'short', day: '2-digit', month: '2-digit' });
+  return [formattedDate, alert.oraInizio, alert.citta].filter((v) => v).join(' · ');
+};
+
+const AvvisiScreen: React.FC = () => {
+  const router = useRouter();
+  const { profile, loading } = useProfile();
+  const { alerts, savedSearches, reloadSavedSearches, openAlert } = useJobAlerts();
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+
+  const [draft, setDraft] = useState<SearchDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && profile && profile.role !== 'lavoratore') {
+      router.replace(`/configuratore/${profile.role}`);
+    }
+  }, [loading, profile, router]);
+
+  const handleNewSearch = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+    setShowForm(true);
+  };
+
+  const handleEditSearch = (search: SavedSearch) => {
+    setDraft({
+      name: search.name,
+      categorie: search.categorie,
+      area: search.area,
+      minCompenso: search.minCompenso ? String(search.minCompenso).replace('.', ',') : '',
+      giorni: search.giorni,
+    });
+    setEditingId(search.id);
+    setShowForm(true);
+  };
+
+  const handleCancelForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const handleSaveSearch = async () => {
+    if (!profile || saving) return;
+    const minCompenso = parseFloat(draft.minCompenso.replace(',', '.'));
+    setSaving(true);
+    try {
+      await saveSavedSearch(
+        profile.profileId,
+        draft.name,
+        {
+          categorie: draft.categorie,
+          area: draft.area,
+          minCompenso: Number.isFinite(minCompenso) && minCompenso > 0 ? minCompenso : null,
+          giorni: draft.giorni,
+        },
+        editingId ?? undefined
+      );
+      await reloadSavedSearches();
+      handleCancelForm();
+    } catch (error) {
+      Alert.alert('Errore', (error as Error)?.message ?? 'Impossibile salvare la ricerca.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSearch = (search: SavedSearch) => {
+    Alert.alert('Elimina ricerca', `Non riceverai più avvisi per «${search.name}».`, [
+      { text: 'Annulla', style: 'cancel' },
+      {
+        text: 'Elimina',
+        style: 'destructive',
+        onPress: async () => {
+          setDeletingId(search.id);
+          try {
+            await deleteSavedSearch(search.id);
+            await reloadSavedSearches();
+            if (editingId === search.id) handleCancelForm();
+          } catch (error) {
+            Alert.alert('Errore', (error as Error)?.message ?? 'Impossibile eliminare la ricerca.');
+          } finally {
+            setDeletingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleMarkAllOpened = async () => {
+    try {
+      await Promise.all(alerts.map((alert) => markJobAlertOpened(alert.id)));
+    } catch (error) {
+      Alert.alert('Errore', (error as Error)?.message ?? 'Impossibile aggiornare gli avvisi.');
+    }
+  };
+
+  if (!profile || profile.role !== 'lavoratore') {
+    return null;
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.headerRow}>
+          <Pressable style={styles.backBtn} onPress={() => router.back()}>
+            <Ionicons name="chevron-back" size={22} color={theme.colors.textPrimary} />
+            <Text style={styles.backText}>Indietro</Text>
+          </Pressable>
+          <Text style={styles.title}>Avvisi</Text>
+          <View style={{ width: 24 }} />
+        </View>
+
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Nuovi incarichi per te</Text>
+          {alerts.length > 0 ? (
+            <Pressable onPress={handleMarkAllOpened} accessibilityRole="button">
+              <Text style={styles.linkText}>Segna come letti</Text>
+            </Pressable>
+          ) : null}
+        </View>
+
+        {alerts.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="notifications-off-outline" size={28} color={theme.colors.muted} />
+            <Text style={styles.emptyText}>
+              {savedSearches.length > 0
+                ? 'Nessun nuovo incarico. Ti avvisiamo appena ne viene pubblicato uno che corrisponde alle tue ricerche.'
+                : 'Salva una ricerca per ricevere un avviso quando viene pubblicato un incarico adatto a te.'}
+            </Text>
+          </View>
+        ) : (
+          alerts.map((alert) => (
+            <Pressable
+              key={alert.id}
+              style={({ pressed }) => [styles.card, pressed && styles.cardPressed]}
+              onPress={() => openAlert(alert)}
+              accessibilityRole="button"
+            >
+              <View style={styles.cardTitleRow}>
+                <Text style={styles.cardTitle}>{alert.title}</Text>
+                <View style={styles.newBadge}>
+                  <Text style={styles.newBadgeText}>Nuovo</Text>
+                </View>
+              </View>
+              <Text style={styles.cardMeta}>{formatAlertDate(alert)}</Text>
+              <Text style={styles.cardMeta}>
+                {alert.compensoOrario > 0 ? formatPay(alert.compensoOrario) : 'Compenso non specificato'}
+              </Text>
+              <Text style={styles.cardHint}>Dalla ricerca «{alert.searchName}»</Text>
+            </Pressable>
+          ))
+        )}
+
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Ricerche salvate</Text>
+          {!showForm && savedSearches.length < MAX_SAVED_SEARCHES ? (
+            <Pressable onPress={handleNewSearch} accessibilityRole="button">
+              <Text style={styles.linkText}>Nuova ricerca</Text>
+            </Pressable>
+          ) : null}
+        </View>
+
+        {savedSearches.length === 0 && !showForm ? (
+          <Text style={styles.emptyText}>Non hai ancora salvato nessuna ricerca.</Text>
+        ) : null}
+
+        {savedSearches.map((search) => (
+          <View key={search.id} style={[styles.card, editingId === search.id && styles.cardEditing]}>
+            <Text style={styles.cardTitle}>{search.name}</Text>
+            <Text style={styles.cardMeta}>{describeSearch(search)}</Text>
+            <View style={styles.actions}>
+              <Pressable
+                style={styles.secondaryButton}
+                onPress={() => handleEditSearch(search)}
+                accessibilityRole="button"
+              >
+                <Text style={styles.secondaryButtonText}>Modifica</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.secondaryButton, deletingId === search.id && styles.buttonDisabled]}
+                onPress={() => handleDeleteSearch(search)}
+                disabled={deletingId === search.id}
+                accessibilityRole="button"
+              >
+                <Text style={styles.dangerButtonText}>Elimina</Text>
+              </Pressable>
+            </View>
+          </View>
+        ))}
+
+        {showForm && (
+          <View style={styles.formCard}>
+            <Text style={styles.formTitle}>{editingId ? 'Modifica ricerca' : 'Nuova ricerca'}</Text>
+
+            <Text style={styles.label}>Nome</Text>
+            <TextInput
+              style={styles.input}
+              value={draft.name}
+              onChangeText={(name) => setDraft((current) => ({ ...current, name }))}
+              placeholder="Es. Weekend in pizzeria"
+              maxLength={60}
+            />
+
+            <Text style={styles.label}>Categorie</Text>
+            <View style={styles.chipRow}>
+              {categoryOptions.map((option) => {
+                const isSelected = draft.categorie.includes(option);
+                return (
+                  <Pressable
+                    key={option}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() =>
+                      setDraft((current) => ({ ...current, categorie: toggle(current.categorie, option) }))
+                    }
+                    accessibilityRole="button"
+                  >
+                    <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                      {capitalize(option)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>Distanza</Text>
+            <RadiusFilter value={draft.area} onChange={(area) => setDraft((current) => ({ ...current, area }))} />
+
+            <Text style={styles.label}>Compenso minimo (€/ora)</Text>
+            <TextInput
+              style={styles.input}
+              value={draft.minCompenso}
+              onChangeText={(value) =>
+                setDraft((current) => ({ ...current, minCompenso: value.replace(/[^0-9.,]/g, '') }))
+              }
+              placeholder="Es. 10"
+              keyboardType="decimal-pad"
+            />
+
+            <Text style={styles.label}>Giorni</Text>
+            <View style={styles.chipRow}>
+              {weekdayOptions.map((option) => {
+                const isSelected = draft.giorni.includes(option.day);
+                return (
+                  <Pressable
+                    key={option.day}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() =>
+                      setDraft((current) => ({ ...current, giorni: toggle(current.giorni, option.day) }))
+                    }
+                    accessibilityRole="button"
+                  >
+                    <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={styles.cardHint}>Senza categorie o giorni selezionati vale qualsiasi.</Text>
+
+            <View style={styles.actions}>
+              <Pressable style={styles.secondaryButton} onPress={handleCancelForm} accessibilityRole="button">
+                <Text style={styles.secondaryButtonText}>Annulla</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.primaryButton, (saving || !draft.name.trim()) && styles.buttonDisabled]}
+                onPress={handleSaveSearch}
+                disabled={saving || !draft.name.trim()}
+                accessibilityRole="button"
+              >
+                {saving ? (
+                  <ActivityIndicator color={theme.colors.surface} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Salva ricerca</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    safeArea: { flex: 1, backgroundColor: t.colors.background },
+    content: { paddingHorizontal: 24, paddingTop: 24, paddingBottom: 80, gap: 16 },
+    headerRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+    backBtn: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingVertical: 6, paddingHorizontal: 8 },
+    backText: { fontSize: 14, color: t.colors.textPrimary, fontWeight: '600' },
+    title: { fontSize: 20, fontWeight: '700', color: t.colors.textPrimary },
+    sectionHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: 8 },
+    sectionTitle: { fontSize: 18, fontWeight: '700', color: t.colors.textPrimary },
+    linkText: { fontSize: 14, fontWeight: '600', color: t.colors.primary },
+    emptyState: {
+      backgroundColor: t.colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      alignItems: 'center',
+      gap: 10,
+      shadowColor: t.colors.shadow,
+      shadowOpacity: 0.08,
+      shadowRadius: 10,
+      shadowOffset: { width: 0, height: 4 },
+      elevation: 3,
+    },
+    emptyText: { fontSize: 14, color: t.colors.textSecondary, textAlign: 'center' },
+    card: {
+      backgroundColor: t.colors.surface,
+      borderRadius: 16,
+      padding: 16,
+      gap: 6,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      shadowColor: t.colors.shadow,
+      shadowOpacity: 0.08,
+      shadowRadius: 10,
+      shadowOffset: { width: 0, height: 4 },
+      elevation: 3,
+    },
+    cardPressed: { transform: [{ scale: 0.98 }] },
+    cardEditing: { borderColor: t.colors.primary },
+    cardTitleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: 8 },
+    cardTitle: { fontSize: 16, fontWeight: '700', color: t.colors.textPrimary },
+    cardMeta: { fontSize: 13, color: t.colors.textSecondary },
+    cardHint: { fontSize: 12, color: t.colors.muted },
+    newBadge: {
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      borderRadius: 999,
+      backgroundColor: t.colors.primary,
+    },
+    newBadgeText: { fontSize: 11, fontWeight: '700', color: t.colors.surface },
+    formCard: {
+      backgroundColor: t.colors.surface,
+      borderRadius: 18,
+      padding: 18,
+      gap: 10,
+      shadowColor: t.colors.shadow,
+      shadowOpacity: 0.06,
+      shadowRadius: 8,
+      shadowOffset: { width: 0, height: 3 },
+      elevation: 3,
+    },
+    formTitle: { fontSize: 16, fontWeight: '700', color: t.colors.textPrimary },
+    label: { fontSize: 13, fontWeight: '600', color: t.colors.textSecondary },
+    input: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: t.colors.textPrimary,
+      backgroundColor: t.colors.card,
+    },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 20,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      backgroundColor: t.colors.surface,
+    },
+    chipSelected: { backgroundColor: t.colors.primary, borderColor: t.colors.primary },
+    chipLabel: { color: t.colors.primary, fontSize: 13, fontWeight: '600' },
+    chipLabelSelected: { color: t.colors.surface },
+    actions: { flexDirection: 'row', gap: 10, marginTop: 6 },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: t.colors.primary,
+      paddingVertical: 12,
+      borderRadius: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: { color: t.colors.surface, fontWeight: '700' },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: t.colors.border,
+      paddingVertical: 12,
+      borderRadius: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: { color: t.colors.textPrimary, fontWeight: '700' },
+    dangerButtonText: { color: t.colors.danger, fontWeight: '700' },
+    buttonDisabled: { opacity: 0.6 },
+  });
+
+export default AvvisiScreen;
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import {
+  APPLICATION_STATUS_LABELS,
+  describeJobChangeFields,
+  withdrawApplication,
+  type MyApplication,
+} from '../lib/api';
+import { useProfile } from './profile-context';
+import { useTheme, useThemedStyles } from './theme';
+
+const getApplicationTitle = (snapshot: MyApplication['jobSnapshot']) => {
+  const categoria = typeof snapshot.tipo?.categoria === 'string' ? snapshot.tipo.categoria : '';
+  if (categoria === 'altro') {
+    return typeof snapshot.tipo?.altroDettaglio === 'string' && snapshot.tipo.altroDettaglio
+      ? snapshot.tipo.altroDettaglio
+      : 'Altro';
+  }
+  return categoria ? categoria.charAt(0).toUpperCase() + categoria.slice(1) : 'Incarico';
+};
+
+const getApplicationMeta = (snapshot: MyApplication['jobSnapshot']) => {
+  const time =
+    typeof snapshot.oraInizio === 'string' && snapshot.oraInizio
+      ? `${snapshot.oraInizio}${typeof snapshot.oraFine === 'string' && snapshot.oraFine ? ` - ${snapshot.oraFine}` : ''}`
+      : '';
+  const date = typeof snapshot.data === 'string' ? snapshot.data : '';
+  const city = typeof snapshot.indirizzo?.citta === 'string' ? snapshot.indirizzo.citta : '';
+  return [date, time, city].filter((v) => v).join(' · ');
+};
+
+const CandidatureScreen: React.FC = () => {
+  const router = useRouter();
+  const { profile, loading, applications } = useProfile();
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && profile && profile.role !== 'lavoratore') {
+      router.replace(`/configuratore/${profile.role}`);
+    }
+  }, [loading, profile, router]);
+
+  const handleOpen = (application: MyApplication) => {
+    if (application.status === 'hiredProposed') {
+      router.push('/configuratore/proposte');
+    } else if (application.status === 'hiredConfirmed' && application.hireId) {
+      router.push(`/configuratore/hire/${encodeURIComponent(application.hireId)}`);
+    } else if (application.status === 'applied') {
+      router.push({ pathname: '/configuratore/lavoratore', params: { jobId: application.jobId } });
+    }
+  };
+
+  const handleWithdraw = (application: MyApplication) => {
+    if (withdrawingId) return;
+    Alert.alert(
+      'Ritira candidatura',
+      `Vuoi ritirare la candidatura per "${getApplicationTitle(application.jobSnapshot)}"? Il datore verrà avvisato e non potrai candidarti di nuovo.`,
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Ritira',
+          style: 'destructive',
+          onPress: async () => {
+            setWithdrawingId(application.id);
+            try {
+              await withdrawApplication(application.id);
+            } catch (error) {
+              Alert.alert('Errore', (error as Error)?.message ?? 'Non è stato possibile ritirare la candidatura.');
+            } finally {
+              setWithdrawingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (!profile || profile.role !== 'lavoratore') {
+    return null;
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.headerRow}>
+          <Pressable style={styles.backBtn} onPress={() => router.back()}>
+            <Ionicons name="chevron-back" size={22} color={theme.colors.textPrimary} />
+            <Text style={styles.backText}>Indietro</Text>
+          </Pressable>
+          <Text style={styles.title}>Le mie candidature</Text>
+          <View style={{ width: 24 }} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loader}>
+            <ActivityIndicator color={theme.colors.primary} />
+          </View>
+        ) : applications.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="document-text-outline" size={28} color={theme.colors.muted} />
+            <Text style={styles.emptyText}>
+              Non hai ancora inviato candidature. Trovi gli incarichi aperti nella home.
+            </Text>
+          </View>
+        ) : (
+          applications.map((application) => {
+            const meta = getApplicationMeta(application.jobSnapshot);
+            const changedFields = application.jobChange?.fields ?? [];
+            return (
+              <Pressable
+                key={application.id}
+                style={({ pressed }) => [styles.card, pressed && styles.cardPressed]}
+                onPress={() => handleOpen(application)}
+                disabled={application.status === 'rejected' || application.status === 'withdrawn'}
+              >
+                <Text style={styles.cardTitle}>{getApplicationTitle(application.jobSnapshot)}</Text>
+                {meta ? <Text style={styles.cardMeta}>{meta}</Text> : null}
+                {application.createdAt ? (
+                  <Text style={styles.cardMeta}>
+                    Inviata il {application.createdAt.toLocaleDateString('it-IT')}
+                  </Text>
+                ) : null}
+                {changedFields.length > 0 &&
+                application.status !== 'rejected' &&
+                application.status !== 'withdrawn' ? (
+                  <View style={styles.changeNotice}>
+                    <Ionicons name="create-outline" size={16} color={theme.colors.primary} />
+                    <Text style={styles.changeNoticeText}>
+                      Incarico aggiornato dal datore: {describeJobChangeFields(changedFields)}.
+                    </Text>
+                  </View>
+                ) : null}
+                <Text
+                  style={[
+                    styles.statusBadge,
+                    application.status === 'hiredProposed' && styles.statusProposed,
+                    application.status === 'hiredConfirmed' && styles.statusConfirmed,
+                    (application.status === 'rejected' || application.status === 'withdrawn') &&
+                      styles.statusRejected,
+                  ]}
+                >
+                  {APPLICATION_STATUS_LABELS[application.status]}
+                </Text>
+                {application.status === 'applied' ? (
+                  <Pressable
+                    style={[styles.withdrawButton, withdrawingId === application.id && styles.buttonDisabled]}
+                    onPress={() => handleWithdraw(application)}
+                    disabled={withdrawingId === application.id}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.withdrawButtonText}>Ritira candidatura</Text>
+                  </Pressable>
+                ) : null}
+              </Pressable>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    safeArea: { flex: 1, backgroundColor: t.colors.background },
+    content: { paddingHorizontal: 24, paddingTop: 24, paddingBottom: 80, gap: 16 },
+    headerRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+    backBtn: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingVertical: 6, paddingHorizontal: 8 },
+    backText: { fontSize: 14, color: t.colors.textPrimary, fontWeight: '600' },
+    title: { fontSize: 20, fontWeight: '700', color: t.colors.textPrimary },
+    loader: { alignItems: 'center', justifyContent: 'center', paddingVertical: 32 },
+    emptyState: {
+      backgroundColor: t.colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      alignItems: 'center',
+      gap: 10,
+      shadowColor: t.colors.shadow,
+      shadowOpacity: 0.08,
+      shadowRadius: 10,
+      shadowOffset: { width: 0, height: 4 },
+      elevation: 3,
+    },
+    emptyText: { fontSize: 14, color: t.colors.textSecondary, textAlign: 'center' },
+    card: {
+      backgroundColor: t.colors.surface,
+      borderRadius: 16,
+      padding: 16,
+      gap: 6,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      shadowColor: t.colors.shadow,
+      shadowOpacity: 0.08,
+      shadowRadius: 10,
+      shadowOffset: { width: 0, height: 4 },
+      elevation: 3,
+    },
+    cardPressed: { transform: [{ scale: 0.98 }] },
+    cardTitle: { fontSize: 16, fontWeight: '700', color: t.colors.textPrimary },
+    cardMeta: { fontSize: 13, color: t.colors.textSecondary },
+    changeNotice: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 8,
+      marginTop: 4,
+      padding: 10,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: t.colors.primary,
+    },
+    changeNoticeText: { flex: 1, fontSize: 13, color: t.colors.textPrimary },
+    statusBadge: {
+      marginTop: 6,
+      alignSelf: 'flex-start',
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 999,
+      backgroundColor: t.colors.border,
+      color: t.colors.textPrimary,
+      fontSize: 12,
+      fontWeight: '700',
+      overflow: 'hidden',
+    },
+    statusProposed: { backgroundColor: t.colors.primary, color: t.colors.surface },
+    statusConfirmed: { backgroundColor: t.colors.success, color: t.colors.surface },
+    statusRejected: { color: t.colors.textSecondary },
+    withdrawButton: {
+      marginTop: 4,
+      alignSelf: 'flex-end',
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: t.colors.danger,
+    },
+    withdrawButtonText: { color: t.colors.danger, fontWeight: '700', fontSize: 13 },
+    buttonDisabled: { opacity: 0.6 },
+  });
+
+export default CandidatureScreen;
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import { changeProfilePassword } from '../lib/api';
+import { useProfile } from './profile-context';
+import { useTheme, useThemedStyles } from './theme';
+
+const ChangePasswordScreen: React.FC = () => {
+  const router = useRouter();
+  const { profile, loading } = useProfile();
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !profile) {
+      router.replace('/configuratore/landing');
+    }
+  }, [loading, profile, router]);
+
+  const isValid = useMemo(
+    () =>
+      currentPassword.length > 0 &&
+      newPassword.trim().length >= 6 &&
+      newPassword === confirmPassword,
+    [currentPassword, newPassword, confirmPassword]
+  );
+
+  const handleSave = async () => {
+    if (!profile || saving) return;
+    if (!isValid) {
+      Alert.alert(
+        'Errore',
+        'Inserisci la password attuale e una nuova password di almeno 6 caratteri uguale in entrambi i campi.'
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await changeProfilePassword({
+        profileId: profile.profileId,
+        currentPassword,
+        newPassword,
+      });
+      Alert.alert('Password aggiornata', 'La nuova password è attiva.', [
+        { text: 'OK', onPress: () => router.replace('/configuratore/settings') },
+      ]);
+    } catch (error) {
+      const code = (error as Error & { code?: string }).code;
+      if (code === 'auth/invalid-password') {
+        Alert.alert('Password errata', 'La password attuale non è corretta.');
+      } else if (code === 'auth/too-many-attempts') {
+        Alert.alert('Accesso bloccato', (error as Error).message);
+      } else if (code === 'auth/weak-password') {
+        Alert.alert('Password troppo debole', 'Usa almeno 6 caratteri.');
+      } else {
+        console.warn('Change password failed:', error);
+        Alert.alert('Errore', 'Impossibile aggiornare la password in questo momento.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} accessibilityRole="button">
+            <Ionicons name="chevron-back" size={26} color={theme.colors.textPrimary} />
+          </Pressable>
+          <Text style={styles.title}>Cambia password</Text>
+          <View style={{ width: 26 }} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.card}>
+            <Text style={styles.label}>Password attuale</Text>
+            <TextInput
+              value={currentPassword}
+              onChangeText={setCurrentPassword}
+              placeholder="Inserisci la password attuale"
+              placeholderTextColor={theme.colors.muted}
+              style={styles.input}
+              secureTextEntry
+            />
+
+            <Text style={styles.label}>Nuova password</Text>
+            <TextInput
+              value={newPassword}
+              onChangeText={setNewPassword}
+              placeholder="Almeno 6 caratteri"
+              placeholderTextColor={theme.colors.muted}
+              style={styles.input}
+              secureTextEntry
+            />
+
+            <Text style={styles.label}>Conferma nuova password</Text>
+            <TextInput
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              placeholder="Ripeti la nuova password"
+              placeholderTextColor={theme.colors.muted}
+              style={styles.input}
+              secureTextEntry
+            />
+
+            <Pressable
+              style={[styles.primaryButton, (!isValid || saving) && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={!isValid || saving}
+              accessibilityRole="button"
+            >
+              {saving ? (
+                <ActivityIndicator color={theme.colors.surface} />
+              ) : (
+                <Text style={styles.primaryLabel}>Salva password</Text>
+              )}
+            </Pressable>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    safeArea: { flex: 1, backgroundColor: t.colors.background },
+    container: { flex: 1, backgroundColor: t.colors.background },
+    header: { flexDirection: 'row', alignItems: 'center', padding: 16, gap: 12 },
+    title: { flex: 1, textAlign: 'center', fontSize: 18, fontWeight: '700', color: t.colors.textPrimary },
+    scrollContent: { padding: 16, paddingBottom: 120 },
+    card: { backgroundColor: t.colors.surface, borderRadius: 18, padding: 16, gap: 12, borderWidth: 1, borderColor: t.colors.border },
+    label: { fontSize: 15, fontWeight: '600', color: t.colors.textPrimary },
+    input: { borderWidth: 1, borderColor: t.colors.border, backgroundColor: t.colors.card, borderRadius: 12, paddingHorizontal: 14, paddingVertical: 12, fontSize: 15, color: t.colors.textPrimary },
+    primaryButton: { marginTop: 8, backgroundColor: t.colors.primary, borderRadius: 14, paddingVertical: 16, alignItems: 'center', justifyContent: 'center' },
+    primaryLabel: { fontSize: 15, fontWeight: '600', color: t.colors.surface },
+    buttonDisabled: { opacity: 0.6 },
+  });
+
+export default ChangePasswordScreen;
@@ -43,7 +43,10 @@ export async function mapChatDocToItem(
       ? (workerId || '')
       : (employerId || '');
 
-  let otherName = otherId || 'Utente';
+  const otherDeleted =
+    profile.role === 'datore' ? data.workerDeleted === true : data.employerDeleted === true;
+
+  let otherName = otherDeleted ? 'Utente eliminato' : otherId || 'Utente';
   try {
     if (otherId) {
       const pSnap = await getDoc(doc(db, 'profiles', otherId));
@@ -4,6 +4,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 
+import { geocodeAddress } from '../lib/geocode';
 import { useProfile, type WorkerCV } from './profile-context';
 import TagInput from '../components/tag-input';
 import { SKILL_SUGGESTIONS, CERTIFICATION_SUGGESTIONS, DEGREE_SUGGESTIONS, EXPERIENCE_SUGGESTIONS } from '../data/cv-templates';
@@ -36,6 +37,7 @@ const CurriculumScreen: React.FC = () => {
   const [certs, setCerts] = useState<string[]>([]);
   const [degrees, setDegrees] = useState<string[]>([]);
   const [experiences, setExperiences] = useState<string[]>([]);
+  const [areaInput, setAreaInput] = useState('');
 
   useEffect(() => {
     if (loading) return;
@@ -55,6 +57,7 @@ const CurriculumScreen: React.FC = () => {
     setCerts(cv.certifications ?? []);
     setDegrees(cv.degrees ?? []);
     setExperiences(cv.experiences ?? []);
+    setAreaInput(cv.area?.label ?? '');
   }, [loading, profile, router]);
 
   const canProceed = useMemo(() => {
@@ -84,6 +87,17 @@ const CurriculumScreen: React.FC = () => {
 
   const handleSave = useCallback(async () => {
     if (!profile) return;
+    // Geocoded only when changed, so an unchanged label keeps its coordinates.
+    const areaLabel = areaInput.trim();
+    let area = areaLabel && areaLabel === profile.cv?.area?.label ? profile.cv.area : undefined;
+    if (areaLabel && !area) {
+      const point = await geocodeAddress(areaLabel);
+      if (!point) {
+        Alert.alert('Zona non trovata', 'Controlla la zona o prova con il nome della città.');
+        return;
+      }
+      area = { label: areaLabel, ...point };
+    }
     try {
       await updateCv({
         sex,
@@ -93,6 +107,7 @@ const CurriculumScreen: React.FC = () => {
         certifications: certs,
         degrees,
         experiences,
+        ...(area ? { area } : {}),
       });
       Alert.alert('Salvato', 'Curriculum aggiornato correttamente.', [
         { text: 'OK', onPress: () => router.replace('/configuratore/settings') },
@@ -100,7 +115,7 @@ const CurriculumScreen: React.FC = () => {
     } catch (e) {
       Alert.alert('Errore', 'Impossibile salvare il curriculum in questo momento.');
     }
-  }, [certs, degrees, experiences, phone, profile, router, sex, skills, summary, updateCv]);
+  }, [areaInput, certs, degrees, experiences, phone, profile, router, sex, skills, summary, updateCv]);
 
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -179,6 +194,16 @@ const CurriculumScreen: React.FC = () => {
               {(phone.trim().length < 6) && (
                 <Text style={styles.error}>Inserisci un numero di telefono valido.</Text>
               )}
+
+              <Text style={styles.label}>Zona in cui cerchi lavoro</Text>
+              <TextInput
+                value={areaInput}
+                onChangeText={setAreaInput}
+                placeholder="Es. Milano, Navigli"
+                style={styles.input}
+                autoCapitalize="words"
+              />
+              <Text style={styles.hint}>I datori vedono quanto sei vicino ai loro incarichi.</Text>
             </View>
           )}
 
@@ -264,6 +289,7 @@ const CurriculumScreen: React.FC = () => {
               <Text style={styles.reviewTitle}>Riepilogo</Text>
               <Text style={styles.reviewItem}>Sesso: {sex ?? '—'}</Text>
               <Text style={styles.reviewItem}>Telefono: {phone || '—'}</Text>
+              <Text style={styles.reviewItem}>Zona: {areaInput.trim() || '—'}</Text>
               <Text style={styles.reviewItem}>Presentazione: {summary || '—'}</Text>
               <Text style={styles.reviewItem}>Competenze: {skills.join(', ') || '—'}</Text>
               <Text style={styles.reviewItem}>Certificazioni: {certs.join(', ') || '—'}</Text>
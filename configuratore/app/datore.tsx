@@ -217,13 +217,17 @@ const DatoreScreen: React.FC = () => {
           </Pressable>
 
           <View style={styles.cardGrid}>
-            <View style={styles.card}>
+            <Pressable
+              style={({ pressed }) => [styles.card, pressed && styles.incaricoCardPressed]}
+              onPress={() => router.push('/configuratore/team')}
+              accessibilityRole="button"
+            >
               <MaterialIcons name="group" size={28} color="#2563eb" />
               <Text style={styles.cardTitle}>Team</Text>
               <Text style={styles.cardText}>
                 Invita nuovi collaboratori e monitora le loro attività.
               </Text>
-            </View>
+            </Pressable>
             <View style={styles.card}>
               <MaterialIcons name="task" size={28} color="#0ea5e9" />
               <Text style={styles.cardTitle}>Incarichi attivi</Text>
@@ -264,6 +268,7 @@ const DatoreScreen: React.FC = () => {
                   minimumFractionDigits: 2,
                   maximumFractionDigits: 2,
                 });
+                const positions = incarico.positions ?? 1;
                 const isDeleting = deletingId === incarico.id;
                 const canDeleteJob = !incarico.ownerUid || incarico.ownerUid === currentUid;
                 return (
@@ -293,26 +298,48 @@ const DatoreScreen: React.FC = () => {
                           : 'Compenso non specificato'}
                       </Text>
                     </View>
+                    <View style={styles.incaricoRow}>
+                      <Ionicons name="people-outline" size={16} color={theme.colors.primary} />
+                      <Text style={styles.incaricoDetail}>
+                        {incarico.filledPositions ?? 0}/{positions}{' '}
+                        {positions === 1 ? 'posto coperto' : 'posti coperti'}
+                      </Text>
+                    </View>
                     <ApplicantsCount jobId={incarico.id} />
                     <Text style={styles.incaricoDescription}>{incarico.descrizione}</Text>
-                    {canDeleteJob ? (
+                    <View style={styles.cardActions}>
                       <Pressable
-                        style={({ pressed }) => [
-                          styles.deleteButton,
-                          pressed && styles.deleteButtonPressed,
-                          isDeleting && styles.deleteButtonDisabled,
-                        ]}
-                        onPress={() => handleDeleteJob(incarico.id)}
-                        disabled={isDeleting}
+                        style={({ pressed }) => [styles.duplicateButton, pressed && styles.deleteButtonPressed]}
+                        onPress={() =>
+                          router.push(
+                            `/configuratore/nuovo-incarico?duplicateFrom=${encodeURIComponent(incarico.id)}`
+                          )
+                        }
                         accessibilityRole="button"
-                        accessibilityLabel="Elimina incarico"
+                        accessibilityLabel="Duplica incarico"
                       >
-                        <Ionicons name="trash-outline" size={16} color={theme.colors.danger} />
-                        <Text style={styles.deleteButtonText}>
-                          {isDeleting ? 'Eliminazione...' : 'Elimina incarico'}
-                        </Text>
+                        <Ionicons name="copy-outline" size={16} color={theme.colors.primary} />
+                        <Text style={styles.duplicateButtonText}>Duplica</Text>
                       </Pressable>
-                    ) : null}
+                      {canDeleteJob ? (
+                        <Pressable
+                          style={({ pressed }) => [
+                            styles.deleteButton,
+                            pressed && styles.deleteButtonPressed,
+                            isDeleting && styles.deleteButtonDisabled,
+                          ]}
+                          onPress={() => handleDeleteJob(incarico.id)}
+                          disabled={isDeleting}
+                          accessibilityRole="button"
+                          accessibilityLabel="Elimina incarico"
+                        >
+                          <Ionicons name="trash-outline" size={16} color={theme.colors.danger} />
+                          <Text style={styles.deleteButtonText}>
+                            {isDeleting ? 'Eliminazione...' : 'Elimina incarico'}
+                          </Text>
+                        </Pressable>
+                      ) : null}
+                    </View>
                   </Pressable>
                 );
               })
@@ -617,6 +644,26 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
       color: t.colors.textSecondary,
       lineHeight: 20,
     },
+    cardActions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    duplicateButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: t.colors.primary,
+    },
+    duplicateButtonText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: t.colors.primary,
+    },
     deleteButton: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -0,0 +1,189 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import { listSessions, revokeSession, type SessionInfo } from '../lib/api';
+import { useProfile } from './profile-context';
+import { useTheme, useThemedStyles } from './theme';
+
+const formatSessionDate = (value: Date | null) =>
+  value
+    ? value.toLocaleString('it-IT', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '—';
+
+const platformIcon = (platform: string): keyof typeof MaterialIcons.glyphMap => {
+  if (platform === 'web') return 'computer';
+  return 'smartphone';
+};
+
+const DevicesScreen: React.FC = () => {
+  const router = useRouter();
+  const { profile, loading, sessionId, logout } = useProfile();
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [fetching, setFetching] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && !profile) {
+      router.replace('/configuratore/landing');
+    }
+  }, [loading, profile, router]);
+
+  const load = useCallback(async () => {
+    if (!profile) return;
+    setFetching(true);
+    try {
+      setSessions(await listSessions(profile.profileId));
+    } catch (error) {
+      console.warn('Failed to load sessions:', error);
+      Alert.alert('Errore', 'Impossibile caricare i dispositivi.');
+    } finally {
+      setFetching(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleRevoke = (item: SessionInfo) => {
+    const isCurrent = item.id === sessionId;
+    Alert.alert(
+      isCurrent ? 'Esci da questo dispositivo?' : 'Disconnettere il dispositivo?',
+      isCurrent
+        ? 'Verrai disconnesso dall\'account.'
+        : `${item.deviceName} verrà disconnesso al prossimo utilizzo.`,
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Disconnetti',
+          style: 'destructive',
+          onPress: async () => {
+            if (isCurrent) {
+              await logout();
+              router.replace('/configuratore/landing');
+              return;
+            }
+            setRevokingId(item.id);
+            try {
+              await revokeSession(item.id);
+              setSessions((current) => current.filter((s) => s.id !== item.id));
+            } catch (error) {
+              console.warn('Failed to revoke session:', error);
+              Alert.alert('Errore', 'Impossibile disconnettere il dispositivo.');
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} accessibilityRole="button">
+          <Ionicons name="chevron-back" size={26} color={theme.colors.textPrimary} />
+        </Pressable>
+        <Text style={styles.title}>Dispositivi</Text>
+        <View style={{ width: 26 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={fetching} onRefresh={load} />}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.subtitle}>
+          Dispositivi con una sessione attiva su questo profilo. Le sessioni scadono
+          automaticamente; puoi disconnetterne una in qualsiasi momento.
+        </Text>
+
+        {fetching && sessions.length === 0 ? (
+          <ActivityIndicator color={theme.colors.primary} style={{ marginTop: 24 }} />
+        ) : sessions.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons name="devices" size={28} color={theme.colors.muted} />
+            <Text style={styles.emptyText}>Nessuna sessione attiva.</Text>
+          </View>
+        ) : (
+          sessions.map((item) => {
+            const isCurrent = item.id === sessionId;
+            return (
+              <View key={item.id} style={styles.card}>
+                <MaterialIcons
+                  name={platformIcon(item.platform)}
+                  size={24}
+                  color={theme.colors.primary}
+                />
+                <View style={styles.cardInfo}>
+                  <View style={styles.cardTitleRow}>
+                    <Text style={styles.cardTitle}>{item.deviceName}</Text>
+                    {isCurrent ? <Text style={styles.currentBadge}>Questo dispositivo</Text> : null}
+                  </View>
+                  <Text style={styles.cardMeta}>
+                    Ultimo accesso: {formatSessionDate(item.lastSeenAt)}
+                  </Text>
+                  <Text style={styles.cardMeta}>Scade il {formatSessionDate(item.expiresAt)}</Text>
+                </View>
+                <Pressable
+                  onPress={() => handleRevoke(item)}
+                  disabled={revokingId === item.id}
+                  accessibilityRole="button"
+                  style={styles.revokeButton}
+                >
+                  {revokingId === item.id ? (
+                    <ActivityIndicator color={theme.colors.danger} />
+                  ) : (
+                    <MaterialIcons name="logout" size={22} color={theme.colors.danger} />
+                  )}
+                </Pressable>
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    safeArea: { flex: 1, backgroundColor: t.colors.background },
+    header: { flexDirection: 'row', alignItems: 'center', padding: 16, gap: 12 },
+    title: { flex: 1, textAlign: 'center', fontSize: 18, fontWeight: '700', color: t.colors.textPrimary },
+    scrollContent: { padding: 16, paddingBottom: 120, gap: 12 },
+    subtitle: { fontSize: 14, color: t.colors.textSecondary, lineHeight: 20, marginBottom: 4 },
+    emptyState: { alignItems: 'center', gap: 8, paddingVertical: 32 },
+    emptyText: { fontSize: 14, color: t.colors.textSecondary },
+    card: { flexDirection: 'row', alignItems: 'center', gap: 12, backgroundColor: t.colors.surface, borderRadius: 16, padding: 16, borderWidth: 1, borderColor: t.colors.border },
+    cardInfo: { flex: 1, gap: 2 },
+    cardTitleRow: { flexDirection: 'row', alignItems: 'center', gap: 8, flexWrap: 'wrap' },
+    cardTitle: { fontSize: 15, fontWeight: '600', color: t.colors.textPrimary },
+    currentBadge: { fontSize: 12, fontWeight: '600', color: t.colors.success },
+    cardMeta: { fontSize: 13, color: t.colors.textSecondary },
+    revokeButton: { padding: 6 },
+  });
+
+export default DevicesScreen;
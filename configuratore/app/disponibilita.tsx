@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import {
+  isValidSlot,
+  toDateKey,
+  type AvailabilityException,
+  type AvailabilitySlot,
+  type WeeklyAvailabilitySlot,
+} from '../lib/availability';
+import { formatDateDigits, parseDateInput, WEEKDAY_LABELS, WEEKDAY_ORDER } from './job-series';
+import { useProfile } from './profile-context';
+import { useTheme, useThemedStyles } from './theme';
+
+const DEFAULT_SLOT: AvailabilitySlot = { from: '09:00', to: '18:00' };
+
+// Masks typed digits as HH:MM.
+const formatTimeDigits = (raw: string): string => {
+  const digits = raw.replace(/[^\d]/g, '').slice(0, 4);
+  return digits.length <= 2 ? digits : `${digits.slice(0, 2)}:${digits.slice(2)}`;
+};
+
+const formatExceptionDate = (dateKey: string) => {
+  const date = new Date(`${dateKey}T00:00:00`);
+  return Number.isNaN(date.getTime())
+    ? dateKey
+    : date.toLocaleDateString('it-IT', { weekday: 'short', day: '2-digit', month: '2-digit', year: 'numeric' });
+};
+
+const DisponibilitaScreen: React.FC = () => {
+  const router = useRouter();
+  const { profile, loading, updateAvailability } = useProfile();
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+
+  const [weekly, setWeekly] = useState<WeeklyAvailabilitySlot[]>([]);
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [exceptionDate, setExceptionDate] = useState('');
+  const [exceptionAvailable, setExceptionAvailable] = useState(false);
+  const [exceptionSlot, setExceptionSlot] = useState<AvailabilitySlot>(DEFAULT_SLOT);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (loading) return;
+    if (!profile) {
+      router.replace('/configuratore/landing');
+      return;
+    }
+    if (profile.role !== 'lavoratore') {
+      router.replace(`/configuratore/${profile.role}`);
+      return;
+    }
+    setWeekly(profile.availability?.weekly ?? []);
+    setExceptions(profile.availability?.exceptions ?? []);
+  }, [loading, profile, router]);
+
+  const updateWeeklySlot = (index: number, field: keyof AvailabilitySlot, value: string) => {
+    setWeekly((current) =>
+      current.map((slot, i) => (i === index ? { ...slot, [field]: formatTimeDigits(value) } : slot))
+    );
+  };
+
+  const handleAddException = () => {
+    const date = parseDateInput(exceptionDate);
+    if (!date) {
+      Alert.alert('Data non valida', 'Inserisci la data nel formato GG/MM/AAAA.');
+      return;
+    }
+    if (exceptionAvailable && !isValidSlot(exceptionSlot)) {
+      Alert.alert('Orario non valido', 'La fine della fascia deve essere dopo l\'inizio.');
+      return;
+    }
+    const key = toDateKey(date);
+    const entry: AvailabilityException = { date: key, slots: exceptionAvailable ? [exceptionSlot] : [] };
+    setExceptions((current) =>
+      [...current.filter((item) => item.date !== key), entry].sort((a, b) => a.date.localeCompare(b.date))
+    );
+    setExceptionDate('');
+  };
+
+  const handleSave = async () => {
+    if (saving) return;
+    if (weekly.some((slot) => !isValidSlot(slot))) {
+      Alert.alert('Orario non valido', 'Controlla le fasce: usa HH:MM e una fine successiva all\'inizio.');
+      return;
+    }
+    // Exceptions for days already gone are dropped.
+    const today = toDateKey(new Date());
+    setSaving(true);
+    try {
+      await updateAvailability({
+        weekly: [...weekly].sort(
+          (a, b) => WEEKDAY_ORDER.indexOf(a.day) - WEEKDAY_ORDER.indexOf(b.day) || a.from.localeCompare(b.from)
+        ),
+        exceptions: exceptions.filter((entry) => entry.date >= today),
+      });
+      Alert.alert('Disponibilità salvata', 'Gli incarichi compatibili saranno evidenziati nella home.');
+      router.back();
+    } catch (error) {
+      Alert.alert('Errore', (error as Error)?.message ?? 'Impossibile salvare la disponibilità.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!profile || profile.role !== 'lavoratore') {
+    return null;
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.headerRow}>
+          <Pressable style={styles.backBtn} onPress={() => router.back()}>
+            <Ionicons name="chevron-back" size={22} color={theme.colors.textPrimary} />
+            <Text style={styles.backText}>Indietro</Text>
+          </Pressable>
+          <Text style={styles.title}>Disponibilità</Text>
+          <View style={{ width: 24 }} />
+        </View>
+
+        <Text style={styles.hint}>
+          Indica quando puoi lavorare ogni settimana. I datori vedranno se sei disponibile
+          per l&apos;orario dei loro incarichi.
+        </Text>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Ogni settimana</Text>
+          {WEEKDAY_ORDER.map((day) => {
+            const slots = weekly
+              .map((slot, index) => ({ slot, index }))
+              .filter((entry) => entry.slot.day === day);
+            return (
+              <View key={day} style={styles.dayRow}>
+                <Text style={styles.dayLabel}>{WEEKDAY_LABELS[day]}</Text>
+                <View style={styles.daySlots}>
+                  {slots.length === 0 ? <Text style={styles.muted}>Non disponibile</Text> : null}
+                  {slots.map(({ slot, index }) => (
+                    <View key={index} style={styles.slotRow}>
+                      <TextInput
+                        style={[styles.timeInput, !isValidSlot(slot) && styles.inputError]}
+                        value={slot.from}
+                        onChangeText={(value) => updateWeeklySlot(index, 'from', value)}
+                        placeholder="HH:MM"
+                        keyboardType="number-pad"
+                        maxLength={5}
+                      />
+                      <Text style={styles.muted}>–</Text>
+                      <TextInput
+                        style={[styles.timeInput, !isValidSlot(slot) && styles.inputError]}
+                        value={slot.to}
+                        onChangeText={(value) => updateWeeklySlot(index, 'to', value)}
+                        placeholder="HH:MM"
+                        keyboardType="number-pad"
+                        maxLength={5}
+                      />
+                      <Pressable
+                        onPress={() => setWeekly((current) => current.filter((_, i) => i !== index))}
+                        accessibilityRole="button"
+                        accessibilityLabel="Rimuovi fascia"
+                      >
+                        <Ionicons name="close-circle-outline" size={22} color={theme.colors.danger} />
+                      </Pressable>
+                    </View>
+                  ))}
+                  <Pressable
+                    style={styles.inlineAction}
+                    onPress={() => setWeekly((current) => [...current, { day, ...DEFAULT_SLOT }])}
+                    accessibilityRole="button"
+                  >
+                    <Ionicons name="add" size={16} color={theme.colors.primary} />
+                    <Text style={styles.inlineActionText}>Aggiungi fascia</Text>
+                  </Pressable>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Eccezioni</Text>
+          <Text style={styles.hint}>
+            Per una data precisa sostituiscono le fasce settimanali: ferie, impegni o disponibilità extra.
+          </Text>
+          {exceptions.map((entry) => (
+            <View key={entry.date} style={styles.exceptionRow}>
+              <View style={styles.exceptionText}>
+                <Text style={styles.exceptionDate}>{formatExceptionDate(entry.date)}</Text>
+                <Text style={styles.muted}>
+                  {entry.slots.length === 0
+                    ? 'Non disponibile'
+                    : entry.slots.map((slot) => `${slot.from}–${slot.to}`).join(', ')}
+                </Text>
+              </View>
+              <Pressable
+                onPress={() => setExceptions((current) => current.filter((item) => item.date !== entry.date))}
+                accessibilityRole="button"
+                accessibilityLabel="Rimuovi eccezione"
+              >
+                <Ionicons name="trash-outline" size={20} color={theme.colors.danger} />
+              </Pressable>
+            </View>
+          ))}
+
+          <TextInput
+            style={styles.input}
+            value={exceptionDate}
+            onChangeText={(raw) => setExceptionDate(formatDateDigits(raw))}
+            placeholder="GG/MM/AAAA"
+            keyboardType="number-pad"
+            maxLength={10}
+          />
+          <View style={styles.chipRow}>
+            {[false, true].map((available) => (
+              <Pressable
+                key={String(available)}
+                style={[styles.chip, exceptionAvailable === available && styles.chipSelected]}
+                onPress={() => setExceptionAvailable(available)}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.chipLabel, exceptionAvailable === available && styles.chipLabelSelected]}>
+                  {available ? 'Solo in questa fascia' : 'Non disponibile'}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          {exceptionAvailable ? (
+            <View style={styles.slotRow}>
+              <TextInput
+                style={styles.timeInput}
+                value={exceptionSlot.from}
+                onChangeText={(value) => setExceptionSlot((current) => ({ ...current, from: formatTimeDigits(value) }))}
+                placeholder="HH:MM"
+                keyboardType="number-pad"
+                maxLength={5}
+              />
+              <Text style={styles.muted}>–</Text>
+              <TextInput
+                style={styles.timeInput}
+                value={exceptionSlot.to}
+                onChangeText={(value) => setExceptionSlot((current) => ({ ...current, to: formatTimeDigits(value) }))}
+                placeholder="HH:MM"
+                keyboardType="number-pad"
+                maxLength={5}
+              />
+            </View>
+          ) : null}
+          <Pressable style={styles.inlineAction} onPress={handleAddException} accessibilityRole="button">
+            <Ionicons name="add" size={16} color={theme.colors.primary} />
+            <Text style={styles.inlineActionText}>Aggiungi eccezione</Text>
+          </Pressable>
+        </View>
+
+        <Pressable
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+          accessibilityRole="button"
+        >
+          {saving ? (
+            <ActivityIndicator color={theme.colors.surface} />
+          ) : (
+            <Text style={styles.primaryButtonText}>Salva disponibilità</Text>
+          )}
+        </Pressable>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    safeArea: { flex: 1, backgroundColor: t.colors.background },
+    content: { paddingHorizontal: 24, paddingTop: 24, paddingBottom: 80, gap: 16 },
+    headerRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+    backBtn: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingVertical: 6, paddingHorizontal: 8 },
+    backText: { fontSize: 14, color: t.colors.textPrimary, fontWeight: '600' },
+    title: { fontSize: 20, fontWeight: '700', color: t.colors.textPrimary },
+    hint: { fontSize: 13, color: t.colors.textSecondary, lineHeight: 19 },
+    card: { backgroundColor: t.colors.surface, borderRadius: 18, padding: 16, gap: 12, borderWidth: 1, borderColor: t.colors.border },
+    sectionTitle: { fontSize: 16, fontWeight: '700', color: t.colors.textPrimary },
+    dayRow: { flexDirection: 'row', gap: 12, alignItems: 'flex-start' },
+    dayLabel: { width: 40, paddingTop: 8, fontSize: 14, fontWeight: '700', color: t.colors.textPrimary },
+    daySlots: { flex: 1, gap: 8 },
+    slotRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    timeInput: {
+      width: 76,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontSize: 14,
+      textAlign: 'center',
+      color: t.colors.textPrimary,
+      backgroundColor: t.colors.card,
+    },
+    inputError: { borderColor: t.colors.danger },
+    input: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: t.colors.textPrimary,
+      backgroundColor: t.colors.card,
+    },
+    muted: { fontSize: 13, color: t.colors.muted, paddingTop: 2 },
+    inlineAction: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+    inlineActionText: { fontSize: 13, fontWeight: '600', color: t.colors.primary },
+    exceptionRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    exceptionText: { flex: 1, gap: 2 },
+    exceptionDate: { fontSize: 14, fontWeight: '600', color: t.colors.textPrimary },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 20,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      backgroundColor: t.colors.surface,
+    },
+    chipSelected: { backgroundColor: t.colors.primary, borderColor: t.colors.primary },
+    chipLabel: { color: t.colors.primary, fontSize: 13, fontWeight: '600' },
+    chipLabelSelected: { color: t.colors.surface },
+    primaryButton: {
+      backgroundColor: t.colors.primary,
+      paddingVertical: 14,
+      borderRadius: 14,
+      alignItems: 'center',
+    },
+    primaryButtonText: { color: t.colors.surface, fontSize: 15, fontWeight: '700' },
+    buttonDisabled: { opacity: 0.6 },
+  });
+
+export default DisponibilitaScreen;
@@ -12,6 +12,8 @@ type HireBanner = {
   hireId: string;
   employerName: string;
   chatId?: string | null;
+  /** the employer edited time or pay of a confirmed hire */
+  reconfirm: boolean;
 };
 
 type HireNotificationContextValue = {
@@ -128,6 +130,7 @@ export const HireNotificationProvider = ({ children }: { children: ReactNode })
                 hireId: docSnap.id,
                 employerName: employerName || 'Un datore',
                 chatId,
+                reconfirm: data.jobChange?.reconfirm === true,
               };
             }
 
@@ -178,9 +181,15 @@ export const HireNotificationProvider = ({ children }: { children: ReactNode })
         <Pressable style={[styles.banner, { paddingTop: insets.top + 8 }]} onPress={handleBannerPress}>
           <View style={styles.bannerTextBlock}>
             <Text style={styles.bannerTitle}>
-              {banner.employerName} ti ha scelto per un incarico
+              {banner.reconfirm
+                ? `${banner.employerName} ha modificato un incarico`
+                : `${banner.employerName} ti ha scelto per un incarico`}
+            </Text>
+            <Text style={styles.bannerMessage}>
+              {banner.reconfirm
+                ? 'Apri le proposte per confermare di nuovo.'
+                : 'Apri le proposte per rispondere.'}
             </Text>
-            <Text style={styles.bannerMessage}>Apri le proposte per rispondere.</Text>
           </View>
         </Pressable>
       ) : null}
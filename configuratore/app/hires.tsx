@@ -75,7 +75,14 @@ const HiresEmployerScreen: React.FC = () => {
     }
     setLoadingHires(true);
     const hiresRef = collection(db, 'hires');
-    const q = query(hiresRef, where('employerUid', '==', uid), orderBy('updatedAt', 'desc'));
+    // Team members follow every hire of the business, not only their own proposals.
+    const q = query(
+      hiresRef,
+      profile?.businessId
+        ? where('businessId', '==', profile.businessId)
+        : where('employerUid', '==', uid),
+      orderBy('updatedAt', 'desc')
+    );
     const unsub = onSnapshot(
       q,
       (snap) => {
@@ -111,7 +118,7 @@ const HiresEmployerScreen: React.FC = () => {
       }
     );
     return () => unsub();
-  }, [uid]);
+  }, [uid, profile?.businessId]);
 
   useEffect(() => {
     let cancelled = false;
@@ -9,14 +9,39 @@ import { useProfile } from './profile-context';
 import { db } from '../lib/firebase';
 import { doc, onSnapshot } from 'firebase/firestore';
 import { useTheme, useThemedStyles } from './theme';
-import { deleteJobAndRelated } from '../lib/api';
+import {
+  JOB_STATUS_LABELS,
+  canChangeJobStatus,
+  deleteJobAndRelated,
+  setJobStatus,
+  type JobStatus,
+} from '../lib/api';
+
+type IncarichiView = 'attivi' | 'archivio';
+
+// Manual lifecycle actions; 'filled' and 'expired' follow from hires and time.
+const STATUS_ACTIONS: { status: JobStatus; label: (current: JobStatus) => string }[] = [
+  { status: 'published', label: (current) => (current === 'draft' ? 'Pubblica' : 'Riprendi') },
+  { status: 'paused', label: () => 'Metti in pausa' },
+  { status: 'closed', label: () => 'Chiudi' },
+];
+
+const formatPublishAt = (iso: string) =>
+  new Date(iso).toLocaleString('it-IT', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
 
 const IncarichiScreen: React.FC = () => {
   const router = useRouter();
-  const { profile, incarichi, loading } = useProfile();
+  const { profile, incarichi, archivedIncarichi, loading } = useProfile();
   const { theme } = useTheme();
   const styles = useThemedStyles((t) => createStyles(t));
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [view, setView] = useState<IncarichiView>('attivi');
+  const [statusBusyId, setStatusBusyId] = useState<string | null>(null);
 
   useEffect(() => {
     if (loading) {
@@ -27,18 +52,49 @@ const IncarichiScreen: React.FC = () => {
     }
   }, [loading, profile, router]);
 
-  const sortedIncarichi = useMemo(
-    () =>
-      [...incarichi].sort((a, b) => {
-        const aDate = new Date(`${a.data}T${a.oraInizio}:00`).getTime();
-        const bDate = new Date(`${b.data}T${b.oraInizio}:00`).getTime();
-        if (Number.isNaN(aDate) || Number.isNaN(bDate)) {
-          return 0;
-        }
-        return aDate - bDate;
-      }),
-    [incarichi]
-  );
+  const sortedIncarichi = useMemo(() => {
+    const source = view === 'attivi' ? incarichi : archivedIncarichi;
+    // Upcoming jobs soonest first, the archive most recent first.
+    const direction = view === 'attivi' ? 1 : -1;
+    return [...source].sort((a, b) => {
+      const aDate = new Date(`${a.data}T${a.oraInizio}:00`).getTime();
+      const bDate = new Date(`${b.data}T${b.oraInizio}:00`).getTime();
+      if (Number.isNaN(aDate) || Number.isNaN(bDate)) {
+        return 0;
+      }
+      return (aDate - bDate) * direction;
+    });
+  }, [incarichi, archivedIncarichi, view]);
+
+  const handleChangeStatus = (jobId: string, next: JobStatus) => {
+    if (statusBusyId) {
+      return;
+    }
+    const apply = async () => {
+      try {
+        setStatusBusyId(jobId);
+        await setJobStatus(jobId, next);
+      } catch (error) {
+        const message =
+          (error as Error)?.message ?? "Non e' stato possibile aggiornare l'incarico.";
+        Alert.alert('Errore', message);
+      } finally {
+        setStatusBusyId(null);
+      }
+    };
+    if (next !== 'closed') {
+      void apply();
+      return;
+    }
+    Alert.alert(
+      'Chiudi incarico',
+      "L'annuncio non riceverà più candidature e passerà nell'archivio.",
+      [
+        { text: 'Annulla', style: 'cancel' },
+        { text: 'Chiudi', style: 'destructive', onPress: () => void apply() },
+      ]
+    );
+  };
 
   const handleDeleteJob = (jobId: string) => {
     if (deletingId) {
@@ -74,6 +130,14 @@ const IncarichiScreen: React.FC = () => {
   }
 
   const isDatore = profile.role === 'datore';
+  const statusColors: Record<JobStatus, string> = {
+    draft: theme.colors.muted,
+    published: theme.colors.success,
+    paused: theme.colors.textSecondary,
+    filled: theme.colors.primary,
+    closed: theme.colors.textPrimary,
+    expired: theme.colors.danger,
+  };
 
   const ApplicantsCount = ({ jobId }: { jobId: string }) => {
     const [count, setCount] = React.useState<number>(0);
@@ -107,15 +171,43 @@ const IncarichiScreen: React.FC = () => {
             : 'Qui troverai gli incarichi assegnati al tuo profilo lavoratore.'}
         </Text>
 
+        {isDatore ? (
+          <View style={styles.segmented}>
+            {(['attivi', 'archivio'] as const).map((option) => (
+              <Pressable
+                key={option}
+                style={[styles.segment, view === option && styles.segmentActive]}
+                onPress={() => setView(option)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: view === option }}
+              >
+                <Text style={[styles.segmentText, view === option && styles.segmentTextActive]}>
+                  {option === 'attivi' ? 'Attivi' : `Archivio (${archivedIncarichi.length})`}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        ) : null}
+
         {isDatore ? (
           sortedIncarichi.length === 0 ? (
-            <View style={styles.emptyState}>
-              <Ionicons name="clipboard-outline" size={42} color={theme.colors.muted} />
-              <Text style={styles.emptyTitle}>Ancora nessun incarico</Text>
-              <Text style={styles.emptyText}>
-                Crea un nuovo incarico dalla pagina principale per iniziare a organizzare le tue attività.
-              </Text>
-            </View>
+            view === 'archivio' ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="archive-outline" size={42} color={theme.colors.muted} />
+                <Text style={styles.emptyTitle}>Archivio vuoto</Text>
+                <Text style={styles.emptyText}>
+                  Qui troverai gli incarichi conclusi, chiusi o scaduti.
+                </Text>
+              </View>
+            ) : (
+              <View style={styles.emptyState}>
+                <Ionicons name="clipboard-outline" size={42} color={theme.colors.muted} />
+                <Text style={styles.emptyTitle}>Ancora nessun incarico</Text>
+                <Text style={styles.emptyText}>
+                  Crea un nuovo incarico dalla pagina principale per iniziare a organizzare le tue attività.
+                </Text>
+              </View>
+            )
           ) : (
             sortedIncarichi.map((incarico) => {
               const titolo =
@@ -128,6 +220,11 @@ const IncarichiScreen: React.FC = () => {
                 maximumFractionDigits: 2,
               });
               const isDeleting = deletingId === incarico.id;
+              const jobStatus = incarico.jobStatus ?? 'published';
+              const statusActions =
+                view === 'attivi'
+                  ? STATUS_ACTIONS.filter((action) => canChangeJobStatus(jobStatus, action.status))
+                  : [];
 
               return (
                 <Pressable
@@ -136,7 +233,12 @@ const IncarichiScreen: React.FC = () => {
                   onPress={() => router.push(`/configuratore/job?jobId=${encodeURIComponent(incarico.id)}`)}
                 >
                   <View style={styles.cardHeader}>
-                    <Text style={styles.cardTitle}>{titolo}</Text>
+                    <View style={styles.titleRow}>
+                      <Text style={styles.cardTitle}>{titolo}</Text>
+                      <View style={[styles.statusBadge, { backgroundColor: statusColors[jobStatus] }]}>
+                        <Text style={styles.statusBadgeText}>{JOB_STATUS_LABELS[jobStatus]}</Text>
+                      </View>
+                    </View>
                     <Text style={styles.cardDate}>
                       {incarico.data} · {incarico.oraInizio} - {incarico.oraFine}
                     </Text>
@@ -163,23 +265,65 @@ const IncarichiScreen: React.FC = () => {
                     <MaterialIcons name="notes" size={16} color="#475569" />
                     <Text style={styles.descriptionText}>{incarico.descrizione}</Text>
                   </View>
+                  {jobStatus === 'draft' && incarico.publishAt ? (
+                    <View style={styles.row}>
+                      <Ionicons name="time-outline" size={16} color={theme.colors.primary} />
+                      <Text style={styles.rowText}>
+                        Pubblicazione programmata: {formatPublishAt(incarico.publishAt)}
+                      </Text>
+                    </View>
+                  ) : null}
                   <ApplicantsCount jobId={incarico.id} />
-                  <Pressable
-                    style={({ pressed }) => [
-                      styles.deleteButton,
-                      pressed && styles.deleteButtonPressed,
-                      isDeleting && styles.deleteButtonDisabled,
-                    ]}
-                    onPress={() => handleDeleteJob(incarico.id)}
-                    accessibilityRole="button"
-                    accessibilityLabel="Elimina incarico"
-                    disabled={isDeleting}
-                  >
-                    <Ionicons name="trash-outline" size={16} color={theme.colors.danger} />
-                    <Text style={styles.deleteButtonText}>
-                      {isDeleting ? 'Eliminazione...' : 'Elimina incarico'}
-                    </Text>
-                  </Pressable>
+                  {statusActions.length > 0 ? (
+                    <View style={styles.statusActions}>
+                      {statusActions.map((action) => (
+                        <Pressable
+                          key={action.status}
+                          style={({ pressed }) => [
+                            styles.statusButton,
+                            pressed && styles.deleteButtonPressed,
+                            statusBusyId === incarico.id && styles.deleteButtonDisabled,
+                          ]}
+                          onPress={() => handleChangeStatus(incarico.id, action.status)}
+                          disabled={statusBusyId === incarico.id}
+                          accessibilityRole="button"
+                        >
+                          <Text style={styles.statusButtonText}>{action.label(jobStatus)}</Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  ) : null}
+                  <View style={styles.cardActions}>
+                    <Pressable
+                      style={({ pressed }) => [styles.duplicateButton, pressed && styles.deleteButtonPressed]}
+                      onPress={() =>
+                        router.push(
+                          `/configuratore/nuovo-incarico?duplicateFrom=${encodeURIComponent(incarico.id)}`
+                        )
+                      }
+                      accessibilityRole="button"
+                      accessibilityLabel="Duplica incarico"
+                    >
+                      <Ionicons name="copy-outline" size={16} color={theme.colors.primary} />
+                      <Text style={styles.statusButtonText}>Duplica</Text>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.deleteButton,
+                        pressed && styles.deleteButtonPressed,
+                        isDeleting && styles.deleteButtonDisabled,
+                      ]}
+                      onPress={() => handleDeleteJob(incarico.id)}
+                      accessibilityRole="button"
+                      accessibilityLabel="Elimina incarico"
+                      disabled={isDeleting}
+                    >
+                      <Ionicons name="trash-outline" size={16} color={theme.colors.danger} />
+                      <Text style={styles.deleteButtonText}>
+                        {isDeleting ? 'Eliminazione...' : 'Elimina incarico'}
+                      </Text>
+                    </Pressable>
+                  </View>
                 </Pressable>
               );
             })
@@ -258,7 +402,14 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) => StyleSheet.cre
   cardHeader: {
     gap: 4,
   },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
   cardTitle: {
+    flexShrink: 1,
     fontSize: 18,
     fontWeight: '700',
     color: t.colors.textPrimary,
@@ -310,6 +461,72 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) => StyleSheet.cre
     fontWeight: '600',
     color: t.colors.danger,
   },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: t.colors.border,
+    borderRadius: 12,
+    padding: 4,
+    gap: 4,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  segmentActive: {
+    backgroundColor: t.colors.surface,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: t.colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: t.colors.textPrimary,
+  },
+  statusBadge: {
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: t.colors.surface,
+  },
+  statusActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  duplicateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: t.colors.primary,
+  },
+  statusButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: t.colors.primary,
+  },
+  statusButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: t.colors.primary,
+  },
   countPill: {
     alignSelf: 'flex-start',
     backgroundColor: t.colors.border,
@@ -269,6 +269,10 @@ const ConfiguratoreScreen: React.FC = () => {
           Alert.alert('Username non disponibile', 'Scegli un altro username.');
         } else if (code === 'profile/username-required') {
           Alert.alert('Errore', 'Inserisci un username valido (min 3 caratteri).');
+        } else if (code === 'auth/email-already-in-use') {
+          Alert.alert('Account esistente', 'Esiste già un account con queste credenziali. Accedi dalla schermata di login.');
+        } else if (code === 'auth/requires-recent-login') {
+          Alert.alert('Accesso richiesto', 'Per cambiare la password esci e accedi di nuovo.');
         } else {
           const msg = (e && (e as any).message) ? (e as any).message : String(e);
           Alert.alert('Errore', `Impossibile salvare il profilo su cloud.\n${msg}`);
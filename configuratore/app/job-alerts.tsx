@@ -0,0 +1,289 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { Pressable, StyleSheet, Text, View, Vibration } from 'react-native';
+import { usePathname, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import {
+  collection,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  startAfter,
+  Timestamp,
+  where,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+
+import { db, ensureSignedIn } from '../lib/firebase';
+import {
+  getJobStatus,
+  JOB_ALERT_CATCH_UP_MS,
+  listSavedSearches,
+  markJobAlertOpened,
+  markSavedSearchesChecked,
+  matchesSavedSearch,
+  recordJobAlert,
+  subscribeToJobAlerts,
+  type JobAlert,
+  type SavedSearch,
+} from '../lib/api';
+import { useProfile } from './profile-context';
+import { useTheme, useThemedStyles } from './theme';
+
+// Jobs are matched by publishedAt, so drafts and scheduled jobs alert once they go live.
+// The catch-up reads in pages of this size; the live listener follows at most this many.
+const NEW_JOBS_PAGE_SIZE = 100;
+
+type JobAlertContextValue = {
+  /** avvisi non ancora aperti, dal più recente */
+  alerts: JobAlert[];
+  savedSearches: SavedSearch[];
+  /** da chiamare dopo aver creato, modificato o eliminato una ricerca */
+  reloadSavedSearches: () => Promise<void>;
+  /** segna l'avviso come aperto e mostra l'incarico */
+  openAlert: (alert: Pick<JobAlert, 'id' | 'jobId'>) => void;
+};
+
+const JobAlertContext = createContext<JobAlertContextValue | undefined>(undefined);
+
+export const JobAlertProvider = ({ children }: { children: ReactNode }) => {
+  const { profile } = useProfile();
+  const styles = useThemedStyles((t) => createStyles(t));
+  const router = useRouter();
+  const pathname = usePathname();
+  const insets = useSafeAreaInsets();
+
+  const [banner, setBanner] = useState<JobAlert | null>(null);
+  const [alerts, setAlerts] = useState<JobAlert[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const seenJobsRef = useRef<Set<string>>(new Set());
+  // Read inside the jobs listener, which should not restart on every navigation.
+  const pathnameRef = useRef(pathname);
+  pathnameRef.current = pathname;
+
+  const profileId = profile?.role === 'lavoratore' ? profile.profileId : null;
+
+  const reloadSavedSearches = useCallback(async () => {
+    if (!profileId) {
+      setSavedSearches([]);
+      return;
+    }
+    try {
+      setSavedSearches(await listSavedSearches(profileId));
+    } catch (error) {
+      console.warn('[ALERT_DEBUG] Failed to load saved searches:', error);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!profileId) {
+      setBanner(null);
+      setAlerts([]);
+      setSavedSearches([]);
+      seenJobsRef.current = new Set();
+      return;
+    }
+
+    let cancelled = false;
+    let unsubscribe: (() => void) | null = null;
+
+    void reloadSavedSearches();
+    ensureSignedIn()
+      .then((uid) => {
+        if (cancelled) return;
+        unsubscribe = subscribeToJobAlerts(uid, profileId, setAlerts);
+      })
+      .catch((error) => console.warn('[ALERT_DEBUG] Job alerts auth error:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [profileId, reloadSavedSearches]);
+
+  useEffect(() => {
+    if (!profileId || savedSearches.length === 0) return;
+
+    // Catch up on what was published since the oldest check, within a week.
+    const now = Date.now();
+    const lastChecked = Math.min(
+      ...savedSearches.map((search) => search.lastCheckedAt?.getTime() ?? now)
+    );
+    const since = new Date(Math.max(lastChecked, now - JOB_ALERT_CATCH_UP_MS));
+    const checkedUntil = new Date(now);
+    const jobsCol = collection(db, 'jobs');
+
+    let cancelled = false;
+    let recheckTimer: ReturnType<typeof setTimeout> | null = null;
+    // Scheduled jobs seen before their publishAt, evaluated again once it passes.
+    const scheduled = new Map<string, QueryDocumentSnapshot>();
+
+    const showBanner = (alert: JobAlert) => {
+      if (pathnameRef.current?.includes('/configuratore/avvisi')) return;
+      if (timerRef.current) clearTimeout(timerRef.current);
+      setBanner(alert);
+      Vibration.vibrate(200);
+      timerRef.current = setTimeout(() => setBanner(null), 4000);
+    };
+
+    // Returns the newest alert recorded; a job counts as seen only once it is published.
+    const evaluate = async (docs: QueryDocumentSnapshot[]): Promise<JobAlert | null> => {
+      const nowDate = new Date();
+      let latest: JobAlert | null = null;
+      for (const docSnap of docs) {
+        if (cancelled || seenJobsRef.current.has(docSnap.id)) continue;
+        const job = docSnap.data() ?? {};
+        if (getJobStatus(job, nowDate) !== 'published') {
+          if (job.status === 'draft' && job.publishAt instanceof Timestamp) {
+            scheduled.set(docSnap.id, docSnap);
+          }
+          continue;
+        }
+        scheduled.delete(docSnap.id);
+        seenJobsRef.current.add(docSnap.id);
+        for (const search of savedSearches) {
+          if (!matchesSavedSearch(search, job, nowDate)) continue;
+          try {
+            const alert = await recordJobAlert(profileId, search, docSnap);
+            if (alert) latest = alert;
+          } catch (error) {
+            console.warn('[ALERT_DEBUG] Failed to record job alert:', error);
+          }
+        }
+      }
+      scheduleRecheck();
+      return latest;
+    };
+
+    const scheduleRecheck = () => {
+      if (recheckTimer) clearTimeout(recheckTimer);
+      recheckTimer = null;
+      const next = Math.min(
+        ...[...scheduled.values()].map((docSnap) => (docSnap.data().publishAt as Timestamp).toMillis())
+      );
+      if (cancelled || !Number.isFinite(next)) return;
+      recheckTimer = setTimeout(() => {
+        void evaluate([...scheduled.values()]).then((latest) => {
+          if (latest && !cancelled) showBanner(latest);
+        });
+      }, Math.max(next - Date.now(), 0) + 1000);
+    };
+
+    const catchUp = async () => {
+      let last = null as QueryDocumentSnapshot | null;
+      while (!cancelled) {
+        const snap = await getDocs(
+          query(
+            jobsCol,
+            where('publishedAt', '>=', Timestamp.fromDate(since)),
+            where('publishedAt', '<=', Timestamp.fromDate(checkedUntil)),
+            orderBy('publishedAt', 'asc'),
+            ...(last ? [startAfter(last)] : []),
+            limit(NEW_JOBS_PAGE_SIZE)
+          )
+        );
+        // Jobs found while catching up only land in the inbox.
+        await evaluate(snap.docs);
+        if (snap.docs.length < NEW_JOBS_PAGE_SIZE) break;
+        last = snap.docs[snap.docs.length - 1];
+      }
+      if (cancelled) return;
+      await markSavedSearchesChecked(
+        savedSearches.map((search) => search.id),
+        checkedUntil
+      );
+    };
+
+    catchUp().catch((error) => console.warn('[ALERT_DEBUG] Job alerts catch-up failed:', error));
+
+    const unsubscribe = onSnapshot(
+      query(
+        jobsCol,
+        where('publishedAt', '>', Timestamp.fromDate(checkedUntil)),
+        orderBy('publishedAt', 'asc'),
+        limit(NEW_JOBS_PAGE_SIZE)
+      ),
+      async (snap) => {
+        const latest = await evaluate(snap.docs);
+        if (latest && !cancelled) showBanner(latest);
+      },
+      (error) => {
+        console.warn('[ALERT_DEBUG] New jobs listener error:', error);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      if (recheckTimer) clearTimeout(recheckTimer);
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [profileId, savedSearches]);
+
+  const openAlert = useCallback(
+    (alert: Pick<JobAlert, 'id' | 'jobId'>) => {
+      markJobAlertOpened(alert.id).catch((error) =>
+        console.warn('[ALERT_DEBUG] Failed to mark alert as opened:', error)
+      );
+      router.push({ pathname: '/configuratore/lavoratore', params: { jobId: alert.jobId } });
+    },
+    [router]
+  );
+
+  const handleBannerPress = useCallback(() => {
+    if (!banner) return;
+    openAlert(banner);
+    setBanner(null);
+  }, [banner, openAlert]);
+
+  return (
+    <JobAlertContext.Provider value={{ alerts, savedSearches, reloadSavedSearches, openAlert }}>
+      {children}
+      {banner ? (
+        <Pressable style={[styles.banner, { paddingTop: insets.top + 8 }]} onPress={handleBannerPress}>
+          <View style={styles.bannerTextBlock}>
+            <Text style={styles.bannerTitle}>Nuovo incarico per «{banner.searchName}»</Text>
+            <Text style={styles.bannerMessage}>
+              {[banner.title, banner.citta].filter((v) => v).join(' · ')}. Tocca per vederlo.
+            </Text>
+          </View>
+        </Pressable>
+      ) : null}
+    </JobAlertContext.Provider>
+  );
+};
+
+export const useJobAlerts = () => {
+  const ctx = useContext(JobAlertContext);
+  if (!ctx) throw new Error('useJobAlerts must be used within JobAlertProvider');
+  return ctx;
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    banner: {
+      position: 'absolute',
+      left: 12,
+      right: 12,
+      top: 0,
+      borderRadius: 12,
+      backgroundColor: t.colors.surface,
+      borderWidth: 1,
+      borderColor: t.colors.primary,
+      paddingHorizontal: 14,
+      paddingBottom: 12,
+      paddingTop: 10,
+      shadowColor: t.colors.shadow,
+      shadowOpacity: 0.18,
+      shadowRadius: 12,
+      shadowOffset: { width: 0, height: 6 },
+      elevation: 6,
+      gap: 4,
+    },
+    bannerTextBlock: { gap: 4 },
+    bannerTitle: { fontSize: 14, fontWeight: '700', color: t.colors.textPrimary },
+    bannerMessage: { fontSize: 13, color: t.colors.textSecondary },
+  });
@@ -0,0 +1,140 @@
+import type { JobOccurrence } from '../lib/api';
+
+export type JobShift = {
+  oraInizio: string;
+  oraFine: string;
+};
+
+export type JobRecurrence = {
+  /** giorni della settimana come Date.getDay(): 0 = domenica, 6 = sabato */
+  weekdays: number[];
+  /** ultimo giorno della serie, GG/MM/AAAA */
+  endDate: string;
+};
+
+export type JobSchedule = {
+  shifts: JobShift[];
+  recurrence?: JobRecurrence;
+};
+
+export const WEEKDAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab'];
+
+// Monday first, as on Italian calendars.
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const parseDateInput = (value: string): Date | null => {
+  const match = /^([0-3]\d)[/.-]([0-1]\d)[/.-](\d{4})$/.exec(value.trim());
+  if (!match) return null;
+  const [, dd, mm, yyyy] = match;
+  const day = Number(dd);
+  const month = Number(mm) - 1;
+  const year = Number(yyyy);
+  const d = new Date(year, month, day);
+  if (d.getFullYear() !== year || d.getMonth() !== month || d.getDate() !== day) return null;
+  return d;
+};
+
+// Masks typed digits as GG/MM/AAAA.
+export const formatDateDigits = (raw: string): string => {
+  const digits = raw.replace(/[^\d]/g, '').slice(0, 8);
+  if (digits.length <= 2) return digits;
+  if (digits.length <= 4) return `${digits.slice(0, 2)}/${digits.slice(2)}`;
+  return `${digits.slice(0, 2)}/${digits.slice(2, 4)}/${digits.slice(4)}`;
+};
+
+export const formatDateInput = (date: Date): string =>
+  `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+
+const toMinutes = (value: string): number | null => {
+  const match = /^([0-2]\d):([0-5]\d)$/.exec(value.trim());
+  if (!match) return null;
+  const hour = Number(match[1]);
+  if (hour > 23) return null;
+  return hour * 60 + Number(match[2]);
+};
+
+const occurrenceStart = (day: Date, shift: JobShift): Date => {
+  const minutes = toMinutes(shift.oraInizio) ?? 0;
+  const start = new Date(day);
+  start.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return start;
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Restituisce un messaggio se i turni non sono validi: orari mancanti,
+ * fine uguale all'inizio o turni sovrapposti. Un turno che finisce prima
+ * dell'inizio prosegue il giorno dopo.
+ */
+export const validateShifts = (shifts: JobShift[]): string | null => {
+  if (shifts.length === 0) return 'Aggiungi almeno un turno.';
+  const ranges: [number, number][] = [];
+  for (const shift of shifts) {
+    const start = toMinutes(shift.oraInizio);
+    const end = toMinutes(shift.oraFine);
+    if (start === null || end === null) return 'Seleziona inizio e fine di ogni turno.';
+    if (end === start) return "L'orario di fine deve essere diverso dall'inizio.";
+    ranges.push([start, end < start ? end + MINUTES_PER_DAY : end]);
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  for (let i = 1; i < ranges.length; i += 1) {
+    if (ranges[i][0] < ranges[i - 1][1]) return 'I turni non possono sovrapporsi.';
+  }
+  // An overnight shift must end before the first shift of the next day.
+  if (ranges[ranges.length - 1][1] > ranges[0][0] + MINUTES_PER_DAY) {
+    return 'I turni non possono sovrapporsi.';
+  }
+  return null;
+};
+
+/**
+ * Espande data iniziale, turni e ricorrenza nei singoli incarichi da
+ * pubblicare, in ordine cronologico. Gli slot già iniziati vengono saltati.
+ */
+export const expandJobSchedule = (
+  startDate: string,
+  schedule: JobSchedule,
+  now: Date = new Date()
+): JobOccurrence[] => {
+  const first = parseDateInput(startDate);
+  if (!first || validateShifts(schedule.shifts)) return [];
+
+  const days: Date[] = [];
+  if (!schedule.recurrence) {
+    days.push(first);
+  } else {
+    const last = parseDateInput(schedule.recurrence.endDate);
+    if (!last || last < first) return [];
+    const weekdays =
+      schedule.recurrence.weekdays.length > 0 ? schedule.recurrence.weekdays : [first.getDay()];
+    for (let day = new Date(first); day <= last; day.setDate(day.getDate() + 1)) {
+      if (weekdays.includes(day.getDay())) days.push(new Date(day));
+    }
+  }
+
+  const shifts = [...schedule.shifts].sort(
+    (a, b) => (toMinutes(a.oraInizio) ?? 0) - (toMinutes(b.oraInizio) ?? 0)
+  );
+  const occurrences: JobOccurrence[] = [];
+  for (const day of days) {
+    for (const shift of shifts) {
+      const startAt = occurrenceStart(day, shift);
+      if (startAt <= now) continue;
+      occurrences.push({
+        data: formatDateInput(day),
+        oraInizio: shift.oraInizio,
+        oraFine: shift.oraFine,
+        startAt,
+      });
+    }
+  }
+  return occurrences;
+};
+
+export const describeRecurrence = (recurrence: JobRecurrence): string => {
+  const days = WEEKDAY_ORDER.filter((day) => recurrence.weekdays.includes(day)).map(
+    (day) => WEEKDAY_LABELS[day]
+  );
+  return `Ogni ${days.join(', ')} fino al ${recurrence.endDate}`;
+};
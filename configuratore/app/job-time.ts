@@ -1,3 +1,9 @@
+import {
+  checkAvailability,
+  type AvailabilityMatch,
+  type WorkerAvailability,
+} from '../lib/availability';
+
 export const getJobStartDate = (job: Record<string, any>): Date | null => {
   if (!job || typeof job !== 'object') return null;
 
@@ -81,3 +87,33 @@ export const isJobPast = (job: Record<string, any>, now: Date = new Date()): boo
   if (!start) return false;
   return start.getTime() < now.getTime();
 };
+
+// A job without an end time is assumed to last this long.
+const DEFAULT_JOB_DURATION_MS = 60 * 60 * 1000;
+
+/** Fine dell'incarico da oraFine; se non è dopo l'inizio, finisce il giorno dopo. */
+export const getJobEndDate = (job: Record<string, any>): Date | null => {
+  const start = getJobStartDate(job);
+  if (!start) return null;
+  const timeRaw =
+    (typeof job.oraFine === 'string' ? job.oraFine : null) ??
+    (typeof job.endTime === 'string' ? job.endTime : null) ??
+    (typeof job.jobEndTime === 'string' ? job.jobEndTime : null);
+  const match = timeRaw ? /^(\d{1,2}):(\d{2})/.exec(timeRaw.trim()) : null;
+  if (!match) return new Date(start.getTime() + DEFAULT_JOB_DURATION_MS);
+  const end = new Date(start);
+  end.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  if (end.getTime() <= start.getTime()) end.setDate(end.getDate() + 1);
+  return end;
+};
+
+/** Confronta l'orario dell'incarico con la disponibilità del lavoratore. */
+export const getJobAvailability = (
+  availability: WorkerAvailability | null | undefined,
+  job: Record<string, any>
+): AvailabilityMatch => {
+  const start = getJobStartDate(job);
+  const end = getJobEndDate(job);
+  if (!start || !end) return 'unknown';
+  return checkAvailability(availability, start, end);
+};
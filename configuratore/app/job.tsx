@@ -5,6 +5,7 @@ import {
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   View,
   Pressable,
 } from 'react-native';
@@ -14,9 +15,64 @@ import { Ionicons } from '@expo/vector-icons';
 import { auth, db, ensureSignedIn } from '../lib/firebase';
 import { collection, doc, getDoc, getDocs, limit, onSnapshot, query, where } from 'firebase/firestore';
 import { useTheme, useThemedStyles } from './theme';
-import { createHireProposal, deleteJobAndRelated, getJobOwnerUid, getOrCreateChat } from '../lib/api';
+import {
+  cancelJobSeries,
+  createHireProposal,
+  deleteJobAndRelated,
+  getCandidateNote,
+  getHireSlots,
+  getJobOwnerUid,
+  getCompletedHiresCount,
+  getOrCreateChat,
+  getPipelineStage,
+  isJobCategory,
+  MANUAL_PIPELINE_STAGES,
+  MAX_CANDIDATE_NOTE_LENGTH,
+  normalizeScreeningAnswers,
+  PIPELINE_STAGE_LABELS,
+  PIPELINE_STAGES,
+  rejectApplication,
+  rejectRemainingApplications,
+  saveCandidateNote,
+  setApplicationPipelineStage,
+  summarizeJobSlots,
+  updateJobSeries,
+  withdrawApplication,
+  type HireSlot,
+  type JobSlotSummary,
+  type ManualPipelineStage,
+  type PipelineStage,
+  type ScreeningAnswer,
+} from '../lib/api';
+import { normalizeAvailability, type AvailabilityMatch, type WorkerAvailability } from '../lib/availability';
+import { computeMatchScore, type MatchJob, type MatchScore } from '../lib/match-score';
+import { describeRecurrence } from './job-series';
+import { getJobAvailability } from './job-time';
 import { useProfile } from './profile-context';
 
+type JobSeriesInfo = {
+  id: string;
+  label: string;
+  descrizione: string;
+  compensoOrario: number;
+};
+
+const describeSeries = (data: Record<string, any>): string => {
+  const recurrence = data.recurrence as Record<string, unknown> | undefined;
+  if (
+    recurrence &&
+    Array.isArray(recurrence.weekdays) &&
+    recurrence.weekdays.length > 0 &&
+    typeof recurrence.endDate === 'string'
+  ) {
+    return describeRecurrence({
+      weekdays: recurrence.weekdays.filter((d): d is number => typeof d === 'number'),
+      endDate: recurrence.endDate,
+    });
+  }
+  return typeof data.seriesSize === 'number' ? `Serie di ${data.seriesSize} turni` : 'Serie di turni';
+};
+
 type ApplicantProfile = {
   profileId: string;
   uid?: string;
@@ -34,7 +90,29 @@ type ApplicantProfile = {
     certifications?: string[];
     degrees?: string[];
     experiences?: string[];
+    area?: { label: string; lat: number; lng: number };
   };
+  availability?: WorkerAvailability;
+  /** incarichi completati, per il punteggio di compatibilità */
+  completedHires?: number;
+  /** messaggio e risposte alle domande inviati con la candidatura */
+  coverLetter?: string;
+  screeningAnswers?: ScreeningAnswer[];
+  /** fase nella bacheca del datore */
+  pipelineStage?: PipelineStage;
+};
+
+type ApplicantFilter = 'all' | 'available' | 'strong';
+
+type ApplicantSort = 'score' | 'applied';
+
+// Minimum match score for the "Più compatibili" filter.
+const STRONG_MATCH_SCORE = 60;
+
+const availabilityLabels: Record<AvailabilityMatch, string> = {
+  available: 'Disponibile in questo orario',
+  unavailable: 'Non disponibile in questo orario',
+  unknown: 'Disponibilità non indicata',
 };
 
 const JobApplicantsPage: React.FC = () => {
@@ -43,18 +121,37 @@ const JobApplicantsPage: React.FC = () => {
   const jobId = Array.isArray(raw) ? raw[0] : raw;
   const { theme } = useTheme();
   const styles = useThemedStyles((t) => createStyles(t));
-  const { profile } = useProfile();
+  const { profile, applications } = useProfile();
 
   const [loading, setLoading] = useState(true);
   const [jobTitle, setJobTitle] = useState<string>('Dettagli incarico');
   const [profiles, setProfiles] = useState<ApplicantProfile[]>([]);
   const [ownerProfileId, setOwnerProfileId] = useState<string | null>(null);
-  const [hireStatus, setHireStatus] = useState<string>('open');
+  const [slotSummary, setSlotSummary] = useState<JobSlotSummary>(() => summarizeJobSlots(null));
+  const [hireSlots, setHireSlots] = useState<HireSlot[]>([]);
   const [hireSubmittingId, setHireSubmittingId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [withdrawing, setWithdrawing] = useState(false);
   const [jobOwnerUid, setJobOwnerUid] = useState<string | null>(null);
   const [jobOwnerFields, setJobOwnerFields] = useState<Record<string, string | null>>({});
   const [deleteSubmitting, setDeleteSubmitting] = useState(false);
   const [canDelete, setCanDelete] = useState(false);
+  const [series, setSeries] = useState<JobSeriesInfo | null>(null);
+  const [jobTiming, setJobTiming] = useState<Record<string, unknown> | null>(null);
+  const [applicantFilter, setApplicantFilter] = useState<ApplicantFilter>('all');
+  const [applicantSort, setApplicantSort] = useState<ApplicantSort>('score');
+  const [matchJob, setMatchJob] = useState<MatchJob | null>(null);
+  const [expandedScoreId, setExpandedScoreId] = useState<string | null>(null);
+  const [stageUpdatingId, setStageUpdatingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+  const [savingNoteId, setSavingNoteId] = useState<string | null>(null);
+  const [bulkRejecting, setBulkRejecting] = useState(false);
+  const [showRejected, setShowRejected] = useState(false);
+  const [seriesEditing, setSeriesEditing] = useState(false);
+  const [seriesCompenso, setSeriesCompenso] = useState('');
+  const [seriesDescrizione, setSeriesDescrizione] = useState('');
+  const [seriesBusy, setSeriesBusy] = useState(false);
 
   useEffect(() => {
     if (!jobId) {
@@ -83,14 +180,57 @@ const JobApplicantsPage: React.FC = () => {
           userId: typeof (data as any)?.userId === 'string' ? (data as any).userId : null,
           createdByUid: typeof (data as any)?.createdByUid === 'string' ? (data as any).createdByUid : null,
         };
-        const ids = Array.isArray((data as any)?.applicants)
+        const applicantIds = Array.isArray((data as any)?.applicants)
           ? ((data as any).applicants as unknown[]).filter((x) => typeof x === 'string') as string[]
           : [];
+        // Rejected and withdrawn candidates leave jobs.applicants; the owner still sees them on the board.
+        const closedIds: string[] = [];
+        if (data && getJobOwnerUid(data) === auth.currentUser?.uid) {
+          try {
+            const closedSnap = await getDocs(
+              query(collection(db, 'applications'), where('jobId', '==', jobId), where('status', 'in', ['rejected', 'withdrawn']))
+            );
+            closedSnap.docs.forEach((d) => {
+              const id = d.data().applicantProfileId;
+              if (typeof id === 'string' && !applicantIds.includes(id) && !closedIds.includes(id)) {
+                closedIds.push(id);
+              }
+            });
+          } catch {
+            // ignore: the board simply omits rejected and withdrawn candidates
+          }
+        }
+        const ids = [...applicantIds, ...closedIds];
         const ownerPid = typeof (data as any)?.ownerProfileId === 'string' ? (data as any).ownerProfileId : null;
-        const hireState = typeof (data as any)?.hireStatus === 'string' ? (data as any).hireStatus : 'open';
+        const nextSeries: JobSeriesInfo | null =
+          data && typeof data.seriesId === 'string'
+            ? {
+                id: data.seriesId,
+                label: describeSeries(data),
+                descrizione: typeof data.descrizione === 'string' ? data.descrizione : '',
+                compensoOrario: Number(data.compensoOrario ?? 0),
+              }
+            : null;
         if (!cancelled) {
+          setSeries(nextSeries);
+          setJobTiming(
+            data
+              ? { startAt: data.startAt, data: data.data, oraInizio: data.oraInizio, oraFine: data.oraFine }
+              : null
+          );
+          setMatchJob(
+            data && isJobCategory(data.tipo?.categoria)
+              ? {
+                  categoria: data.tipo.categoria,
+                  ...(typeof data.location?.lat === 'number' && typeof data.location?.lng === 'number'
+                    ? { location: { lat: data.location.lat, lng: data.location.lng } }
+                    : {}),
+                }
+              : null
+          );
           setOwnerProfileId(ownerPid);
-          setHireStatus(hireState);
+          setSlotSummary(summarizeJobSlots(data));
+          setHireSlots(Object.values(getHireSlots(data)));
           setJobOwnerFields(ownerFields);
           setJobOwnerUid(getJobOwnerUid(data ?? undefined));
         }
@@ -114,6 +254,9 @@ const JobApplicantsPage: React.FC = () => {
               const cognome = typeof p.cognome === 'string' ? p.cognome : (typeof p.surname === 'string' ? p.surname : '');
               let applicationId: string | undefined;
               let applicantUid: string | undefined;
+              let coverLetter: string | undefined;
+              let screeningAnswers: ScreeningAnswer[] = [];
+              let pipelineStage: PipelineStage = 'new';
               try {
                 const appSnap = await getDocs(
                   query(
@@ -130,10 +273,16 @@ const JobApplicantsPage: React.FC = () => {
                   if (typeof appData.applicantUid === 'string') {
                     applicantUid = appData.applicantUid;
                   }
+                  if (typeof appData.coverLetter === 'string' && appData.coverLetter) {
+                    coverLetter = appData.coverLetter;
+                  }
+                  screeningAnswers = normalizeScreeningAnswers(appData.screeningAnswers);
+                  pipelineStage = getPipelineStage(appData.status, appData.pipelineStage);
                 }
               } catch {
                 // ignore application lookup errors
               }
+              const completedHires = await getCompletedHiresCount(id).catch(() => 0);
               const profile: ApplicantProfile = {
                 profileId: String(p.profileId ?? id),
                 uid: applicantUid ?? (typeof p.uid === 'string' ? p.uid : undefined),
@@ -145,6 +294,11 @@ const JobApplicantsPage: React.FC = () => {
                 phoneNumber: typeof p.phoneNumber === 'string' ? p.phoneNumber : undefined,
                 role: typeof p.role === 'string' ? p.role : undefined,
                 cv: p.cv && typeof p.cv === 'object' ? (p.cv as ApplicantProfile['cv']) : undefined,
+                availability: normalizeAvailability(p.availability),
+                coverLetter,
+                screeningAnswers,
+                completedHires,
+                pipelineStage,
               };
               return profile;
             } catch {
@@ -187,6 +341,84 @@ const JobApplicantsPage: React.FC = () => {
     return () => { cancelled = true; };
   }, [profile, jobOwnerUid]);
 
+  useEffect(() => {
+    if (!jobId || !canDelete || profiles.length === 0) return;
+    let cancelled = false;
+    void Promise.all(
+      profiles.map(async (p) => [p.profileId, await getCandidateNote(jobId, p.profileId).catch(() => '')] as const)
+    ).then((entries) => {
+      if (cancelled) return;
+      const saved = Object.fromEntries(entries);
+      setNotes(saved);
+      // Keep what the employer is typing when the applicants list reloads.
+      setNoteDrafts((prev) => ({ ...saved, ...prev }));
+    });
+    return () => { cancelled = true; };
+  }, [jobId, canDelete, profiles]);
+
+  const availabilityByProfile = useMemo(() => {
+    const result = new Map<string, AvailabilityMatch>();
+    profiles.forEach((p) => {
+      result.set(p.profileId, jobTiming ? getJobAvailability(p.availability, jobTiming) : 'unknown');
+    });
+    return result;
+  }, [profiles, jobTiming]);
+
+  const matchByProfile = useMemo(() => {
+    const result = new Map<string, MatchScore>();
+    if (!matchJob) return result;
+    profiles.forEach((p) => {
+      result.set(
+        p.profileId,
+        computeMatchScore(
+          {
+            skills: p.cv?.skills,
+            certifications: p.cv?.certifications,
+            experiences: p.cv?.experiences,
+            area: p.cv?.area,
+            completedHires: p.completedHires,
+          },
+          matchJob
+        )
+      );
+    });
+    return result;
+  }, [profiles, matchJob]);
+
+  const visibleProfiles = useMemo(() => {
+    const filtered =
+      applicantFilter === 'available'
+        ? profiles.filter((p) => availabilityByProfile.get(p.profileId) === 'available')
+        : applicantFilter === 'strong'
+          ? profiles.filter((p) => (matchByProfile.get(p.profileId)?.total ?? 0) >= STRONG_MATCH_SCORE)
+          : profiles;
+    // `profiles` follows jobs.applicants, i.e. the order of application.
+    return applicantSort === 'score'
+      ? [...filtered].sort(
+          (a, b) =>
+            (matchByProfile.get(b.profileId)?.total ?? 0) - (matchByProfile.get(a.profileId)?.total ?? 0)
+        )
+      : filtered;
+  }, [profiles, applicantFilter, applicantSort, availabilityByProfile, matchByProfile]);
+
+  const stageSections = useMemo(
+    () =>
+      PIPELINE_STAGES.map((stage) => ({
+        stage,
+        items: visibleProfiles.filter((p) => (p.pipelineStage ?? 'new') === stage),
+      })).filter((section) => section.items.length > 0),
+    [visibleProfiles]
+  );
+
+  // Candidates still waiting for an answer, i.e. the ones a bulk rejection would close.
+  const pendingCount = useMemo(
+    () =>
+      profiles.filter(
+        (p) => p.applicationId && (MANUAL_PIPELINE_STAGES as PipelineStage[]).includes(p.pipelineStage ?? 'new')
+      ).length,
+    [profiles]
+  );
+
   const headerTitle = useMemo(() => `Candidati — ${jobTitle}`, [jobTitle]);
 
   const handleOpenChat = useCallback(
@@ -237,9 +469,13 @@ const JobApplicantsPage: React.FC = () => {
         Alert.alert('Non autorizzato', 'Non sei il proprietario di questo incarico.');
         return;
       }
-      if (hireStatus !== 'open') {
-        console.log('[HIRE_DEBUG] Assumi not authorized: hireStatus not open', hireStatus);
-        Alert.alert('Assunzione già avviata', 'Questo incarico ha già una proposta o un incarico attivo.');
+      if (slotSummary.open <= 0) {
+        Alert.alert(
+          'Posti esauriti',
+          slotSummary.positions > 1
+            ? 'Tutti i posti di questo incarico hanno già una proposta o un lavoratore assunto.'
+            : 'Questo incarico ha già una proposta o un incarico attivo.'
+        );
         return;
       }
       if (!candidate.uid) {
@@ -266,9 +502,143 @@ const JobApplicantsPage: React.FC = () => {
         setHireSubmittingId(null);
       }
     },
-    [profile, jobId, hireStatus, hireSubmittingId, jobOwnerUid, jobOwnerFields]
+    [profile, jobId, slotSummary, hireSubmittingId, jobOwnerUid, jobOwnerFields]
+  );
+
+  const handleReject = useCallback(
+    (candidate: ApplicantProfile) => {
+      const applicationId = candidate.applicationId;
+      if (!applicationId || !profile || rejectingId) return;
+      const actingProfileId = profile.profileId;
+      const name = `${candidate.nome} ${candidate.cognome}`.trim() || 'il candidato';
+      Alert.alert(
+        'Scarta candidatura',
+        `Vuoi scartare la candidatura di ${name}? Riceverà un messaggio in chat.`,
+        [
+          { text: 'Annulla', style: 'cancel' },
+          {
+            text: 'Scarta',
+            style: 'destructive',
+            onPress: async () => {
+              setRejectingId(candidate.profileId);
+              try {
+                await rejectApplication(applicationId, actingProfileId);
+              } catch (e) {
+                Alert.alert('Errore', (e as Error)?.message ?? 'Non è stato possibile scartare la candidatura.');
+              } finally {
+                setRejectingId(null);
+              }
+            },
+          },
+        ]
+      );
+    },
+    [profile, rejectingId]
+  );
+
+  const handleStageChange = useCallback(
+    async (candidate: ApplicantProfile, stage: ManualPipelineStage) => {
+      const applicationId = candidate.applicationId;
+      if (!applicationId || stageUpdatingId || candidate.pipelineStage === stage) return;
+      setStageUpdatingId(candidate.profileId);
+      try {
+        await setApplicationPipelineStage(applicationId, stage);
+        // Only the application changes, so the job snapshot does not reload the list.
+        setProfiles((prev) =>
+          prev.map((p) => (p.profileId === candidate.profileId ? { ...p, pipelineStage: stage } : p))
+        );
+      } catch (e) {
+        Alert.alert('Errore', (e as Error)?.message ?? 'Non è stato possibile spostare il candidato.');
+      } finally {
+        setStageUpdatingId(null);
+      }
+    },
+    [stageUpdatingId]
+  );
+
+  const handleSaveNote = useCallback(
+    async (candidate: ApplicantProfile) => {
+      if (!jobId || savingNoteId) return;
+      const text = noteDrafts[candidate.profileId] ?? '';
+      setSavingNoteId(candidate.profileId);
+      try {
+        await saveCandidateNote(jobId, candidate.profileId, text);
+        const saved = text.trim().slice(0, MAX_CANDIDATE_NOTE_LENGTH);
+        setNotes((prev) => ({ ...prev, [candidate.profileId]: saved }));
+        setNoteDrafts((prev) => ({ ...prev, [candidate.profileId]: saved }));
+      } catch (e) {
+        Alert.alert('Errore', (e as Error)?.message ?? 'Non è stato possibile salvare la nota.');
+      } finally {
+        setSavingNoteId(null);
+      }
+    },
+    [jobId, noteDrafts, savingNoteId]
+  );
+
+  const handleRejectRemaining = useCallback(() => {
+    if (!jobId || !profile || bulkRejecting || pendingCount === 0) return;
+    const actingProfileId = profile.profileId;
+    Alert.alert(
+      'Scarta i candidati rimasti',
+      `I posti sono coperti. Vuoi scartare ${pendingCount === 1 ? 'l\'ultima candidatura' : `le ${pendingCount} candidature`} ancora in attesa? Ogni candidato riceverà un messaggio in chat.`,
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Scarta tutti',
+          style: 'destructive',
+          onPress: async () => {
+            setBulkRejecting(true);
+            try {
+              const rejected = await rejectRemainingApplications(jobId, actingProfileId);
+              Alert.alert(
+                'Candidature scartate',
+                rejected === 1 ? '1 candidatura scartata.' : `${rejected} candidature scartate.`
+              );
+            } catch (e) {
+              Alert.alert('Errore', (e as Error)?.message ?? 'Non è stato possibile scartare le candidature.');
+            } finally {
+              setBulkRejecting(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [jobId, profile, bulkRejecting, pendingCount]);
+
+  // The worker's own application to this job, while it can still be withdrawn.
+  const ownApplication = useMemo(
+    () =>
+      profile?.role === 'lavoratore'
+        ? applications.find((application) => application.jobId === jobId && application.status === 'applied')
+        : undefined,
+    [profile?.role, applications, jobId]
   );
 
+  const handleWithdraw = useCallback(() => {
+    if (!ownApplication || withdrawing) return;
+    Alert.alert(
+      'Ritira candidatura',
+      'Il datore verrà avvisato e non potrai candidarti di nuovo a questo incarico.',
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Ritira',
+          style: 'destructive',
+          onPress: async () => {
+            setWithdrawing(true);
+            try {
+              await withdrawApplication(ownApplication.id);
+            } catch (e) {
+              Alert.alert('Errore', (e as Error)?.message ?? 'Non è stato possibile ritirare la candidatura.');
+            } finally {
+              setWithdrawing(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [ownApplication, withdrawing]);
+
   const handleDeleteJob = useCallback(() => {
     if (!jobId || deleteSubmitting || !canDelete) return;
     Alert.alert(
@@ -296,6 +666,275 @@ const JobApplicantsPage: React.FC = () => {
     );
   }, [jobId, deleteSubmitting, canDelete, router]);
 
+  const startSeriesEditing = useCallback(() => {
+    if (!series) return;
+    setSeriesCompenso(
+      series.compensoOrario > 0 ? String(series.compensoOrario).replace('.', ',') : ''
+    );
+    setSeriesDescrizione(series.descrizione);
+    setSeriesEditing(true);
+  }, [series]);
+
+  const handleSaveSeries = useCallback(async () => {
+    if (!series || seriesBusy) return;
+    const compenso = parseFloat(seriesCompenso.replace(',', '.'));
+    if (!Number.isFinite(compenso) || compenso <= 0) {
+      Alert.alert('Attenzione', 'Inserisci un compenso orario valido.');
+      return;
+    }
+    try {
+      setSeriesBusy(true);
+      const updated = await updateJobSeries(series.id, {
+        compensoOrario: compenso,
+        descrizione: seriesDescrizione,
+      });
+      setSeriesEditing(false);
+      Alert.alert(
+        'Serie aggiornata',
+        updated > 0
+          ? `${updated} incarichi futuri senza assunzione sono stati aggiornati.`
+          : 'Nessun incarico futuro da aggiornare.'
+      );
+    } catch (e) {
+      Alert.alert('Errore', (e as Error)?.message ?? 'Non è stato possibile aggiornare la serie.');
+    } finally {
+      setSeriesBusy(false);
+    }
+  }, [series, seriesBusy, seriesCompenso, seriesDescrizione]);
+
+  const handleCancelSeries = useCallback(() => {
+    if (!series || seriesBusy) return;
+    Alert.alert(
+      'Annulla serie',
+      'Tutti gli incarichi futuri della serie senza assunzione verranno eliminati.',
+      [
+        { text: 'Indietro', style: 'cancel' },
+        {
+          text: 'Annulla serie',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setSeriesBusy(true);
+              const { cancelled: removed, kept } = await cancelJobSeries(series.id);
+              Alert.alert(
+                'Serie annullata',
+                kept > 0
+                  ? `${removed} incarichi eliminati, ${kept} con un'assunzione in corso restano attivi.`
+                  : `${removed} incarichi eliminati.`
+              );
+              router.back();
+            } catch (e) {
+              Alert.alert('Errore', (e as Error)?.message ?? 'Non è stato possibile annullare la serie.');
+            } finally {
+              setSeriesBusy(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [series, seriesBusy, router]);
+
+  const renderApplicant = (p: ApplicantProfile) => {
+    const fullName = `${p.nome} ${p.cognome}`.trim();
+    const hasSkills = Array.isArray(p.cv?.skills) && (p.cv?.skills?.length ?? 0) > 0;
+    const previewCert = Array.isArray(p.cv?.certifications) && p.cv!.certifications!.length > 0
+      ? p.cv!.certifications![0]
+      : null;
+    const previewExp = Array.isArray(p.cv?.experiences) && p.cv!.experiences!.length > 0
+      ? p.cv!.experiences![0]
+      : null;
+    const slot = p.uid ? hireSlots.find((entry) => entry.workerUid === p.uid) : undefined;
+    const availability = availabilityByProfile.get(p.profileId) ?? 'unknown';
+    const match = matchByProfile.get(p.profileId);
+    const stage = p.pipelineStage ?? 'new';
+    const isRejected = stage === 'rejected';
+    const hireDisabled = !!slot || isRejected || slotSummary.open <= 0 || hireSubmittingId === p.profileId;
+    const noteDraft = noteDrafts[p.profileId] ?? '';
+    return (
+      <View key={p.profileId} style={styles.applicantCard}>
+        <Pressable
+          onPress={() => router.push(`/configuratore/applicant?profileId=${encodeURIComponent(p.profileId)}`)}
+          style={({ pressed }) => [styles.applicantMain, pressed && styles.applicantCardPressed]}
+        >
+          <Text style={styles.applicantName}>{fullName || p.username || p.profileId}</Text>
+          <Text style={styles.applicantMeta}>
+            {p.email ? p.email : 'Email non disponibile'} · {p.phoneNumber || p.cv?.phone || 'Tel. non disponibile'}
+          </Text>
+          {profile?.role === 'datore' && match ? (
+            <Pressable
+              style={styles.matchRow}
+              onPress={() => setExpandedScoreId((prev) => (prev === p.profileId ? null : p.profileId))}
+              accessibilityRole="button"
+              accessibilityLabel="Mostra il dettaglio della compatibilità"
+            >
+              <Text
+                style={[
+                  styles.matchBadge,
+                  match.total >= STRONG_MATCH_SCORE && styles.matchBadgeStrong,
+                ]}
+              >
+                Compatibilità {match.total}/100
+              </Text>
+              <Ionicons
+                name={expandedScoreId === p.profileId ? 'chevron-up' : 'chevron-down'}
+                size={14}
+                color={theme.colors.muted}
+              />
+            </Pressable>
+          ) : null}
+          {profile?.role === 'datore' && match && expandedScoreId === p.profileId
+            ? match.factors.map((factor) => (
+                <Text key={factor.key} style={styles.applicantMeta}>
+                  {factor.label}: {factor.points}/{factor.max} · {factor.detail}
+                </Text>
+              ))
+            : null}
+          {profile?.role === 'datore' ? (
+            <View style={styles.availabilityRow}>
+              <Ionicons
+                name={
+                  availability === 'available'
+                    ? 'checkmark-circle-outline'
+                    : availability === 'unavailable'
+                      ? 'close-circle-outline'
+                      : 'help-circle-outline'
+                }
+                size={14}
+                color={availability === 'available' ? theme.colors.success : theme.colors.muted}
+              />
+              <Text style={styles.applicantMeta}>{availabilityLabels[availability]}</Text>
+            </View>
+          ) : null}
+          {p.coverLetter ? (
+            <Text style={styles.applicantCoverLetter}>“{p.coverLetter}”</Text>
+          ) : null}
+          {(p.screeningAnswers ?? []).map((entry) => (
+            <Text key={entry.questionId} style={styles.applicantMeta}>
+              {entry.question}{' '}
+              <Text
+                style={[
+                  styles.applicantAnswer,
+                  entry.answer === false && styles.applicantAnswerNegative,
+                ]}
+              >
+                {typeof entry.answer === 'boolean' ? (entry.answer ? 'Sì' : 'No') : entry.answer}
+              </Text>
+            </Text>
+          ))}
+          {p.cv?.summary ? (
+            <Text style={styles.applicantSummary}>{p.cv.summary}</Text>
+          ) : null}
+          {hasSkills ? (
+            <Text style={styles.applicantSkills}>
+              Competenze: {(p.cv?.skills ?? []).slice(0, 6).join(', ')}
+            </Text>
+          ) : null}
+          {previewCert ? (
+            <Text style={styles.applicantMeta}>Certificazione: {previewCert}</Text>
+          ) : null}
+          {previewExp ? (
+            <Text style={styles.applicantMeta}>Esperienza: {previewExp}</Text>
+          ) : null}
+        </Pressable>
+        {profile?.role === 'datore' && p.applicationId && (MANUAL_PIPELINE_STAGES as PipelineStage[]).includes(stage) ? (
+          <View style={styles.filterRow}>
+            {MANUAL_PIPELINE_STAGES.map((option) => {
+              const isSelected = stage === option;
+              return (
+                <Pressable
+                  key={option}
+                  style={[
+                    styles.filterChip,
+                    isSelected && styles.filterChipSelected,
+                    stageUpdatingId === p.profileId && styles.hireButtonDisabled,
+                  ]}
+                  onPress={() => handleStageChange(p, option)}
+                  disabled={stageUpdatingId === p.profileId}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text style={[styles.filterChipText, isSelected && styles.filterChipTextSelected]}>
+                    {PIPELINE_STAGE_LABELS[option]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        ) : null}
+        {canDelete ? (
+          <View style={styles.noteBox}>
+            <Text style={styles.noteLabel}>Nota privata</Text>
+            <TextInput
+              style={styles.noteInput}
+              value={noteDraft}
+              onChangeText={(value) => setNoteDrafts((prev) => ({ ...prev, [p.profileId]: value }))}
+              placeholder="Visibile solo a te, es. esito del colloquio"
+              placeholderTextColor={theme.colors.muted}
+              maxLength={MAX_CANDIDATE_NOTE_LENGTH}
+              multiline
+            />
+            {noteDraft !== (notes[p.profileId] ?? '') ? (
+              <Pressable
+                onPress={() => handleSaveNote(p)}
+                disabled={savingNoteId === p.profileId}
+                accessibilityRole="button"
+              >
+                <Text style={styles.seriesLink}>
+                  {savingNoteId === p.profileId ? 'Salvataggio...' : 'Salva nota'}
+                </Text>
+              </Pressable>
+            ) : null}
+          </View>
+        ) : null}
+        {profile?.role === 'datore' && (
+          <View style={styles.applicantActions}>
+            <Pressable
+              style={styles.chatButton}
+              onPress={() => handleOpenChat(p.profileId, fullName || p.username || p.profileId)}
+              accessibilityRole="button"
+            >
+              <Ionicons name="chatbubble-ellipses-outline" size={18} color={theme.colors.surface} />
+              <Text style={styles.chatButtonText}>Chat</Text>
+            </Pressable>
+            {!slot && !isRejected && p.applicationId ? (
+              <Pressable
+                style={[styles.rejectButton, rejectingId === p.profileId && styles.hireButtonDisabled]}
+                onPress={() => handleReject(p)}
+                accessibilityRole="button"
+                disabled={rejectingId === p.profileId}
+              >
+                <Ionicons name="close-circle-outline" size={18} color={theme.colors.danger} />
+                <Text style={styles.rejectButtonText}>Scarta</Text>
+              </Pressable>
+            ) : null}
+            <Pressable
+              style={[
+                styles.hireButton,
+                hireDisabled && styles.hireButtonDisabled,
+              ]}
+              onPress={() => handleHire(p)}
+              accessibilityRole="button"
+              disabled={hireDisabled}
+            >
+              <Ionicons name="checkmark-circle-outline" size={18} color={theme.colors.surface} />
+              <Text style={styles.chatButtonText}>
+                {slot?.status === 'proposed'
+                  ? 'Proposta inviata'
+                  : slot
+                    ? 'Assunto'
+                    : isRejected
+                      ? 'Scartato'
+                      : slotSummary.open <= 0
+                      ? 'Posti esauriti'
+                      : 'Assumi'}
+              </Text>
+            </Pressable>
+          </View>
+        )}
+      </View>
+    );
+  };
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <ScrollView
@@ -317,20 +956,106 @@ const JobApplicantsPage: React.FC = () => {
           </Pressable>
         </View>
         {canDelete ? (
-          <Pressable
-            style={({ pressed }) => [
-              styles.deleteButton,
-              pressed && styles.deleteButtonPressed,
-              deleteSubmitting && styles.deleteButtonDisabled,
-            ]}
-            onPress={handleDeleteJob}
-            disabled={deleteSubmitting}
-          >
-            <Ionicons name="trash-outline" size={16} color={theme.colors.danger} />
-            <Text style={styles.deleteButtonText}>
-              {deleteSubmitting ? 'Eliminazione in corso...' : 'Elimina incarico'}
+          <View style={styles.ownerActions}>
+            <Pressable
+              style={({ pressed }) => [styles.editButton, pressed && styles.deleteButtonPressed]}
+              onPress={() =>
+                router.push(`/configuratore/nuovo-incarico?jobId=${encodeURIComponent(jobId ?? '')}`)
+              }
+              accessibilityRole="button"
+            >
+              <Ionicons name="create-outline" size={16} color={theme.colors.primary} />
+              <Text style={styles.editButtonText}>Modifica incarico</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [
+                styles.deleteButton,
+                pressed && styles.deleteButtonPressed,
+                deleteSubmitting && styles.deleteButtonDisabled,
+              ]}
+              onPress={handleDeleteJob}
+              disabled={deleteSubmitting}
+            >
+              <Ionicons name="trash-outline" size={16} color={theme.colors.danger} />
+              <Text style={styles.deleteButtonText}>
+                {deleteSubmitting ? 'Eliminazione in corso...' : 'Elimina incarico'}
+              </Text>
+            </Pressable>
+          </View>
+        ) : null}
+
+        {canDelete && series ? (
+          <View style={styles.seriesCard}>
+            <View style={styles.seriesHeader}>
+              <Ionicons name="repeat" size={18} color={theme.colors.primary} />
+              <Text style={styles.seriesTitle}>{series.label}</Text>
+            </View>
+            {seriesEditing ? (
+              <>
+                <TextInput
+                  style={styles.seriesInput}
+                  value={seriesCompenso}
+                  onChangeText={(value) => setSeriesCompenso(value.replace(/[^0-9.,]/g, ''))}
+                  placeholder="Compenso orario (€)"
+                  placeholderTextColor={theme.colors.muted}
+                  keyboardType="decimal-pad"
+                />
+                <TextInput
+                  style={[styles.seriesInput, styles.seriesTextarea]}
+                  value={seriesDescrizione}
+                  onChangeText={setSeriesDescrizione}
+                  placeholder="Descrizione"
+                  placeholderTextColor={theme.colors.muted}
+                  multiline
+                />
+                <View style={styles.seriesActions}>
+                  <Pressable onPress={() => setSeriesEditing(false)} accessibilityRole="button">
+                    <Text style={styles.seriesLink}>Chiudi</Text>
+                  </Pressable>
+                  <Pressable onPress={handleSaveSeries} disabled={seriesBusy} accessibilityRole="button">
+                    <Text style={styles.seriesLink}>{seriesBusy ? 'Salvataggio...' : 'Salva per la serie'}</Text>
+                  </Pressable>
+                </View>
+              </>
+            ) : (
+              <View style={styles.seriesActions}>
+                <Pressable onPress={startSeriesEditing} disabled={seriesBusy} accessibilityRole="button">
+                  <Text style={styles.seriesLink}>Modifica serie</Text>
+                </Pressable>
+                <Pressable onPress={handleCancelSeries} disabled={seriesBusy} accessibilityRole="button">
+                  <Text style={styles.seriesDanger}>Annulla serie</Text>
+                </Pressable>
+              </View>
+            )}
+          </View>
+        ) : null}
+
+        {profile?.role === 'datore' && !loading ? (
+          <View style={styles.slotCard}>
+            <View style={styles.slotHeader}>
+              <Ionicons name="people-outline" size={18} color={theme.colors.primary} />
+              <Text style={styles.slotTitle}>
+                {slotSummary.filled}/{slotSummary.positions}{' '}
+                {slotSummary.positions === 1 ? 'posto coperto' : 'posti coperti'}
+              </Text>
+            </View>
+            <View style={styles.slotTrack}>
+              <View
+                style={[
+                  styles.slotFill,
+                  { width: `${(slotSummary.filled / slotSummary.positions) * 100}%` },
+                ]}
+              />
+            </View>
+            <Text style={styles.slotMeta}>
+              {slotSummary.pending > 0
+                ? `${slotSummary.pending} ${slotSummary.pending === 1 ? 'proposta' : 'proposte'} in attesa · `
+                : ''}
+              {slotSummary.open > 0
+                ? `${slotSummary.open} ${slotSummary.open === 1 ? 'posto libero' : 'posti liberi'}`
+                : 'Nessun posto libero'}
             </Text>
-          </Pressable>
+          </View>
         ) : null}
 
         {loading ? (
@@ -342,73 +1067,99 @@ const JobApplicantsPage: React.FC = () => {
             <Text style={styles.emptyText}>Nessuna candidatura al momento.</Text>
           </View>
         ) : (
-          profiles.map((p) => {
-            const fullName = `${p.nome} ${p.cognome}`.trim();
-            const hasSkills = Array.isArray(p.cv?.skills) && (p.cv?.skills?.length ?? 0) > 0;
-            const previewCert = Array.isArray(p.cv?.certifications) && p.cv!.certifications!.length > 0
-              ? p.cv!.certifications![0]
-              : null;
-            const previewExp = Array.isArray(p.cv?.experiences) && p.cv!.experiences!.length > 0
-              ? p.cv!.experiences![0]
-              : null;
-            return (
-              <View key={p.profileId} style={styles.applicantCard}>
-                <Pressable
-                  onPress={() => router.push(`/configuratore/applicant?profileId=${encodeURIComponent(p.profileId)}`)}
-                  style={({ pressed }) => [styles.applicantMain, pressed && styles.applicantCardPressed]}
-                >
-                  <Text style={styles.applicantName}>{fullName || p.username || p.profileId}</Text>
-                  <Text style={styles.applicantMeta}>
-                    {p.email ? p.email : 'Email non disponibile'} · {p.phoneNumber || p.cv?.phone || 'Tel. non disponibile'}
-                  </Text>
-                  {p.cv?.summary ? (
-                    <Text style={styles.applicantSummary}>{p.cv.summary}</Text>
-                  ) : null}
-                  {hasSkills ? (
-                    <Text style={styles.applicantSkills}>
-                      Competenze: {(p.cv?.skills ?? []).slice(0, 6).join(', ')}
-                    </Text>
-                  ) : null}
-                  {previewCert ? (
-                    <Text style={styles.applicantMeta}>Certificazione: {previewCert}</Text>
-                  ) : null}
-                  {previewExp ? (
-                    <Text style={styles.applicantMeta}>Esperienza: {previewExp}</Text>
-                  ) : null}
-                </Pressable>
-                {profile?.role === 'datore' && (
-                  <View style={styles.applicantActions}>
+          <>
+          {profile?.role === 'datore' ? (
+            <>
+              <View style={styles.filterRow}>
+                {(['all', 'available', 'strong'] as ApplicantFilter[]).map((option) => {
+                  const isSelected = applicantFilter === option;
+                  return (
                     <Pressable
-                      style={styles.chatButton}
-                      onPress={() => handleOpenChat(p.profileId, fullName || p.username || p.profileId)}
+                      key={option}
+                      style={[styles.filterChip, isSelected && styles.filterChipSelected]}
+                      onPress={() => setApplicantFilter(option)}
                       accessibilityRole="button"
                     >
-                      <Ionicons name="chatbubble-ellipses-outline" size={18} color={theme.colors.surface} />
-                      <Text style={styles.chatButtonText}>Chat</Text>
+                      <Text style={[styles.filterChipText, isSelected && styles.filterChipTextSelected]}>
+                        {option === 'all'
+                          ? `Tutti (${profiles.length})`
+                          : option === 'available'
+                            ? 'Disponibili per l\'orario'
+                            : 'Più compatibili'}
+                      </Text>
                     </Pressable>
+                  );
+                })}
+              </View>
+              <View style={styles.filterRow}>
+                {(['score', 'applied'] as ApplicantSort[]).map((option) => {
+                  const isSelected = applicantSort === option;
+                  return (
                     <Pressable
-                      style={[
-                        styles.hireButton,
-                        (hireStatus !== 'open' || hireSubmittingId === p.profileId) && styles.hireButtonDisabled,
-                      ]}
-                      onPress={() => handleHire(p)}
+                      key={option}
+                      style={[styles.filterChip, isSelected && styles.filterChipSelected]}
+                      onPress={() => setApplicantSort(option)}
                       accessibilityRole="button"
-                      disabled={hireStatus !== 'open' || hireSubmittingId === p.profileId}
                     >
-                      <Ionicons name="checkmark-circle-outline" size={18} color={theme.colors.surface} />
-                      <Text style={styles.chatButtonText}>
-                        {hireStatus === 'proposed'
-                          ? 'Proposta inviata'
-                          : hireStatus === 'confirmed' || hireStatus === 'completed'
-                            ? 'Assunto'
-                            : 'Assumi'}
+                      <Text style={[styles.filterChipText, isSelected && styles.filterChipTextSelected]}>
+                        {option === 'score' ? 'Per compatibilità' : 'Per ordine di candidatura'}
                       </Text>
                     </Pressable>
-                  </View>
-                )}
+                  );
+                })}
               </View>
-            );
-          })
+            </>
+          ) : null}
+          {visibleProfiles.length === 0 ? (
+            <View style={styles.cardCenter}>
+              <Text style={styles.emptyText}>
+                {applicantFilter === 'strong'
+                  ? `Nessun candidato con compatibilità di almeno ${STRONG_MATCH_SCORE}/100.`
+                  : 'Nessun candidato disponibile per l\'orario dell\'incarico.'}
+              </Text>
+            </View>
+          ) : null}
+          {profile?.role === 'datore' ? (
+            <>
+              {canDelete && slotSummary.filled >= slotSummary.positions && pendingCount > 0 ? (
+                <Pressable
+                  style={[styles.bulkRejectButton, bulkRejecting && styles.hireButtonDisabled]}
+                  onPress={handleRejectRemaining}
+                  disabled={bulkRejecting}
+                  accessibilityRole="button"
+                >
+                  <Ionicons name="close-circle-outline" size={18} color={theme.colors.danger} />
+                  <Text style={styles.rejectButtonText}>
+                    {bulkRejecting ? 'Operazione in corso...' : `Scarta i candidati rimasti (${pendingCount})`}
+                  </Text>
+                </Pressable>
+              ) : null}
+              {stageSections.map(({ stage, items }) => (
+                <View key={stage} style={styles.stageSection}>
+                  <Pressable
+                    style={styles.stageHeader}
+                    onPress={stage === 'rejected' ? () => setShowRejected((prev) => !prev) : undefined}
+                    disabled={stage !== 'rejected'}
+                  >
+                    <Text style={styles.stageTitle}>
+                      {PIPELINE_STAGE_LABELS[stage]} ({items.length})
+                    </Text>
+                    {stage === 'rejected' ? (
+                      <Ionicons
+                        name={showRejected ? 'chevron-up' : 'chevron-down'}
+                        size={16}
+                        color={theme.colors.muted}
+                      />
+                    ) : null}
+                  </Pressable>
+                  {stage !== 'rejected' || showRejected ? items.map(renderApplicant) : null}
+                </View>
+              ))}
+            </>
+          ) : (
+            visibleProfiles.map(renderApplicant)
+          )}
+          </>
         )}
 
         {profile?.role === 'lavoratore' && ownerProfileId && (
@@ -417,6 +1168,15 @@ const JobApplicantsPage: React.FC = () => {
             <Text style={styles.workerChatText}>Chatta con il datore</Text>
           </Pressable>
         )}
+        {ownApplication ? (
+          <Pressable
+            style={[styles.withdrawButton, withdrawing && styles.hireButtonDisabled]}
+            onPress={handleWithdraw}
+            disabled={withdrawing}
+          >
+            <Text style={styles.rejectButtonText}>Ritira candidatura</Text>
+          </Pressable>
+        ) : null}
       </ScrollView>
     </SafeAreaView>
   );
@@ -452,7 +1212,35 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     applicantCardPressed: { transform: [{ scale: 0.98 }] },
     applicantName: { fontSize: 15, fontWeight: '700', color: t.colors.textPrimary },
     applicantMeta: { fontSize: 12, color: t.colors.textSecondary },
+    availabilityRow: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+    filterRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    filterChip: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 20,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      backgroundColor: t.colors.surface,
+    },
+    filterChipSelected: { backgroundColor: t.colors.primary, borderColor: t.colors.primary },
+    filterChipText: { color: t.colors.primary, fontSize: 13, fontWeight: '600' },
+    filterChipTextSelected: { color: t.colors.surface },
     applicantSummary: { fontSize: 13, color: t.colors.textSecondary },
+    matchRow: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+    matchBadge: {
+      paddingHorizontal: 10,
+      paddingVertical: 3,
+      borderRadius: 999,
+      overflow: 'hidden',
+      backgroundColor: t.colors.border,
+      color: t.colors.textPrimary,
+      fontSize: 12,
+      fontWeight: '700',
+    },
+    matchBadgeStrong: { backgroundColor: t.colors.success, color: t.colors.surface },
+    applicantCoverLetter: { fontSize: 13, fontStyle: 'italic', color: t.colors.textPrimary },
+    applicantAnswer: { fontWeight: '700', color: t.colors.textPrimary },
+    applicantAnswerNegative: { color: t.colors.danger },
     applicantSkills: { fontSize: 12, color: t.colors.textPrimary },
     applicantActions: { flexDirection: 'row', justifyContent: 'flex-end', marginTop: 6, gap: 10 },
     chatButton: {
@@ -476,6 +1264,53 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     hireButtonDisabled: {
       opacity: 0.6,
     },
+    rejectButton: {
+      borderWidth: 1,
+      borderColor: t.colors.danger,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 12,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    rejectButtonText: { color: t.colors.danger, fontWeight: '700', fontSize: 14 },
+    bulkRejectButton: {
+      alignSelf: 'flex-start',
+      borderWidth: 1,
+      borderColor: t.colors.danger,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 12,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    stageSection: { gap: 12 },
+    stageHeader: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+    stageTitle: { fontSize: 15, fontWeight: '700', color: t.colors.textPrimary },
+    noteBox: { gap: 6 },
+    noteLabel: { fontSize: 12, fontWeight: '600', color: t.colors.textSecondary },
+    noteInput: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      backgroundColor: t.colors.card,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      minHeight: 56,
+      fontSize: 14,
+      color: t.colors.textPrimary,
+      textAlignVertical: 'top',
+    },
+    withdrawButton: {
+      alignSelf: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: t.colors.danger,
+    },
     chatButtonText: { color: t.colors.surface, fontWeight: '700', fontSize: 14 },
     workerChatButton: {
       marginTop: 12,
@@ -499,6 +1334,22 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
       borderWidth: 1,
       borderColor: t.colors.border,
     },
+    ownerActions: { flexDirection: 'row', flexWrap: 'wrap', gap: 10 },
+    editButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: t.colors.primary,
+    },
+    editButtonText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: t.colors.primary,
+    },
     deleteButton: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -521,6 +1372,43 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
       fontWeight: '600',
       color: t.colors.danger,
     },
+    seriesCard: {
+      backgroundColor: t.colors.surface,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 12,
+      padding: 12,
+      gap: 10,
+    },
+    seriesHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    seriesTitle: { flex: 1, fontSize: 14, fontWeight: '600', color: t.colors.textPrimary },
+    seriesInput: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      backgroundColor: t.colors.card,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: t.colors.textPrimary,
+    },
+    seriesTextarea: { minHeight: 80, textAlignVertical: 'top' },
+    seriesActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 20 },
+    seriesLink: { fontSize: 14, fontWeight: '600', color: t.colors.primary },
+    seriesDanger: { fontSize: 14, fontWeight: '600', color: t.colors.danger },
+    slotCard: {
+      backgroundColor: t.colors.surface,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 12,
+      padding: 12,
+      gap: 8,
+    },
+    slotHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    slotTitle: { fontSize: 14, fontWeight: '600', color: t.colors.textPrimary },
+    slotTrack: { height: 6, borderRadius: 3, backgroundColor: t.colors.border, overflow: 'hidden' },
+    slotFill: { height: 6, backgroundColor: t.colors.success },
+    slotMeta: { fontSize: 13, color: t.colors.textSecondary },
   });
 
 export default JobApplicantsPage;
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -8,26 +8,104 @@ import {
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   View,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import BottomNav from './bottom-nav';
-import { useProfile, type Incarico } from './profile-context';
+import { mapSnapshotToIncarichi, useProfile, type Incarico } from './profile-context';
+import { useJobAlerts } from './job-alerts';
 import MapViewCrossPlatform from '../components/MapViewCrossPlatform';
+import { formatDateDigits, parseDateInput } from './job-series';
 import { useTheme, useThemedStyles } from './theme';
+import RadiusFilter, { formatDistance, zoomForRadius } from './radius-filter';
+import { ScreeningAnswersForm, type ScreeningAnswersDraft } from './screening-questions';
+import { useJobSearch, type SearchArea } from './use-job-search';
 import { useUnreadConversations } from './use-unread-conversations';
+import {
+  ALREADY_APPLIED_CODE,
+  APPLICATION_STATUS_LABELS,
+  findPublishedJob,
+  MAX_COVER_LETTER_LENGTH,
+  SCHEDULE_CONFLICT_CODE,
+  type JobCategory,
+  type JobSearchFilters,
+} from '../lib/api';
+import { distanceKm } from '../lib/geohash';
+import { hasAvailability, type AvailabilityMatch } from '../lib/availability';
+import { getJobAvailability } from './job-time';
+
+const categoryOptions: JobCategory[] = ['bar', 'pizzeria', 'ristorante', 'negozio', 'magazzino', 'altro'];
+
+type FilterDraft = {
+  categoria?: JobCategory;
+  from: string;
+  to: string;
+  minCompenso: string;
+  citta: string;
+  provincia: string;
+};
+
+const availabilityBadges: Record<Exclude<AvailabilityMatch, 'unknown'>, { label: string; icon: 'checkmark-circle-outline' | 'close-circle-outline' }> = {
+  available: { label: 'Compatibile', icon: 'checkmark-circle-outline' },
+  unavailable: { label: 'Fuori disponibilità', icon: 'close-circle-outline' },
+};
+
+const emptyDraft: FilterDraft = { from: '', to: '', minCompenso: '', citta: '', provincia: '' };
+
+// Invalid or empty inputs simply leave that filter out.
+const toSearchFilters = (draft: FilterDraft): JobSearchFilters => {
+  const from = parseDateInput(draft.from);
+  const to = parseDateInput(draft.to);
+  to?.setHours(23, 59, 59, 999);
+  const minCompenso = parseFloat(draft.minCompenso.replace(',', '.'));
+  return {
+    ...(draft.categoria ? { categoria: draft.categoria } : {}),
+    ...(from ? { from } : {}),
+    ...(to ? { to } : {}),
+    ...(Number.isFinite(minCompenso) && minCompenso > 0 ? { minCompenso } : {}),
+    ...(draft.citta.trim() ? { citta: draft.citta.trim() } : {}),
+    ...(draft.provincia.trim() ? { provincia: draft.provincia.trim() } : {}),
+  };
+};
+
+// Distance from the bottom at which the next page is requested.
+const LOAD_MORE_THRESHOLD = 320;
 
 const LavoratoreScreen: React.FC = () => {
   const router = useRouter();
-  const { profile, loading, availableJobs, refreshAvailableJobs, applyToJob } = useProfile();
+  const {
+    profile,
+    loading,
+    appliedJobIds,
+    applicationStatuses,
+    refreshAvailableJobs,
+    applyToJob,
+  } = useProfile();
   const { theme } = useTheme();
   const styles = useThemedStyles((t) => createStyles(t));
   const unreadCount = useUnreadConversations();
+  const { alerts } = useJobAlerts();
+  const { jobId: rawJobId } = useLocalSearchParams<{ jobId?: string }>();
+  const alertJobId = Array.isArray(rawJobId) ? rawJobId[0] : rawJobId;
+  const handledJobIdRef = useRef<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedJob, setSelectedJob] = useState<Incarico | null>(null);
   const [applying, setApplying] = useState(false);
+  const [coverLetter, setCoverLetter] = useState('');
+  const [answers, setAnswers] = useState<ScreeningAnswersDraft>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [draft, setDraft] = useState<FilterDraft>(emptyDraft);
+  const [filters, setFilters] = useState<JobSearchFilters>({});
+  const [draftArea, setDraftArea] = useState<SearchArea | null>(null);
+  const [area, setArea] = useState<SearchArea | null>(null);
+  const search = useJobSearch(filters, !loading && profile?.role === 'lavoratore', area);
+  const { hasMore, loadMore, refresh: refreshSearch } = search;
+  const activeFilterCount = Object.keys(filters).length + (area ? 1 : 0);
 
   useEffect(() => {
     if (loading) {
@@ -42,25 +120,50 @@ const LavoratoreScreen: React.FC = () => {
     }
   }, [loading, profile, router]);
 
+  // Opened from a job alert: show that job even when the current results do not include it.
+  useEffect(() => {
+    if (!alertJobId || loading || profile?.role !== 'lavoratore') return;
+    if (handledJobIdRef.current === alertJobId) return;
+    handledJobIdRef.current = alertJobId;
+    findPublishedJob(alertJobId)
+      .then((jobDoc) => {
+        const [job] = jobDoc ? mapSnapshotToIncarichi({ docs: [jobDoc] }) : [];
+        if (!job) {
+          Alert.alert('Incarico non disponibile', 'L\'incarico non è più aperto alle candidature.');
+          return;
+        }
+        setSelectedJob(appliedJobIds.includes(job.id) ? { ...job, status: 'applied' } : job);
+      })
+      .catch((error) => console.warn('Failed to open job from alert:', error));
+  }, [alertJobId, loading, profile?.role, appliedJobIds]);
+
   const nomeCompleto = useMemo(() => {
     if (!profile) return '—';
     return `${profile.nome} ${profile.cognome}`.trim();
   }, [profile]);
 
-  const incarichiDisponibili = useMemo(() => {
-    return [...availableJobs]
-      .map((item) => {
-        const created = Date.parse(item.createdAt);
-        return {
-          item,
-          created: Number.isFinite(created) ? created : 0,
-        };
-      })
-      .sort((a, b) => b.created - a.created)
-      .map(({ item }) => item);
-  }, [availableJobs]);
+  // Search results come ordered by start time.
+  const incarichiDisponibili = useMemo(
+    () =>
+      search.jobs.map((item) =>
+        appliedJobIds.includes(item.id) ? { ...item, status: 'applied' as const } : item
+      ),
+    [search.jobs, appliedJobIds]
+  );
+
+  // Only computed once the worker has declared some availability.
+  const availabilityByJob = useMemo(() => {
+    const result = new Map<string, AvailabilityMatch>();
+    if (!hasAvailability(profile?.availability)) return result;
+    incarichiDisponibili.forEach((job) => {
+      result.set(job.id, getJobAvailability(profile?.availability, job));
+    });
+    return result;
+  }, [incarichiDisponibili, profile?.availability]);
+
+  const weeklySlotCount = profile?.availability?.weekly.length ?? 0;
 
-  const totaleIncarichi = incarichiDisponibili.length;
+  const totaleIncarichi = `${incarichiDisponibili.length}${search.hasMore || search.truncated ? '+' : ''}`;
 
   const handleRefresh = useCallback(async () => {
     if (refreshing) {
@@ -68,13 +171,36 @@ const LavoratoreScreen: React.FC = () => {
     }
     setRefreshing(true);
     try {
-      await refreshAvailableJobs();
+      await Promise.all([refreshSearch(), refreshAvailableJobs()]);
     } catch (error) {
       console.warn('Failed to refresh available jobs:', error);
     } finally {
       setRefreshing(false);
     }
-  }, [refreshing, refreshAvailableJobs]);
+  }, [refreshing, refreshSearch, refreshAvailableJobs]);
+
+  const handleScroll = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      const { layoutMeasurement, contentOffset, contentSize } = event.nativeEvent;
+      if (hasMore && layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD) {
+        void loadMore();
+      }
+    },
+    [hasMore, loadMore]
+  );
+
+  const handleApplyFilters = useCallback(() => {
+    setFilters(toSearchFilters(draft));
+    setArea(draftArea);
+    setShowFilters(false);
+  }, [draft, draftArea]);
+
+  const handleResetFilters = useCallback(() => {
+    setDraft(emptyDraft);
+    setFilters({});
+    setDraftArea(null);
+    setArea(null);
+  }, []);
 
   const handleOpenJob = useCallback((job: Incarico) => {
     setSelectedJob(job);
@@ -84,6 +210,13 @@ const LavoratoreScreen: React.FC = () => {
     setSelectedJob(null);
   }, []);
 
+  // Each job starts from an empty message and no answers.
+  const selectedJobId = selectedJob?.id;
+  useEffect(() => {
+    setCoverLetter('');
+    setAnswers({});
+  }, [selectedJobId]);
+
   const handlePropose = useCallback(async () => {
     if (!selectedJob || applying) {
       return;
@@ -100,20 +233,35 @@ const LavoratoreScreen: React.FC = () => {
       return;
     }
 
-    setApplying(true);
+    const submit = async (ignoreConflicts: boolean) => {
+      setApplying(true);
+      try {
+        await applyToJob(selectedJob, { ignoreConflicts, coverLetter, answers });
+        handleCloseJob();
+        Alert.alert('Candidatura inviata', `Hai inviato la tua candidatura per "${title}".`);
+      } catch (error) {
+        const message =
+          (error as Error)?.message ?? 'Non è stato possibile inviare la candidatura. Riprova.';
+        const code = (error as { code?: string }).code;
+        if (code === ALREADY_APPLIED_CODE) {
+          handleCloseJob();
+          Alert.alert('Già candidata', `Hai già inviato la tua candidatura per "${title}".`);
+        } else if (code === SCHEDULE_CONFLICT_CODE) {
+          // Applying is not a commitment yet: the overlap only blocks acceptHire.
+          Alert.alert('Orario in conflitto', message, [
+            { text: 'Annulla', style: 'cancel' },
+            { text: 'Candidati comunque', onPress: () => void submit(true) },
+          ]);
+        } else {
+          Alert.alert('Errore', message);
+        }
+      } finally {
+        setApplying(false);
+      }
+    };
 
-    try {
-      await applyToJob(selectedJob);
-      handleCloseJob();
-      Alert.alert('Candidatura inviata', `Hai inviato la tua candidatura per "${title}".`);
-    } catch (error) {
-      const message =
-        (error as Error)?.message ?? 'Non è stato possibile inviare la candidatura. Riprova.';
-      Alert.alert('Errore', message);
-    } finally {
-      setApplying(false);
-    }
-  }, [selectedJob, applying, applyToJob, handleCloseJob]);
+    await submit(false);
+  }, [selectedJob, applying, applyToJob, handleCloseJob, coverLetter, answers]);
 
   const initialRegion = useMemo(
     () => ({
@@ -137,6 +285,8 @@ const LavoratoreScreen: React.FC = () => {
         <ScrollView
           contentContainerStyle={styles.scrollContent}
           showsVerticalScrollIndicator={false}
+          onScroll={handleScroll}
+          scrollEventThrottle={200}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -166,6 +316,19 @@ const LavoratoreScreen: React.FC = () => {
                 </View>
               )}
             </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.iconButton, pressed && styles.iconButtonPressed]}
+              accessibilityRole="button"
+              accessibilityLabel="Avvisi e ricerche salvate"
+              onPress={() => router.push('/configuratore/avvisi')}
+            >
+              <Ionicons name="notifications-outline" size={22} color={theme.colors.textPrimary} />
+              {alerts.length > 0 && (
+                <View style={styles.badge}>
+                  <Text style={styles.badgeText}>{alerts.length > 99 ? '99+' : alerts.length}</Text>
+                </View>
+              )}
+            </Pressable>
           </View>
 
           <View style={styles.actionsRow}>
@@ -183,12 +346,21 @@ const LavoratoreScreen: React.FC = () => {
               <Ionicons name="briefcase-outline" size={20} color={theme.colors.primary} />
               <Text style={styles.actionText}>I miei incarichi</Text>
             </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.actionCard, pressed && styles.actionCardPressed]}
+              onPress={() => router.push('/configuratore/candidature')}
+            >
+              <Ionicons name="document-text-outline" size={20} color={theme.colors.primary} />
+              <Text style={styles.actionText}>Candidature</Text>
+            </Pressable>
           </View>
 
           <View style={styles.mapWrapper}>
             <MapViewCrossPlatform
-              center={{ lat: initialRegion.latitude, lng: initialRegion.longitude }}
-              zoom={initialRegion.latitudeDelta > 1 ? 6 : 12}
+              // The map only reads its initial center, so a new area remounts it.
+              key={area ? `${area.center.lat},${area.center.lng},${area.radiusKm}` : 'default'}
+              center={area ? area.center : { lat: initialRegion.latitude, lng: initialRegion.longitude }}
+              zoom={area ? zoomForRadius(area.radiusKm) : initialRegion.latitudeDelta > 1 ? 6 : 12}
               style={styles.map}
               markers={incarichiDisponibili
                 .map((job) => {
@@ -205,7 +377,9 @@ const LavoratoreScreen: React.FC = () => {
                     lat: coords.lat,
                     lng: coords.lng,
                     title,
-                    description: `${job.data} · ${job.oraInizio}`,
+                    description: area
+                      ? `${job.data} · ${job.oraInizio} · ${formatDistance(distanceKm(area.center, { lat: coords.lat, lng: coords.lng }))}`
+                      : `${job.data} · ${job.oraInizio}`,
                   };
                 })
                 .filter((item): item is { id: string; lat: number; lng: number; title?: string; description?: string } => !!item)}
@@ -222,19 +396,154 @@ const LavoratoreScreen: React.FC = () => {
               <Text style={styles.overviewValue}>{totaleIncarichi}</Text>
             </View>
             <View style={styles.overviewDivider} />
-            <View style={styles.overviewColumn}>
+            <Pressable
+              style={({ pressed }) => [styles.overviewColumn, pressed && styles.iconButtonPressed]}
+              onPress={() => router.push('/configuratore/disponibilita')}
+              accessibilityRole="button"
+            >
               <Text style={styles.overviewLabel}>Disponibilità</Text>
-              <Text style={styles.overviewSubValue}>Aggiorna la tua agenda</Text>
-            </View>
+              <Text style={styles.overviewSubValue}>
+                {hasAvailability(profile.availability)
+                  ? weeklySlotCount > 0
+                    ? `${weeklySlotCount} ${weeklySlotCount === 1 ? 'fascia' : 'fasce'} a settimana`
+                    : 'Solo date specifiche'
+                  : 'Aggiorna la tua agenda'}
+              </Text>
+            </Pressable>
           </View>
 
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Incarichi disponibili</Text>
-            {incarichiDisponibili.length === 0 ? (
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Incarichi disponibili</Text>
+              <Pressable
+                style={({ pressed }) => [styles.filterToggle, pressed && styles.iconButtonPressed]}
+                onPress={() => setShowFilters((prev) => !prev)}
+                accessibilityRole="button"
+                accessibilityState={{ expanded: showFilters }}
+              >
+                <Ionicons name="options-outline" size={18} color={theme.colors.primary} />
+                <Text style={styles.filterToggleText}>
+                  Filtri{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                </Text>
+              </Pressable>
+            </View>
+
+            {showFilters && (
+              <View style={styles.filterPanel}>
+                <Text style={styles.filterLabel}>Distanza</Text>
+                <RadiusFilter value={draftArea} onChange={setDraftArea} />
+
+                <Text style={styles.filterLabel}>Categoria</Text>
+                <View style={styles.chipRow}>
+                  {categoryOptions.map((option) => {
+                    const isSelected = draft.categoria === option;
+                    return (
+                      <Pressable
+                        key={option}
+                        style={[styles.chip, isSelected && styles.chipSelected]}
+                        onPress={() =>
+                          setDraft((current) => ({
+                            ...current,
+                            categoria: isSelected ? undefined : option,
+                          }))
+                        }
+                        accessibilityRole="button"
+                      >
+                        <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                          {option.charAt(0).toUpperCase() + option.slice(1)}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                <View style={styles.filterRow}>
+                  <View style={styles.filterField}>
+                    <Text style={styles.filterLabel}>Dal</Text>
+                    <TextInput
+                      style={styles.filterInput}
+                      value={draft.from}
+                      onChangeText={(raw) => setDraft((current) => ({ ...current, from: formatDateDigits(raw) }))}
+                      placeholder="GG/MM/AAAA"
+                      keyboardType="number-pad"
+                      maxLength={10}
+                    />
+                  </View>
+                  <View style={styles.filterField}>
+                    <Text style={styles.filterLabel}>Al</Text>
+                    <TextInput
+                      style={styles.filterInput}
+                      value={draft.to}
+                      onChangeText={(raw) => setDraft((current) => ({ ...current, to: formatDateDigits(raw) }))}
+                      placeholder="GG/MM/AAAA"
+                      keyboardType="number-pad"
+                      maxLength={10}
+                    />
+                  </View>
+                </View>
+
+                <Text style={styles.filterLabel}>Compenso minimo (€/ora)</Text>
+                <TextInput
+                  style={styles.filterInput}
+                  value={draft.minCompenso}
+                  onChangeText={(value) =>
+                    setDraft((current) => ({ ...current, minCompenso: value.replace(/[^0-9.,]/g, '') }))
+                  }
+                  placeholder="Es. 10"
+                  keyboardType="decimal-pad"
+                />
+
+                <View style={styles.filterRow}>
+                  <View style={styles.filterField}>
+                    <Text style={styles.filterLabel}>Città</Text>
+                    <TextInput
+                      style={styles.filterInput}
+                      value={draft.citta}
+                      onChangeText={(value) => setDraft((current) => ({ ...current, citta: value }))}
+                      placeholder="Es. Milano"
+                      autoCapitalize="words"
+                    />
+                  </View>
+                  <View style={styles.filterField}>
+                    <Text style={styles.filterLabel}>Provincia</Text>
+                    <TextInput
+                      style={styles.filterInput}
+                      value={draft.provincia}
+                      onChangeText={(value) => setDraft((current) => ({ ...current, provincia: value }))}
+                      placeholder="Es. Lombardia"
+                      autoCapitalize="words"
+                    />
+                  </View>
+                </View>
+
+                <View style={styles.filterActions}>
+                  <Pressable
+                    style={[styles.filterButton, styles.modalSecondary]}
+                    onPress={handleResetFilters}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.modalSecondaryText}>Azzera</Text>
+                  </Pressable>
+                  <Pressable
+                    style={[styles.filterButton, styles.modalPrimary]}
+                    onPress={handleApplyFilters}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.modalPrimaryText}>Applica filtri</Text>
+                  </Pressable>
+                </View>
+              </View>
+            )}
+
+            {search.loading && incarichiDisponibili.length === 0 ? (
+              <ActivityIndicator color={theme.colors.primary} />
+            ) : incarichiDisponibili.length === 0 ? (
               <View style={styles.emptyState}>
                 <Ionicons name="briefcase-outline" size={24} color="#64748b" />
                 <Text style={styles.emptyText}>
-                  Nessun incarico disponibile al momento. Controlla di nuovo più tardi per nuove opportunità.
+                  {activeFilterCount > 0
+                    ? 'Nessun incarico corrisponde ai filtri selezionati.'
+                    : 'Nessun incarico disponibile al momento. Controlla di nuovo più tardi per nuove opportunità.'}
                 </Text>
               </View>
             ) : (
@@ -256,6 +565,9 @@ const LavoratoreScreen: React.FC = () => {
                     ? incarico.tipo.altroDettaglio ?? 'Altro'
                     : incarico.tipo.categoria.charAt(0).toUpperCase() +
                       incarico.tipo.categoria.slice(1);
+                const availability = availabilityByJob.get(incarico.id);
+                const availabilityBadge =
+                  availability && availability !== 'unknown' ? availabilityBadges[availability] : null;
 
                 return (
                   <Pressable
@@ -266,10 +578,35 @@ const LavoratoreScreen: React.FC = () => {
                       pressed && styles.incaricoCardPressed,
                     ]}
                   >
-                    <Text style={styles.incaricoTitle}>{titolo}</Text>
+                    <View style={styles.cardTitleRow}>
+                      <Text style={styles.incaricoTitle}>{titolo}</Text>
+                      {area && incarico.location ? (
+                        <View style={styles.distanceBadge}>
+                          <Ionicons name="navigate-outline" size={12} color={theme.colors.primary} />
+                          <Text style={styles.distanceBadgeText}>
+                            {formatDistance(distanceKm(area.center, incarico.location))}
+                          </Text>
+                        </View>
+                      ) : null}
+                    </View>
                     <Text style={styles.incaricoMeta}>
                       {formattedDate} · {formattedTime}
                     </Text>
+                    {availabilityBadge ? (
+                      <View
+                        style={[
+                          styles.availabilityBadge,
+                          availability === 'unavailable' && styles.availabilityBadgeOff,
+                        ]}
+                      >
+                        <Ionicons
+                          name={availabilityBadge.icon}
+                          size={14}
+                          color={availability === 'available' ? theme.colors.success : theme.colors.muted}
+                        />
+                        <Text style={styles.availabilityBadgeText}>{availabilityBadge.label}</Text>
+                      </View>
+                    ) : null}
                     <View style={styles.row}>
                       <Ionicons name="location-outline" size={16} color="#2563eb" />
                       <Text style={styles.rowText}>
@@ -291,6 +628,7 @@ const LavoratoreScreen: React.FC = () => {
                 );
               })
             )}
+            {search.loadingMore && <ActivityIndicator color={theme.colors.primary} />}
           </View>
         </ScrollView>
 
@@ -316,6 +654,13 @@ const LavoratoreScreen: React.FC = () => {
                 <Text style={styles.modalMeta}>
                   {selectedJob.data} · {selectedJob.oraInizio} - {selectedJob.oraFine}
                 </Text>
+                {hasAvailability(profile.availability) &&
+                getJobAvailability(profile.availability, selectedJob) === 'unavailable' ? (
+                  <View style={styles.modalRow}>
+                    <Ionicons name="calendar-outline" size={18} color={theme.colors.muted} />
+                    <Text style={styles.modalRowText}>Questo orario non rientra nella tua disponibilità.</Text>
+                  </View>
+                ) : null}
                 <View style={styles.modalRow}>
                   <Ionicons name="location-outline" size={18} color="#2563eb" />
                   <Text style={styles.modalRowText}>
@@ -337,6 +682,33 @@ const LavoratoreScreen: React.FC = () => {
                   <Text style={styles.modalDescription}>{selectedJob.descrizione}</Text>
                 ) : null}
 
+                {selectedJob.status !== 'applied' ? (
+                  <ScrollView style={styles.modalForm} contentContainerStyle={styles.modalFormContent}>
+                    {selectedJob.screeningQuestions && selectedJob.screeningQuestions.length > 0 ? (
+                      <>
+                        <Text style={styles.modalLabel}>Domande del datore</Text>
+                        <ScreeningAnswersForm
+                          questions={selectedJob.screeningQuestions}
+                          value={answers}
+                          onChange={setAnswers}
+                        />
+                      </>
+                    ) : null}
+                    <Text style={styles.modalLabel}>Messaggio per il datore (facoltativo)</Text>
+                    <TextInput
+                      style={styles.modalInput}
+                      value={coverLetter}
+                      onChangeText={setCoverLetter}
+                      placeholder="Presentati in poche righe"
+                      multiline
+                      maxLength={MAX_COVER_LETTER_LENGTH}
+                    />
+                    <Text style={styles.modalCounter}>
+                      {coverLetter.length}/{MAX_COVER_LETTER_LENGTH}
+                    </Text>
+                  </ScrollView>
+                ) : null}
+
                 <View style={styles.modalActions}>
                   <Pressable
                     style={[
@@ -352,7 +724,7 @@ const LavoratoreScreen: React.FC = () => {
                     ) : (
                       <Text style={styles.modalPrimaryText}>
                         {selectedJob.status === 'applied'
-                          ? 'Candidatura inviata'
+                          ? APPLICATION_STATUS_LABELS[applicationStatuses[selectedJob.id] ?? 'applied']
                           : 'Proponi candidatura'}
                       </Text>
                     )}
@@ -440,7 +812,34 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     overviewSubValue: { fontSize: 14, fontWeight: '600', color: t.colors.textPrimary },
     overviewDivider: { width: 1, height: 42, backgroundColor: t.colors.border, marginHorizontal: 16 },
     section: { gap: 16 },
+    sectionHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
     sectionTitle: { fontSize: 18, fontWeight: '700', color: t.colors.textPrimary },
+    filterToggle: {
+      flexDirection: 'row', alignItems: 'center', gap: 6, paddingVertical: 6, paddingHorizontal: 12,
+      borderRadius: 12, borderWidth: 1, borderColor: t.colors.primary,
+    },
+    filterToggleText: { fontSize: 13, fontWeight: '600', color: t.colors.primary },
+    filterPanel: {
+      backgroundColor: t.colors.surface, borderRadius: 18, padding: 18, gap: 10, shadowColor: t.colors.shadow,
+      shadowOpacity: 0.06, shadowRadius: 8, shadowOffset: { width: 0, height: 3 }, elevation: 3,
+    },
+    filterLabel: { fontSize: 13, fontWeight: '600', color: t.colors.textSecondary },
+    filterRow: { flexDirection: 'row', gap: 12 },
+    filterField: { flex: 1, gap: 6 },
+    filterInput: {
+      borderWidth: 1, borderColor: t.colors.border, borderRadius: 12, paddingHorizontal: 12, paddingVertical: 10,
+      fontSize: 14, color: t.colors.textPrimary, backgroundColor: t.colors.card,
+    },
+    filterActions: { flexDirection: 'row', gap: 12, marginTop: 4 },
+    filterButton: { flex: 1, paddingVertical: 12, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: {
+      borderWidth: 1, borderColor: t.colors.border, borderRadius: 20, paddingHorizontal: 14, paddingVertical: 8,
+      backgroundColor: t.colors.surface,
+    },
+    chipSelected: { backgroundColor: t.colors.primary, borderColor: t.colors.primary },
+    chipLabel: { color: t.colors.primary, fontSize: 13, fontWeight: '600' },
+    chipLabelSelected: { color: t.colors.surface },
     emptyState: {
       backgroundColor: t.colors.surface, borderRadius: 18, padding: 20, alignItems: 'center', gap: 12,
       shadowColor: t.colors.shadow, shadowOpacity: 0.06, shadowRadius: 8, shadowOffset: { width: 0, height: 3 }, elevation: 3,
@@ -450,7 +849,19 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
       backgroundColor: t.colors.surface, borderRadius: 18, padding: 18, gap: 8, shadowColor: t.colors.shadow,
       shadowOpacity: 0.08, shadowRadius: 10, shadowOffset: { width: 0, height: 4 }, elevation: 4,
     },
+    cardTitleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: 8 },
     incaricoTitle: { fontSize: 16, fontWeight: '700', color: t.colors.textPrimary },
+    distanceBadge: {
+      flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: 8, paddingVertical: 3,
+      borderRadius: 999, backgroundColor: t.colors.border,
+    },
+    distanceBadgeText: { fontSize: 12, fontWeight: '600', color: t.colors.textPrimary },
+    availabilityBadge: {
+      flexDirection: 'row', alignSelf: 'flex-start', alignItems: 'center', gap: 4, paddingHorizontal: 8,
+      paddingVertical: 3, borderRadius: 999, borderWidth: 1, borderColor: t.colors.success,
+    },
+    availabilityBadgeOff: { borderColor: t.colors.border },
+    availabilityBadgeText: { fontSize: 12, fontWeight: '600', color: t.colors.textPrimary },
     incaricoMeta: { fontSize: 13, color: t.colors.textSecondary },
     row: { flexDirection: 'row', alignItems: 'center', gap: 6 },
     rowText: { fontSize: 14, color: t.colors.textPrimary, flex: 1 },
@@ -462,6 +873,22 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     modalRow: { flexDirection: 'row', gap: 10, alignItems: 'center' },
     modalRowText: { flex: 1, fontSize: 14, color: t.colors.textPrimary },
     modalDescription: { fontSize: 14, color: t.colors.textSecondary, lineHeight: 20 },
+    modalForm: { maxHeight: 320 },
+    modalFormContent: { gap: 10 },
+    modalLabel: { fontSize: 14, fontWeight: '700', color: t.colors.textPrimary },
+    modalInput: {
+      minHeight: 80,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: t.colors.textPrimary,
+      backgroundColor: t.colors.card,
+      textAlignVertical: 'top',
+    },
+    modalCounter: { fontSize: 12, color: t.colors.textSecondary, alignSelf: 'flex-end' },
     modalActions: { flexDirection: 'row', gap: 12 },
     modalButton: { flex: 1, paddingVertical: 14, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
     modalPrimary: { backgroundColor: t.colors.primary },
@@ -0,0 +1,399 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import {
+  deleteBusinessLocation,
+  listBusinessLocations,
+  listBusinessMembers,
+  saveBusinessLocation,
+  type BusinessLocation,
+  type JobCategory,
+} from '../lib/api';
+import { useProfile } from './profile-context';
+import { useTheme, useThemedStyles } from './theme';
+
+const CATEGORY_OPTIONS: JobCategory[] = ['bar', 'pizzeria', 'ristorante', 'negozio', 'magazzino', 'altro'];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatAddress = (sede: BusinessLocation) => {
+  const { street, number, city, province, postalCode } = sede.address;
+  return `${street}${number ? ` ${number}` : ''}, ${postalCode ? `${postalCode} ` : ''}${city}${province ? ` (${province})` : ''}`;
+};
+
+const formatDefaults = (sede: BusinessLocation) => {
+  const parts: string[] = [];
+  if (sede.defaults.categoria) parts.push(capitalize(sede.defaults.categoria));
+  if (sede.defaults.compensoOrario !== undefined) {
+    parts.push(
+      `€ ${sede.defaults.compensoOrario.toLocaleString('it-IT', {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}/ora`
+    );
+  }
+  return parts.join(' · ');
+};
+
+const LocationsScreen: React.FC = () => {
+  const router = useRouter();
+  const { profile, loading, refreshBusiness } = useProfile();
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+
+  const [businessId, setBusinessId] = useState<string | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [sedi, setSedi] = useState<BusinessLocation[]>([]);
+  const [fetching, setFetching] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [street, setStreet] = useState('');
+  const [number, setNumber] = useState('');
+  const [city, setCity] = useState('');
+  const [province, setProvince] = useState('');
+  const [postalCode, setPostalCode] = useState('');
+  const [compenso, setCompenso] = useState('');
+  const [categoria, setCategoria] = useState<JobCategory | undefined>(undefined);
+
+  useEffect(() => {
+    if (!loading && (!profile || profile.role !== 'datore')) {
+      router.replace('/configuratore/landing');
+    }
+  }, [loading, profile, router]);
+
+  const load = useCallback(async () => {
+    if (!profile) return;
+    setFetching(true);
+    try {
+      const resolvedId = await refreshBusiness();
+      setBusinessId(resolvedId);
+      if (resolvedId) {
+        const [members, nextSedi] = await Promise.all([
+          listBusinessMembers(resolvedId),
+          listBusinessLocations(resolvedId),
+        ]);
+        const myRole = members.find((member) => member.profileId === profile.profileId)?.role;
+        setCanManage(myRole === 'owner' || myRole === 'manager');
+        setSedi(nextSedi);
+      }
+    } catch (error) {
+      console.warn('Failed to load business locations:', error);
+      Alert.alert('Errore', 'Impossibile caricare le sedi.');
+    } finally {
+      setFetching(false);
+    }
+    // refreshBusiness changes with the profile it updates; reloading on it would loop.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile?.profileId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setStreet('');
+    setNumber('');
+    setCity('');
+    setProvince('');
+    setPostalCode('');
+    setCompenso('');
+    setCategoria(undefined);
+  };
+
+  const startEditing = (sede: BusinessLocation) => {
+    setEditingId(sede.id);
+    setName(sede.name);
+    setStreet(sede.address.street);
+    setNumber(sede.address.number);
+    setCity(sede.address.city);
+    setProvince(sede.address.province);
+    setPostalCode(sede.address.postalCode);
+    setCompenso(
+      sede.defaults.compensoOrario !== undefined
+        ? String(sede.defaults.compensoOrario).replace('.', ',')
+        : ''
+    );
+    setCategoria(sede.defaults.categoria);
+  };
+
+  const compensoValue = parseFloat(compenso.replace(',', '.'));
+  const compensoIsValid = compenso.trim().length === 0 || (Number.isFinite(compensoValue) && compensoValue > 0);
+  const canSave =
+    name.trim().length > 0 && street.trim().length > 0 && city.trim().length > 0 && compensoIsValid;
+
+  const handleSave = async () => {
+    if (!businessId || !canSave || busy) return;
+    setBusy(true);
+    try {
+      await saveBusinessLocation(
+        businessId,
+        {
+          name,
+          address: { street, number, city, province, postalCode },
+          defaults: {
+            ...(compenso.trim().length > 0 ? { compensoOrario: compensoValue } : {}),
+            ...(categoria ? { categoria } : {}),
+          },
+        },
+        editingId ?? undefined
+      );
+      resetForm();
+      await load();
+    } catch (error) {
+      console.warn('Failed to save business location:', error);
+      Alert.alert('Errore', error instanceof Error && error.message ? error.message : 'Impossibile salvare la sede.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = (sede: BusinessLocation) => {
+    if (!businessId) return;
+    Alert.alert(`Eliminare ${sede.name}?`, 'Gli incarichi già pubblicati mantengono il loro indirizzo.', [
+      { text: 'Annulla', style: 'cancel' },
+      {
+        text: 'Elimina',
+        style: 'destructive',
+        onPress: async () => {
+          setBusy(true);
+          try {
+            await deleteBusinessLocation(businessId, sede.id);
+            if (editingId === sede.id) resetForm();
+            setSedi((current) => current.filter((item) => item.id !== sede.id));
+          } catch (error) {
+            console.warn('Failed to delete business location:', error);
+            Alert.alert('Errore', 'Impossibile eliminare la sede.');
+          } finally {
+            setBusy(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} accessibilityRole="button">
+            <Ionicons name="chevron-back" size={26} color={theme.colors.textPrimary} />
+          </Pressable>
+          <Text style={styles.title}>Sedi</Text>
+          <View style={{ width: 26 }} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={fetching} onRefresh={load} />}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Sedi dell&apos;attività</Text>
+            <Text style={styles.description}>
+              Nel nuovo incarico puoi scegliere una sede: indirizzo, posizione sulla mappa e valori
+              predefiniti vengono compilati automaticamente.
+            </Text>
+            {fetching && sedi.length === 0 ? (
+              <ActivityIndicator color={theme.colors.primary} />
+            ) : sedi.length === 0 ? (
+              <Text style={styles.rowMeta}>Nessuna sede salvata.</Text>
+            ) : (
+              sedi.map((sede) => (
+                <View key={sede.id} style={styles.sedeRow}>
+                  <MaterialIcons name="store" size={22} color={theme.colors.primary} />
+                  <Pressable
+                    style={styles.rowInfo}
+                    onPress={() => canManage && startEditing(sede)}
+                    disabled={!canManage}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.rowTitle}>{sede.name}</Text>
+                    <Text style={styles.rowMeta}>{formatAddress(sede)}</Text>
+                    {formatDefaults(sede) ? (
+                      <Text style={styles.rowMeta}>Predefiniti: {formatDefaults(sede)}</Text>
+                    ) : null}
+                  </Pressable>
+                  {canManage ? (
+                    <Pressable
+                      style={styles.inlineButton}
+                      disabled={busy}
+                      onPress={() => handleDelete(sede)}
+                      accessibilityRole="button"
+                    >
+                      <MaterialIcons name="delete-outline" size={22} color={theme.colors.danger} />
+                    </Pressable>
+                  ) : null}
+                </View>
+              ))
+            )}
+          </View>
+
+          {canManage ? (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{editingId ? 'Modifica sede' : 'Nuova sede'}</Text>
+              <TextInput
+                value={name}
+                onChangeText={setName}
+                placeholder="Nome (es. Centro, Stazione)"
+                placeholderTextColor={theme.colors.muted}
+                style={styles.input}
+              />
+              <View style={styles.inlineRow}>
+                <TextInput
+                  value={street}
+                  onChangeText={setStreet}
+                  placeholder="Via"
+                  placeholderTextColor={theme.colors.muted}
+                  style={[styles.input, styles.inlineWide]}
+                  autoCapitalize="words"
+                />
+                <TextInput
+                  value={number}
+                  onChangeText={setNumber}
+                  placeholder="Civico"
+                  placeholderTextColor={theme.colors.muted}
+                  style={[styles.input, styles.inlineNarrow]}
+                />
+              </View>
+              <TextInput
+                value={city}
+                onChangeText={setCity}
+                placeholder="Città"
+                placeholderTextColor={theme.colors.muted}
+                style={styles.input}
+                autoCapitalize="words"
+              />
+              <View style={styles.inlineRow}>
+                <TextInput
+                  value={province}
+                  onChangeText={setProvince}
+                  placeholder="Provincia"
+                  placeholderTextColor={theme.colors.muted}
+                  style={[styles.input, styles.inlineWide]}
+                  autoCapitalize="characters"
+                />
+                <TextInput
+                  value={postalCode}
+                  onChangeText={setPostalCode}
+                  placeholder="CAP"
+                  placeholderTextColor={theme.colors.muted}
+                  style={[styles.input, styles.inlineNarrow]}
+                  keyboardType="number-pad"
+                  maxLength={5}
+                />
+              </View>
+
+              <Text style={styles.sectionLabel}>Valori predefiniti (opzionali)</Text>
+              <View style={styles.chipRow}>
+                {CATEGORY_OPTIONS.map((option) => {
+                  const isSelected = categoria === option;
+                  return (
+                    <Pressable
+                      key={option}
+                      style={[styles.chip, isSelected && styles.chipActive]}
+                      onPress={() => setCategoria(isSelected ? undefined : option)}
+                      accessibilityRole="button"
+                    >
+                      <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                        {capitalize(option)}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <TextInput
+                value={compenso}
+                onChangeText={(value) => setCompenso(value.replace(/[^0-9.,]/g, ''))}
+                placeholder="Compenso orario (€)"
+                placeholderTextColor={theme.colors.muted}
+                style={styles.input}
+                keyboardType="decimal-pad"
+                inputMode="decimal"
+              />
+              {!compensoIsValid ? (
+                <Text style={styles.errorText}>Inserisci un compenso valido (es. 12 oppure 9,50).</Text>
+              ) : null}
+
+              <Pressable
+                style={[styles.primaryButton, (!canSave || busy) && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={!canSave || busy}
+                accessibilityRole="button"
+              >
+                {busy ? (
+                  <ActivityIndicator color={theme.colors.surface} />
+                ) : (
+                  <Text style={styles.primaryLabel}>{editingId ? 'Salva modifiche' : 'Aggiungi sede'}</Text>
+                )}
+              </Pressable>
+              {editingId ? (
+                <Pressable style={styles.cancelLink} onPress={resetForm} accessibilityRole="button">
+                  <Text style={styles.inlinePrimary}>Annulla modifica</Text>
+                </Pressable>
+              ) : null}
+            </View>
+          ) : null}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    safeArea: { flex: 1, backgroundColor: t.colors.background },
+    container: { flex: 1, backgroundColor: t.colors.background },
+    header: { flexDirection: 'row', alignItems: 'center', padding: 16, gap: 12 },
+    title: { flex: 1, textAlign: 'center', fontSize: 18, fontWeight: '700', color: t.colors.textPrimary },
+    scrollContent: { padding: 16, paddingBottom: 120, gap: 16 },
+    card: { backgroundColor: t.colors.surface, borderRadius: 18, padding: 16, gap: 12, borderWidth: 1, borderColor: t.colors.border },
+    cardTitle: { fontSize: 16, fontWeight: '600', color: t.colors.textPrimary },
+    description: { fontSize: 14, color: t.colors.textSecondary, lineHeight: 20 },
+    sedeRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 6 },
+    rowInfo: { flex: 1, gap: 2 },
+    rowTitle: { fontSize: 15, fontWeight: '600', color: t.colors.textPrimary },
+    rowMeta: { fontSize: 13, color: t.colors.textSecondary },
+    inlineButton: { paddingHorizontal: 8, paddingVertical: 6 },
+    inlinePrimary: { color: t.colors.primary, fontWeight: '600' },
+    input: { borderWidth: 1, borderColor: t.colors.border, backgroundColor: t.colors.card, borderRadius: 12, paddingHorizontal: 14, paddingVertical: 12, fontSize: 15, color: t.colors.textPrimary },
+    inlineRow: { flexDirection: 'row', gap: 12 },
+    inlineWide: { flex: 2 },
+    inlineNarrow: { flex: 1 },
+    sectionLabel: { fontSize: 14, fontWeight: '600', color: t.colors.textPrimary, marginTop: 4 },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 999, borderWidth: 1, borderColor: t.colors.border, backgroundColor: t.colors.card },
+    chipActive: { backgroundColor: t.colors.primary, borderColor: t.colors.primary },
+    chipText: { fontSize: 14, color: t.colors.textPrimary },
+    chipTextActive: { color: t.colors.surface, fontWeight: '600' },
+    errorText: { color: t.colors.danger, fontSize: 13 },
+    primaryButton: { backgroundColor: t.colors.primary, borderRadius: 14, paddingVertical: 14, alignItems: 'center' },
+    primaryLabel: { color: t.colors.surface, fontSize: 15, fontWeight: '600' },
+    cancelLink: { alignSelf: 'center', paddingVertical: 4 },
+    buttonDisabled: { opacity: 0.6 },
+  });
+
+export default LocationsScreen;
@@ -1,17 +1,28 @@
-import React, { useEffect, useMemo } from 'react';
-import { StyleSheet, Text, View } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import BottomNav from './bottom-nav';
 import { useProfile, type Incarico } from './profile-context';
 import MapViewCrossPlatform from '../components/MapViewCrossPlatform';
+import { distanceKm } from '../lib/geohash';
+import type { JobSearchFilters } from '../lib/api';
+import RadiusFilter, { formatDistance, zoomForRadius } from './radius-filter';
 import { useTheme, useThemedStyles } from './theme';
+import { useJobSearch, type SearchArea } from './use-job-search';
+
+const NO_FILTERS: JobSearchFilters = {};
 
 const MapScreen: React.FC = () => {
   const router = useRouter();
   const { profile, loading, availableJobs } = useProfile();
   const { theme } = useTheme();
   const styles = useThemedStyles((t) => createStyles(t));
+  const [area, setArea] = useState<SearchArea | null>(null);
+  const [showRadius, setShowRadius] = useState(false);
+  // Without an area the map shows the cached upcoming jobs from the profile context.
+  const nearby = useJobSearch(NO_FILTERS, area !== null, area);
 
   useEffect(() => {
     if (loading) {
@@ -28,14 +39,22 @@ const MapScreen: React.FC = () => {
 
   const jobsWithLocation = useMemo(
     () =>
-      availableJobs.filter(
+      (area ? nearby.jobs : availableJobs).filter(
         (job): job is Incarico & { location: { lat: number; lng: number } } =>
           Boolean(job.location && typeof job.location.lat === 'number' && typeof job.location.lng === 'number')
       ),
-    [availableJobs]
+    [area, nearby.jobs, availableJobs]
   );
 
   const initialRegion = useMemo(() => {
+    if (area) {
+      return {
+        latitude: area.center.lat,
+        longitude: area.center.lng,
+        latitudeDelta: 0.2,
+        longitudeDelta: 0.2,
+      };
+    }
     if (jobsWithLocation.length > 0) {
       const first = jobsWithLocation[0].location;
       return {
@@ -51,7 +70,7 @@ const MapScreen: React.FC = () => {
       latitudeDelta: 2,
       longitudeDelta: 2,
     };
-  }, [jobsWithLocation]);
+  }, [area, jobsWithLocation]);
 
 
   // Keep hooks order stable across renders to avoid hook mismatch on logout
@@ -64,8 +83,9 @@ const MapScreen: React.FC = () => {
       <View style={styles.container}>
         <View style={styles.map}>
           <MapViewCrossPlatform
+            key={area ? `${area.center.lat},${area.center.lng},${area.radiusKm}` : 'default'}
             center={{ lat: initialRegion.latitude, lng: initialRegion.longitude }}
-            zoom={initialRegion.latitudeDelta > 1 ? 6 : 12}
+            zoom={area ? zoomForRadius(area.radiusKm) : initialRegion.latitudeDelta > 1 ? 6 : 12}
             style={styles.map}
             markers={jobsWithLocation.map((job) => {
               const titolo =
@@ -77,13 +97,48 @@ const MapScreen: React.FC = () => {
                 lat: job.location.lat,
                 lng: job.location.lng,
                 title: titolo,
-                description: `${job.data} · ${job.oraInizio}`,
+                description: area
+                  ? `${job.data} · ${job.oraInizio} · ${formatDistance(distanceKm(area.center, job.location))}`
+                  : `${job.data} · ${job.oraInizio}`,
               };
             })}
           />
         </View>
 
-        {jobsWithLocation.length === 0 && (
+        <View style={styles.radiusPanel}>
+          <Pressable
+            style={styles.radiusHeader}
+            onPress={() => setShowRadius((prev) => !prev)}
+            accessibilityRole="button"
+            accessibilityState={{ expanded: showRadius }}
+          >
+            <Ionicons name="navigate-circle-outline" size={20} color={theme.colors.primary} />
+            <Text style={styles.radiusTitle}>
+              {area ? `Entro ${area.radiusKm} km da ${area.label}` : 'Cerca per distanza'}
+            </Text>
+            {nearby.loading ? (
+              <ActivityIndicator size="small" color={theme.colors.primary} />
+            ) : (
+              <Ionicons
+                name={showRadius ? 'chevron-up' : 'chevron-down'}
+                size={18}
+                color={theme.colors.textSecondary}
+              />
+            )}
+          </Pressable>
+          {showRadius && <RadiusFilter value={area} onChange={setArea} />}
+          {area && !nearby.loading ? (
+            <Text style={styles.radiusSummary}>
+              {nearby.truncated
+                ? `Più di ${jobsWithLocation.length} incarichi nel raggio selezionato: riduci il raggio per vederli tutti`
+                : jobsWithLocation.length === 1
+                  ? '1 incarico nel raggio selezionato'
+                  : `${jobsWithLocation.length} incarichi nel raggio selezionato`}
+            </Text>
+          ) : null}
+        </View>
+
+        {jobsWithLocation.length === 0 && !area && (
           <View style={styles.emptyOverlay} pointerEvents="none">
             <Text style={styles.emptyTitle}>Nessuna posizione disponibile</Text>
             <Text style={styles.emptySubtitle}>
@@ -111,9 +166,36 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     map: {
       flex: 1,
     },
+    radiusPanel: {
+      position: 'absolute',
+      top: 16,
+      left: 16,
+      right: 16,
+      padding: 12,
+      borderRadius: 16,
+      backgroundColor: t.colors.card,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      gap: 10,
+    },
+    radiusHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    radiusTitle: {
+      flex: 1,
+      fontSize: 15,
+      fontWeight: '600',
+      color: t.colors.textPrimary,
+    },
+    radiusSummary: {
+      fontSize: 13,
+      color: t.colors.textSecondary,
+    },
     emptyOverlay: {
       position: 'absolute',
-      top: 80,
+      top: 96,
       left: 24,
       right: 24,
       padding: 16,
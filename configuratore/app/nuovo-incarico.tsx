@@ -11,9 +11,35 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 
-import { useProfile } from './profile-context';
+import {
+  MAX_JOB_POSITIONS,
+  deleteJobTemplate,
+  describeJobChangeFields,
+  listBusinessLocations,
+  listJobTemplates,
+  MAX_SERIES_OCCURRENCES,
+  saveJobTemplate,
+  type BusinessLocation,
+  type JobTemplate,
+  type JobTemplateFields,
+  type ScreeningQuestion,
+} from '../lib/api';
+import {
+  WEEKDAY_LABELS,
+  WEEKDAY_ORDER,
+  describeRecurrence,
+  expandJobSchedule,
+  formatDateDigits,
+  formatDateInput,
+  parseDateInput,
+  validateShifts,
+  type JobRecurrence,
+  type JobShift,
+} from './job-series';
+import { useProfile, type Incarico } from './profile-context';
+import { ScreeningQuestionsEditor } from './screening-questions';
 import { useTheme, useThemedStyles } from './theme';
 
 const tipoOptions = ['bar', 'pizzeria', 'ristorante', 'negozio', 'magazzino', 'altro'] as const;
@@ -29,18 +55,6 @@ const stepMeta: Record<StepKey, { label: string; icon: keyof typeof Ionicons.gly
   dettagli: { label: 'Dettagli', icon: 'list-outline' },
 };
 
-const parseDateInput = (value: string): Date | null => {
-  const match = /^([0-3]\d)[/.-]([0-1]\d)[/.-](\d{4})$/.exec(value.trim());
-  if (!match) return null;
-  const [, dd, mm, yyyy] = match;
-  const day = Number(dd);
-  const month = Number(mm) - 1;
-  const year = Number(yyyy);
-  const d = new Date(year, month, day);
-  if (d.getFullYear() !== year || d.getMonth() !== month || d.getDate() !== day) return null;
-  return d;
-};
-
 const parseTimeInput = (value: string): Date | null => {
   const match = /^([0-2]\d):([0-5]\d)$/.exec(value.trim());
   if (!match) return null;
@@ -59,12 +73,6 @@ const startOfToday = () => {
   return base;
 };
 
-const combineDateTime = (date: Date, time: Date) => {
-  const combined = new Date(date);
-  combined.setHours(time.getHours(), time.getMinutes(), 0, 0);
-  return combined;
-};
-
 const roundToQuarterHour = (date: Date, strategy: 'ceil' | 'floor' | 'round' = 'ceil') => {
   const result = new Date(date);
   const minutes = result.getMinutes();
@@ -85,17 +93,50 @@ const roundToQuarterHour = (date: Date, strategy: 'ceil' | 'floor' | 'round' = '
   return result;
 };
 
+const toTemplateFields = (job: Incarico): JobTemplateFields => ({
+  shifts: [{ oraInizio: job.oraInizio, oraFine: job.oraFine }],
+  indirizzo: job.indirizzo,
+  ...(job.location ? { location: job.location } : {}),
+  ...(job.locationId ? { locationId: job.locationId } : {}),
+  tipo: job.tipo,
+  descrizione: job.descrizione,
+  compensoOrario: job.compensoOrario,
+  positions: job.positions ?? 1,
+  ...(job.screeningQuestions ? { screeningQuestions: job.screeningQuestions } : {}),
+});
+
+const firstParam = (value?: string | string[]) => {
+  const single = Array.isArray(value) ? value[0] : value;
+  return typeof single === 'string' && single.length > 0 ? single : undefined;
+};
+
 const NuovoIncaricoScreen: React.FC = () => {
   const router = useRouter();
-  const { profile, loading, addIncarico } = useProfile();
+  const params = useLocalSearchParams<{
+    jobId?: string | string[];
+    duplicateFrom?: string | string[];
+    templateId?: string | string[];
+  }>();
+  // With ?jobId= the wizard edits a published job instead of creating one;
+  // ?duplicateFrom= and ?templateId= only prefill a new one.
+  const editJobId = firstParam(params.jobId);
+  const isEditing = editJobId !== undefined;
+  const duplicateFrom = isEditing ? undefined : firstParam(params.duplicateFrom);
+  const initialTemplateId = isEditing || duplicateFrom ? undefined : firstParam(params.templateId);
+  const { profile, loading, incarichi, archivedIncarichi, addIncarico, updateIncarico } =
+    useProfile();
   const { theme } = useTheme();
   const styles = useThemedStyles((t) => createStyles(t));
 
   const [stepIndex, setStepIndex] = useState(0);
   const [dataInput, setDataInput] = useState('');
-  const [oraInizioInput, setOraInizioInput] = useState('');
-  const [oraFineInput, setOraFineInput] = useState('');
-  const [activePicker, setActivePicker] = useState<'start' | 'end' | null>(null);
+  const [shifts, setShifts] = useState<JobShift[]>([{ oraInizio: '', oraFine: '' }]);
+  const [activePicker, setActivePicker] = useState<{ index: number; field: 'start' | 'end' } | null>(
+    null
+  );
+  const [repeatWeekly, setRepeatWeekly] = useState(false);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [endDateInput, setEndDateInput] = useState('');
 
   const [via, setVia] = useState('');
   const [civico, setCivico] = useState('');
@@ -107,25 +148,94 @@ const NuovoIncaricoScreen: React.FC = () => {
   const [altroDettaglio, setAltroDettaglio] = useState('');
   const [descrizione, setDescrizione] = useState('');
   const [compenso, setCompenso] = useState('');
+  const [positions, setPositions] = useState(1);
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([]);
+  const [schedulePublish, setSchedulePublish] = useState(false);
+  const [publishDateInput, setPublishDateInput] = useState('');
+  const [publishTimeInput, setPublishTimeInput] = useState('');
   const [addressQuery, setAddressQuery] = useState('');
   const [addressResults, setAddressResults] = useState<
     Array<{ label: string; lat: number; lng: number; address: Record<string, string> }>
   >([]);
   const [addressLoading, setAddressLoading] = useState(false);
   const [selectedLocation, setSelectedLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [sedi, setSedi] = useState<BusinessLocation[]>([]);
+  const [selectedSedeId, setSelectedSedeId] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<JobTemplate[]>([]);
+  const [appliedTemplateId, setAppliedTemplateId] = useState<string | null>(null);
+  const [showTemplateForm, setShowTemplateForm] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [savingTemplate, setSavingTemplate] = useState(false);
   const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const prefilledRef = useRef(false);
+
+  // Fills every step except the date, which is chosen for each new job.
+  const applyJobFields = useCallback((fields: JobTemplateFields) => {
+    setShifts(
+      fields.shifts.length > 0
+        ? fields.shifts.map((shift) => ({ ...shift }))
+        : [{ oraInizio: '', oraFine: '' }]
+    );
+    setActivePicker(null);
+    setVia(fields.indirizzo.via);
+    setCivico(fields.indirizzo.civico);
+    setCitta(fields.indirizzo.citta);
+    setProvincia(fields.indirizzo.provincia);
+    setCap(fields.indirizzo.cap);
+    setAddressResults([]);
+    setAddressQuery(
+      [`${fields.indirizzo.via} ${fields.indirizzo.civico}`.trim(), fields.indirizzo.citta, fields.indirizzo.provincia]
+        .filter((piece) => piece.length > 0)
+        .join(', ')
+    );
+    setSelectedLocation(fields.location ?? null);
+    setSelectedSedeId(fields.locationId ?? null);
+    setCategoria(fields.tipo.categoria);
+    setAltroDettaglio(fields.tipo.altroDettaglio ?? '');
+    setDescrizione(fields.descrizione);
+    setCompenso(fields.compensoOrario > 0 ? String(fields.compensoOrario).replace('.', ',') : '');
+    setPositions(fields.positions);
+    setScreeningQuestions(fields.screeningQuestions ?? []);
+  }, []);
 
-  const handleDateInputChange = useCallback((raw: string) => {
-    const digits = raw.replace(/[^\d]/g, '').slice(0, 8);
-    if (digits.length <= 2) {
-      setDataInput(digits);
+  useEffect(() => {
+    if (prefilledRef.current) return;
+    if (isEditing) {
+      const job = incarichi.find((item) => item.id === editJobId);
+      if (!job) return;
+      prefilledRef.current = true;
+      applyJobFields(toTemplateFields(job));
+      setDataInput(job.data);
       return;
     }
-    if (digits.length <= 4) {
-      setDataInput(`${digits.slice(0, 2)}/${digits.slice(2)}`);
+    if (duplicateFrom) {
+      // Past jobs can be copied too, so look in the archive as well.
+      const job = [...incarichi, ...archivedIncarichi].find((item) => item.id === duplicateFrom);
+      if (!job) return;
+      prefilledRef.current = true;
+      applyJobFields(toTemplateFields(job));
       return;
     }
-    setDataInput(`${digits.slice(0, 2)}/${digits.slice(2, 4)}/${digits.slice(4)}`);
+    if (initialTemplateId) {
+      const template = templates.find((item) => item.id === initialTemplateId);
+      if (!template) return;
+      prefilledRef.current = true;
+      applyJobFields(template.fields);
+      setAppliedTemplateId(template.id);
+    }
+  }, [
+    isEditing,
+    editJobId,
+    duplicateFrom,
+    initialTemplateId,
+    incarichi,
+    archivedIncarichi,
+    templates,
+    applyJobFields,
+  ]);
+
+  const handleDateInputChange = useCallback((raw: string) => {
+    setDataInput(formatDateDigits(raw));
   }, []);
 
   useEffect(() => {
@@ -175,9 +285,72 @@ const NuovoIncaricoScreen: React.FC = () => {
     }
   }, [loading, profile, router]);
 
+  const businessId = profile?.businessId;
+  useEffect(() => {
+    if (!businessId) {
+      setSedi([]);
+      return;
+    }
+    let active = true;
+    listBusinessLocations(businessId)
+      .then((items) => {
+        if (active) setSedi(items);
+      })
+      .catch((error) => console.warn('Failed to load business locations:', error));
+    return () => {
+      active = false;
+    };
+  }, [businessId]);
+
+  useEffect(() => {
+    if (!businessId || isEditing) {
+      setTemplates([]);
+      return;
+    }
+    let active = true;
+    listJobTemplates(businessId)
+      .then((items) => {
+        if (active) setTemplates(items);
+      })
+      .catch((error) => console.warn('Failed to load job templates:', error));
+    return () => {
+      active = false;
+    };
+  }, [businessId, isEditing]);
+
   const parsedDate = useMemo(() => parseDateInput(dataInput), [dataInput]);
-  const parsedStart = useMemo(() => parseTimeInput(oraInizioInput), [oraInizioInput]);
-  const parsedEnd = useMemo(() => parseTimeInput(oraFineInput), [oraFineInput]);
+
+  const recurrence = useMemo<JobRecurrence | undefined>(() => {
+    if (!repeatWeekly) return undefined;
+    return {
+      weekdays: weekdays.length > 0 ? weekdays : parsedDate ? [parsedDate.getDay()] : [],
+      endDate: endDateInput,
+    };
+  }, [repeatWeekly, weekdays, endDateInput, parsedDate]);
+
+  const occurrences = useMemo(
+    () => expandJobSchedule(dataInput, { shifts, recurrence }),
+    [dataInput, shifts, recurrence]
+  );
+
+  const scheduleError = useMemo(() => {
+    if (!parsedDate) return 'Inserisci una data valida.';
+    if (parsedDate < startOfToday()) return 'La data deve essere oggi o futura.';
+    const shiftError = validateShifts(shifts);
+    if (shiftError) return shiftError;
+    if (recurrence) {
+      const lastDay = parseDateInput(recurrence.endDate);
+      if (!lastDay) return 'Inserisci la data di fine della ripetizione.';
+      if (lastDay < parsedDate) return 'La ripetizione deve terminare dopo la data di inizio.';
+      if (occurrences.length === 0) return 'Nessun turno futuro nei giorni selezionati.';
+      if (occurrences.length > MAX_SERIES_OCCURRENCES) {
+        return `Puoi pubblicare al massimo ${MAX_SERIES_OCCURRENCES} turni per serie.`;
+      }
+      return null;
+    }
+    if (occurrences.length < shifts.length) return "L'orario di inizio deve essere nel futuro.";
+    return null;
+  }, [parsedDate, shifts, recurrence, occurrences]);
 
   const stepLabel = useMemo(() => {
     const key = steps[stepIndex];
@@ -279,6 +452,10 @@ const NuovoIncaricoScreen: React.FC = () => {
     if (searchTimerRef.current) {
       clearTimeout(searchTimerRef.current);
     }
+    // The query already points to a chosen address or site.
+    if (selectedLocation) {
+      return;
+    }
     searchTimerRef.current = setTimeout(() => {
       void fetchAddressSuggestions(addressQuery);
     }, 350);
@@ -288,7 +465,7 @@ const NuovoIncaricoScreen: React.FC = () => {
         clearTimeout(searchTimerRef.current);
       }
     };
-  }, [addressQuery, fetchAddressSuggestions]);
+  }, [addressQuery, fetchAddressSuggestions, selectedLocation]);
 
   const handleSelectAddress = (
     item: {
@@ -323,26 +500,119 @@ const NuovoIncaricoScreen: React.FC = () => {
     );
     setCap(normalizeAddressField(component.postcode));
     setSelectedLocation({ lat: item.lat, lng: item.lng });
+    setSelectedSedeId(null);
+  };
+
+  const handleSelectSede = (sede: BusinessLocation) => {
+    const { street, number, city, province, postalCode } = sede.address;
+    setSelectedSedeId(sede.id);
+    setSelectedLocation(sede.location);
+    setAddressResults([]);
+    setAddressQuery(
+      [`${street} ${number}`.trim(), city, province].filter((piece) => piece.length > 0).join(', ')
+    );
+    setVia(street);
+    setCivico(number || '1');
+    setCitta(city);
+    setProvincia(province);
+    setCap(postalCode);
+    if (sede.defaults.compensoOrario !== undefined) {
+      setCompenso(String(sede.defaults.compensoOrario).replace('.', ','));
+    }
+    if (sede.defaults.categoria) {
+      setCategoria(sede.defaults.categoria);
+    }
+  };
+
+  const handleApplyTemplate = (template: JobTemplate) => {
+    applyJobFields(template.fields);
+    setAppliedTemplateId(template.id);
+  };
+
+  const handleDeleteTemplate = (template: JobTemplate) => {
+    if (!businessId) return;
+    Alert.alert('Eliminare il modello?', `"${template.name}" non sarà più disponibile.`, [
+      { text: 'Annulla', style: 'cancel' },
+      {
+        text: 'Elimina',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteJobTemplate(businessId, template.id);
+            setTemplates((current) => current.filter((item) => item.id !== template.id));
+            if (appliedTemplateId === template.id) setAppliedTemplateId(null);
+          } catch (error) {
+            console.warn('Failed to delete job template:', error);
+            Alert.alert('Errore', 'Impossibile eliminare il modello.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleOpenTemplateForm = () => {
+    if (!showTemplateForm && !templateName) {
+      const applied = templates.find((item) => item.id === appliedTemplateId);
+      setTemplateName(applied?.name ?? '');
+    }
+    setShowTemplateForm((prev) => !prev);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!businessId || !categoria) return;
+    // Saving under an existing name updates that template.
+    const existing = templates.find(
+      (item) => item.name.toLowerCase() === templateName.trim().toLowerCase()
+    );
+    setSavingTemplate(true);
+    try {
+      const saved = await saveJobTemplate(
+        businessId,
+        templateName,
+        {
+          shifts: shifts.filter((shift) => shift.oraInizio && shift.oraFine),
+          indirizzo: { via, civico, citta, provincia, cap },
+          ...(selectedLocation ? { location: selectedLocation } : {}),
+          ...(selectedSedeId ? { locationId: selectedSedeId } : {}),
+          tipo: {
+            categoria,
+            ...(categoria === 'altro' ? { altroDettaglio: altroDettaglio.trim() } : {}),
+          },
+          descrizione: descrizione.trim(),
+          compensoOrario: compensoIsValid ? compensoValue : 0,
+          positions,
+          screeningQuestions,
+        },
+        existing?.id
+      );
+      setTemplates((current) =>
+        [...current.filter((item) => item.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setAppliedTemplateId(saved.id);
+      setShowTemplateForm(false);
+      Alert.alert(
+        'Modello salvato',
+        existing
+          ? `"${saved.name}" è stato aggiornato.`
+          : `Ritroverai "${saved.name}" al primo passo dei prossimi incarichi.`
+      );
+    } catch (error) {
+      console.warn('Failed to save job template:', error);
+      Alert.alert(
+        'Errore',
+        error instanceof Error && error.message ? error.message : 'Impossibile salvare il modello.'
+      );
+    } finally {
+      setSavingTemplate(false);
+    }
   };
 
   const canProceed = useMemo(() => {
     const key = steps[stepIndex];
     if (key === 'quando') {
-      if (!parsedDate || !parsedStart || !parsedEnd) return false;
-      const chosenDay = new Date(parsedDate);
-      chosenDay.setHours(0, 0, 0, 0);
-      if (chosenDay < startOfToday()) {
-        return false;
-      }
-      const startDateTime = combineDateTime(parsedDate, parsedStart);
-      const endDateTime = combineDateTime(parsedDate, parsedEnd);
-      if (endDateTime <= startDateTime) {
-        return false;
-      }
-      if (startDateTime < new Date()) {
-        return false;
-      }
-      return true;
+      return scheduleError === null;
     }
     if (key === 'dove') {
       const hasAddressText = addressQuery.trim().length > 3;
@@ -362,9 +632,7 @@ const NuovoIncaricoScreen: React.FC = () => {
     return false;
   }, [
     stepIndex,
-    parsedDate,
-    parsedStart,
-    parsedEnd,
+    scheduleError,
     via,
     civico,
     citta,
@@ -427,35 +695,80 @@ const NuovoIncaricoScreen: React.FC = () => {
     []
   );
 
+  const activeShift = activePicker ? shifts[activePicker.index] : undefined;
+  const activeStart = useMemo(
+    () => (activeShift ? parseTimeInput(activeShift.oraInizio) : null),
+    [activeShift]
+  );
+
   const startOptions = useMemo(() => buildTimeOptions(parsedDate, null), [buildTimeOptions, parsedDate]);
   const endOptions = useMemo(() => {
-    if (parsedStart) {
-      const min = new Date(parsedStart.getTime() + 15 * 60 * 1000);
-      return buildTimeOptions(parsedDate, min);
+    if (activeStart && activeShift) {
+      const min = new Date(activeStart.getTime() + 15 * 60 * 1000);
+      // Times before the start end on the next day (overnight shifts).
+      const nextDay = parsedDate
+        ? new Date(parsedDate.getFullYear(), parsedDate.getMonth(), parsedDate.getDate() + 1)
+        : null;
+      return [
+        ...buildTimeOptions(parsedDate, min).filter((opt) => opt > activeShift.oraInizio),
+        ...buildTimeOptions(nextDay, null).filter((opt) => opt < activeShift.oraInizio),
+      ];
     }
     return buildTimeOptions(parsedDate, null);
-  }, [buildTimeOptions, parsedDate, parsedStart]);
+  }, [buildTimeOptions, parsedDate, activeStart, activeShift]);
 
   const handleSelectTime = (value: string) => {
-    if (activePicker === 'start') {
-      setOraInizioInput(value);
-      // reset end if invalid
-      if (oraFineInput) {
-        const end = parseTimeInput(oraFineInput);
-        const startTime = parseTimeInput(value);
-        if (end && startTime && end <= startTime) {
-          setOraFineInput('');
-        }
-      }
-    } else if (activePicker === 'end') {
-      setOraFineInput(value);
-    }
+    if (!activePicker) return;
+    const { index, field } = activePicker;
+    setShifts((current) =>
+      current.map((shift, i) => {
+        if (i !== index) return shift;
+        if (field === 'end') return { ...shift, oraFine: value };
+        // reset end if invalid; an earlier end is an overnight shift
+        return {
+          oraInizio: value,
+          oraFine: shift.oraFine === value ? '' : shift.oraFine,
+        };
+      })
+    );
     setActivePicker(null);
   };
 
+  const handleToggleRepeat = () => {
+    if (!repeatWeekly && weekdays.length === 0 && parsedDate) {
+      setWeekdays([parsedDate.getDay()]);
+    }
+    setRepeatWeekly((prev) => !prev);
+  };
+
+  const handleToggleWeekday = (day: number) => {
+    setWeekdays((current) =>
+      current.includes(day) ? current.filter((d) => d !== day) : [...current, day]
+    );
+  };
+
   const handleDateChange = (raw: string) => handleDateInputChange(raw);
 
-  const handleNext = async () => {
+  const publishAt = useMemo(() => {
+    if (!schedulePublish) return null;
+    const day = parseDateInput(publishDateInput);
+    const time = parseTimeInput(publishTimeInput);
+    if (!day || !time) return null;
+    day.setHours(time.getHours(), time.getMinutes(), 0, 0);
+    return day;
+  }, [schedulePublish, publishDateInput, publishTimeInput]);
+
+  const publishError = useMemo(() => {
+    if (!schedulePublish) return null;
+    if (!publishAt) return 'Inserisci data e ora di pubblicazione.';
+    if (publishAt <= new Date()) return 'La pubblicazione deve essere nel futuro.';
+    if (occurrences[0] && publishAt >= occurrences[0].startAt) {
+      return "La pubblicazione deve precedere l'inizio dell'incarico.";
+    }
+    return null;
+  }, [schedulePublish, publishAt, occurrences]);
+
+  const handleNext = async (asDraft = false) => {
     if (steps[stepIndex] !== 'dettagli') {
       setStepIndex((prev) => Math.min(prev + 1, steps.length - 1));
       return;
@@ -472,25 +785,8 @@ const NuovoIncaricoScreen: React.FC = () => {
     }
 
     try {
-      if (!parsedDate || !parsedStart || !parsedEnd) {
-        throw new Error('Invalid date');
-      }
-
-      const chosenDay = new Date(parsedDate);
-      chosenDay.setHours(0, 0, 0, 0);
-      if (chosenDay < startOfToday()) {
-        Alert.alert('Attenzione', 'La data deve essere oggi o futura.');
-        return;
-      }
-
-      const startDateTime = combineDateTime(parsedDate, parsedStart);
-      const endDateTime = combineDateTime(parsedDate, parsedEnd);
-      if (startDateTime < new Date()) {
-        Alert.alert('Attenzione', "L'orario di inizio deve essere nel futuro.");
-        return;
-      }
-      if (endDateTime <= startDateTime) {
-        Alert.alert('Attenzione', "L'orario di fine deve essere successivo all'inizio.");
+      if (scheduleError) {
+        Alert.alert('Attenzione', scheduleError);
         return;
       }
 
@@ -503,6 +799,11 @@ const NuovoIncaricoScreen: React.FC = () => {
         Alert.alert('Attenzione', 'Seleziona una categoria valida.');
         return;
       }
+
+      if (!isEditing && !asDraft && publishError) {
+        Alert.alert('Attenzione', publishError);
+        return;
+      }
       const trimmedQuery = addressQuery.trim();
       let fallbackVia = via.trim();
       let fallbackCivico = civico.trim();
@@ -523,26 +824,78 @@ const NuovoIncaricoScreen: React.FC = () => {
         fallbackCivico = '1';
       }
 
-      await addIncarico({
-        data: dataInput,
-        oraInizio: oraInizioInput,
-        oraFine: oraFineInput,
-        indirizzo: {
-          via: fallbackVia,
-          civico: fallbackCivico,
-          citta: fallbackCity,
-          provincia: fallbackProvincia,
-          cap: fallbackCap,
-        },
-        tipo: {
-          categoria: categoria,
-          altroDettaglio: categoria === 'altro' ? altroDettaglio.trim() : undefined,
+      if (isEditing) {
+        const result = await updateIncarico(editJobId, {
+          data: dataInput,
+          oraInizio: shifts[0].oraInizio,
+          oraFine: shifts[0].oraFine,
+          indirizzo: {
+            via: fallbackVia,
+            civico: fallbackCivico,
+            citta: fallbackCity,
+            provincia: fallbackProvincia,
+            cap: fallbackCap,
+          },
+          ...(selectedLocation ? { location: selectedLocation } : {}),
+          tipo: {
+            categoria,
+            altroDettaglio: categoria === 'altro' ? altroDettaglio.trim() : undefined,
+          },
+          descrizione: descrizione.trim(),
+          compensoOrario: compensoValue,
+        });
+        const fields = result.changes.map((change) => change.field);
+        const reconfirmMessage =
+          result.reconfirmations === 1
+            ? ' Il lavoratore assunto dovrà confermare di nuovo.'
+            : result.reconfirmations > 1
+              ? ` ${result.reconfirmations} lavoratori assunti dovranno confermare di nuovo.`
+              : '';
+        Alert.alert(
+          fields.length > 0 ? 'Incarico aggiornato' : 'Nessuna modifica',
+          fields.length > 0
+            ? `Modificato: ${describeJobChangeFields(fields)}. I candidati vedranno i nuovi dati.${reconfirmMessage}`
+            : 'I dati dell\'incarico sono invariati.',
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+        return;
+      }
+
+      await addIncarico(
+        {
+          data: dataInput,
+          oraInizio: shifts[0].oraInizio,
+          oraFine: shifts[0].oraFine,
+          indirizzo: {
+            via: fallbackVia,
+            civico: fallbackCivico,
+            citta: fallbackCity,
+            provincia: fallbackProvincia,
+            cap: fallbackCap,
+          },
+          tipo: {
+            categoria: categoria,
+            altroDettaglio: categoria === 'altro' ? altroDettaglio.trim() : undefined,
+          },
+          descrizione: descrizione.trim(),
+          compensoOrario: compensoValue,
+          positions,
+          ...(screeningQuestions.length > 0 ? { screeningQuestions } : {}),
+          location: selectedLocation ?? undefined,
+          ...(selectedSedeId ? { locationId: selectedSedeId } : {}),
+          ...(asDraft || publishAt ? { jobStatus: 'draft' as const } : {}),
+          ...(!asDraft && publishAt ? { publishAt: publishAt.toISOString() } : {}),
         },
-        descrizione: descrizione.trim(),
-        compensoOrario: compensoValue,
-        location: selectedLocation ?? undefined,
-      });
-      Alert.alert('Successo', 'Incarico salvato con successo!', [
+        { shifts, recurrence }
+      );
+      const successMessage = asDraft
+        ? 'Bozza salvata: la trovi in "I miei incarichi", pronta da pubblicare.'
+        : publishAt
+          ? `Pubblicazione programmata per il ${formatDateInput(publishAt)} alle ${publishTimeInput}.`
+          : occurrences.length > 1
+            ? `Serie salvata: ${occurrences.length} incarichi pubblicati!`
+            : 'Incarico salvato con successo!';
+      Alert.alert('Successo', successMessage, [
         {
           text: 'OK',
           onPress: () => router.replace('/configuratore/datore'),
@@ -565,12 +918,18 @@ const NuovoIncaricoScreen: React.FC = () => {
     return null;
   }
 
+  const showScheduleError =
+    scheduleError !== null &&
+    parsedDate !== null &&
+    shifts.every((shift) => shift.oraInizio && shift.oraFine);
+
   const renderQuando = () => (
     <View style={styles.stepBox}>
       <View style={styles.summaryBox}>
         <Ionicons name="calendar-outline" size={18} color={theme.colors.primary} />
         <Text style={styles.summaryText}>
-          {dataInput || 'Data non selezionata'} · {oraInizioInput || '--:--'} → {oraFineInput || '--:--'}
+          {dataInput || 'Data non selezionata'} · {shifts[0].oraInizio || '--:--'} → {shifts[0].oraFine || '--:--'}
+          {shifts.length > 1 ? ` (+${shifts.length - 1} turni)` : ''}
           {compensoIsValid
             ? ` · € ${compensoValue.toLocaleString('it-IT', {
               minimumFractionDigits: 2,
@@ -579,11 +938,41 @@ const NuovoIncaricoScreen: React.FC = () => {
             : ''}
         </Text>
       </View>
+      {!isEditing && templates.length > 0 && (
+        <>
+          <Text style={styles.label}>Parti da un modello</Text>
+          <View style={styles.chipRow}>
+            {templates.map((template) => {
+              const isSelected = appliedTemplateId === template.id;
+              return (
+                <Pressable
+                  key={template.id}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => handleApplyTemplate(template)}
+                  onLongPress={() => handleDeleteTemplate(template)}
+                  accessibilityRole="button"
+                  accessibilityHint="Tieni premuto per eliminare il modello"
+                >
+                  <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                    {template.name}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.seriesHint}>
+            Il modello compila tutti i passi: controlla i dati e scegli la data. Tieni premuto
+            per eliminarlo.
+          </Text>
+        </>
+      )}
       <Text style={styles.stepDescription}>
-        Scegli la data e l'orario di inizio e fine per questo incarico.
+        {duplicateFrom
+          ? 'Stai duplicando un incarico: tutti i dati sono già compilati, scegli la nuova data.'
+          : "Scegli la data e l'orario di inizio e fine per questo incarico. Puoi aggiungere più turni nella stessa giornata e ripeterli ogni settimana."}
       </Text>
 
-      <Text style={styles.label}>Data (GG/MM/AAAA)</Text>
+      <Text style={styles.label}>{repeatWeekly ? 'Dal (GG/MM/AAAA)' : 'Data (GG/MM/AAAA)'}</Text>
       <TextInput
         style={styles.input}
         value={dataInput}
@@ -593,30 +982,103 @@ const NuovoIncaricoScreen: React.FC = () => {
         maxLength={10}
       />
 
-      <View style={styles.timeRow}>
-        <Pressable
-          style={[styles.selector, styles.timeSelector]}
-          onPress={() => setActivePicker('start')}
-          accessibilityRole="button"
-        >
-          <MaterialIcons name="schedule" size={22} color={theme.colors.primary} />
-          <Text style={styles.selectorValue}>{oraInizioInput || 'Seleziona orario'}</Text>
-        </Pressable>
-        <Pressable
-          style={[styles.selector, styles.timeSelector]}
-          onPress={() => setActivePicker('end')}
-          accessibilityRole="button"
-        >
-          <MaterialIcons name="schedule" size={22} color={theme.colors.primary} />
-          <Text style={styles.selectorValue}>{oraFineInput || 'Seleziona orario'}</Text>
-        </Pressable>
-      </View>
+      {shifts.map((shift, index) => (
+        <View key={index} style={[styles.timeRow, index > 0 && styles.shiftRow]}>
+          <Pressable
+            style={[styles.selector, styles.timeSelector]}
+            onPress={() => setActivePicker({ index, field: 'start' })}
+            accessibilityRole="button"
+          >
+            <MaterialIcons name="schedule" size={22} color={theme.colors.primary} />
+            <Text style={styles.selectorValue}>{shift.oraInizio || 'Seleziona orario'}</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.selector, styles.timeSelector]}
+            onPress={() => setActivePicker({ index, field: 'end' })}
+            accessibilityRole="button"
+          >
+            <MaterialIcons name="schedule" size={22} color={theme.colors.primary} />
+            <Text style={styles.selectorValue}>{shift.oraFine || 'Seleziona orario'}</Text>
+          </Pressable>
+          {index > 0 && (
+            <Pressable
+              style={styles.removeShift}
+              onPress={() => setShifts((current) => current.filter((_, i) => i !== index))}
+              accessibilityRole="button"
+              accessibilityLabel="Rimuovi turno"
+            >
+              <Ionicons name="close-circle-outline" size={22} color={theme.colors.danger} />
+            </Pressable>
+          )}
+        </View>
+      ))}
 
-      {parsedStart && parsedEnd && parsedEnd <= parsedStart && (
-        <Text style={styles.errorText}>
-          L'orario di fine deve essere successivo all'orario di inizio.
-        </Text>
+      {!isEditing && (
+        <>
+          <Pressable
+            style={styles.inlineAction}
+            onPress={() => setShifts((current) => [...current, { oraInizio: '', oraFine: '' }])}
+            accessibilityRole="button"
+          >
+            <Ionicons name="add-circle-outline" size={20} color={theme.colors.primary} />
+            <Text style={styles.inlineActionText}>Aggiungi turno</Text>
+          </Pressable>
+
+          <Pressable
+            style={styles.inlineAction}
+            onPress={handleToggleRepeat}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: repeatWeekly }}
+          >
+            <Ionicons
+              name={repeatWeekly ? 'checkbox' : 'square-outline'}
+              size={20}
+              color={theme.colors.primary}
+            />
+            <Text style={styles.inlineActionText}>Ripeti ogni settimana</Text>
+          </Pressable>
+        </>
       )}
+
+      {repeatWeekly && (
+        <>
+          <Text style={styles.label}>Giorni</Text>
+          <View style={styles.chipRow}>
+            {WEEKDAY_ORDER.map((day) => {
+              const isSelected = recurrence?.weekdays.includes(day) ?? false;
+              return (
+                <Pressable
+                  key={day}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => handleToggleWeekday(day)}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                    {WEEKDAY_LABELS[day]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>Fino al (GG/MM/AAAA)</Text>
+          <TextInput
+            style={styles.input}
+            value={endDateInput}
+            onChangeText={(raw) => setEndDateInput(formatDateDigits(raw))}
+            placeholder="GG/MM/AAAA"
+            keyboardType="number-pad"
+            maxLength={10}
+          />
+          {recurrence && scheduleError === null && (
+            <Text style={styles.seriesHint}>
+              {describeRecurrence(recurrence)}: verranno pubblicati {occurrences.length} incarichi.
+            </Text>
+          )}
+        </>
+      )}
+
+      {showScheduleError && <Text style={styles.errorText}>{scheduleError}</Text>}
     </View>
   );
 
@@ -634,13 +1096,49 @@ const NuovoIncaricoScreen: React.FC = () => {
           salveremo automaticamente le coordinate precise sulla mappa.
         </Text>
 
-        <Text style={styles.label}>Cerca indirizzo</Text>
+        {sedi.length > 0 && (
+          <>
+            <Text style={styles.label}>Sedi dell&apos;attività</Text>
+            <View style={styles.chipRow}>
+              {sedi.map((sede) => {
+                const isSelected = selectedSedeId === sede.id;
+                return (
+                  <Pressable
+                    key={sede.id}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => handleSelectSede(sede)}
+                    accessibilityRole="button"
+                  >
+                    <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                      {sede.name}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </>
+        )}
+        {businessId && (
+          <Pressable
+            style={styles.manageLink}
+            onPress={() => router.push('/configuratore/locations')}
+            accessibilityRole="button"
+          >
+            <MaterialIcons name="store" size={18} color={theme.colors.primary} />
+            <Text style={styles.manageLinkText}>
+              {sedi.length > 0 ? 'Gestisci sedi' : 'Aggiungi le sedi della tua attività'}
+            </Text>
+          </Pressable>
+        )}
+
+        <Text style={styles.label}>{sedi.length > 0 ? 'Oppure cerca indirizzo' : 'Cerca indirizzo'}</Text>
         <TextInput
           style={styles.input}
           value={addressQuery}
           onChangeText={(value) => {
             setAddressQuery(value);
             setSelectedLocation(null);
+            setSelectedSedeId(null);
             setVia('');
             setCivico('');
             setCitta('');
@@ -708,6 +1206,46 @@ const NuovoIncaricoScreen: React.FC = () => {
           Inserisci un valore numerico valido (es. 12 oppure 9,50).
         </Text>
       )}
+
+      {!isEditing && (
+        <>
+          <Text style={[styles.label, styles.positionsLabel]}>Persone richieste</Text>
+          <View style={styles.positionsRow}>
+            <Pressable
+              style={styles.positionsButton}
+              onPress={() => setPositions((prev) => Math.max(1, prev - 1))}
+              disabled={positions <= 1}
+              accessibilityRole="button"
+              accessibilityLabel="Diminuisci persone richieste"
+            >
+              <Ionicons
+                name="remove"
+                size={20}
+                color={positions <= 1 ? theme.colors.muted : theme.colors.primary}
+              />
+            </Pressable>
+            <Text style={styles.positionsValue}>{positions}</Text>
+            <Pressable
+              style={styles.positionsButton}
+              onPress={() => setPositions((prev) => Math.min(MAX_JOB_POSITIONS, prev + 1))}
+              disabled={positions >= MAX_JOB_POSITIONS}
+              accessibilityRole="button"
+              accessibilityLabel="Aumenta persone richieste"
+            >
+              <Ionicons
+                name="add"
+                size={20}
+                color={positions >= MAX_JOB_POSITIONS ? theme.colors.muted : theme.colors.primary}
+              />
+            </Pressable>
+          </View>
+          <Text style={styles.seriesHint}>
+            {positions > 1
+              ? `Potrai inviare proposte finché tutti i ${positions} posti non saranno coperti.`
+              : 'Un solo lavoratore per questo incarico.'}
+          </Text>
+        </>
+      )}
     </View>
   );
 
@@ -755,13 +1293,114 @@ const NuovoIncaricoScreen: React.FC = () => {
         numberOfLines={5}
       />
       <Text style={styles.counter}>{wordCount}/200 parole</Text>
+
+      {!isEditing && (
+        <>
+          <Text style={styles.label}>Domande per i candidati (facoltative)</Text>
+          <Text style={styles.seriesHint}>
+            Chi si candida risponde prima di inviare la candidatura; le risposte le vedi accanto a ogni candidato.
+          </Text>
+          <ScreeningQuestionsEditor value={screeningQuestions} onChange={setScreeningQuestions} />
+
+          <Pressable
+            style={styles.inlineAction}
+            onPress={() => setSchedulePublish((prev) => !prev)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: schedulePublish }}
+          >
+            <Ionicons
+              name={schedulePublish ? 'checkbox' : 'square-outline'}
+              size={20}
+              color={theme.colors.primary}
+            />
+            <Text style={styles.inlineActionText}>Programma la pubblicazione</Text>
+          </Pressable>
+
+          {schedulePublish && (
+            <>
+              <View style={styles.timeRow}>
+                <TextInput
+                  style={[styles.input, styles.timeSelector]}
+                  value={publishDateInput}
+                  onChangeText={(raw) => setPublishDateInput(formatDateDigits(raw))}
+                  placeholder="GG/MM/AAAA"
+                  keyboardType="number-pad"
+                  maxLength={10}
+                />
+                <TextInput
+                  style={[styles.input, styles.timeSelector]}
+                  value={publishTimeInput}
+                  onChangeText={setPublishTimeInput}
+                  placeholder="HH:MM"
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={5}
+                />
+              </View>
+              <Text style={publishError ? styles.errorText : styles.seriesHint}>
+                {publishError ?? 'Fino ad allora l\'incarico resta una bozza visibile solo a te.'}
+              </Text>
+            </>
+          )}
+
+          <Pressable
+            style={styles.inlineAction}
+            onPress={() => handleNext(true)}
+            accessibilityRole="button"
+          >
+            <Ionicons name="document-outline" size={20} color={theme.colors.primary} />
+            <Text style={styles.inlineActionText}>Salva come bozza</Text>
+          </Pressable>
+
+          {businessId && (
+            <>
+              <Pressable
+                style={styles.inlineAction}
+                onPress={handleOpenTemplateForm}
+                accessibilityRole="button"
+              >
+                <Ionicons name="bookmark-outline" size={20} color={theme.colors.primary} />
+                <Text style={styles.inlineActionText}>Salva come modello</Text>
+              </Pressable>
+
+              {showTemplateForm && (
+                <>
+                  <TextInput
+                    style={styles.input}
+                    value={templateName}
+                    onChangeText={setTemplateName}
+                    placeholder="Nome del modello (es. Cameriere weekend)"
+                    maxLength={60}
+                  />
+                  <Pressable
+                    style={[
+                      styles.templateSaveButton,
+                      (!categoria || !templateName.trim() || savingTemplate) &&
+                        styles.templateSaveButtonDisabled,
+                    ]}
+                    onPress={handleSaveTemplate}
+                    disabled={!categoria || !templateName.trim() || savingTemplate}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.templateSaveButtonText}>
+                      {savingTemplate ? 'Salvataggio...' : 'Salva modello'}
+                    </Text>
+                  </Pressable>
+                  <Text style={styles.seriesHint}>
+                    Orari, indirizzo, compenso e dettagli vengono salvati; la data no.
+                  </Text>
+                </>
+              )}
+            </>
+          )}
+        </>
+      )}
     </View>
   );
 
   const currentStep = steps[stepIndex];
-  const timeOptions = activePicker === 'start' ? startOptions : endOptions;
+  const timeOptions = activePicker?.field === 'start' ? startOptions : endOptions;
   const pickerTitle =
-    activePicker === 'start' ? 'Seleziona orario di inizio' : 'Seleziona orario di fine';
+    activePicker?.field === 'start' ? 'Seleziona orario di inizio' : 'Seleziona orario di fine';
 
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -771,7 +1410,9 @@ const NuovoIncaricoScreen: React.FC = () => {
             <Ionicons name="chevron-back" size={26} color="#0f172a" />
           </Pressable>
           <View style={styles.headerInfo}>
-            <Text style={styles.stepIndicator}>Passo {stepIndex + 1} di {steps.length}</Text>
+            <Text style={styles.stepIndicator}>
+              {isEditing ? 'Modifica · ' : duplicateFrom ? 'Copia · ' : ''}Passo {stepIndex + 1} di {steps.length}
+            </Text>
             <Text style={styles.stepTitle}>{stepLabel}</Text>
           </View>
           <View style={{ width: 26 }} />
@@ -840,11 +1481,11 @@ const NuovoIncaricoScreen: React.FC = () => {
           </Pressable>
           <Pressable
             style={[styles.footerButton, canProceed ? styles.primaryButton : styles.disabledButton]}
-            onPress={canProceed ? handleNext : undefined}
+            onPress={canProceed ? () => handleNext() : undefined}
             accessibilityRole="button"
           >
             <Text style={styles.primaryLabel}>
-              {currentStep === 'dettagli' ? 'Salva incarico' : 'Continua'}
+              {currentStep === 'dettagli' ? (isEditing ? 'Salva modifiche' : 'Salva incarico') : 'Continua'}
             </Text>
           </Pressable>
         </View>
@@ -868,11 +1509,11 @@ const NuovoIncaricoScreen: React.FC = () => {
             <ScrollView contentContainerStyle={styles.timeGrid} showsVerticalScrollIndicator={false}>
               {timeOptions.map((opt) => {
                 const isActive =
-                  (activePicker === 'start' && oraInizioInput === opt) ||
-                  (activePicker === 'end' && oraFineInput === opt);
+                  (activePicker?.field === 'start' && activeShift?.oraInizio === opt) ||
+                  (activePicker?.field === 'end' && activeShift?.oraFine === opt);
                 return (
                   <Pressable
-                    key={`${activePicker}-${opt}`}
+                    key={`${activePicker?.field}-${opt}`}
                     style={[
                       styles.timePill,
                       {
@@ -972,6 +1613,11 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     selectorLabel: { flex: 1, fontSize: 15, color: t.colors.textSecondary },
     selectorValue: { flex: 1, fontSize: 16, fontWeight: '600', color: t.colors.textPrimary, textAlign: 'center' },
     timeRow: { flexDirection: 'row', gap: 16 },
+    shiftRow: { marginTop: 12, alignItems: 'center' },
+    removeShift: { padding: 4 },
+    inlineAction: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 16 },
+    inlineActionText: { fontSize: 15, fontWeight: '600', color: t.colors.primary },
+    seriesHint: { fontSize: 13, color: t.colors.textSecondary, marginTop: 4 },
     timeSelector: { flex: 1, minWidth: 0 },
     compensoRow: {
       flexDirection: 'row',
@@ -993,6 +1639,19 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     currencyLabel: { color: t.colors.surface, fontSize: 16, fontWeight: '700' },
     compensoInput: { flex: 1, fontSize: 18, fontWeight: '600', color: t.colors.textPrimary },
     compensoSuffix: { fontSize: 14, color: t.colors.textSecondary, fontWeight: '600' },
+    positionsLabel: { marginTop: 20 },
+    positionsRow: { flexDirection: 'row', alignItems: 'center', gap: 16 },
+    positionsButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      backgroundColor: t.colors.card,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    positionsValue: { fontSize: 18, fontWeight: '700', color: t.colors.textPrimary, minWidth: 24, textAlign: 'center' },
     errorText: { color: t.colors.danger, marginTop: 4, fontSize: 13 },
     label: { fontSize: 15, fontWeight: '600', color: t.colors.textPrimary, marginBottom: 8 },
     input: {
@@ -1033,6 +1692,17 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     },
     addressSummaryText: { flex: 1, fontSize: 14, color: t.colors.textPrimary },
     locationPreview: { marginTop: 12, fontSize: 12, color: t.colors.textSecondary },
+    manageLink: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 18 },
+    manageLinkText: { fontSize: 14, fontWeight: '600', color: t.colors.primary },
+    templateSaveButton: {
+      alignSelf: 'flex-start',
+      paddingVertical: 10,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      backgroundColor: t.colors.primary,
+    },
+    templateSaveButtonDisabled: { backgroundColor: t.colors.muted },
+    templateSaveButtonText: { fontSize: 14, fontWeight: '700', color: t.colors.surface },
     chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 10, marginBottom: 12 },
     chip: {
       borderWidth: 1,
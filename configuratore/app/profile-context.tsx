@@ -12,6 +12,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   collection,
   getDocs,
+  limit,
   onSnapshot,
   orderBy,
   query,
@@ -25,10 +26,44 @@ import {
   type Query,
 } from 'firebase/firestore';
 
-import { authReady, db, ensureSignedIn } from '../lib/firebase';
-import { createJobDocument, createJobApplication, getJobOwnerUid, upsertUserProfile } from '../lib/api';
-import type { BusinessPayload } from '../lib/api';
+import { authReady, db, ensureSignedIn, signOutAccount } from '../lib/firebase';
+import { geocodeAddress } from '../lib/geocode';
+import {
+  assertNoScheduleConflicts,
+  buildGeohashField,
+  buildJobStartAt,
+  buildPlaceSearchFields,
+  createJobDocument,
+  createJobApplication,
+  createJobSeries,
+  createSession,
+  ensureProfileBusiness,
+  getJobOwnerUid,
+  getJobPositions,
+  getJobStatus,
+  normalizeScreeningQuestions,
+  revokeSession,
+  saveWorkerAvailability,
+  subscribeToMyApplications,
+  subscribeToSession,
+  summarizeJobSlots,
+  updateJobPosting,
+  upsertUserProfile,
+  validateSession,
+} from '../lib/api';
+import type {
+  ApplicationStatus,
+  BusinessPayload,
+  JobPostingChanges,
+  JobPostingUpdateResult,
+  JobStatus,
+  MyApplication,
+  ScreeningQuestion,
+  StoredSession,
+} from '../lib/api';
+import type { WorkerAvailability } from '../lib/availability';
 import { isJobPast } from './job-time';
+import { expandJobSchedule, type JobSchedule } from './job-series';
 
 export type WorkerCV = {
   sex?: 'male' | 'female' | 'other';
@@ -38,6 +73,8 @@ export type WorkerCV = {
   certifications?: string[];
   degrees?: string[];
   experiences?: string[];
+  /** zona in cui cerca incarichi, per la distanza nel punteggio dei candidati */
+  area?: { label: string; lat: number; lng: number };
 };
 
 export type Profile = {
@@ -46,9 +83,12 @@ export type Profile = {
   cognome: string;
   dataNascita: string;
   profileId: string;
-  passwordHash: string;
+  uid?: string;
   business?: (BusinessPayload & { updatedAt?: string });
+  businessId?: string;
   cv?: WorkerCV;
+  /** fasce settimanali ed eccezioni dichiarate dal lavoratore */
+  availability?: WorkerAvailability;
   username?: string;
   email?: string;
   phoneNumber?: string;
@@ -82,34 +122,84 @@ export type Incarico = {
     lat: number;
     lng: number;
   };
+  /** sede dell'attività (businesses/{id}/locations) da cui è stato creato */
+  locationId?: string;
+  /** serie di incarichi ricorrenti o a turni a cui appartiene */
+  seriesId?: string;
+  /** persone richieste per l'incarico (default 1) */
+  positions?: number;
+  /** posti già coperti da un'assunzione confermata */
+  filledPositions?: number;
+  /** stato del ciclo di vita calcolato da getJobStatus */
+  jobStatus?: JobStatus;
+  /** pubblicazione programmata di una bozza (ISO) */
+  publishAt?: string;
+  /** domande a cui il lavoratore risponde candidandosi */
+  screeningQuestions?: ScreeningQuestion[];
+};
+
+export type ApplyToJobOptions = {
+  ignoreConflicts?: boolean;
+  coverLetter?: string;
+  answers?: Record<string, boolean | string | undefined>;
 };
 
 export type ProfileContextValue = {
   profile: Profile | null;
   incarichi: Incarico[];
+  /** closed and expired jobs of the employer, newest first */
+  archivedIncarichi: Incarico[];
   availableJobs: Incarico[];
+  /** jobs the worker has already applied to */
+  appliedJobIds: string[];
+  /** the worker's applications from Firestore, newest first */
+  applications: MyApplication[];
+  /** application status by job id */
+  applicationStatuses: Record<string, ApplicationStatus>;
   loading: boolean;
+  /** id of this device's document in the sessions collection */
+  sessionId: string | null;
   login: (profile: Profile) => Promise<void>;
   logout: () => Promise<void>;
-  addIncarico: (incarico: Omit<Incarico, 'id' | 'createdAt'>) => Promise<Incarico>;
+  /** with a schedule, publishes one job per occurrence linked by a seriesId */
+  addIncarico: (incarico: Omit<Incarico, 'id' | 'createdAt'>, schedule?: JobSchedule) => Promise<Incarico>;
+  /** edits a published job; applicants and hired workers see the new details */
+  updateIncarico: (id: string, changes: JobPostingChanges) => Promise<JobPostingUpdateResult>;
   refreshAvailableJobs: () => Promise<void>;
-  applyToJob: (job: Incarico) => Promise<void>;
+  /**
+   * rejects with SCHEDULE_CONFLICT_CODE when the job overlaps a confirmed hire, unless ignoreConflicts;
+   * answers are keyed by screening question id
+   */
+  applyToJob: (job: Incarico, options?: ApplyToJobOptions) => Promise<void>;
   updateCv: (cv: WorkerCV) => Promise<void>;
+  updateAvailability: (availability: WorkerAvailability) => Promise<void>;
   updatePhone: (phoneNumber: string) => Promise<void>;
+  /** re-resolves profiles.businessId, e.g. after joining or leaving a team */
+  refreshBusiness: () => Promise<string | null>;
 };
 
 const STORAGE_KEY = 'jobly.profile';
 
 type StoredPayload = {
   profile: Profile | null;
+  session?: StoredSession | null;
   incarichi: Incarico[];
   availableJobs?: Incarico[];
 };
 
+// setTimeout overflows above ~24.8 days, longer expiries are re-armed.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
 const ProfileContext = createContext<ProfileContextValue | undefined>(undefined);
 
-const mapSnapshotToIncarichi = (
-  snapshot: QuerySnapshot<DocumentData>
+// Team members see every job of the business, profiles without one only their own.
+const jobsScopeFor = (target: Pick<Profile, 'profileId' | 'businessId'>) =>
+  target.businessId
+    ? where('businessId', '==', target.businessId)
+    : where('ownerProfileId', '==', target.profileId);
+
+export const mapSnapshotToIncarichi = (
+  snapshot: Pick<QuerySnapshot<DocumentData>, 'docs'>
 ): Incarico[] =>
   snapshot.docs
     .map((docSnap) => {
@@ -236,10 +326,31 @@ const mapSnapshotToIncarichi = (
                 lng,
               }
             : undefined,
+        locationId: typeof data.locationId === 'string' ? data.locationId : undefined,
+        seriesId: typeof data.seriesId === 'string' ? data.seriesId : undefined,
+        positions: getJobPositions(data),
+        filledPositions: summarizeJobSlots(data).filled,
+        jobStatus: getJobStatus(data),
+        publishAt:
+          data.publishAt instanceof Timestamp ? data.publishAt.toDate().toISOString() : undefined,
+        screeningQuestions: Array.isArray(data.screeningQuestions)
+          ? normalizeScreeningQuestions(data.screeningQuestions)
+          : undefined,
       } satisfies Incarico;
     })
     .filter((entry): entry is Incarico => entry !== null);
 
+// Nearest upcoming jobs, for the map and the cached list; the home screen pages through searchJobs.
+const UPCOMING_JOBS_LIMIT = 100;
+
+const upcomingJobsQuery = () =>
+  query(
+    collection(db, 'jobs'),
+    where('startAt', '>=', Timestamp.now()),
+    orderBy('startAt', 'asc'),
+    limit(UPCOMING_JOBS_LIMIT)
+  );
+
 const sanitizeTipoForFirestore = (tipo: Incarico['tipo']) =>
   tipo.categoria === 'altro'
     ? {
@@ -269,43 +380,27 @@ const normalizeStoredIncarichi = (maybeList: unknown): Incarico[] => {
   });
 };
 
-const filterUpcomingJobs = (jobs: Incarico[], now: Date = new Date()): Incarico[] =>
-  jobs.filter((job) => !isJobPast(job as Record<string, any>, now));
-
-const geocodeAddress = async (
-  address: string
-): Promise<{ lat: number; lng: number } | null> => {
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(address)}&format=json&limit=1&countrycodes=it`,
-      {
-        headers: {
-          'User-Agent': 'JoblyApp/1.0 (support@jobly.placeholder)',
-        },
-      }
-    );
+// Closed and expired jobs leave the active lists; owners still find them in the archive.
+const isArchivedJob = (job: Incarico, now: Date = new Date()): boolean =>
+  job.jobStatus === 'closed' ||
+  job.jobStatus === 'expired' ||
+  isJobPast(job as Record<string, any>, now);
 
-    if (!response.ok) {
-      throw new Error(`Geocode status ${response.status}`);
-    }
-
-    const data = (await response.json()) as unknown;
-    if (!Array.isArray(data) || data.length === 0) {
-      return null;
-    }
+const filterUpcomingJobs = (jobs: Incarico[], now: Date = new Date()): Incarico[] =>
+  jobs.filter((job) => !isArchivedJob(job, now));
 
-    const { lat, lon } = data[0] as { lat?: string; lon?: string };
-    const parsedLat = Number(lat);
-    const parsedLng = Number(lon);
-    if (!Number.isFinite(parsedLat) || !Number.isFinite(parsedLng)) {
-      return null;
-    }
+// Workers only see jobs that accept applications.
+const filterPublishedJobs = (jobs: Incarico[], now: Date = new Date()): Incarico[] =>
+  filterUpcomingJobs(jobs, now).filter((job) => (job.jobStatus ?? 'published') === 'published');
 
-    return { lat: parsedLat, lng: parsedLng };
-  } catch (error) {
-    console.warn('Failed to geocode address:', error);
-    return null;
-  }
+const isStoredSession = (value: unknown): value is StoredSession => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<StoredSession>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.token === 'string' &&
+    typeof candidate.expiresAt === 'number'
+  );
 };
 
 const isProfile = (value: unknown): value is Profile => {
@@ -316,19 +411,36 @@ const isProfile = (value: unknown): value is Profile => {
     typeof candidate.nome === 'string' &&
     typeof candidate.cognome === 'string' &&
     typeof candidate.dataNascita === 'string' &&
-    typeof candidate.profileId === 'string' &&
-    typeof candidate.passwordHash === 'string'
+    typeof candidate.profileId === 'string'
   );
 };
 
 export const ProfileProvider = ({ children }: { children: ReactNode }) => {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [incarichi, setIncarichi] = useState<Incarico[]>([]);
+  const [archivedIncarichi, setArchivedIncarichi] = useState<Incarico[]>([]);
   const [availableJobs, setAvailableJobs] = useState<Incarico[]>([]);
   const [loading, setLoading] = useState(true);
-  const [appliedJobIds, setAppliedJobIds] = useState<string[]>([]);
+  const [session, setSession] = useState<StoredSession | null>(null);
+  const sessionRef = useRef<StoredSession | null>(null);
+  const [applications, setApplications] = useState<MyApplication[]>([]);
   const appliedJobIdsRef = useRef<Set<string>>(new Set());
 
+  const applicationStatuses = useMemo(() => {
+    const result: Record<string, ApplicationStatus> = {};
+    applications.forEach((application) => {
+      result[application.jobId] = application.status;
+    });
+    return result;
+  }, [applications]);
+
+  const appliedJobIds = useMemo(() => Object.keys(applicationStatuses), [applicationStatuses]);
+
+  const applySession = useCallback((next: StoredSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+  }, []);
+
   useEffect(() => {
     void ensureSignedIn().catch((error) => {
       console.warn('Failed to ensure auth session:', error);
@@ -365,6 +477,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
     }) => {
       const payload: StoredPayload = {
         profile: nextProfile,
+        session: nextProfile ? sessionRef.current : null,
         incarichi: myIncarichi,
         availableJobs: available,
       };
@@ -378,7 +491,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
   );
 
   const fetchJobsForProfile = useCallback(
-    async (ownerProfileId: string): Promise<Incarico[]> => {
+    async (target: Pick<Profile, 'profileId' | 'businessId'>): Promise<Incarico[]> => {
       try {
         await authReady;
       } catch (error) {
@@ -389,7 +502,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
 
       try {
         let snapshot = await getDocs(
-          query(jobsRef, where('ownerProfileId', '==', ownerProfileId), orderBy('createdAt', 'desc'))
+          query(jobsRef, jobsScopeFor(target), orderBy('createdAt', 'desc'))
         );
 
         const jobs = filterUpcomingJobs(mapSnapshotToIncarichi(snapshot));
@@ -408,7 +521,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
 
           try {
             const fallbackSnapshot = await getDocs(
-              query(jobsRef, where('ownerProfileId', '==', ownerProfileId))
+              query(jobsRef, jobsScopeFor(target))
             );
 
             const fallbackJobs = filterUpcomingJobs(
@@ -442,49 +555,17 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
     []
   );
 
-  const fetchAllJobs = useCallback(async (): Promise<Incarico[]> => {
+  const fetchUpcomingJobs = useCallback(async (): Promise<Incarico[]> => {
     try {
       await authReady;
     } catch (error) {
       console.warn('Auth not ready when loading available jobs:', error);
     }
 
-    const jobsRef = collection(db, 'jobs');
-
     try {
-      const snapshot = await getDocs(query(jobsRef, orderBy('createdAt', 'desc')));
-      return filterUpcomingJobs(mapSnapshotToIncarichi(snapshot));
+      const snapshot = await getDocs(upcomingJobsQuery());
+      return filterPublishedJobs(mapSnapshotToIncarichi(snapshot));
     } catch (queryError) {
-      const firestoreError = queryError as FirestoreError;
-      if (firestoreError?.code === 'failed-precondition') {
-        console.warn(
-          'Missing index for jobs listing, falling back without Firestore ordering.'
-        );
-
-        try {
-          const fallbackSnapshot = await getDocs(jobsRef);
-          return filterUpcomingJobs(
-            mapSnapshotToIncarichi(fallbackSnapshot).sort((a, b) => {
-              const left = Date.parse(b.createdAt);
-              const right = Date.parse(a.createdAt);
-              if (!Number.isFinite(left) && !Number.isFinite(right)) {
-                return 0;
-              }
-              if (!Number.isFinite(left)) {
-                return 1;
-              }
-              if (!Number.isFinite(right)) {
-                return -1;
-              }
-              return left - right;
-            })
-          );
-        } catch (fallbackError) {
-          console.warn('Fallback available jobs query failed:', fallbackError);
-          return [];
-        }
-      }
-
       console.warn('Failed to load available jobs from Firestore:', queryError);
       return [];
     }
@@ -505,10 +586,22 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
             candidate.incarichi !== undefined ||
             candidate.availableJobs !== undefined
           ) {
-            if (candidate.profile && isProfile(candidate.profile)) {
+            // Profiles are only restored together with an unexpired session;
+            // older payloads (which could hold passwordHash) are discarded.
+            const storedSession = isStoredSession(candidate.session) ? candidate.session : null;
+            if (
+              candidate.profile &&
+              isProfile(candidate.profile) &&
+              storedSession &&
+              storedSession.expiresAt > Date.now()
+            ) {
               setProfile(candidate.profile);
+              applySession(storedSession);
             } else {
-              setProfile(candidate.profile ?? null);
+              setProfile(null);
+              if (candidate.profile) {
+                await AsyncStorage.removeItem(STORAGE_KEY);
+              }
             }
 
             const normalizedIncarichi = filterUpcomingJobs(
@@ -519,17 +612,10 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
             );
             setIncarichi(normalizedIncarichi);
             setAvailableJobs(normalizedAvailable);
-            setAppliedJobIds(
-              normalizedAvailable
-                .filter((job) => job.status === 'applied')
-                .map((job) => job.id)
-            );
             return;
           }
           if (isProfile(parsed)) {
-            setProfile(parsed);
-            setIncarichi([]);
-            setAvailableJobs([]);
+            await AsyncStorage.removeItem(STORAGE_KEY);
             return;
           }
         }
@@ -543,7 +629,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
     void bootstrap().finally(() => {
       setLoading(false);
     });
-  }, []);
+  }, [applySession]);
 
   const login = useCallback(
     async (nextProfile: Profile) => {
@@ -553,12 +639,26 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
         console.warn('Auth not ready:', error);
       }
 
+      const previousSession = sessionRef.current;
+      applySession(await createSession(nextProfile.profileId));
+      if (previousSession) {
+        revokeSession(previousSession.id).catch((error) => {
+          console.warn('Failed to revoke previous session:', error);
+        });
+      }
+
       let syncedIncarichi: Incarico[] = [];
       if (nextProfile.role === 'datore') {
-        syncedIncarichi = await fetchJobsForProfile(nextProfile.profileId);
+        try {
+          const businessId = await ensureProfileBusiness(nextProfile.profileId);
+          nextProfile = { ...nextProfile, businessId };
+        } catch (error) {
+          console.warn('Failed to resolve business for profile:', error);
+        }
+        syncedIncarichi = await fetchJobsForProfile(nextProfile);
       }
 
-      const visibleJobs = await fetchAllJobs();
+      const visibleJobs = await fetchUpcomingJobs();
       const now = new Date();
       const filteredIncarichi = filterUpcomingJobs(syncedIncarichi, now);
       const filteredVisible = filterUpcomingJobs(visibleJobs, now);
@@ -572,31 +672,118 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
       setProfile(nextProfile);
       setIncarichi(filteredIncarichi);
       setAvailableJobs(enrichedJobs);
-      setAppliedJobIds(
-        enrichedJobs
-          .filter((job) => job.status === 'applied')
-          .map((job) => job.id)
-      );
       await persistState({
         profile: nextProfile,
         myIncarichi: filteredIncarichi,
         available: enrichedJobs,
       });
     },
-    [fetchJobsForProfile, fetchAllJobs, persistState]
+    [applySession, fetchJobsForProfile, fetchUpcomingJobs, persistState]
   );
 
   const logout = useCallback(async () => {
+    const currentSession = sessionRef.current;
+    applySession(null);
     setProfile(null);
     setIncarichi([]);
+    setArchivedIncarichi([]);
     setAvailableJobs([]);
-    setAppliedJobIds([]);
+    setApplications([]);
     try {
       await AsyncStorage.removeItem(STORAGE_KEY);
     } catch (error) {
       console.warn('Failed to clear profile payload:', error);
     }
-  }, []);
+    if (currentSession) {
+      try {
+        await revokeSession(currentSession.id);
+      } catch (error) {
+        console.warn('Failed to revoke session:', error);
+      }
+    }
+    try {
+      await signOutAccount();
+    } catch (error) {
+      console.warn('Failed to sign out account:', error);
+    }
+  }, [applySession]);
+
+  // Ends this device's session on expiry or when it is revoked from another device.
+  useEffect(() => {
+    if (!session) {
+      return undefined;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let unsubscribe: (() => void) | undefined;
+
+    const end = () => {
+      if (cancelled) return;
+      cancelled = true;
+      void logout();
+    };
+
+    const armExpiry = () => {
+      const remaining = session.expiresAt - Date.now();
+      if (remaining <= 0) {
+        end();
+        return;
+      }
+      timer = setTimeout(armExpiry, Math.min(remaining, MAX_TIMER_MS));
+    };
+    armExpiry();
+
+    const watch = async () => {
+      try {
+        await authReady;
+        if (!(await validateSession(session))) {
+          end();
+          return;
+        }
+      } catch (error) {
+        if ((error as FirestoreError).code === 'permission-denied') {
+          end();
+          return;
+        }
+        console.warn('Failed to validate session:', error);
+      }
+      if (!cancelled) {
+        unsubscribe = subscribeToSession(session, end);
+      }
+    };
+    void watch();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      unsubscribe?.();
+    };
+  }, [session, logout]);
+
+  // Application statuses follow Firestore, so they survive reinstalls and other devices.
+  const workerProfileId = !loading && profile?.role === 'lavoratore' ? profile.profileId : null;
+
+  useEffect(() => {
+    if (!workerProfileId) {
+      setApplications([]);
+      return undefined;
+    }
+
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+    ensureSignedIn()
+      .then((uid) => {
+        if (cancelled) return;
+        unsubscribe = subscribeToMyApplications(uid, workerProfileId, setApplications);
+      })
+      .catch((error) => console.warn('Auth not ready for applications subscription:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [workerProfileId]);
 
   useEffect(() => {
     if (loading || !profile || profile.role !== 'datore') {
@@ -607,6 +794,8 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
     let cancelled = false;
     let ownerUid = '';
     const normalizedJobs = new Set<string>();
+    const syncedStatuses = new Set<string>();
+    const indexedJobs = new Set<string>();
 
     const startSubscription = async () => {
       try {
@@ -623,7 +812,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
       const jobsRef = collection(db, 'jobs');
       const orderedQuery = query(
         jobsRef,
-        where('ownerProfileId', '==', profile.profileId),
+        jobsScopeFor(profile),
         orderBy('createdAt', 'desc')
       );
 
@@ -649,6 +838,47 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
                   });
                 }
               }
+              // Persist what getJobStatus derives from time: scheduled publication and expiry.
+              const effectiveStatus = getJobStatus(data);
+              const reachedPublishAt = data.status === 'draft' && effectiveStatus === 'published';
+              const reachedStart = effectiveStatus === 'expired' && data.status !== 'expired';
+              if (
+                (reachedPublishAt || reachedStart) &&
+                ownerUid &&
+                getJobOwnerUid(data) === ownerUid &&
+                !syncedStatuses.has(docSnap.id)
+              ) {
+                syncedStatuses.add(docSnap.id);
+                updateDoc(docSnap.ref, {
+                  status: effectiveStatus,
+                  ...(reachedPublishAt ? { publishedAt: serverTimestamp() } : {}),
+                  statusChangedAt: serverTimestamp(),
+                  updatedAt: serverTimestamp(),
+                }).catch((error) => {
+                  console.warn('Failed to sync status on job', docSnap.id, error);
+                });
+              }
+              // Jobs created before the search fields were stored never show up in searches.
+              const startAt = data.startAt ? null : buildJobStartAt(data.data, data.oraInizio);
+              const geohashField = data.geohashPrefixes ? {} : buildGeohashField(data.location);
+              const placeFields =
+                data.cittaLower || data.provinciaLower ? {} : buildPlaceSearchFields(data.indirizzo);
+              if (
+                (startAt || geohashField.geohash || Object.keys(placeFields).length > 0) &&
+                ownerUid &&
+                getJobOwnerUid(data) === ownerUid &&
+                !indexedJobs.has(docSnap.id)
+              ) {
+                indexedJobs.add(docSnap.id);
+                updateDoc(docSnap.ref, {
+                  ...(startAt ? { startAt } : {}),
+                  ...geohashField,
+                  ...placeFields,
+                  updatedAt: serverTimestamp(),
+                }).catch((error) => {
+                  console.warn('Failed to backfill search fields on job', docSnap.id, error);
+                });
+              }
             });
             const jobs = shouldSortFallback
               ? mapSnapshotToIncarichi(snapshot).sort((a, b) => {
@@ -658,6 +888,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
                 })
               : mapSnapshotToIncarichi(snapshot);
             setIncarichi(filterUpcomingJobs(jobs));
+            setArchivedIncarichi(jobs.filter((job) => isArchivedJob(job)));
           },
           (error) => {
             const firestoreError = error as FirestoreError;
@@ -667,7 +898,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
               );
               unsubscribe?.();
               unsubscribe = attach(
-                query(jobsRef, where('ownerProfileId', '==', profile.profileId)),
+                query(jobsRef, jobsScopeFor(profile)),
                 true
               );
             } else if (!cancelled) {
@@ -706,46 +937,23 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
         return;
       }
 
-      const jobsRef = collection(db, 'jobs');
-      const orderedQuery = query(jobsRef, orderBy('createdAt', 'desc'));
-
-      const attach = (
-        targetQuery: Query<DocumentData>,
-        shouldSortFallback = false
-      ): (() => void) =>
-        onSnapshot(
-          targetQuery,
-          (snapshot) => {
-            const jobs = shouldSortFallback
-              ? mapSnapshotToIncarichi(snapshot).sort((a, b) => {
-                  const left = Date.parse(b.createdAt);
-                  const right = Date.parse(a.createdAt);
-                  return Number.isFinite(left) && Number.isFinite(right) ? left - right : 0;
-                })
-              : mapSnapshotToIncarichi(snapshot);
-            const upcomingJobs = filterUpcomingJobs(jobs);
-            const enrichedJobs = upcomingJobs.map((job) =>
-              appliedJobIdsRef.current.has(job.id)
-                ? { ...job, status: 'applied' as const }
-                : job
-            );
-            setAvailableJobs(enrichedJobs);
-          },
-          (error) => {
-            const firestoreError = error as FirestoreError;
-            if (firestoreError.code === 'failed-precondition') {
-              console.warn(
-                'Missing index for jobs listing subscription. Falling back without Firestore ordering.'
-              );
-              unsubscribe?.();
-              unsubscribe = attach(query(jobsRef), true);
-            } else if (!cancelled) {
-              console.warn('Failed to subscribe to available jobs:', error);
-            }
+      unsubscribe = onSnapshot(
+        upcomingJobsQuery(),
+        (snapshot) => {
+          const upcomingJobs = filterPublishedJobs(mapSnapshotToIncarichi(snapshot));
+          const enrichedJobs = upcomingJobs.map((job) =>
+            appliedJobIdsRef.current.has(job.id)
+              ? { ...job, status: 'applied' as const }
+              : job
+          );
+          setAvailableJobs(enrichedJobs);
+        },
+        (error) => {
+          if (!cancelled) {
+            console.warn('Failed to subscribe to available jobs:', error);
           }
-        );
-
-      unsubscribe = attach(orderedQuery);
+        }
+      );
     };
 
     void startSubscription();
@@ -765,14 +973,21 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
       const now = new Date();
       setIncarichi((current) => {
         const filtered = filterUpcomingJobs(current, now);
+        if (filtered.length !== current.length) {
+          const activeIds = new Set(filtered.map((job) => job.id));
+          const expired = current
+            .filter((job) => !activeIds.has(job.id))
+            .map((job): Incarico => ({
+              ...job,
+              jobStatus: !job.jobStatus || job.jobStatus === 'published' ? 'expired' : job.jobStatus,
+            }));
+          const expiredIds = new Set(expired.map((job) => job.id));
+          setArchivedIncarichi((prev) => [...expired, ...prev.filter((job) => !expiredIds.has(job.id))]);
+        }
         return filtered.length === current.length ? current : filtered;
       });
       setAvailableJobs((current) => {
         const filtered = filterUpcomingJobs(current, now);
-        if (filtered.length !== current.length) {
-          const allowedIds = new Set(filtered.map((job) => job.id));
-          setAppliedJobIds((prev) => prev.filter((id) => allowedIds.has(id)));
-        }
         return filtered.length === current.length ? current : filtered;
       });
     }, 60 * 1000);
@@ -793,7 +1008,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
   }, [loading, profile, incarichi, availableJobs, persistState]);
 
   const refreshAvailableJobs = useCallback(async () => {
-    const jobs = await fetchAllJobs();
+    const jobs = await fetchUpcomingJobs();
     const now = new Date();
     const upcoming = filterUpcomingJobs(jobs, now);
     const enriched = upcoming.map((job) =>
@@ -807,10 +1022,21 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
       myIncarichi: profile?.role === 'datore' ? incarichi : [],
       available: enriched,
     });
-  }, [fetchAllJobs, profile, incarichi, persistState]);
+  }, [fetchUpcomingJobs, profile, incarichi, persistState]);
 
   const addIncarico = useCallback(
-    async (incaricoInput: Omit<Incarico, 'id' | 'createdAt'>) => {
+    async (rawInput: Omit<Incarico, 'id' | 'createdAt'>, schedule?: JobSchedule) => {
+      const occurrences = schedule ? expandJobSchedule(rawInput.data, schedule) : [];
+      // A schedule with a single slot is a plain job on that slot.
+      const incaricoInput =
+        occurrences.length === 1
+          ? {
+              ...rawInput,
+              data: occurrences[0].data,
+              oraInizio: occurrences[0].oraInizio,
+              oraFine: occurrences[0].oraFine,
+            }
+          : rawInput;
       const createdAtIso = new Date().toISOString();
       let generatedId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 
@@ -848,15 +1074,61 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
           }
         : safeIncaricoBase;
 
+      // The lifecycle state is stored as `status`, a scheduled publication as a Timestamp.
+      const { jobStatus: requestedStatus, publishAt, ...firestoreFields } = safeIncarico;
+      const jobStatus: JobStatus = requestedStatus === 'draft' ? 'draft' : 'published';
       const payloadForFirestore = {
-        ...safeIncarico,
-        status: 'open',
+        ...firestoreFields,
+        status: jobStatus,
+        ...(jobStatus === 'draft' && publishAt
+          ? { publishAt: Timestamp.fromDate(new Date(publishAt)) }
+          : {}),
       };
+      const isPublished = jobStatus === 'published';
+
+      if (occurrences.length > 1 && profile?.role === 'datore') {
+        const { seriesId, refs } = await createJobSeries({
+          ownerProfileId: profile.profileId,
+          businessId: profile.businessId,
+          payload: payloadForFirestore,
+          occurrences,
+          recurrence: schedule?.recurrence,
+        });
+        const created: Incarico[] = occurrences.map((occurrence, index) => ({
+          ...safeIncarico,
+          data: occurrence.data,
+          oraInizio: occurrence.oraInizio,
+          oraFine: occurrence.oraFine,
+          startAt: occurrence.startAt,
+          seriesId,
+          status: 'open',
+          jobStatus,
+          ownerProfileId: profile.profileId,
+          id: refs[index].id,
+          createdAt: createdAtIso,
+        }));
+        const createdIds = new Set(created.map((job) => job.id));
+        const updatedIncarichi = filterUpcomingJobs([...created, ...incarichi]);
+        const updatedAvailable = [
+          ...(isPublished ? created : []),
+          ...filterUpcomingJobs(availableJobs.filter((job) => !createdIds.has(job.id))),
+        ];
+
+        setIncarichi(updatedIncarichi);
+        setAvailableJobs(updatedAvailable);
+        await persistState({
+          profile,
+          myIncarichi: updatedIncarichi,
+          available: updatedAvailable,
+        });
+        return created[0];
+      }
 
       if (profile?.role === 'datore') {
         try {
           const docRef = await createJobDocument({
             ownerProfileId: profile.profileId,
+            businessId: profile.businessId,
             payload: payloadForFirestore,
           });
           generatedId = docRef.id;
@@ -868,6 +1140,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
       const newIncarico: Incarico = {
         ...safeIncarico,
         status: 'open',
+        jobStatus,
         ownerProfileId: profile?.profileId,
         id: generatedId,
         createdAt: createdAtIso,
@@ -876,7 +1149,7 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
       const filteredAvailable = filterUpcomingJobs(
         availableJobs.filter((job) => job.id !== newIncarico.id)
       );
-      const updatedAvailable = [newIncarico, ...filteredAvailable];
+      const updatedAvailable = isPublished ? [newIncarico, ...filteredAvailable] : filteredAvailable;
 
       setIncarichi(updatedIncarichi);
       setAvailableJobs(updatedAvailable);
@@ -892,8 +1165,52 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
     [availableJobs, incarichi, persistState, profile]
   );
 
+  const updateIncarico = useCallback(
+    async (id: string, changes: JobPostingChanges) => {
+      if (!profile) throw new Error('Profilo non disponibile');
+      let location = changes.location;
+      if (!location && changes.indirizzo) {
+        const { via, civico, citta, provincia, cap } = changes.indirizzo;
+        const addressString = [via, civico, citta, provincia, cap]
+          .map((piece) => piece.trim())
+          .filter((piece) => piece.length > 0)
+          .join(', ');
+        location = (await geocodeAddress(addressString)) ?? undefined;
+      }
+      const result = await updateJobPosting(
+        id,
+        { ...changes, ...(location ? { location } : {}) },
+        profile.profileId
+      );
+      if (result.changes.length === 0) {
+        return result;
+      }
+
+      const applyChanges = (job: Incarico): Incarico =>
+        job.id === id
+          ? {
+              ...job,
+              ...changes,
+              ...(location ? { location } : {}),
+              tipo: changes.tipo ? (changes.tipo as Incarico['tipo']) : job.tipo,
+            }
+          : job;
+      const updatedIncarichi = incarichi.map(applyChanges);
+      const updatedAvailable = availableJobs.map(applyChanges);
+      setIncarichi(updatedIncarichi);
+      setAvailableJobs(updatedAvailable);
+      await persistState({
+        profile,
+        myIncarichi: updatedIncarichi,
+        available: updatedAvailable,
+      });
+      return result;
+    },
+    [availableJobs, incarichi, persistState, profile]
+  );
+
   const applyToJob = useCallback(
-    async (job: Incarico) => {
+    async (job: Incarico, options?: ApplyToJobOptions) => {
       if (!profile || profile.role !== 'lavoratore') {
         throw new Error('Solo i lavoratori possono candidarsi agli incarichi.');
       }
@@ -902,6 +1219,13 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
         return;
       }
 
+      if (!options?.ignoreConflicts) {
+        await assertNoScheduleConflicts(
+          { jobDate: job.data, jobStartTime: job.oraInizio, jobEndTime: job.oraFine },
+          { excludeJobId: job.id }
+        );
+      }
+
      try {
         await createJobApplication({
           jobId: job.id,
@@ -919,17 +1243,15 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
             status: job.status ?? 'open',
             createdAt: job.createdAt ?? new Date().toISOString(),
           },
+          coverLetter: options?.coverLetter,
+          answers: options?.answers,
         });
 
-        const nextAppliedIds = appliedJobIds.includes(job.id)
-          ? appliedJobIds
-          : [...appliedJobIds, job.id];
-
+        // The applications listener picks up the new document.
         const nextAvailableJobs = availableJobs.map((item) =>
           item.id === job.id ? { ...item, status: 'applied' as const } : item
         );
 
-        setAppliedJobIds(nextAppliedIds);
         setAvailableJobs(nextAvailableJobs);
 
         await persistState({
@@ -949,11 +1271,17 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
     () => ({
       profile,
       incarichi,
+      archivedIncarichi,
       availableJobs,
+      appliedJobIds,
+      applications,
+      applicationStatuses,
       loading,
+      sessionId: session?.id ?? null,
       login,
       logout,
       addIncarico,
+      updateIncarico,
       refreshAvailableJobs,
       applyToJob,
       updateCv: async (cv: WorkerCV) => {
@@ -963,7 +1291,6 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
           surname: profile.cognome,
           birthDate: profile.dataNascita,
           role: profile.role,
-          passwordHash: profile.passwordHash,
           username: profile.username ?? undefined,
           profileId: profile.profileId,
           cv,
@@ -976,6 +1303,17 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
           available: availableJobs,
         });
       },
+      updateAvailability: async (availability: WorkerAvailability) => {
+        if (!profile) throw new Error('Profilo non disponibile');
+        await saveWorkerAvailability(profile.profileId, availability);
+        const nextProfile = { ...profile, availability } as Profile;
+        setProfile(nextProfile);
+        await persistState({
+          profile: nextProfile,
+          myIncarichi: profile.role === 'datore' ? incarichi : [],
+          available: availableJobs,
+        });
+      },
       updatePhone: async (phoneNumber: string) => {
         if (!profile) throw new Error('Profilo non disponibile');
         const sanitized = phoneNumber.trim();
@@ -987,7 +1325,6 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
           surname: profile.cognome,
           birthDate: profile.dataNascita,
           role: profile.role,
-          passwordHash: profile.passwordHash,
           username: profile.username ?? undefined,
           profileId: profile.profileId,
           phoneNumber: sanitized,
@@ -1000,15 +1337,35 @@ export const ProfileProvider = ({ children }: { children: ReactNode }) => {
           available: availableJobs,
         });
       },
+      refreshBusiness: async () => {
+        if (!profile || profile.role !== 'datore') return null;
+        const businessId = await ensureProfileBusiness(profile.profileId);
+        if (businessId !== profile.businessId) {
+          const nextProfile = { ...profile, businessId };
+          setProfile(nextProfile);
+          await persistState({
+            profile: nextProfile,
+            myIncarichi: incarichi,
+            available: availableJobs,
+          });
+        }
+        return businessId;
+      },
     }),
     [
       profile,
       incarichi,
+      archivedIncarichi,
       availableJobs,
+      appliedJobIds,
+      applications,
+      applicationStatuses,
       loading,
+      session,
       login,
       logout,
       addIncarico,
+      updateIncarico,
       refreshAvailableJobs,
       applyToJob,
       persistState,
@@ -1027,14 +1384,22 @@ export const useProfile = () => {
   return {
     profile: null,
     incarichi: [],
+    archivedIncarichi: [],
     availableJobs: [],
+    appliedJobIds: [],
+    applications: [],
+    applicationStatuses: {},
     loading: true,
+    sessionId: null,
     login: async () => {},
     logout: async () => {},
     addIncarico: async () => Promise.reject(new Error('Profile provider not ready')),
+    updateIncarico: async () => Promise.reject(new Error('Profile provider not ready')),
     refreshAvailableJobs: async () => {},
     applyToJob: async () => {},
     updateCv: async () => {},
+    updateAvailability: async () => {},
     updatePhone: async () => {},
+    refreshBusiness: async () => null,
   } satisfies ProfileContextValue;
 };
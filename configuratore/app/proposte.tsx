@@ -6,7 +6,15 @@ import { useRouter } from 'expo-router';
 import { collection, doc, getDoc, onSnapshot, orderBy, query, where } from 'firebase/firestore';
 
 import { db, ensureSignedIn } from '../lib/firebase';
-import { acceptHire, rejectHire } from '../lib/api';
+import {
+  acceptHire,
+  describeJobChangeFields,
+  describeSchedule,
+  rejectHire,
+  schedulesOverlap,
+  type JobChangeField,
+  type ScheduleConflict,
+} from '../lib/api';
 import { useProfile } from './profile-context';
 import { useTheme, useThemedStyles } from './theme';
 
@@ -22,6 +30,8 @@ type HireItem = {
   jobLocationText?: string;
   jobPayAmount?: number;
   jobPayCurrency?: string;
+  /** set by updateJobPosting when the employer edits the job */
+  jobChange?: { fields: JobChangeField[]; reconfirm: boolean };
   updatedAt?: Date | null;
 };
 
@@ -46,6 +56,7 @@ const ProposteScreen: React.FC = () => {
   const [loadingHires, setLoadingHires] = useState(true);
   const [names, setNames] = useState<Record<string, string>>({});
   const [submittingId, setSubmittingId] = useState<string | null>(null);
+  const [confirmed, setConfirmed] = useState<ScheduleConflict[]>([]);
 
   useEffect(() => {
     if (!loading && profile) {
@@ -100,6 +111,9 @@ const ProposteScreen: React.FC = () => {
             jobLocationText: typeof data.jobLocationText === 'string' ? data.jobLocationText : undefined,
             jobPayAmount: typeof data.jobPayAmount === 'number' ? data.jobPayAmount : Number(data.jobPayAmount ?? 0),
             jobPayCurrency: typeof data.jobPayCurrency === 'string' ? data.jobPayCurrency : 'EUR',
+            jobChange: Array.isArray(data.jobChange?.fields)
+              ? { fields: data.jobChange.fields, reconfirm: data.jobChange.reconfirm === true }
+              : undefined,
             updatedAt: data.updatedAt?.toDate?.() ?? null,
           } satisfies HireItem;
         });
@@ -120,6 +134,42 @@ const ProposteScreen: React.FC = () => {
     return () => unsub();
   }, [uid]);
 
+  // Confirmed hires, to flag proposals that would double-book the worker.
+  useEffect(() => {
+    if (!uid) {
+      setConfirmed([]);
+      return;
+    }
+    const q = query(
+      collection(db, 'hires'),
+      where('workerUid', '==', uid),
+      where('status', '==', 'confirmed')
+    );
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        setConfirmed(
+          snap.docs.map((docSnap) => {
+            const data = docSnap.data() ?? {};
+            return {
+              hireId: docSnap.id,
+              jobId: typeof data.jobId === 'string' ? data.jobId : '',
+              jobTitle: typeof data.jobTitle === 'string' ? data.jobTitle : 'Incarico',
+              jobDate: typeof data.jobDate === 'string' ? data.jobDate : undefined,
+              jobStartTime: typeof data.jobStartTime === 'string' ? data.jobStartTime : undefined,
+              jobEndTime: typeof data.jobEndTime === 'string' ? data.jobEndTime : undefined,
+            };
+          })
+        );
+      },
+      (error) => {
+        console.warn('[HIRE_DEBUG] Confirmed hires subscribe error:', error);
+        setConfirmed([]);
+      }
+    );
+    return () => unsub();
+  }, [uid]);
+
   useEffect(() => {
     let cancelled = false;
     const loadNames = async () => {
@@ -152,6 +202,20 @@ const ProposteScreen: React.FC = () => {
     [items]
   );
 
+  const conflictsByHire = useMemo(() => {
+    const result: Record<string, { confirmed: ScheduleConflict[]; proposals: HireItem[] }> = {};
+    proposals.forEach((item) => {
+      const overlappingConfirmed = confirmed.filter((hire) => schedulesOverlap(item, hire));
+      const overlappingProposals = proposals.filter(
+        (other) => other.id !== item.id && schedulesOverlap(item, other)
+      );
+      if (overlappingConfirmed.length > 0 || overlappingProposals.length > 0) {
+        result[item.id] = { confirmed: overlappingConfirmed, proposals: overlappingProposals };
+      }
+    });
+    return result;
+  }, [proposals, confirmed]);
+
   const handleAccept = async (hireId: string) => {
     if (submittingId) return;
     setSubmittingId(hireId);
@@ -210,6 +274,8 @@ const ProposteScreen: React.FC = () => {
             const payLabel = item.jobPayAmount && item.jobPayAmount > 0
               ? `€ ${item.jobPayAmount.toLocaleString('it-IT', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} / ora`
               : 'Compenso non specificato';
+            const conflicts = conflictsByHire[item.id];
+            const blocked = (conflicts?.confirmed.length ?? 0) > 0;
             return (
               <View key={item.id} style={styles.card}>
                 <Text style={styles.cardTitle}>{item.jobTitle}</Text>
@@ -217,13 +283,41 @@ const ProposteScreen: React.FC = () => {
                 {dateLabel ? <Text style={styles.cardMeta}>{dateLabel}</Text> : null}
                 {item.jobLocationText ? <Text style={styles.cardMeta}>{item.jobLocationText}</Text> : null}
                 <Text style={styles.cardMeta}>{payLabel}</Text>
+                {item.jobChange ? (
+                  <View style={styles.changeNotice}>
+                    <Ionicons name="create-outline" size={16} color={theme.colors.primary} />
+                    <Text style={styles.changeNoticeText}>
+                      {item.jobChange.reconfirm
+                        ? `Il datore ha modificato ${describeJobChangeFields(item.jobChange.fields)}: conferma di nuovo per mantenere l'incarico.`
+                        : `Incarico aggiornato: ${describeJobChangeFields(item.jobChange.fields)}.`}
+                    </Text>
+                  </View>
+                ) : null}
+                {conflicts ? (
+                  <View style={[styles.changeNotice, blocked && styles.conflictNotice]}>
+                    <Ionicons
+                      name="warning-outline"
+                      size={16}
+                      color={blocked ? theme.colors.danger : theme.colors.primary}
+                    />
+                    <Text style={styles.changeNoticeText}>
+                      {blocked
+                        ? `Si sovrappone a un incarico confermato: ${conflicts.confirmed
+                            .map((hire) => `${hire.jobTitle} (${describeSchedule(hire)})`)
+                            .join(', ')}. Per accettare devi prima annullarlo.`
+                        : `Si sovrappone ad altre proposte: ${conflicts.proposals
+                            .map((other) => other.jobTitle)
+                            .join(', ')}. Potrai accettarne solo una.`}
+                    </Text>
+                  </View>
+                ) : null}
                 <View style={styles.actions}>
                   <Pressable
-                    style={[styles.primaryButton, submittingId === item.id && styles.buttonDisabled]}
+                    style={[styles.primaryButton, (submittingId === item.id || blocked) && styles.buttonDisabled]}
                     onPress={() => handleAccept(item.id)}
-                    disabled={submittingId === item.id}
+                    disabled={submittingId === item.id || blocked}
                   >
-                    <Text style={styles.primaryButtonText}>Accetta</Text>
+                    <Text style={styles.primaryButtonText}>{blocked ? 'Orario occupato' : 'Accetta'}</Text>
                   </Pressable>
                   <Pressable
                     style={[styles.secondaryButton, submittingId === item.id && styles.buttonDisabled]}
@@ -280,6 +374,18 @@ const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
     cardTitle: { fontSize: 16, fontWeight: '700', color: t.colors.textPrimary },
     cardSubtitle: { fontSize: 14, color: t.colors.textSecondary },
     cardMeta: { fontSize: 13, color: t.colors.textSecondary },
+    changeNotice: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 8,
+      marginTop: 4,
+      padding: 10,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: t.colors.primary,
+    },
+    changeNoticeText: { flex: 1, fontSize: 13, color: t.colors.textPrimary },
+    conflictNotice: { borderColor: t.colors.danger },
     actions: { flexDirection: 'row', gap: 10, marginTop: 10 },
     primaryButton: {
       flex: 1,
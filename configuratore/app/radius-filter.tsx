@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { geocodeAddress } from '../lib/geocode';
+import type { GeoPoint } from '../lib/geohash';
+import { useTheme, useThemedStyles } from './theme';
+import type { SearchArea } from './use-job-search';
+
+export const RADIUS_OPTIONS_KM = [5, 10, 25, 50];
+
+const DEFAULT_RADIUS_KM = 10;
+
+export const formatDistance = (km: number) =>
+  km < 1
+    ? `${Math.max(50, Math.round((km * 1000) / 50) * 50)} m`
+    : `${km.toLocaleString('it-IT', { maximumFractionDigits: km < 10 ? 1 : 0 })} km`;
+
+// Roughly fits the search circle in a phone-sized map.
+export const zoomForRadius = (radiusKm: number) =>
+  Math.max(6, Math.min(14, Math.round(14 - Math.log2(Math.max(radiusKm, 1)))));
+
+type BrowserGeolocation = {
+  getCurrentPosition: (
+    onSuccess: (position: { coords: { latitude: number; longitude: number } }) => void,
+    onError: (error: unknown) => void,
+    options?: { enableHighAccuracy?: boolean; timeout?: number; maximumAge?: number }
+  ) => void;
+};
+
+// Available on web; native builds have no geolocation module, so they use an address.
+const geolocation = (globalThis as { navigator?: { geolocation?: BrowserGeolocation } }).navigator
+  ?.geolocation;
+
+type RadiusFilterProps = {
+  value: SearchArea | null;
+  onChange: (next: SearchArea | null) => void;
+};
+
+const RadiusFilter: React.FC<RadiusFilterProps> = ({ value, onChange }) => {
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+  const [pendingRadius, setPendingRadius] = useState<number | null>(null);
+  const [addressQuery, setAddressQuery] = useState('');
+  const [locating, setLocating] = useState(false);
+
+  const selectedRadius = value?.radiusKm ?? pendingRadius;
+
+  const handleSelectRadius = (radiusKm: number | null) => {
+    setPendingRadius(radiusKm);
+    if (radiusKm === null) {
+      onChange(null);
+    } else if (value) {
+      onChange({ ...value, radiusKm });
+    }
+  };
+
+  const applyCenter = (center: GeoPoint, label: string) => {
+    onChange({ center, label, radiusKm: selectedRadius ?? DEFAULT_RADIUS_KM });
+  };
+
+  const handleUseMyPosition = () => {
+    if (!geolocation) return;
+    setLocating(true);
+    geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        applyCenter(
+          { lat: position.coords.latitude, lng: position.coords.longitude },
+          'La tua posizione'
+        );
+      },
+      (error) => {
+        setLocating(false);
+        console.warn('Geolocation failed:', error);
+        Alert.alert('Posizione non disponibile', 'Inserisci un indirizzo o una città.');
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const handleSearchAddress = async () => {
+    const trimmed = addressQuery.trim();
+    if (trimmed.length < 3) return;
+    setLocating(true);
+    const center = await geocodeAddress(trimmed);
+    setLocating(false);
+    if (!center) {
+      Alert.alert('Indirizzo non trovato', 'Controlla l\'indirizzo o prova con il nome della città.');
+      return;
+    }
+    applyCenter(center, trimmed);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {[null, ...RADIUS_OPTIONS_KM].map((radiusKm) => {
+          const isSelected = selectedRadius === radiusKm;
+          return (
+            <Pressable
+              key={radiusKm ?? 'any'}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => handleSelectRadius(radiusKm)}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                {radiusKm === null ? 'Ovunque' : `${radiusKm} km`}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {selectedRadius !== null && (
+        <>
+          {value ? (
+            <Text style={styles.summary}>
+              Entro {value.radiusKm} km da {value.label}
+            </Text>
+          ) : (
+            <Text style={styles.summary}>Scegli da dove misurare la distanza.</Text>
+          )}
+          <View style={styles.originRow}>
+            <TextInput
+              style={styles.input}
+              value={addressQuery}
+              onChangeText={setAddressQuery}
+              onSubmitEditing={handleSearchAddress}
+              placeholder="Indirizzo o città"
+              autoCapitalize="words"
+              returnKeyType="search"
+            />
+            <Pressable
+              style={styles.iconButton}
+              onPress={handleSearchAddress}
+              disabled={locating}
+              accessibilityRole="button"
+              accessibilityLabel="Cerca indirizzo"
+            >
+              {locating ? (
+                <ActivityIndicator color={theme.colors.primary} />
+              ) : (
+                <Ionicons name="search" size={18} color={theme.colors.primary} />
+              )}
+            </Pressable>
+          </View>
+          {geolocation ? (
+            <Pressable
+              style={styles.inlineAction}
+              onPress={handleUseMyPosition}
+              disabled={locating}
+              accessibilityRole="button"
+            >
+              <Ionicons name="locate-outline" size={18} color={theme.colors.primary} />
+              <Text style={styles.inlineActionText}>Usa la mia posizione</Text>
+            </Pressable>
+          ) : null}
+        </>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    container: { gap: 10 },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 20,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      backgroundColor: t.colors.surface,
+    },
+    chipSelected: { backgroundColor: t.colors.primary, borderColor: t.colors.primary },
+    chipLabel: { color: t.colors.primary, fontSize: 13, fontWeight: '600' },
+    chipLabelSelected: { color: t.colors.surface },
+    summary: { fontSize: 13, color: t.colors.textSecondary },
+    originRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    input: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: t.colors.textPrimary,
+      backgroundColor: t.colors.card,
+    },
+    iconButton: {
+      width: 42,
+      height: 42,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: t.colors.primary,
+    },
+    inlineAction: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+    inlineActionText: { fontSize: 14, fontWeight: '600', color: t.colors.primary },
+  });
+
+export default RadiusFilter;
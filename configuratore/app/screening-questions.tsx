@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import {
+  CERTIFICATION_SUGGESTIONS,
+  describeScreeningQuestion,
+  MAX_SCREENING_QUESTIONS,
+  MAX_SCREENING_TEXT_LENGTH,
+  type ScreeningQuestion,
+  type ScreeningQuestionType,
+} from '../lib/api';
+import { useTheme, useThemedStyles } from './theme';
+
+export type ScreeningAnswersDraft = Record<string, boolean | string | undefined>;
+
+const TYPE_LABELS: Record<ScreeningQuestionType, string> = {
+  yesNo: 'Sì / No',
+  text: 'Risposta libera',
+  certification: 'Certificazione',
+};
+
+const buildQuestionId = () =>
+  `q${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+type EditorProps = {
+  value: ScreeningQuestion[];
+  onChange: (next: ScreeningQuestion[]) => void;
+};
+
+/** Domande che il datore aggiunge all'incarico nel wizard. */
+export const ScreeningQuestionsEditor: React.FC<EditorProps> = ({ value, onChange }) => {
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+  const [type, setType] = useState<ScreeningQuestionType>('yesNo');
+  const [text, setText] = useState('');
+  const [required, setRequired] = useState(false);
+
+  const trimmed = text.trim();
+  const canAdd = trimmed.length > 0 && value.length < MAX_SCREENING_QUESTIONS;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onChange([...value, { id: buildQuestionId(), type, text: trimmed, required }]);
+    setText('');
+    setRequired(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      {value.map((question) => (
+        <View key={question.id} style={styles.questionRow}>
+          <View style={styles.questionText}>
+            <Text style={styles.questionLabel}>{describeScreeningQuestion(question)}</Text>
+            <Text style={styles.questionMeta}>
+              {TYPE_LABELS[question.type]}
+              {question.required ? ' · obbligatoria' : ''}
+            </Text>
+          </View>
+          <Pressable
+            onPress={() => onChange(value.filter((item) => item.id !== question.id))}
+            accessibilityRole="button"
+            accessibilityLabel="Rimuovi domanda"
+          >
+            <Ionicons name="close-circle-outline" size={22} color={theme.colors.danger} />
+          </Pressable>
+        </View>
+      ))}
+
+      {value.length < MAX_SCREENING_QUESTIONS ? (
+        <>
+          <View style={styles.chipRow}>
+            {(Object.keys(TYPE_LABELS) as ScreeningQuestionType[]).map((option) => {
+              const isSelected = type === option;
+              return (
+                <Pressable
+                  key={option}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => setType(option)}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                    {TYPE_LABELS[option]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {type === 'certification' ? (
+            <View style={styles.chipRow}>
+              {CERTIFICATION_SUGGESTIONS.map((name) => (
+                <Pressable
+                  key={name}
+                  style={[styles.chip, trimmed === name && styles.chipSelected]}
+                  onPress={() => setText(name)}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.chipLabel, trimmed === name && styles.chipLabelSelected]}>
+                    {name}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+          <TextInput
+            style={styles.input}
+            value={text}
+            onChangeText={setText}
+            placeholder={
+              type === 'certification'
+                ? 'Nome della certificazione'
+                : type === 'yesNo'
+                  ? 'Es. Hai esperienza come barista?'
+                  : 'Es. Perché ti interessa questo incarico?'
+            }
+            maxLength={120}
+          />
+          <Pressable
+            style={styles.inlineAction}
+            onPress={() => setRequired((prev) => !prev)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: required }}
+          >
+            <Ionicons
+              name={required ? 'checkbox' : 'square-outline'}
+              size={20}
+              color={theme.colors.primary}
+            />
+            <Text style={styles.inlineActionText}>
+              {type === 'certification' ? 'Requisito obbligatorio' : 'Risposta obbligatoria'}
+            </Text>
+          </Pressable>
+          <Pressable
+            style={[styles.addButton, !canAdd && styles.addButtonDisabled]}
+            onPress={handleAdd}
+            disabled={!canAdd}
+            accessibilityRole="button"
+          >
+            <Ionicons name="add" size={18} color={theme.colors.surface} />
+            <Text style={styles.addButtonText}>Aggiungi domanda</Text>
+          </Pressable>
+        </>
+      ) : (
+        <Text style={styles.questionMeta}>Puoi aggiungere al massimo {MAX_SCREENING_QUESTIONS} domande.</Text>
+      )}
+    </View>
+  );
+};
+
+type AnswersProps = {
+  questions: ScreeningQuestion[];
+  value: ScreeningAnswersDraft;
+  onChange: (next: ScreeningAnswersDraft) => void;
+};
+
+/** Risposte del lavoratore alle domande dell'incarico. */
+export const ScreeningAnswersForm: React.FC<AnswersProps> = ({ questions, value, onChange }) => {
+  const styles = useThemedStyles((t) => createStyles(t));
+
+  return (
+    <View style={styles.container}>
+      {questions.map((question) => {
+        const answer = value[question.id];
+        return (
+          <View key={question.id} style={styles.answerBlock}>
+            <Text style={styles.questionLabel}>
+              {describeScreeningQuestion(question)}
+              {question.required ? ' *' : ''}
+            </Text>
+            {question.type === 'text' ? (
+              <TextInput
+                style={[styles.input, styles.textarea]}
+                value={typeof answer === 'string' ? answer : ''}
+                onChangeText={(next) => onChange({ ...value, [question.id]: next })}
+                placeholder="La tua risposta"
+                multiline
+                maxLength={MAX_SCREENING_TEXT_LENGTH}
+              />
+            ) : (
+              <View style={styles.chipRow}>
+                {[true, false].map((option) => {
+                  const isSelected = answer === option;
+                  return (
+                    <Pressable
+                      key={String(option)}
+                      style={[styles.chip, isSelected && styles.chipSelected]}
+                      onPress={() => onChange({ ...value, [question.id]: option })}
+                      accessibilityRole="button"
+                    >
+                      <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                        {option ? 'Sì' : 'No'}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    container: { gap: 10 },
+    questionRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      padding: 12,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      backgroundColor: t.colors.card,
+    },
+    questionText: { flex: 1, gap: 2 },
+    questionLabel: { fontSize: 14, fontWeight: '600', color: t.colors.textPrimary },
+    questionMeta: { fontSize: 12, color: t.colors.textSecondary },
+    answerBlock: { gap: 6 },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 20,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      backgroundColor: t.colors.surface,
+    },
+    chipSelected: { backgroundColor: t.colors.primary, borderColor: t.colors.primary },
+    chipLabel: { color: t.colors.primary, fontSize: 13, fontWeight: '600' },
+    chipLabelSelected: { color: t.colors.surface },
+    input: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: t.colors.textPrimary,
+      backgroundColor: t.colors.card,
+    },
+    textarea: { minHeight: 72, textAlignVertical: 'top' },
+    inlineAction: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+    inlineActionText: { fontSize: 14, fontWeight: '600', color: t.colors.primary },
+    addButton: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 12,
+      backgroundColor: t.colors.primary,
+    },
+    addButtonDisabled: { opacity: 0.5 },
+    addButtonText: { color: t.colors.surface, fontWeight: '700', fontSize: 14 },
+  });
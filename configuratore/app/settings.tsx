@@ -90,16 +90,47 @@ const SettingsScreen: React.FC = () => {
             </View>
           </Pressable>
 
+          <Pressable
+            style={styles.option}
+            onPress={() => router.push('/configuratore/change-password')}
+            accessibilityRole="button"
+          >
+            <MaterialIcons name="lock-outline" size={22} color={theme.colors.primary} />
+            <View style={styles.optionInfo}>
+              <Text style={styles.optionLabel}>Cambia password</Text>
+              <Text style={styles.optionDescription}>
+                Aggiorna la password di accesso al profilo.
+              </Text>
+            </View>
+          </Pressable>
 
-          <View style={styles.option}>
+          <Pressable
+            style={styles.option}
+            onPress={() => router.push('/configuratore/account-data')}
+            accessibilityRole="button"
+          >
             <MaterialIcons name="security" size={22} color={theme.colors.primary} />
             <View style={styles.optionInfo}>
               <Text style={styles.optionLabel}>Privacy & sicurezza</Text>
               <Text style={styles.optionDescription}>
-                Gestisci preferenze e visibilità del profilo.
+                Esporta i tuoi dati o elimina l&apos;account.
               </Text>
             </View>
-          </View>
+          </Pressable>
+
+          <Pressable
+            style={styles.option}
+            onPress={() => router.push('/configuratore/devices')}
+            accessibilityRole="button"
+          >
+            <MaterialIcons name="devices" size={22} color={theme.colors.primary} />
+            <View style={styles.optionInfo}>
+              <Text style={styles.optionLabel}>Dispositivi</Text>
+              <Text style={styles.optionDescription}>
+                Controlla le sessioni attive e disconnetti i dispositivi.
+              </Text>
+            </View>
+          </Pressable>
 
           <View style={styles.option}>
             <MaterialIcons name="notifications-none" size={22} color={theme.colors.primary} />
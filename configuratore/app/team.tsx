@@ -0,0 +1,364 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import {
+  inviteBusinessMember,
+  listBusinessInvites,
+  listBusinessMembers,
+  listMyBusinessInvites,
+  removeBusinessMember,
+  respondToBusinessInvite,
+  revokeBusinessInvite,
+  updateBusinessMemberRole,
+  type BusinessInvite,
+  type BusinessMember,
+  type BusinessRole,
+} from '../lib/api';
+import { useProfile } from './profile-context';
+import { useTheme, useThemedStyles } from './theme';
+
+const ROLE_LABELS: Record<BusinessRole, string> = {
+  owner: 'Titolare',
+  manager: 'Manager',
+  viewer: 'Visualizzatore',
+};
+
+const INVITABLE_ROLES: Exclude<BusinessRole, 'owner'>[] = ['manager', 'viewer'];
+
+const TeamScreen: React.FC = () => {
+  const router = useRouter();
+  const { profile, loading, refreshBusiness } = useProfile();
+  const { theme } = useTheme();
+  const styles = useThemedStyles((t) => createStyles(t));
+
+  const [businessId, setBusinessId] = useState<string | null>(null);
+  const [members, setMembers] = useState<BusinessMember[]>([]);
+  const [pendingInvites, setPendingInvites] = useState<BusinessInvite[]>([]);
+  const [myInvites, setMyInvites] = useState<BusinessInvite[]>([]);
+  const [fetching, setFetching] = useState(true);
+  const [username, setUsername] = useState('');
+  const [inviteRole, setInviteRole] = useState<Exclude<BusinessRole, 'owner'>>('manager');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!loading && (!profile || profile.role !== 'datore')) {
+      router.replace('/configuratore/landing');
+    }
+  }, [loading, profile, router]);
+
+  const myRole = useMemo<BusinessRole | null>(
+    () => members.find((member) => member.profileId === profile?.profileId)?.role ?? null,
+    [members, profile?.profileId]
+  );
+  const isOwner = myRole === 'owner';
+
+  const load = useCallback(async () => {
+    if (!profile) return;
+    setFetching(true);
+    try {
+      const resolvedId = await refreshBusiness();
+      setBusinessId(resolvedId);
+      setMyInvites(await listMyBusinessInvites());
+      if (resolvedId) {
+        const nextMembers = await listBusinessMembers(resolvedId);
+        setMembers(nextMembers);
+        const owner = nextMembers.find((member) => member.profileId === profile.profileId)?.role === 'owner';
+        setPendingInvites(owner ? await listBusinessInvites(resolvedId) : []);
+      }
+    } catch (error) {
+      console.warn('Failed to load team:', error);
+      Alert.alert('Errore', 'Impossibile caricare il team.');
+    } finally {
+      setFetching(false);
+    }
+    // refreshBusiness changes with the profile it updates; reloading on it would loop.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile?.profileId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await action();
+      await load();
+    } catch (error) {
+      console.warn('Team action failed:', error);
+      Alert.alert('Errore', error instanceof Error && error.message ? error.message : failureMessage);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = () => {
+    if (!businessId || !profile || username.trim().length < 3) return;
+    void runAction(async () => {
+      await inviteBusinessMember({
+        businessId,
+        username: username.trim(),
+        role: inviteRole,
+        invitedByProfileId: profile.profileId,
+      });
+      setUsername('');
+      Alert.alert('Invito inviato', 'Il collaboratore vedrà l\'invito nella sezione Team.');
+    }, 'Impossibile inviare l\'invito.');
+  };
+
+  const handleMemberPress = (member: BusinessMember) => {
+    if (!businessId) return;
+    const isSelf = member.profileId === profile?.profileId;
+    if (member.role === 'owner' || (!isOwner && !isSelf)) return;
+
+    if (isSelf) {
+      Alert.alert('Lasciare il team?', 'Non potrai più gestire gli incarichi di questa attività.', [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Esci dal team',
+          style: 'destructive',
+          onPress: () => void runAction(() => removeBusinessMember(businessId, member), 'Impossibile lasciare il team.'),
+        },
+      ]);
+      return;
+    }
+
+    const nextRole = member.role === 'manager' ? 'viewer' : 'manager';
+    Alert.alert(member.displayName, `Ruolo attuale: ${ROLE_LABELS[member.role]}`, [
+      { text: 'Annulla', style: 'cancel' },
+      {
+        text: `Rendi ${ROLE_LABELS[nextRole]}`,
+        onPress: () =>
+          void runAction(
+            () => updateBusinessMemberRole(businessId, member, nextRole),
+            'Impossibile aggiornare il ruolo.'
+          ),
+      },
+      {
+        text: 'Rimuovi',
+        style: 'destructive',
+        onPress: () =>
+          void runAction(() => removeBusinessMember(businessId, member), 'Impossibile rimuovere il membro.'),
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} accessibilityRole="button">
+            <Ionicons name="chevron-back" size={26} color={theme.colors.textPrimary} />
+          </Pressable>
+          <Text style={styles.title}>Team</Text>
+          <View style={{ width: 26 }} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={fetching} onRefresh={load} />}
+          showsVerticalScrollIndicator={false}
+        >
+          {myInvites.length > 0 ? (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Inviti ricevuti</Text>
+              {myInvites.map((invite) => (
+                <View key={invite.id} style={styles.inviteRow}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{invite.businessName}</Text>
+                    <Text style={styles.rowMeta}>Ruolo: {ROLE_LABELS[invite.role]}</Text>
+                  </View>
+                  <Pressable
+                    style={styles.inlineButton}
+                    disabled={busy}
+                    onPress={() =>
+                      void runAction(
+                        () => respondToBusinessInvite(invite.id, false),
+                        'Impossibile rifiutare l\'invito.'
+                      )
+                    }
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.inlineDanger}>Rifiuta</Text>
+                  </Pressable>
+                  <Pressable
+                    style={styles.inlineButton}
+                    disabled={busy}
+                    onPress={() =>
+                      void runAction(
+                        () => respondToBusinessInvite(invite.id, true),
+                        'Impossibile accettare l\'invito.'
+                      )
+                    }
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.inlinePrimary}>Accetta</Text>
+                  </Pressable>
+                </View>
+              ))}
+            </View>
+          ) : null}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Membri</Text>
+            {myRole ? (
+              <Text style={styles.rowMeta}>Il tuo ruolo: {ROLE_LABELS[myRole]}</Text>
+            ) : null}
+            {fetching && members.length === 0 ? (
+              <ActivityIndicator color={theme.colors.primary} />
+            ) : (
+              members.map((member) => (
+                <Pressable
+                  key={member.profileId}
+                  style={styles.memberRow}
+                  onPress={() => handleMemberPress(member)}
+                  accessibilityRole="button"
+                >
+                  <MaterialIcons
+                    name={member.role === 'owner' ? 'verified-user' : 'person-outline'}
+                    size={22}
+                    color={theme.colors.primary}
+                  />
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{member.displayName}</Text>
+                    <Text style={styles.rowMeta}>
+                      {ROLE_LABELS[member.role]}
+                      {member.username ? ` · @${member.username}` : ''}
+                    </Text>
+                  </View>
+                </Pressable>
+              ))
+            )}
+          </View>
+
+          {businessId ? (
+            <Pressable
+              style={[styles.card, styles.memberRow]}
+              onPress={() => router.push('/configuratore/locations')}
+              accessibilityRole="button"
+            >
+              <MaterialIcons name="store" size={22} color={theme.colors.primary} />
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>Sedi</Text>
+                <Text style={styles.rowMeta}>Indirizzi e valori predefiniti per i nuovi incarichi</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={theme.colors.muted} />
+            </Pressable>
+          ) : null}
+
+          {isOwner ? (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Invita un collaboratore</Text>
+              <Text style={styles.description}>
+                I manager possono pubblicare incarichi e gestire le assunzioni, i visualizzatori
+                possono solo consultarli.
+              </Text>
+              <TextInput
+                value={username}
+                onChangeText={setUsername}
+                placeholder="Username del profilo datore"
+                placeholderTextColor={theme.colors.muted}
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.input}
+              />
+              <View style={styles.roleRow}>
+                {INVITABLE_ROLES.map((role) => (
+                  <Pressable
+                    key={role}
+                    style={[styles.roleChip, inviteRole === role && styles.roleChipActive]}
+                    onPress={() => setInviteRole(role)}
+                    accessibilityRole="button"
+                  >
+                    <Text style={[styles.roleChipText, inviteRole === role && styles.roleChipTextActive]}>
+                      {ROLE_LABELS[role]}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              <Pressable
+                style={[styles.primaryButton, (busy || username.trim().length < 3) && styles.buttonDisabled]}
+                onPress={handleInvite}
+                disabled={busy || username.trim().length < 3}
+                accessibilityRole="button"
+              >
+                <Text style={styles.primaryLabel}>Invia invito</Text>
+              </Pressable>
+
+              {pendingInvites.map((invite) => (
+                <View key={invite.id} style={styles.inviteRow}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>@{invite.invitedUsername}</Text>
+                    <Text style={styles.rowMeta}>In attesa · {ROLE_LABELS[invite.role]}</Text>
+                  </View>
+                  <Pressable
+                    style={styles.inlineButton}
+                    disabled={busy}
+                    onPress={() =>
+                      void runAction(() => revokeBusinessInvite(invite.id), 'Impossibile annullare l\'invito.')
+                    }
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.inlineDanger}>Annulla</Text>
+                  </Pressable>
+                </View>
+              ))}
+            </View>
+          ) : null}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (t: ReturnType<typeof useTheme>['theme']) =>
+  StyleSheet.create({
+    safeArea: { flex: 1, backgroundColor: t.colors.background },
+    container: { flex: 1, backgroundColor: t.colors.background },
+    header: { flexDirection: 'row', alignItems: 'center', padding: 16, gap: 12 },
+    title: { flex: 1, textAlign: 'center', fontSize: 18, fontWeight: '700', color: t.colors.textPrimary },
+    scrollContent: { padding: 16, paddingBottom: 120, gap: 16 },
+    card: { backgroundColor: t.colors.surface, borderRadius: 18, padding: 16, gap: 12, borderWidth: 1, borderColor: t.colors.border },
+    cardTitle: { fontSize: 16, fontWeight: '600', color: t.colors.textPrimary },
+    description: { fontSize: 14, color: t.colors.textSecondary, lineHeight: 20 },
+    memberRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 6 },
+    inviteRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    rowInfo: { flex: 1, gap: 2 },
+    rowTitle: { fontSize: 15, fontWeight: '600', color: t.colors.textPrimary },
+    rowMeta: { fontSize: 13, color: t.colors.textSecondary },
+    inlineButton: { paddingHorizontal: 8, paddingVertical: 6 },
+    inlinePrimary: { color: t.colors.primary, fontWeight: '600' },
+    inlineDanger: { color: t.colors.danger, fontWeight: '600' },
+    input: { borderWidth: 1, borderColor: t.colors.border, backgroundColor: t.colors.card, borderRadius: 12, paddingHorizontal: 14, paddingVertical: 12, fontSize: 15, color: t.colors.textPrimary },
+    roleRow: { flexDirection: 'row', gap: 8 },
+    roleChip: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 999, borderWidth: 1, borderColor: t.colors.border, backgroundColor: t.colors.card },
+    roleChipActive: { backgroundColor: t.colors.primary, borderColor: t.colors.primary },
+    roleChipText: { fontSize: 14, color: t.colors.textPrimary },
+    roleChipTextActive: { color: t.colors.surface, fontWeight: '600' },
+    primaryButton: { backgroundColor: t.colors.primary, borderRadius: 14, paddingVertical: 14, alignItems: 'center' },
+    primaryLabel: { color: t.colors.surface, fontSize: 15, fontWeight: '600' },
+    buttonDisabled: { opacity: 0.6 },
+  });
+
+export default TeamScreen;
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  searchJobs,
+  searchJobsNearby,
+  type JobSearchCursor,
+  type JobSearchFilters,
+} from '../lib/api';
+import type { GeoPoint } from '../lib/geohash';
+import { mapSnapshotToIncarichi, type Incarico } from './profile-context';
+
+/** cerchio di ricerca: incarichi entro radiusKm da center */
+export type SearchArea = {
+  center: GeoPoint;
+  radiusKm: number;
+  /** indirizzo o "La tua posizione", per il riepilogo */
+  label: string;
+};
+
+export type JobSearchState = {
+  jobs: Incarico[];
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  /** ricerca per distanza: non tutti gli incarichi del raggio sono stati letti */
+  truncated: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+};
+
+// With an area the results come nearest first and in a single page; truncated
+// tells the screen that the area held more jobs than were read.
+export const useJobSearch = (
+  filters: JobSearchFilters,
+  enabled = true,
+  area: SearchArea | null = null
+): JobSearchState => {
+  const [jobs, setJobs] = useState<Incarico[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [truncated, setTruncated] = useState(false);
+  const cursorRef = useRef<JobSearchCursor | null>(null);
+  // Results of a superseded search (filters changed meanwhile) are dropped.
+  const requestRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+    const request = ++requestRef.current;
+    setLoading(true);
+    try {
+      if (area) {
+        const nearby = await searchJobsNearby(area.center, area.radiusKm, filters);
+        if (request !== requestRef.current) return;
+        cursorRef.current = null;
+        setJobs(mapSnapshotToIncarichi({ docs: nearby.jobs.map((item) => item.doc) }));
+        setHasMore(false);
+        setTruncated(nearby.truncated);
+        return;
+      }
+      const page = await searchJobs(filters);
+      if (request !== requestRef.current) return;
+      cursorRef.current = page.cursor;
+      setJobs(mapSnapshotToIncarichi(page));
+      setHasMore(page.cursor !== null);
+      setTruncated(false);
+    } catch (error) {
+      console.warn('Job search failed:', error);
+      if (request === requestRef.current) {
+        setJobs([]);
+        setHasMore(false);
+        setTruncated(false);
+      }
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [filters, enabled, area]);
+
+  const loadMore = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!enabled || !cursor || loading || loadingMore) return;
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await searchJobs(filters, cursor);
+      if (request !== requestRef.current) return;
+      cursorRef.current = page.cursor;
+      const next = mapSnapshotToIncarichi(page);
+      setJobs((current) => {
+        const seen = new Set(current.map((job) => job.id));
+        return [...current, ...next.filter((job) => !seen.has(job.id))];
+      });
+      setHasMore(page.cursor !== null);
+    } catch (error) {
+      console.warn('Loading more jobs failed:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filters, enabled, loading, loadingMore]);
+
+  useEffect(() => {
+    cursorRef.current = null;
+    void refresh();
+  }, [refresh]);
+
+  return { jobs, loading, loadingMore, hasMore, truncated, loadMore, refresh };
+};
@@ -1,12 +1,26 @@
 // configuratore/lib/api.ts
+import { Platform } from "react-native";
+import Constants from "expo-constants";
 import { auth, db } from "./firebase";
 import { ensureSignedIn } from "./firebase";
+import { hashToken, legacyPasswordDigest, randomHex } from "./password";
+import { geocodeAddress } from "./geocode";
+import {
+  distanceKm,
+  encodeGeohash,
+  geohashCoveringCells,
+  geohashPrefixes,
+  type GeoPoint,
+} from "./geohash";
+import { isValidSlot, normalizeAvailability, type WorkerAvailability } from "./availability";
+import { planLoginHandles, type LoginHandleKind, type LoginHandleValues } from "./login-handles";
 import {
   collection,
   doc,
   setDoc,
   addDoc,
   serverTimestamp,
+  Timestamp,
   getDoc,
   getDocs,
   query,
@@ -20,7 +34,27 @@ import {
   deleteField,
   updateDoc,
   arrayUnion,
+  arrayRemove,
+  increment,
+  startAfter,
+  documentId,
+  type DocumentData,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type Transaction,
 } from "firebase/firestore";
+import {
+  EmailAuthProvider,
+  confirmPasswordReset,
+  createUserWithEmailAndPassword,
+  deleteUser,
+  linkWithCredential,
+  sendPasswordResetEmail,
+  signInWithEmailAndPassword,
+  signOut,
+  updatePassword,
+  verifyPasswordResetCode,
+} from "firebase/auth";
 
 type AuthenticateProfileInput = {
   nome?: string;
@@ -31,15 +65,19 @@ type AuthenticateProfileInput = {
   password: string;
 };
 
-type AuthenticatedProfile = {
+export type AuthenticatedProfile = {
   role: "datore" | "lavoratore";
   nome: string;
   cognome: string;
   dataNascita: string;
   profileId: string;
-  passwordHash: string;
+  uid: string;
   business?: BusinessPayload & { updatedAt?: string };
+  /** attività (businesses/{id}) per cui il profilo lavora */
+  businessId?: string;
   cv?: WorkerCV;
+  /** fasce settimanali ed eccezioni del lavoratore */
+  availability?: WorkerAvailability;
   username?: string;
   email?: string;
 };
@@ -64,6 +102,7 @@ type WorkerCV = {
   certifications?: string[];
   degrees?: string[];
   experiences?: string[];
+  area?: { label: string; lat: number; lng: number };
 };
 
 const normalizeValue = (input: string): string =>
@@ -89,29 +128,194 @@ const normalizeUsername = (value: string): string =>
     .trim()
     .toLowerCase();
 
-const hashPassword = (password: string): string => {
-  let hash = 5381;
-  for (let i = 0; i < password.length; i += 1) {
-    hash = (hash * 33) ^ password.charCodeAt(i);
+const buildAuthError = (code: string, message: string) => {
+  const error = new Error(message) as Error & { code: string };
+  error.code = code;
+  return error;
+};
+
+const AUTH_EMAIL_DOMAIN = "profiles.jobly.app";
+
+const INVALID_CREDENTIAL_CODES = new Set([
+  "auth/wrong-password",
+  "auth/invalid-credential",
+  "auth/invalid-login-credentials",
+  "auth/user-not-found",
+]);
+
+/**
+ * Email usata per l'account Firebase Auth del profilo: quella reale se
+ * presente, altrimenti un indirizzo sintetico derivato dall'username.
+ */
+const buildAuthEmail = (email: string | undefined, handle: string): string => {
+  if (email && email.trim().length > 0) {
+    return email.trim().toLowerCase();
   }
-  return (hash >>> 0).toString(16);
+  const local = handle
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "");
+  return `${local || "profilo"}@${AUTH_EMAIL_DOMAIN}`;
 };
 
-const timingSafeEquals = (a: string, b: string): boolean => {
-  if (a.length !== b.length) {
-    return false;
+/**
+ * Collega una credenziale email/password alla sessione corrente.
+ * La sessione anonima viene promossa (mantenendo lo stesso uid),
+ * altrimenti viene creato un nuovo account.
+ */
+const attachPasswordCredential = async (authEmail: string, password: string): Promise<string> => {
+  await ensureSignedIn();
+  const current = auth.currentUser;
+
+  if (current && !current.isAnonymous) {
+    if ((current.email ?? "").toLowerCase() === authEmail) {
+      await updatePassword(current, password);
+      return current.uid;
+    }
+    await signOut(auth);
   }
-  let result = 0;
-  for (let i = 0; i < a.length; i += 1) {
-    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+
+  try {
+    if (current?.isAnonymous) {
+      const cred = await linkWithCredential(
+        current,
+        EmailAuthProvider.credential(authEmail, password)
+      );
+      return cred.user.uid;
+    }
+    const cred = await createUserWithEmailAndPassword(auth, authEmail, password);
+    return cred.user.uid;
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code === "auth/email-already-in-use" || code === "auth/credential-already-in-use") {
+      throw buildAuthError("auth/email-already-in-use", "Esiste già un account con questa email.");
+    }
+    throw error;
   }
-  return result === 0;
 };
 
-const buildAuthError = (code: string, message: string) => {
-  const error = new Error(message) as Error & { code: string };
-  error.code = code;
-  return error;
+const signInProfileAccount = async (authEmail: string, password: string): Promise<string | null> => {
+  try {
+    const cred = await signInWithEmailAndPassword(auth, authEmail, password);
+    return cred.user.uid;
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code && INVALID_CREDENTIAL_CODES.has(code)) {
+      return null;
+    }
+    if (code === "auth/too-many-requests") {
+      throw buildAuthError("auth/too-many-attempts", "Troppi tentativi di accesso. Riprova più tardi.");
+    }
+    throw error;
+  }
+};
+
+/**
+ * Verifica la password di un profilo con un login sull'account Firebase Auth
+ * collegato. I profili legacy senza authEmail vengono migrati lato server da
+ * scripts/migrate-legacy-profiles.js, non dal client.
+ */
+const signInWithProfilePassword = async (
+  profileId: string,
+  data: Record<string, any>,
+  password: string
+): Promise<string | null> => {
+  if (typeof data.authEmail !== "string" || data.authEmail.length === 0) {
+    throw buildAuthError(
+      "auth/legacy-profile",
+      "Questo profilo non è ancora stato aggiornato al nuovo sistema di accesso. Contatta l'assistenza."
+    );
+  }
+  const uid = await signInProfileAccount(data.authEmail, password);
+  if (uid || data.legacyPassword !== "djb2") {
+    return uid;
+  }
+  // Migrated djb2 record: its Auth password is still the old digest.
+  const legacyUid = await signInProfileAccount(data.authEmail, legacyPasswordDigest(password));
+  if (legacyUid) {
+    await upgradeLegacyPassword(profileId, data.authEmail, password);
+  }
+  return legacyUid;
+};
+
+/**
+ * Sostituisce il digest djb2 importato dalla migrazione con la password
+ * digitata, che Firebase Auth salva con il proprio hash.
+ */
+const upgradeLegacyPassword = async (profileId: string, authEmail: string, password: string) => {
+  const user = auth.currentUser;
+  if (!user) {
+    return;
+  }
+  try {
+    // Passwords under Firebase's minimum length keep the digest until they are changed.
+    await updatePassword(user, password);
+    const profileRef = doc(db, "profiles", profileId);
+    const profile = (await getDoc(profileRef)).data() ?? {};
+    await updateDoc(profileRef, { legacyPassword: deleteField(), updatedAt: serverTimestamp() });
+    await syncLoginHandles(
+      profileId,
+      authEmail,
+      { emailLower: profile.emailLower, usernameLower: profile.usernameLower },
+      null
+    );
+  } catch (e) {
+    console.warn("Failed to upgrade legacy password:", e);
+  }
+};
+
+// -----------------------
+// Login handles
+// -----------------------
+
+// Other users cannot list profiles (firestore.rules), so email and username
+// logins resolve the Auth account through loginHandles/{kind}:{value}.
+type LoginHandle = { profileId: string; authEmail: string; legacyPassword?: string };
+
+const loginHandleRef = (kind: LoginHandleKind, value: string) =>
+  doc(db, "loginHandles", `${kind}:${encodeURIComponent(value)}`);
+
+const getLoginHandle = async (kind: LoginHandleKind, value: string): Promise<LoginHandle | null> => {
+  if (!value) {
+    return null;
+  }
+  const snap = await getDoc(loginHandleRef(kind, value));
+  const data = snap.data();
+  return data && typeof data.profileId === "string" && typeof data.authEmail === "string"
+    ? {
+        profileId: data.profileId,
+        authEmail: data.authEmail,
+        ...(typeof data.legacyPassword === "string" ? { legacyPassword: data.legacyPassword } : {}),
+      }
+    : null;
+};
+
+// Points the profile's email and username at its Auth account and drops the
+// handles of values it no longer uses (planLoginHandles).
+const syncLoginHandles = async (
+  profileId: string,
+  authEmail: string,
+  next: LoginHandleValues & { legacyPassword?: string },
+  previous: Record<string, any> | null
+) => {
+  const plan = planLoginHandles(next, previous);
+  const batch = writeBatch(db);
+  for (const [kind, oldValue] of plan.drop) {
+    const handle = await getLoginHandle(kind, oldValue);
+    if (handle?.profileId === profileId) {
+      batch.delete(loginHandleRef(kind, oldValue));
+    }
+  }
+  const entry = {
+    profileId,
+    authEmail,
+    ...(next.legacyPassword ? { legacyPassword: next.legacyPassword } : {}),
+    updatedAt: serverTimestamp(),
+  };
+  for (const [kind, value] of plan.write) {
+    batch.set(loginHandleRef(kind, value), entry);
+  }
+  await batch.commit();
 };
 
 const normalizeBusinessInput = (value: unknown): BusinessPayload | null => {
@@ -237,6 +441,9 @@ const mapCvFromFirestore = (value: unknown): WorkerCV | undefined => {
   const certifications = asStringArray(cv.certifications);
   const degrees = asStringArray(cv.degrees);
   const experiences = asStringArray(cv.experiences);
+  const area = cv.area as Record<string, unknown> | undefined;
+  const hasArea =
+    !!area && typeof area.label === 'string' && typeof area.lat === 'number' && typeof area.lng === 'number';
   return {
     ...(sex ? { sex } : {}),
     ...(phone ? { phone } : {}),
@@ -245,201 +452,296 @@ const mapCvFromFirestore = (value: unknown): WorkerCV | undefined => {
     ...(certifications ? { certifications } : {}),
     ...(degrees ? { degrees } : {}),
     ...(experiences ? { experiences } : {}),
+    ...(hasArea ? { area: { label: area.label as string, lat: area.lat as number, lng: area.lng as number } } : {}),
+  };
+};
+
+const mapProfileFromFirestore = (
+  id: string,
+  data: Record<string, any>
+): AuthenticatedProfile => {
+  const role = data.role === "lavoratore" ? "lavoratore" : "datore";
+  const business = mapBusinessFromFirestore(data.business);
+  const cv = mapCvFromFirestore(data.cv);
+  const availability = role === "lavoratore" ? normalizeAvailability(data.availability) : undefined;
+  const pickString = (...values: unknown[]) =>
+    (values.find((value) => typeof value === "string") as string | undefined) ?? '';
+
+  return {
+    role,
+    nome: pickString(data.name, data.nome),
+    cognome: pickString(data.surname, data.cognome),
+    dataNascita: pickString(data.birthDate, data.dataNascita),
+    profileId:
+      typeof data.profileId === "string" && data.profileId.trim().length > 0
+        ? data.profileId
+        : id,
+    uid: pickString(data.uid),
+    ...(business ? { business } : {}),
+    ...(typeof data.businessId === 'string' && data.businessId ? { businessId: data.businessId } : {}),
+    ...(cv ? { cv } : {}),
+    ...(availability ? { availability } : {}),
+    ...(typeof data.username === 'string' && data.username.trim().length > 0
+      ? { username: data.username }
+      : {}),
+    ...(typeof data.email === 'string' && data.email.trim().length > 0
+      ? { email: data.email }
+      : {}),
   };
 };
 
+const findProfileBy = async (
+  field: "uid",
+  value: string
+): Promise<AuthenticatedProfile | null> => {
+  if (!value) {
+    return null;
+  }
+  await ensureSignedIn();
+  const matches = await getDocs(
+    query(collection(db, "profiles"), where(field, "==", value), limit(1))
+  );
+  if (matches.empty) {
+    return null;
+  }
+  const docSnap = matches.docs[0];
+  return mapProfileFromFirestore(docSnap.id, docSnap.data() ?? {});
+};
+
+const findProfileByHandle = async (
+  kind: LoginHandleKind,
+  value: string
+): Promise<AuthenticatedProfile | null> => {
+  await ensureSignedIn();
+  const handle = await getLoginHandle(kind, value);
+  if (!handle) {
+    return null;
+  }
+  const snap = await getDoc(doc(db, "profiles", handle.profileId));
+  return snap.exists() ? mapProfileFromFirestore(snap.id, snap.data() ?? {}) : null;
+};
+
+/**
+ * Cerca il profilo associato a un'email (confronto case/accent-insensitive).
+ */
+export async function getProfileByEmail(email: string): Promise<AuthenticatedProfile | null> {
+  return findProfileByHandle("email", normalizeValue(email));
+}
+
+/**
+ * Cerca il profilo associato a un username.
+ */
+export async function getProfileByUsername(username: string): Promise<AuthenticatedProfile | null> {
+  return findProfileByHandle("username", normalizeUsername(username));
+}
+
+/**
+ * Cerca il profilo collegato a un account Firebase Auth.
+ */
+export async function getProfileByUid(uid: string): Promise<AuthenticatedProfile | null> {
+  return findProfileBy("uid", uid.trim());
+}
+
+// -----------------------
+// Login audit
+// -----------------------
+
+// Repeated failures are throttled by Firebase Auth itself (auth/too-many-requests):
+// a counter kept by the client could be skipped or written by anyone.
+
+type LoginMethod = "email" | "username" | "profileId" | "name";
+
+const recordLoginAudit = async (
+  profileId: string,
+  method: LoginMethod,
+  outcome: "success" | "invalid-password" | "locked"
+) => {
+  try {
+    await addDoc(collection(db, "loginAudit"), {
+      profileId,
+      uid: auth.currentUser?.uid ?? null,
+      method,
+      outcome,
+      success: outcome === "success",
+      createdAt: serverTimestamp(),
+    });
+  } catch (e) {
+    console.warn("Failed to record login audit:", e);
+  }
+};
+
 export async function authenticateProfile(
   payload: AuthenticateProfileInput
 ): Promise<{ profile: AuthenticatedProfile }> {
   await ensureSignedIn();
 
-  const normalizedName = payload.nome ? normalizeValue(payload.nome) : '';
-  const normalizedSurname = payload.cognome ? normalizeValue(payload.cognome) : '';
-  const normalizedEmail = payload.email ? normalizeValue(payload.email) : '';
-
-  let profileSnap: { data: () => any; id: string } | null = null;
-
-  // Login via email (preferred if provided)
+  let candidate: { id: string; data: Record<string, any> };
   if (payload.email && payload.email.trim().length > 0) {
-    const profilesRef = collection(db, "profiles");
-    const matches = await getDocs(query(profilesRef, where("emailLower", "==", normalizedEmail)));
-    if (matches.empty) {
+    const handle = await getLoginHandle("email", normalizeValue(payload.email));
+    if (!handle) {
       throw buildAuthError("auth/profile-not-found", "Profilo non trovato per l'email inserita.");
     }
-    const docSnap = matches.docs[0];
-    profileSnap = { data: () => docSnap.data(), id: docSnap.id };
+    candidate = { id: handle.profileId, data: handle };
   } else if (payload.username && payload.username.trim().length > 0) {
-    const usernameLower = normalizeUsername(payload.username);
-    const profilesRef = collection(db, "profiles");
-    const matches = await getDocs(query(profilesRef, where("usernameLower", "==", usernameLower)));
-    if (matches.empty) {
+    const handle = await getLoginHandle("username", normalizeUsername(payload.username));
+    if (!handle) {
       throw buildAuthError("auth/profile-not-found", "Profilo non trovato con l'username inserito.");
     }
-    // Username is unique -> first doc is the user
-    const docSnap = matches.docs[0];
-    profileSnap = { data: () => docSnap.data(), id: docSnap.id };
+    candidate = { id: handle.profileId, data: handle };
   } else if (payload.dataNascita && payload.nome && payload.cognome) {
     const profileId = computeProfileId({
       nome: payload.nome,
       cognome: payload.cognome,
       dataNascita: payload.dataNascita,
     });
-    const profileRef = doc(db, "profiles", profileId);
-    const snapshot = await getDoc(profileRef);
+    const snapshot = await getDoc(doc(db, "profiles", profileId));
     if (!snapshot.exists()) {
       throw buildAuthError(
         "auth/profile-not-found",
         "Profilo non trovato con i dati inseriti."
       );
     }
-    profileSnap = { data: () => snapshot.data(), id: snapshot.id };
+    candidate = { id: snapshot.id, data: snapshot.data() ?? {} };
   } else {
-    const profilesRef = collection(db, "profiles");
-    let candidates = await getDocs(
-      query(
-        profilesRef,
-        where("searchName", "==", normalizedName),
-        where("searchSurname", "==", normalizedSurname)
-      )
-    );
-
-    let docs = candidates.docs;
-
-    if (candidates.empty) {
-      const nameSnapshot = await getDocs(query(profilesRef, where("name", "==", payload.nome)));
-      docs = nameSnapshot.docs.filter((docSnap) => {
-        const docData = docSnap.data() ?? {};
-        return normalizeValue(docData.surname ?? '') === normalizedSurname;
-      });
+    // Profiles cannot be searched by name: that would need listing other users' documents.
+    throw buildAuthError("auth/profile-not-found", "Accedi con email o username.");
+  }
 
-      if (docs.length === 0) {
-        const surnameSnapshot = await getDocs(query(profilesRef, where("surname", "==", payload.cognome)));
-        docs = surnameSnapshot.docs.filter((docSnap) => {
-          const docData = docSnap.data() ?? {};
-          return normalizeValue(docData.name ?? '') === normalizedName;
-        });
-      }
+  const method: LoginMethod = payload.email?.trim()
+    ? "email"
+    : payload.username?.trim()
+      ? "username"
+      : "profileId";
 
-      if (docs.length === 0) {
-        throw buildAuthError(
-          "auth/profile-not-found",
-          "Profilo non trovato con i dati inseriti."
-        );
-      }
+  let uid: string | null;
+  try {
+    uid = await signInWithProfilePassword(candidate.id, candidate.data, payload.password);
+  } catch (error) {
+    if ((error as { code?: string }).code === "auth/too-many-attempts") {
+      await recordLoginAudit(candidate.id, method, "locked");
     }
+    throw error;
+  }
+  if (!uid) {
+    await recordLoginAudit(candidate.id, method, "invalid-password");
+    throw buildAuthError("auth/invalid-password", "La password non è corretta.");
+  }
+  await recordLoginAudit(candidate.id, method, "success");
+
+  // The signed-in account, not the lookup above, decides which profile is returned.
+  const profile = await getProfileByUid(uid);
+  if (!profile) {
+    throw buildAuthError(
+      "auth/profile-not-found",
+      "Nessun profilo collegato a questo account."
+    );
+  }
 
-    const candidateHash = hashPassword(payload.password);
-    const matchingDoc = docs.find((docSnap) => {
-      const docData = docSnap.data() ?? {};
-      const storedHash =
-        typeof docData.passwordHash === "string" && docData.passwordHash.trim().length > 0
-          ? docData.passwordHash
-          : null;
-      const storedPassword =
-        typeof docData.password === "string" && docData.password.trim().length > 0
-          ? docData.password
-          : null;
-
-      if (storedHash) {
-        return (
-          timingSafeEquals(storedHash, candidateHash) ||
-          timingSafeEquals(storedHash, payload.password)
-        );
-      }
-
-      if (storedPassword) {
-        return timingSafeEquals(storedPassword, payload.password);
-      }
+  return { profile };
+}
 
-      return false;
-    });
+const MIN_PASSWORD_LENGTH = 6;
 
-    if (!matchingDoc) {
-      throw buildAuthError("auth/invalid-password", "La password non è corretta.");
-    }
+const maskEmail = (email: string): string => {
+  const [local, domain] = email.split("@");
+  if (!domain) return email;
+  const visible = local.slice(0, Math.min(2, local.length));
+  return `${visible}${"*".repeat(Math.max(1, local.length - visible.length))}@${domain}`;
+};
 
-    profileSnap = {
-      data: () => matchingDoc.data(),
-      id: matchingDoc.id,
-    };
+/**
+ * Cambia la password del profilo. La password attuale viene verificata con
+ * lo stesso controllo usato da authenticateProfile, che rinnova anche il
+ * login richiesto da Firebase per updatePassword.
+ */
+export async function changeProfilePassword({
+  profileId,
+  currentPassword,
+  newPassword,
+}: {
+  profileId: string;
+  currentPassword: string;
+  newPassword: string;
+}) {
+  if (newPassword.trim().length < MIN_PASSWORD_LENGTH) {
+    throw buildAuthError(
+      "auth/weak-password",
+      "La nuova password deve avere almeno 6 caratteri."
+    );
   }
+  await ensureSignedIn();
 
-  const resolvedProfileId = profileSnap.id;
-  const profileRef = doc(db, "profiles", resolvedProfileId);
+  const snap = await getDoc(doc(db, "profiles", profileId));
+  if (!snap.exists()) {
+    throw buildAuthError("auth/profile-not-found", "Profilo non trovato.");
+  }
+  const uid = await signInWithProfilePassword(profileId, snap.data() ?? {}, currentPassword);
+  if (!uid) {
+    throw buildAuthError("auth/invalid-password", "La password non è corretta.");
+  }
+  const user = auth.currentUser;
+  if (!user || user.uid !== uid) {
+    throw buildAuthError("auth/profile-not-found", "Nessun profilo collegato a questo account.");
+  }
+  await updatePassword(user, newPassword);
+}
 
-  const data = profileSnap.data() ?? {};
-  const storedHash =
-    typeof data.passwordHash === "string" && data.passwordHash.trim().length > 0
-      ? data.passwordHash
-      : null;
-  const storedPassword =
-    typeof data.password === "string" && data.password.trim().length > 0
-      ? data.password
-      : null;
+// expo.extra.passwordResetUrl in app.json must be on an authorized domain of the
+// Firebase project; without it the email links to Firebase's own reset page.
+const getPasswordResetSettings = () => {
+  const url = Constants.expoConfig?.extra?.passwordResetUrl;
+  return typeof url === "string" && url.length > 0
+    ? { url, handleCodeInApp: true }
+    : undefined;
+};
 
-  const candidateHash = hashPassword(payload.password);
+/**
+ * Invia il codice monouso per reimpostare la password all'email del profilo,
+ * cercato per email o username. Restituisce l'email mascherata.
+ */
+export async function requestPasswordReset(identifier: string): Promise<string> {
+  await ensureSignedIn();
+  const trimmed = identifier.trim();
+  const handle = trimmed.includes("@")
+    ? await getLoginHandle("email", normalizeValue(trimmed))
+    : await getLoginHandle("username", normalizeUsername(trimmed));
+  if (!handle) {
+    throw buildAuthError("auth/profile-not-found", "Profilo non trovato.");
+  }
 
-  if (storedHash) {
-    const matches =
-      timingSafeEquals(storedHash, candidateHash) ||
-      timingSafeEquals(storedHash, payload.password);
-    if (!matches) {
-      throw buildAuthError(
-        "auth/invalid-password",
-        "La password non è corretta."
-      );
-    }
-  } else if (storedPassword) {
-    if (!timingSafeEquals(storedPassword, payload.password)) {
-      throw buildAuthError(
-        "auth/invalid-password",
-        "La password non è corretta."
-      );
-    }
+  const authEmail = handle.authEmail;
+  if (authEmail.endsWith(`@${AUTH_EMAIL_DOMAIN}`)) {
+    throw buildAuthError(
+      "auth/no-recovery-email",
+      "Il profilo non ha un'email per il recupero. Contatta l'assistenza per reimpostare la password."
+    );
   }
 
-  const safeProfileId =
-    typeof data.profileId === "string" && data.profileId.trim().length > 0
-      ? data.profileId
-      : resolvedProfileId;
+  await sendPasswordResetEmail(auth, authEmail, getPasswordResetSettings());
+  return maskEmail(authEmail);
+}
 
-  if (!storedHash) {
-    await setDoc(
-      profileRef,
-      {
-        passwordHash: candidateHash,
-        profileId: safeProfileId,
-      },
-      { merge: true }
+/**
+ * Imposta la nuova password usando il codice monouso ricevuto via email.
+ */
+export async function confirmProfilePasswordReset(code: string, newPassword: string) {
+  if (newPassword.trim().length < MIN_PASSWORD_LENGTH) {
+    throw buildAuthError(
+      "auth/weak-password",
+      "La nuova password deve avere almeno 6 caratteri."
     );
   }
-
-  const role = data.role === "lavoratore" ? "lavoratore" : "datore";
-  const business = mapBusinessFromFirestore(data.business);
-  const cv = mapCvFromFirestore(data.cv);
-  
-  return {
-    profile: {
-      role,
-      nome: typeof data.name === "string" ? data.name : (payload.nome ?? ''),
-      cognome:
-        typeof data.surname === "string" ? data.surname : (payload.cognome ?? ''),
-      dataNascita:
-        typeof data.birthDate === "string"
-          ? data.birthDate
-          : (payload.dataNascita ?? ''),
-      profileId: safeProfileId,
-      passwordHash: storedHash ?? candidateHash,
-      ...(business ? { business } : {}),
-      ...(cv ? { cv } : {}),
-      ...(typeof data.username === 'string' && data.username.trim().length > 0
-        ? { username: data.username }
-        : {}),
-      ...(typeof data.email === 'string' && data.email.trim().length > 0
-        ? { email: data.email }
-        : {}),
-    },
-  };
+  try {
+    const email = await verifyPasswordResetCode(auth, code.trim());
+    await confirmPasswordReset(auth, code.trim(), newPassword);
+    return email;
+  } catch (error) {
+    const errorCode = (error as { code?: string }).code;
+    if (errorCode === "auth/expired-action-code" || errorCode === "auth/invalid-action-code") {
+      throw buildAuthError("auth/invalid-reset-code", "Codice non valido o scaduto.");
+    }
+    throw error;
+  }
 }
 
 /**
@@ -460,7 +762,7 @@ export async function saveIndexEntry(data: Record<string, any>) {
  * Crea/aggiorna il profilo utente in users/{uid}.
  */
 export async function upsertUserProfile(data: Record<string, any>) {
-  const uid = await ensureSignedIn();
+  let uid = await ensureSignedIn();
   const nome = typeof data.name === "string" ? data.name : data.nome;
   const cognome =
     typeof data.surname === "string" ? data.surname : data.cognome;
@@ -495,13 +797,15 @@ export async function upsertUserProfile(data: Record<string, any>) {
     typeof data.password === "string" && data.password.trim().length >= 6
       ? data.password.trim()
       : undefined;
-  const existingHash =
-    typeof data.passwordHash === "string" && data.passwordHash.trim().length > 0
-      ? data.passwordHash.trim()
-      : undefined;
-  const passwordHash = rawPassword ? hashPassword(rawPassword) : existingHash;
-
-  const { password: _ignoredPassword, business: rawBusiness, profileId: explicitProfileId, ...rest } = data;
+  const {
+    password: _ignoredPassword,
+    passwordHash: _ignoredPasswordHash,
+    uid: _ignoredUid,
+    authEmail: _ignoredAuthEmail,
+    business: rawBusiness,
+    profileId: explicitProfileId,
+    ...rest
+  } = data;
 
   const normalizedBusiness =
     role === 'datore' ? normalizeBusinessInput(rawBusiness) : null;
@@ -510,14 +814,11 @@ export async function upsertUserProfile(data: Record<string, any>) {
     throw new Error('Dati attività mancanti o non validi');
   }
 
-  // Enforce unique username
-  const profilesRef = collection(db, 'profiles');
-  const sameUsername = await getDocs(query(profilesRef, where('usernameLower', '==', usernameLower)));
-  if (!sameUsername.empty) {
+  // Enforce unique username (the rules also refuse to reassign a taken handle)
+  const sameUsername = await getLoginHandle('username', usernameLower);
+  if (sameUsername) {
     // If updating an existing profile, allow same doc; otherwise block
-    const first = sameUsername.docs[0];
-    const existingId = first.id;
-    if (typeof explicitProfileId !== 'string' || existingId !== explicitProfileId) {
+    if (typeof explicitProfileId !== 'string' || sameUsername.profileId !== explicitProfileId) {
       const err = new Error('Username già in uso') as Error & { code?: string };
       err.code = 'profile/username-taken';
       throw err;
@@ -546,6 +847,24 @@ export async function upsertUserProfile(data: Record<string, any>) {
   );
   const profileRef = doc(db, "profiles", finalProfileId);
 
+  const existingSnap = await getDoc(profileRef);
+  const existing = existingSnap.exists() ? (existingSnap.data() as Record<string, any>) : null;
+  let authEmail =
+    typeof existing?.authEmail === 'string' && existing.authEmail.length > 0
+      ? existing.authEmail
+      : undefined;
+  // Legacy profiles are linked by scripts/migrate-legacy-profiles.js, never by another session.
+  if (existing && existing.uid !== uid) {
+    const err = new Error('Profilo collegato a un altro account') as Error & { code?: string };
+    err.code = 'profile/not-owner';
+    throw err;
+  }
+
+  if (rawPassword) {
+    authEmail = authEmail ?? buildAuthEmail(email, usernameLower);
+    uid = await attachPasswordCredential(authEmail, rawPassword);
+  }
+
   const payload: Record<string, unknown> = {
     ...rest,
     uid,
@@ -557,7 +876,11 @@ export async function upsertUserProfile(data: Record<string, any>) {
     searchName: normalizedNome,
     searchSurname: normalizedCognome,
     ...(email ? { email, emailLower: normalizedEmail } : {}),
-    ...(passwordHash ? { passwordHash } : {}),
+    // Once the profile is backed by a Firebase Auth account no hash is kept.
+    ...(authEmail
+      ? { authEmail, passwordHash: deleteField(), password: deleteField() }
+      : {}),
+    ...(rawPassword ? { legacyPassword: deleteField() } : {}),
     username,
     usernameLower,
     ...(phoneNumberRaw ? { phoneNumber: phoneNumberRaw } : {}),
@@ -575,6 +898,18 @@ export async function upsertUserProfile(data: Record<string, any>) {
   }
 
   await setDoc(profileRef, payload, { merge: true });
+  if (authEmail) {
+    await syncLoginHandles(
+      finalProfileId,
+      authEmail,
+      {
+        emailLower: normalizedEmail,
+        usernameLower,
+        legacyPassword: rawPassword ? undefined : existing?.legacyPassword,
+      },
+      existing
+    );
+  }
 
   return profileRef;
 }
@@ -607,75 +942,985 @@ export async function upsertUserBusiness(business: Record<string, any>) {
     },
     { merge: true }
   );
+
+  // Keep the shared business entity in sync when this profile owns it.
+  const profileSnap = await getDoc(profileRef);
+  const businessId = profileSnap.data()?.businessId;
+  if (typeof businessId === "string" && businessId) {
+    const role = await getBusinessRole(businessId, uid);
+    if (role === "owner") {
+      await updateDoc(doc(db, "businesses", businessId), {
+        ...normalizedBusiness,
+        updatedAt: serverTimestamp(),
+      });
+    }
+  }
   return profileRef;
 }
 
 /**
- * Crea un annuncio in jobs (usato dal datore)
+ * Salva sul profilo la disponibilità del lavoratore: fasce settimanali ed
+ * eccezioni per singole date.
  */
-export async function createJobPosting(job: Record<string, any>) {
-  const uid = await ensureSignedIn();
-  const col = collection(db, "jobs");
-  const docRef = await addDoc(col, {
-    ownerUid: uid,
-    status: "open",
-    hireStatus: "open",
-    ...job,
-    createdAt: serverTimestamp(),
+export async function saveWorkerAvailability(profileId: string, availability: WorkerAvailability) {
+  await ensureSignedIn();
+  const invalid =
+    availability.weekly.some((slot) => !isValidSlot(slot)) ||
+    availability.exceptions.some((entry) => entry.slots.some((slot) => !isValidSlot(slot)));
+  if (invalid) {
+    throw new Error("Controlla le fasce orarie: la fine deve essere dopo l'inizio");
+  }
+  await updateDoc(doc(db, "profiles", profileId), {
+    availability: {
+      weekly: availability.weekly.map(({ day, from, to }) => ({ day, from, to })),
+      exceptions: availability.exceptions.map(({ date, slots }) => ({
+        date,
+        slots: slots.map(({ from, to }) => ({ from, to })),
+      })),
+    },
     updatedAt: serverTimestamp(),
   });
-  return docRef;
 }
 
-export async function createJobDocument({
-  ownerProfileId,
-  payload,
-}: {
-  ownerProfileId: string;
-  payload: Record<string, any>;
-}) {
-  const uid = await ensureSignedIn();
-  const col = collection(db, "jobs");
-  return addDoc(col, {
-    ownerUid: uid,
-    ownerProfileId,
-    status: "open",
-    hireStatus: "open",
-    ...payload,
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
-  });
-}
+// -----------------------
+// Businesses (team accounts)
+// -----------------------
 
-export async function createJobApplication({
-  jobId,
-  ownerProfileId,
-  ownerUid,
-  applicantProfileId,
-  jobSnapshot,
-}: {
-  jobId: string;
-  ownerProfileId: string | null;
-  ownerUid: string | null;
-  applicantProfileId: string;
-  jobSnapshot: Record<string, any>;
-}) {
-  const applicantUid = await ensureSignedIn();
-  const col = collection(db, "applications");
+export type BusinessRole = "owner" | "manager" | "viewer";
 
-  const appRef = await addDoc(col, {
-    jobId,
-    ownerProfileId: ownerProfileId ?? null,
-    ownerUid: ownerUid ?? null,
-    applicantUid,
-    applicantProfileId,
-    status: 'applied',
-    jobSnapshot,
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
-  });
+export type BusinessMember = {
+  profileId: string;
+  uid: string;
+  role: BusinessRole;
+  displayName: string;
+  username?: string;
+};
 
-  // Also append applicant to the job's applicants list for quick lookup in employer panel
+export type BusinessInvite = {
+  id: string;
+  businessId: string;
+  businessName: string;
+  invitedProfileId: string;
+  invitedUsername: string;
+  role: BusinessRole;
+  status: "pending" | "accepted" | "declined" | "revoked";
+  createdAt: Date | null;
+};
+
+// Roles allowed to create, staff and delete the business' jobs.
+const MANAGING_ROLES: BusinessRole[] = ["owner", "manager"];
+
+const isBusinessRole = (value: unknown): value is BusinessRole =>
+  value === "owner" || value === "manager" || value === "viewer";
+
+// One invite per business and person, so the rules can look it up by id.
+const buildInviteId = (businessId: string, uid: string) => `${businessId}__${uid}`;
+
+const describeBusiness = (business: BusinessPayload | null | undefined, fallback: string) => {
+  if (!business) return fallback;
+  const label = business.type === "altro" ? business.otherDetail || "Attività" : business.type;
+  const city = business.address?.city ? ` · ${business.address.city}` : "";
+  return `${label.charAt(0).toUpperCase()}${label.slice(1)}${city}`;
+};
+
+/** Ruolo dell'utente nell'attività, o null se non ne fa parte. */
+export async function getBusinessRole(
+  businessId: string,
+  uid: string,
+  tx?: Transaction
+): Promise<BusinessRole | null> {
+  const ref = doc(db, "businesses", businessId);
+  try {
+    const snap = tx ? await tx.get(ref) : await getDoc(ref);
+    const role = snap.data()?.roles?.[uid];
+    return isBusinessRole(role) ? role : null;
+  } catch (error) {
+    // Non-members cannot read the business at all.
+    if ((error as { code?: string }).code === "permission-denied") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+const canManageBusinessJobs = async (
+  businessId: unknown,
+  uid: string,
+  tx?: Transaction
+): Promise<boolean> => {
+  if (typeof businessId !== "string" || !businessId) return false;
+  const role = await getBusinessRole(businessId, uid, tx);
+  return role !== null && MANAGING_ROLES.includes(role);
+};
+
+const requireBusinessOwner = async (businessId: string) => {
+  const uid = await ensureSignedIn();
+  if ((await getBusinessRole(businessId, uid)) !== "owner") {
+    throw new Error("Solo il titolare può gestire il team");
+  }
+  return uid;
+};
+
+/**
+ * Restituisce l'attività del profilo datore, creandola dai dati
+ * profiles.business se non esiste ancora. Incarichi e assunzioni già
+ * creati dal profilo vengono collegati alla nuova attività.
+ */
+export async function ensureProfileBusiness(profileId: string): Promise<string> {
+  const uid = await ensureSignedIn();
+  const profileRef = doc(db, "profiles", profileId);
+  const profileSnap = await getDoc(profileRef);
+  if (!profileSnap.exists()) {
+    throw buildAuthError("auth/profile-not-found", "Profilo non trovato");
+  }
+  const data = profileSnap.data() as Record<string, any>;
+  if (data.uid !== uid) {
+    throw buildAuthError("profile/not-owner", "Il profilo appartiene a un altro account");
+  }
+  if (typeof data.businessId === "string" && data.businessId) {
+    if (await getBusinessRole(data.businessId, uid)) {
+      return data.businessId;
+    }
+  }
+
+  // Removed from the active business: fall back to another membership, preferring our own.
+  const memberships = await getDocs(
+    query(collection(db, "businesses"), where("memberUids", "array-contains", uid))
+  );
+  const fallback =
+    memberships.docs.find((businessDoc) => businessDoc.data().ownerProfileId === profileId) ??
+    memberships.docs[0];
+  if (fallback) {
+    await setDoc(profileRef, { uid, businessId: fallback.id, updatedAt: serverTimestamp() }, { merge: true });
+    return fallback.id;
+  }
+
+  const business = mapBusinessFromFirestore(data.business);
+  const businessRef = doc(collection(db, "businesses"));
+  const batch = writeBatch(db);
+  batch.set(businessRef, {
+    ...(business ?? {}),
+    name: describeBusiness(business, `${data.name ?? ""} ${data.surname ?? ""}`.trim()),
+    ownerProfileId: profileId,
+    ownerUid: uid,
+    roles: { [uid]: "owner" },
+    memberUids: [uid],
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  batch.set(doc(businessRef, "members", profileId), {
+    uid,
+    role: "owner",
+    displayName: `${data.name ?? ""} ${data.surname ?? ""}`.trim(),
+    ...(typeof data.username === "string" ? { username: data.username } : {}),
+    addedAt: serverTimestamp(),
+  });
+  batch.set(profileRef, { uid, businessId: businessRef.id, updatedAt: serverTimestamp() }, { merge: true });
+  await batch.commit();
+
+  const jobsSnap = await getDocs(
+    query(collection(db, "jobs"), where("ownerProfileId", "==", profileId))
+  );
+  await updateRefsInBatches(
+    jobsSnap.docs
+      .filter((jobDoc) => getJobOwnerUid(jobDoc.data()) === uid && !jobDoc.data().businessId)
+      .map((jobDoc) => jobDoc.ref),
+    { businessId: businessRef.id, updatedAt: serverTimestamp() }
+  );
+  const hiresSnap = await getDocs(
+    query(collection(db, "hires"), where("employerUid", "==", uid))
+  );
+  await updateRefsInBatches(
+    hiresSnap.docs
+      .filter((hireDoc) => hireDoc.data().employerProfileId === profileId && !hireDoc.data().businessId)
+      .map((hireDoc) => hireDoc.ref),
+    { businessId: businessRef.id, updatedAt: serverTimestamp() }
+  );
+
+  return businessRef.id;
+}
+
+export async function listBusinessMembers(businessId: string): Promise<BusinessMember[]> {
+  await ensureSignedIn();
+  const snap = await getDocs(collection(db, "businesses", businessId, "members"));
+  return snap.docs
+    .map((memberDoc) => {
+      const data = memberDoc.data();
+      return {
+        profileId: memberDoc.id,
+        uid: typeof data.uid === "string" ? data.uid : "",
+        role: isBusinessRole(data.role) ? data.role : "viewer",
+        displayName: typeof data.displayName === "string" && data.displayName ? data.displayName : memberDoc.id,
+        ...(typeof data.username === "string" ? { username: data.username } : {}),
+      } satisfies BusinessMember;
+    })
+    .sort((a, b) => (a.role === "owner" ? -1 : b.role === "owner" ? 1 : a.displayName.localeCompare(b.displayName)));
+}
+
+const mapInvite = (inviteDoc: { id: string; data: () => Record<string, any> }): BusinessInvite => {
+  const data = inviteDoc.data();
+  return {
+    id: inviteDoc.id,
+    businessId: data.businessId ?? "",
+    businessName: data.businessName ?? "Attività",
+    invitedProfileId: data.invitedProfileId ?? "",
+    invitedUsername: data.invitedUsername ?? "",
+    role: isBusinessRole(data.role) ? data.role : "viewer",
+    status: data.status ?? "pending",
+    createdAt: mapTimestamp(data.createdAt),
+  };
+};
+
+/** Invita un datore nel team tramite username. Solo il titolare può invitare. */
+export async function inviteBusinessMember({
+  businessId,
+  username,
+  role,
+  invitedByProfileId,
+}: {
+  businessId: string;
+  username: string;
+  role: Exclude<BusinessRole, "owner">;
+  invitedByProfileId: string;
+}) {
+  await requireBusinessOwner(businessId);
+  const invited = await getProfileByUsername(username);
+  if (!invited || !invited.uid) {
+    throw buildAuthError("auth/profile-not-found", "Nessun profilo con questo username");
+  }
+  if (invited.role !== "datore") {
+    throw new Error("Solo i profili datore possono entrare in un team");
+  }
+  if (await getBusinessRole(businessId, invited.uid)) {
+    throw new Error("Questo profilo fa già parte del team");
+  }
+
+  const businessSnap = await getDoc(doc(db, "businesses", businessId));
+  await setDoc(doc(db, "businessInvites", buildInviteId(businessId, invited.uid)), {
+    businessId,
+    businessName: businessSnap.data()?.name ?? "Attività",
+    invitedProfileId: invited.profileId,
+    invitedUid: invited.uid,
+    invitedUsername: invited.username ?? username.trim(),
+    invitedByProfileId,
+    role,
+    status: "pending",
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function listBusinessInvites(businessId: string): Promise<BusinessInvite[]> {
+  await ensureSignedIn();
+  const snap = await getDocs(
+    query(
+      collection(db, "businessInvites"),
+      where("businessId", "==", businessId),
+      where("status", "==", "pending")
+    )
+  );
+  return snap.docs.map(mapInvite);
+}
+
+/** Inviti in attesa ricevuti dall'utente corrente. */
+export async function listMyBusinessInvites(): Promise<BusinessInvite[]> {
+  const uid = await ensureSignedIn();
+  const snap = await getDocs(
+    query(
+      collection(db, "businessInvites"),
+      where("invitedUid", "==", uid),
+      where("status", "==", "pending")
+    )
+  );
+  return snap.docs.map(mapInvite);
+}
+
+/**
+ * Accetta o rifiuta un invito. Accettando, l'attività diventa quella
+ * attiva del profilo (profiles.businessId).
+ */
+export async function respondToBusinessInvite(inviteId: string, accept: boolean) {
+  const uid = await ensureSignedIn();
+  const inviteRef = doc(db, "businessInvites", inviteId);
+
+  await runTransaction(db, async (tx) => {
+    const inviteSnap = await tx.get(inviteRef);
+    if (!inviteSnap.exists()) {
+      throw new Error("Invito non trovato");
+    }
+    const invite = inviteSnap.data() as Record<string, any>;
+    if (invite.invitedUid !== uid || invite.status !== "pending") {
+      throw new Error("Invito non più valido");
+    }
+
+    tx.update(inviteRef, {
+      status: accept ? "accepted" : "declined",
+      updatedAt: serverTimestamp(),
+    });
+    if (!accept) return;
+
+    const profileRef = doc(db, "profiles", invite.invitedProfileId);
+    const profileSnap = await tx.get(profileRef);
+    const profileData = profileSnap.data() ?? {};
+    const businessRef = doc(db, "businesses", invite.businessId);
+    tx.update(businessRef, {
+      [`roles.${uid}`]: invite.role,
+      memberUids: arrayUnion(uid),
+      updatedAt: serverTimestamp(),
+    });
+    tx.set(doc(businessRef, "members", invite.invitedProfileId), {
+      uid,
+      role: invite.role,
+      displayName: `${profileData.name ?? ""} ${profileData.surname ?? ""}`.trim(),
+      ...(typeof profileData.username === "string" ? { username: profileData.username } : {}),
+      addedAt: serverTimestamp(),
+    });
+    tx.set(
+      profileRef,
+      { uid, businessId: invite.businessId, updatedAt: serverTimestamp() },
+      { merge: true }
+    );
+  });
+}
+
+export async function revokeBusinessInvite(inviteId: string) {
+  const inviteRef = doc(db, "businessInvites", inviteId);
+  const snap = await getDoc(inviteRef);
+  if (!snap.exists()) return;
+  await requireBusinessOwner(snap.data().businessId);
+  await updateDoc(inviteRef, { status: "revoked", updatedAt: serverTimestamp() });
+}
+
+export async function updateBusinessMemberRole(
+  businessId: string,
+  member: BusinessMember,
+  role: Exclude<BusinessRole, "owner">
+) {
+  await requireBusinessOwner(businessId);
+  if (member.role === "owner") {
+    throw new Error("Il ruolo del titolare non può essere modificato");
+  }
+  const batch = writeBatch(db);
+  batch.update(doc(db, "businesses", businessId), {
+    [`roles.${member.uid}`]: role,
+    updatedAt: serverTimestamp(),
+  });
+  batch.update(doc(db, "businesses", businessId, "members", member.profileId), { role });
+  await batch.commit();
+}
+
+/**
+ * Rimuove un membro dal team. Il titolare può rimuovere chiunque tranne
+ * sé stesso; gli altri membri possono solo uscire dal team.
+ */
+export async function removeBusinessMember(businessId: string, member: BusinessMember) {
+  const uid = await ensureSignedIn();
+  if (member.role === "owner") {
+    throw new Error("Il titolare non può essere rimosso dal team");
+  }
+  if (member.uid !== uid) {
+    await requireBusinessOwner(businessId);
+  }
+  const batch = writeBatch(db);
+  batch.update(doc(db, "businesses", businessId), {
+    [`roles.${member.uid}`]: deleteField(),
+    memberUids: arrayRemove(member.uid),
+    updatedAt: serverTimestamp(),
+  });
+  batch.delete(doc(db, "businesses", businessId, "members", member.profileId));
+  await batch.commit();
+}
+
+// -----------------------
+// Business locations (sedi)
+// -----------------------
+
+export type JobCategory = "bar" | "pizzeria" | "ristorante" | "negozio" | "magazzino" | "altro";
+
+export type BusinessLocationDefaults = {
+  compensoOrario?: number;
+  categoria?: JobCategory;
+};
+
+export type BusinessLocation = {
+  id: string;
+  name: string;
+  address: BusinessPayload["address"];
+  location: { lat: number; lng: number };
+  defaults: BusinessLocationDefaults;
+};
+
+export type BusinessLocationInput = Omit<BusinessLocation, "id" | "location">;
+
+const JOB_CATEGORIES: JobCategory[] = ["bar", "pizzeria", "ristorante", "negozio", "magazzino", "altro"];
+
+export const isJobCategory = (value: unknown): value is JobCategory =>
+  typeof value === "string" && (JOB_CATEGORIES as string[]).includes(value);
+
+const formatLocationAddress = (address: BusinessPayload["address"]) =>
+  [address.street, address.number, address.city, address.province, address.postalCode]
+    .map((piece) => piece.trim())
+    .filter((piece) => piece.length > 0)
+    .join(", ");
+
+const sameAddress = (a: BusinessPayload["address"], b: BusinessPayload["address"]) =>
+  formatLocationAddress(a).toLowerCase() === formatLocationAddress(b).toLowerCase();
+
+const mapLocationDefaults = (value: unknown): BusinessLocationDefaults => {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const compenso = Number(raw.compensoOrario);
+  return {
+    ...(Number.isFinite(compenso) && compenso > 0 ? { compensoOrario: compenso } : {}),
+    ...(isJobCategory(raw.categoria) ? { categoria: raw.categoria } : {}),
+  };
+};
+
+const mapLocation = (locationDoc: { id: string; data: () => Record<string, any> }): BusinessLocation | null => {
+  const data = locationDoc.data();
+  const lat = Number(data.location?.lat);
+  const lng = Number(data.location?.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  const address = (data.address ?? {}) as Record<string, unknown>;
+  const field = (key: string) => (typeof address[key] === "string" ? (address[key] as string) : "");
+  return {
+    id: locationDoc.id,
+    name: typeof data.name === "string" ? data.name : "Sede",
+    address: {
+      street: field("street"),
+      number: field("number"),
+      city: field("city"),
+      province: field("province"),
+      postalCode: field("postalCode"),
+    },
+    location: { lat, lng },
+    defaults: mapLocationDefaults(data.defaults),
+  };
+};
+
+const requireBusinessManager = async (businessId: string) => {
+  const uid = await ensureSignedIn();
+  if (!(await canManageBusinessJobs(businessId, uid))) {
+    throw new Error("Solo titolare e manager possono gestire le sedi");
+  }
+  return uid;
+};
+
+/** Sedi dell'attività, in ordine alfabetico. */
+export async function listBusinessLocations(businessId: string): Promise<BusinessLocation[]> {
+  await ensureSignedIn();
+  const snap = await getDocs(collection(db, "businesses", businessId, "locations"));
+  return snap.docs
+    .map(mapLocation)
+    .filter((item): item is BusinessLocation => item !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Crea o aggiorna una sede. L'indirizzo viene geocodificato solo quando
+ * cambia, così gli incarichi riusano sempre le stesse coordinate.
+ */
+export async function saveBusinessLocation(
+  businessId: string,
+  input: BusinessLocationInput,
+  locationId?: string
+): Promise<BusinessLocation> {
+  const uid = await requireBusinessManager(businessId);
+  const name = input.name.trim();
+  const address = {
+    street: input.address.street.trim(),
+    number: input.address.number.trim(),
+    city: input.address.city.trim(),
+    province: input.address.province.trim(),
+    postalCode: input.address.postalCode.trim(),
+  };
+  if (!name) {
+    throw new Error("Inserisci un nome per la sede");
+  }
+  if (!address.street || !address.city) {
+    throw new Error("Via e città sono obbligatorie");
+  }
+  const defaults = mapLocationDefaults(input.defaults);
+
+  const locationsCol = collection(db, "businesses", businessId, "locations");
+  const locationRef = locationId ? doc(locationsCol, locationId) : doc(locationsCol);
+  const existingSnap = locationId ? await getDoc(locationRef) : null;
+  const existing = existingSnap?.exists() ? mapLocation(existingSnap) : null;
+
+  let coordinates = existing && sameAddress(existing.address, address) ? existing.location : null;
+  if (!coordinates) {
+    coordinates = await geocodeAddress(formatLocationAddress(address));
+  }
+  if (!coordinates) {
+    throw buildAuthError("location/not-found", "Indirizzo non trovato, controlla via e città");
+  }
+
+  // Full overwrite, so a cleared default does not survive as a merged field.
+  await setDoc(locationRef, {
+    name,
+    address,
+    location: coordinates,
+    defaults,
+    updatedByUid: uid,
+    createdAt: existingSnap?.data()?.createdAt ?? serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+
+  return { id: locationRef.id, name, address, location: coordinates, defaults };
+}
+
+export async function deleteBusinessLocation(businessId: string, locationId: string) {
+  await requireBusinessManager(businessId);
+  await deleteDoc(doc(db, "businesses", businessId, "locations", locationId));
+}
+
+// -----------------------
+// Job templates (modelli)
+// -----------------------
+
+export type JobTemplateFields = {
+  shifts: { oraInizio: string; oraFine: string }[];
+  indirizzo: { via: string; civico: string; citta: string; provincia: string; cap: string };
+  location?: { lat: number; lng: number };
+  locationId?: string;
+  tipo: { categoria: JobCategory; altroDettaglio?: string };
+  descrizione: string;
+  compensoOrario: number;
+  positions: number;
+  screeningQuestions?: ScreeningQuestion[];
+};
+
+export type JobTemplate = {
+  id: string;
+  name: string;
+  fields: JobTemplateFields;
+  updatedAt: Date | null;
+};
+
+const mapTemplateFields = (value: unknown): JobTemplateFields | null => {
+  const raw = (value ?? {}) as Record<string, any>;
+  const tipo = (raw.tipo ?? {}) as Record<string, unknown>;
+  if (!isJobCategory(tipo.categoria)) return null;
+  const text = (input: unknown) => (typeof input === "string" ? input : "");
+  const shifts = Array.isArray(raw.shifts)
+    ? raw.shifts
+        .map((shift: Record<string, unknown>) => ({
+          oraInizio: text(shift?.oraInizio),
+          oraFine: text(shift?.oraFine),
+        }))
+        .filter((shift: { oraInizio: string; oraFine: string }) => shift.oraInizio && shift.oraFine)
+    : [];
+  const indirizzo = (raw.indirizzo ?? {}) as Record<string, unknown>;
+  const lat = Number(raw.location?.lat);
+  const lng = Number(raw.location?.lng);
+  const compenso = Number(raw.compensoOrario);
+  const positions = Number(raw.positions);
+  return {
+    shifts,
+    indirizzo: {
+      via: text(indirizzo.via),
+      civico: text(indirizzo.civico),
+      citta: text(indirizzo.citta),
+      provincia: text(indirizzo.provincia),
+      cap: text(indirizzo.cap),
+    },
+    ...(Number.isFinite(lat) && Number.isFinite(lng) ? { location: { lat, lng } } : {}),
+    ...(typeof raw.locationId === "string" ? { locationId: raw.locationId } : {}),
+    tipo: {
+      categoria: tipo.categoria,
+      ...(typeof tipo.altroDettaglio === "string" ? { altroDettaglio: tipo.altroDettaglio } : {}),
+    },
+    descrizione: text(raw.descrizione),
+    compensoOrario: Number.isFinite(compenso) && compenso > 0 ? compenso : 0,
+    positions:
+      Number.isInteger(positions) && positions >= 1 ? Math.min(positions, MAX_JOB_POSITIONS) : 1,
+    ...(Array.isArray(raw.screeningQuestions)
+      ? { screeningQuestions: normalizeScreeningQuestions(raw.screeningQuestions) }
+      : {}),
+  };
+};
+
+const mapTemplate = (templateDoc: { id: string; data: () => Record<string, any> }): JobTemplate | null => {
+  const data = templateDoc.data();
+  const fields = mapTemplateFields(data.fields);
+  if (!fields) return null;
+  return {
+    id: templateDoc.id,
+    name: typeof data.name === "string" ? data.name : "Modello",
+    fields,
+    updatedAt: mapTimestamp(data.updatedAt),
+  };
+};
+
+/** Modelli di incarico dell'attività, in ordine alfabetico. */
+export async function listJobTemplates(businessId: string): Promise<JobTemplate[]> {
+  await ensureSignedIn();
+  const snap = await getDocs(collection(db, "businesses", businessId, "jobTemplates"));
+  return snap.docs
+    .map(mapTemplate)
+    .filter((item): item is JobTemplate => item !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Crea o sovrascrive un modello. Data e stato non vengono salvati: ogni
+ * incarico creato dal modello sceglie i propri.
+ */
+export async function saveJobTemplate(
+  businessId: string,
+  name: string,
+  fields: JobTemplateFields,
+  templateId?: string
+): Promise<JobTemplate> {
+  const uid = await ensureSignedIn();
+  if (!(await canManageBusinessJobs(businessId, uid))) {
+    throw new Error("Solo titolare e manager possono gestire i modelli");
+  }
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("Inserisci un nome per il modello");
+  }
+  const normalized = mapTemplateFields(fields);
+  if (!normalized) {
+    throw new Error("Seleziona il tipo di incarico");
+  }
+
+  const templatesCol = collection(db, "businesses", businessId, "jobTemplates");
+  const templateRef = templateId ? doc(templatesCol, templateId) : doc(templatesCol);
+  const existingSnap = templateId ? await getDoc(templateRef) : null;
+
+  await setDoc(templateRef, {
+    name: trimmedName,
+    fields: normalized,
+    updatedByUid: uid,
+    createdAt: existingSnap?.data()?.createdAt ?? serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+
+  return { id: templateRef.id, name: trimmedName, fields: normalized, updatedAt: new Date() };
+}
+
+export async function deleteJobTemplate(businessId: string, templateId: string) {
+  const uid = await ensureSignedIn();
+  if (!(await canManageBusinessJobs(businessId, uid))) {
+    throw new Error("Solo titolare e manager possono gestire i modelli");
+  }
+  await deleteDoc(doc(db, "businesses", businessId, "jobTemplates", templateId));
+}
+
+/**
+ * Crea un annuncio in jobs (usato dal datore)
+ */
+export async function createJobPosting(job: Record<string, any>) {
+  const uid = await ensureSignedIn();
+  const col = collection(db, "jobs");
+  const startAt = buildJobStartAt(job.data, job.oraInizio);
+  const docRef = await addDoc(col, {
+    ownerUid: uid,
+    status: "published",
+    hireStatus: "open",
+    ...(startAt ? { startAt } : {}),
+    ...job,
+    ...buildGeohashField(job.location),
+    ...buildPlaceSearchFields(job.indirizzo),
+    ...buildPublishedAtField(job),
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return docRef;
+}
+
+export async function createJobDocument({
+  ownerProfileId,
+  businessId,
+  payload,
+}: {
+  ownerProfileId: string;
+  businessId?: string;
+  payload: Record<string, any>;
+}) {
+  const uid = await ensureSignedIn();
+  if (businessId && !(await canManageBusinessJobs(businessId, uid))) {
+    throw new Error('Non autorizzato a pubblicare incarichi per questa attività');
+  }
+  const col = collection(db, "jobs");
+  // startAt drives searchJobs, so every job gets one.
+  const startAt = buildJobStartAt(payload.data, payload.oraInizio);
+  return addDoc(col, {
+    ownerUid: uid,
+    ownerProfileId,
+    ...(businessId ? { businessId } : {}),
+    status: "published",
+    hireStatus: "open",
+    ...(startAt ? { startAt } : {}),
+    ...payload,
+    ...buildGeohashField(payload.location),
+    ...buildPlaceSearchFields(payload.indirizzo),
+    ...buildPublishedAtField(payload),
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+// -----------------------
+// Applications
+// -----------------------
+
+// applied -> hiredProposed -> hiredConfirmed; a refused proposal ends as rejected.
+// While applied, the worker can withdraw and the employer can reject.
+export type ApplicationStatus =
+  | 'applied'
+  | 'hiredProposed'
+  | 'hiredConfirmed'
+  | 'rejected'
+  | 'withdrawn';
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  applied: 'Candidatura inviata',
+  hiredProposed: 'Proposta ricevuta',
+  hiredConfirmed: 'Assunzione confermata',
+  rejected: 'Non selezionata',
+  withdrawn: 'Ritirata',
+};
+
+export const ALREADY_APPLIED_CODE = 'application/already-exists';
+
+// -----------------------
+// Screening questions
+// -----------------------
+
+// certification: the worker declares whether they hold it (e.g. HACCP).
+export type ScreeningQuestionType = 'yesNo' | 'text' | 'certification';
+
+export type ScreeningQuestion = {
+  id: string;
+  type: ScreeningQuestionType;
+  /** domanda, o nome della certificazione per type 'certification' */
+  text: string;
+  /** per le certificazioni: senza non ci si può candidare */
+  required: boolean;
+};
+
+/** Risposta salvata sulla candidatura insieme al testo della domanda. */
+export type ScreeningAnswer = {
+  questionId: string;
+  type: ScreeningQuestionType;
+  question: string;
+  answer: boolean | string;
+};
+
+export const MAX_SCREENING_QUESTIONS = 5;
+export const MAX_SCREENING_TEXT_LENGTH = 300;
+export const MAX_COVER_LETTER_LENGTH = 500;
+export const CERTIFICATION_SUGGESTIONS = ['HACCP', 'Antincendio', 'Primo soccorso', 'Carrellista'];
+
+const SCREENING_QUESTION_TYPES: ScreeningQuestionType[] = ['yesNo', 'text', 'certification'];
+
+/** Testo mostrato al lavoratore. */
+export const describeScreeningQuestion = (question: Pick<ScreeningQuestion, 'type' | 'text'>) =>
+  question.type === 'certification' ? `Hai la certificazione ${question.text}?` : question.text;
+
+export const normalizeScreeningQuestions = (value: unknown): ScreeningQuestion[] =>
+  (Array.isArray(value) ? value : [])
+    .map((entry): ScreeningQuestion | null => {
+      const raw = (entry ?? {}) as Record<string, unknown>;
+      const type = raw.type as ScreeningQuestionType;
+      const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+      if (typeof raw.id !== 'string' || !SCREENING_QUESTION_TYPES.includes(type) || !text) {
+        return null;
+      }
+      return { id: raw.id, type, text, required: raw.required === true };
+    })
+    .filter((entry): entry is ScreeningQuestion => !!entry)
+    .slice(0, MAX_SCREENING_QUESTIONS);
+
+/**
+ * Controlla le risposte alle domande dell'incarico e restituisce quelle da
+ * salvare; lancia un errore se manca una risposta obbligatoria.
+ */
+export const buildScreeningAnswers = (
+  questions: ScreeningQuestion[],
+  answers: Record<string, boolean | string | undefined>
+): ScreeningAnswer[] =>
+  questions.flatMap((question) => {
+    const raw = answers[question.id];
+    const answer =
+      question.type === 'text'
+        ? (typeof raw === 'string' ? raw.trim().slice(0, MAX_SCREENING_TEXT_LENGTH) : '')
+        : typeof raw === 'boolean'
+          ? raw
+          : undefined;
+    if (answer === undefined || answer === '') {
+      if (question.required) {
+        throw new Error(`Rispondi alla domanda: ${describeScreeningQuestion(question)}`);
+      }
+      return [];
+    }
+    if (question.type === 'certification' && question.required && answer === false) {
+      throw new Error(`Per candidarti serve la certificazione ${question.text}.`);
+    }
+    return [{ questionId: question.id, type: question.type, question: describeScreeningQuestion(question), answer }];
+  });
+
+export const normalizeScreeningAnswers = (value: unknown): ScreeningAnswer[] =>
+  (Array.isArray(value) ? value : [])
+    .map((entry): ScreeningAnswer | null => {
+      const raw = (entry ?? {}) as Record<string, unknown>;
+      const type = raw.type as ScreeningQuestionType;
+      if (
+        typeof raw.questionId !== 'string' ||
+        typeof raw.question !== 'string' ||
+        !SCREENING_QUESTION_TYPES.includes(type) ||
+        (typeof raw.answer !== 'boolean' && typeof raw.answer !== 'string')
+      ) {
+        return null;
+      }
+      return { questionId: raw.questionId, type, question: raw.question, answer: raw.answer };
+    })
+    .filter((entry): entry is ScreeningAnswer => !!entry);
+
+export type MyApplication = {
+  id: string;
+  jobId: string;
+  status: ApplicationStatus;
+  hireId?: string;
+  /** copia dell'incarico salvata al momento della candidatura */
+  jobSnapshot: Record<string, any>;
+  /** ultima modifica dell'incarico fatta dal datore (updateJobPosting) */
+  jobChange?: { fields: JobChangeField[] };
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+/** Id deterministico: una sola candidatura per incarico e profilo. */
+export const buildApplicationId = (jobId: string, applicantProfileId: string) =>
+  `${jobId}__${applicantProfileId}`;
+
+const isApplicationStatus = (value: unknown): value is ApplicationStatus =>
+  typeof value === 'string' && value in APPLICATION_STATUS_LABELS;
+
+const mapMyApplication = (d: any): MyApplication => {
+  const data = d.data() ?? {};
+  return {
+    id: d.id,
+    jobId: typeof data.jobId === 'string' ? data.jobId : '',
+    status: isApplicationStatus(data.status) ? data.status : 'applied',
+    ...(typeof data.hireId === 'string' ? { hireId: data.hireId } : {}),
+    jobSnapshot: data.jobSnapshot && typeof data.jobSnapshot === 'object' ? data.jobSnapshot : {},
+    ...(Array.isArray(data.jobChange?.fields)
+      ? {
+          jobChange: {
+            fields: data.jobChange.fields.filter(
+              (field: unknown): field is JobChangeField =>
+                typeof field === 'string' && field in JOB_CHANGE_LABELS
+            ),
+          },
+        }
+      : {}),
+    createdAt: mapTimestamp(data.createdAt),
+    updatedAt: mapTimestamp(data.updatedAt),
+  };
+};
+
+/**
+ * Candidature del profilo lavoratore, dalla più recente. Sostituisce lo
+ * stato locale: segue su ogni dispositivo le proposte e le assunzioni.
+ */
+export function subscribeToMyApplications(
+  uid: string,
+  profileId: string,
+  onChange: (applications: MyApplication[]) => void
+) {
+  return onSnapshot(
+    query(collection(db, "applications"), where("applicantUid", "==", uid)),
+    (snap) => {
+      onChange(
+        snap.docs
+          .filter((d) => d.data().applicantProfileId === profileId)
+          .map(mapMyApplication)
+          .sort(
+            (a, b) =>
+              ((b.updatedAt ?? b.createdAt)?.getTime() ?? 0) -
+              ((a.updatedAt ?? a.createdAt)?.getTime() ?? 0)
+          )
+      );
+    },
+    (error) => {
+      console.warn("subscribeToMyApplications error:", error);
+    }
+  );
+}
+
+export async function createJobApplication({
+  jobId,
+  ownerProfileId,
+  ownerUid,
+  applicantProfileId,
+  jobSnapshot,
+  coverLetter,
+  answers,
+}: {
+  jobId: string;
+  ownerProfileId: string | null;
+  ownerUid: string | null;
+  applicantProfileId: string;
+  jobSnapshot: Record<string, any>;
+  /** breve messaggio al datore */
+  coverLetter?: string;
+  /** risposte alle domande dell'incarico, per id domanda */
+  answers?: Record<string, boolean | string | undefined>;
+}) {
+  const applicantUid = await ensureSignedIn();
+  const jobSnap = await getDoc(doc(db, 'jobs', jobId));
+  if (!jobSnap.exists() || getJobStatus(jobSnap.data()) !== 'published') {
+    throw new Error('Questo incarico non accetta più candidature.');
+  }
+  // Checked against the stored questions, not the possibly stale copy on the device.
+  const screeningAnswers = buildScreeningAnswers(
+    normalizeScreeningQuestions(jobSnap.data().screeningQuestions),
+    answers ?? {}
+  );
+  const trimmedCoverLetter = coverLetter?.trim().slice(0, MAX_COVER_LETTER_LENGTH) ?? '';
+  const alreadyApplied = () =>
+    buildAuthError(ALREADY_APPLIED_CODE, 'Ti sei già candidato a questo incarico.');
+
+  // Applications created before deterministic ids have random ids.
+  const legacySnap = await getDocs(
+    query(
+      collection(db, "applications"),
+      where("applicantUid", "==", applicantUid),
+      where("jobId", "==", jobId)
+    )
+  );
+  if (legacySnap.docs.some((d) => d.data().applicantProfileId === applicantProfileId)) {
+    throw alreadyApplied();
+  }
+
+  // The rules only accept this id, so a second create is refused server-side too.
+  const appRef = doc(db, "applications", buildApplicationId(jobId, applicantProfileId));
+  await runTransaction(db, async (tx) => {
+    const existing = await tx.get(appRef);
+    if (existing.exists()) {
+      // Withdrawn and rejected applications stay closed for this job.
+      throw existing.data().status === 'withdrawn'
+        ? buildAuthError(ALREADY_APPLIED_CODE, 'Hai ritirato la candidatura a questo incarico.')
+        : alreadyApplied();
+    }
+    tx.set(appRef, {
+      jobId,
+      ownerProfileId: ownerProfileId ?? null,
+      ownerUid: ownerUid ?? null,
+      applicantUid,
+      applicantProfileId,
+      status: 'applied',
+      jobSnapshot,
+      ...(trimmedCoverLetter ? { coverLetter: trimmedCoverLetter } : {}),
+      ...(screeningAnswers.length > 0 ? { screeningAnswers } : {}),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  });
+
+  // Also append applicant to the job's applicants list for quick lookup in employer panel
   try {
     const jobRef = doc(db, 'jobs', jobId);
     await updateDoc(jobRef, {
@@ -687,58 +1932,1000 @@ export async function createJobApplication({
     console.warn('Failed to update job applicants array:', e);
   }
 
-  return appRef;
+  return appRef;
+}
+
+// Ends an application that is still waiting: status change, job applicants list, chat notice.
+// actingProfileId signs the employer's chat notice: the owner, or the team member handling the job.
+async function closeApplication(
+  applicationId: string,
+  status: 'rejected' | 'withdrawn',
+  actingProfileId?: string
+) {
+  const uid = await ensureSignedIn();
+  const appRef = doc(db, 'applications', applicationId);
+  const appSnap = await getDoc(appRef);
+  if (!appSnap.exists()) {
+    throw new Error('Candidatura non trovata.');
+  }
+  const app = appSnap.data() as Record<string, any>;
+  if (status === 'withdrawn' && app.applicantUid !== uid) {
+    throw new Error('Puoi ritirare solo le tue candidature.');
+  }
+  if (app.status !== 'applied') {
+    throw new Error(
+      app.status === 'hiredProposed'
+        ? 'Hai già una proposta di assunzione per questo incarico: rispondi dalle proposte.'
+        : 'La candidatura non è più in attesa.'
+    );
+  }
+
+  const batch = writeBatch(db);
+  batch.update(appRef, {
+    status,
+    statusChange: {
+      status,
+      changedByUid: uid,
+      changedAt: serverTimestamp(),
+    },
+    updatedAt: serverTimestamp(),
+  });
+  const jobRef = typeof app.jobId === 'string' ? doc(db, 'jobs', app.jobId) : null;
+  const jobSnap = jobRef ? await getDoc(jobRef) : null;
+  if (jobRef && jobSnap?.exists() && typeof app.applicantProfileId === 'string') {
+    batch.update(jobRef, {
+      applicants: arrayRemove(app.applicantProfileId),
+      updatedAt: serverTimestamp(),
+    });
+  }
+  await batch.commit();
+
+  // Non-blocking: the status change is saved, the chat message only tells the other side.
+  const employerId =
+    status === 'rejected' && actingProfileId
+      ? actingProfileId
+      : typeof app.ownerProfileId === 'string'
+        ? app.ownerProfileId
+        : '';
+  const workerId = typeof app.applicantProfileId === 'string' ? app.applicantProfileId : '';
+  if (!employerId || !workerId) return;
+  const snapshot = (app.jobSnapshot ?? {}) as Record<string, any>;
+  const jobLabel = `"${buildJobTitle(snapshot)}"${typeof snapshot.data === 'string' && snapshot.data ? ` del ${snapshot.data}` : ''}`;
+  const text =
+    status === 'withdrawn'
+      ? `Ho ritirato la mia candidatura per ${jobLabel}.`
+      : `La tua candidatura per ${jobLabel} non è stata selezionata.`;
+  try {
+    const chat = await getOrCreateChat(app.jobId, employerId, workerId);
+    await sendMessage(chat.id, status === 'withdrawn' ? workerId : employerId, text);
+  } catch (e) {
+    console.warn('Failed to notify application change:', e);
+  }
+}
+
+/** Il lavoratore ritira una candidatura ancora in attesa. */
+export async function withdrawApplication(applicationId: string) {
+  await closeApplication(applicationId, 'withdrawn');
+}
+
+/** Il datore scarta un candidato senza passare dalla proposta di assunzione. */
+export async function rejectApplication(applicationId: string, actingProfileId: string) {
+  await closeApplication(applicationId, 'rejected', actingProfileId);
+}
+
+/**
+ * Scarta tutte le candidature ancora in attesa, es. quando i posti sono coperti.
+ * Restituisce quante candidature sono state scartate.
+ */
+export async function rejectRemainingApplications(jobId: string, actingProfileId: string): Promise<number> {
+  await ensureSignedIn();
+  const snap = await getDocs(
+    query(collection(db, 'applications'), where('jobId', '==', jobId), where('status', '==', 'applied'))
+  );
+  let rejected = 0;
+  // One at a time: each rejection also sends its own chat message.
+  for (const appDoc of snap.docs) {
+    try {
+      await closeApplication(appDoc.id, 'rejected', actingProfileId);
+      rejected += 1;
+    } catch (e) {
+      console.warn('Failed to reject application:', e);
+    }
+  }
+  return rejected;
+}
+
+// -----------------------
+// Candidate pipeline
+// -----------------------
+
+// new, shortlisted and interviewing are stored as pipelineStage while the application
+// is applied; proposed and rejected follow the application status.
+export type PipelineStage = 'new' | 'shortlisted' | 'interviewing' | 'proposed' | 'rejected';
+
+export type ManualPipelineStage = Extract<PipelineStage, 'new' | 'shortlisted' | 'interviewing'>;
+
+export const PIPELINE_STAGES: PipelineStage[] = ['new', 'shortlisted', 'interviewing', 'proposed', 'rejected'];
+
+export const MANUAL_PIPELINE_STAGES: ManualPipelineStage[] = ['new', 'shortlisted', 'interviewing'];
+
+export const PIPELINE_STAGE_LABELS: Record<PipelineStage, string> = {
+  new: 'Nuovi',
+  shortlisted: 'Preselezionati',
+  interviewing: 'Colloquio',
+  proposed: 'Proposta inviata',
+  rejected: 'Scartati',
+};
+
+export const MAX_CANDIDATE_NOTE_LENGTH = 1000;
+
+const isManualPipelineStage = (value: unknown): value is ManualPipelineStage =>
+  typeof value === 'string' && (MANUAL_PIPELINE_STAGES as string[]).includes(value);
+
+/** Fase della candidatura nella bacheca del datore. */
+export const getPipelineStage = (status: unknown, pipelineStage: unknown): PipelineStage => {
+  if (status === 'hiredProposed' || status === 'hiredConfirmed') return 'proposed';
+  if (status === 'rejected' || status === 'withdrawn') return 'rejected';
+  return isManualPipelineStage(pipelineStage) ? pipelineStage : 'new';
+};
+
+/** Il datore sposta una candidatura ancora in attesa tra le fasi della bacheca. */
+export async function setApplicationPipelineStage(applicationId: string, stage: ManualPipelineStage) {
+  await ensureSignedIn();
+  const appRef = doc(db, 'applications', applicationId);
+  const appSnap = await getDoc(appRef);
+  if (!appSnap.exists()) {
+    throw new Error('Candidatura non trovata.');
+  }
+  if (appSnap.data().status !== 'applied') {
+    throw new Error('La candidatura non è più in attesa.');
+  }
+  await updateDoc(appRef, { pipelineStage: stage, updatedAt: serverTimestamp() });
+}
+
+/** Nota privata del datore su un candidato; stringa vuota se non c'è. */
+export async function getCandidateNote(jobId: string, applicantProfileId: string): Promise<string> {
+  const snap = await getDoc(doc(db, 'jobs', jobId, 'candidateNotes', applicantProfileId));
+  const text = snap.exists() ? snap.data().text : '';
+  return typeof text === 'string' ? text : '';
+}
+
+/** Salva la nota privata su un candidato; una nota vuota viene eliminata. */
+export async function saveCandidateNote(jobId: string, applicantProfileId: string, text: string) {
+  const uid = await ensureSignedIn();
+  const noteRef = doc(db, 'jobs', jobId, 'candidateNotes', applicantProfileId);
+  const trimmed = text.trim().slice(0, MAX_CANDIDATE_NOTE_LENGTH);
+  if (!trimmed) {
+    await deleteDoc(noteRef);
+    return;
+  }
+  await setDoc(noteRef, { text: trimmed, updatedByUid: uid, updatedAt: serverTimestamp() });
+}
+
+const deleteRefsInBatches = async (refs: Array<any>) => {
+  const chunkSize = 400;
+  for (let i = 0; i < refs.length; i += chunkSize) {
+    const batch = writeBatch(db);
+    refs.slice(i, i + chunkSize).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+};
+
+const deleteQueryDocs = async (docs: Array<{ ref: any }>) => {
+  if (docs.length === 0) return;
+  await deleteRefsInBatches(docs.map((docSnap) => docSnap.ref));
+};
+
+const updateRefsInBatches = async (refs: any[], data: Record<string, any>) => {
+  const chunkSize = 400;
+  for (let i = 0; i < refs.length; i += chunkSize) {
+    const batch = writeBatch(db);
+    refs.slice(i, i + chunkSize).forEach((ref) => batch.update(ref, data));
+    await batch.commit();
+  }
+};
+
+export async function deleteJobAndRelated(jobId: string) {
+  const uid = await ensureSignedIn();
+  const jobRef = doc(db, 'jobs', jobId);
+  const jobSnap = await getDoc(jobRef);
+  if (!jobSnap.exists()) {
+    throw new Error('Incarico non trovato');
+  }
+
+  const job = jobSnap.data() as Record<string, any>;
+  const ownerUid = getJobOwnerUid(job);
+  if (!ownerUid) {
+    throw new Error('Incarico senza proprietario valido');
+  }
+  if (ownerUid !== uid && !(await canManageBusinessJobs(job.businessId, uid))) {
+    throw new Error('Non autorizzato a eliminare questo incarico');
+  }
+
+  const applicationsSnap = await getDocs(
+    query(collection(db, 'applications'), where('jobId', '==', jobId))
+  );
+  await deleteQueryDocs(applicationsSnap.docs);
+
+  const hiresSnap = await getDocs(query(collection(db, 'hires'), where('jobId', '==', jobId)));
+  await deleteQueryDocs(hiresSnap.docs);
+
+  const chatsSnap = await getDocs(
+    query(collection(db, 'chats'), where('assignmentId', '==', jobId))
+  );
+  for (const chatDoc of chatsSnap.docs) {
+    const messagesSnap = await getDocs(collection(db, 'chats', chatDoc.id, 'messages'));
+    await deleteQueryDocs(messagesSnap.docs);
+    await deleteQueryDocs([chatDoc]);
+  }
+
+  const changesSnap = await getDocs(collection(jobRef, 'changes'));
+  const notesSnap = await getDocs(collection(jobRef, 'candidateNotes'));
+  await deleteQueryDocs([...changesSnap.docs, ...notesSnap.docs]);
+
+  await deleteDoc(jobRef);
+}
+
+// -----------------------
+// Job search
+// -----------------------
+
+export type JobSearchFilters = {
+  categoria?: JobCategory;
+  /** inizio dell'intervallo di date; mai prima di adesso */
+  from?: Date;
+  to?: Date;
+  minCompenso?: number;
+  citta?: string;
+  provincia?: string;
+};
+
+export type JobSearchCursor = QueryDocumentSnapshot<DocumentData>;
+
+export type JobSearchPage = {
+  docs: JobSearchCursor[];
+  /** null when there are no more results */
+  cursor: JobSearchCursor | null;
+};
+
+export const JOB_SEARCH_PAGE_SIZE = 20;
+
+// Pages thinned out by client-side checks are topped up with at most this many reads.
+const MAX_SEARCH_ROUNDS = 4;
+
+const sameText = (a: unknown, b: string) =>
+  typeof a === "string" && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const buildJobSearchConstraints = (
+  filters: JobSearchFilters,
+  withEqualityFilters: boolean
+): QueryConstraint[] => {
+  const now = new Date();
+  const from = filters.from && filters.from > now ? filters.from : now;
+  const constraints: QueryConstraint[] = [];
+  if (withEqualityFilters) {
+    // Drafts are read too: a scheduled one is due at publishAt even if its owner's
+    // client is not open to store the new status; matchesJobSearch drops the rest.
+    constraints.push(where("status", "in", ["draft", "published", "open"]));
+    if (filters.categoria) constraints.push(where("tipo.categoria", "==", filters.categoria));
+    const place = buildPlaceSearchFields({ citta: filters.citta, provincia: filters.provincia });
+    if (place.cittaLower) constraints.push(where("cittaLower", "==", place.cittaLower));
+    if (place.provinciaLower) constraints.push(where("provinciaLower", "==", place.provinciaLower));
+  }
+  // Firestore allows a range on one field only, so the minimum pay is checked on the client.
+  constraints.push(where("startAt", ">=", Timestamp.fromDate(from)));
+  if (filters.to) constraints.push(where("startAt", "<=", Timestamp.fromDate(filters.to)));
+  constraints.push(orderBy("startAt", "asc"));
+  return constraints;
+};
+
+const matchesJobSearch = (job: Record<string, any>, filters: JobSearchFilters, now: Date) => {
+  if (getJobStatus(job, now) !== "published") return false;
+  const startAt = mapTimestamp(job.startAt);
+  if (filters.from && (!startAt || startAt < filters.from)) return false;
+  if (filters.to && (!startAt || startAt > filters.to)) return false;
+  if (filters.categoria && job.tipo?.categoria !== filters.categoria) return false;
+  if (filters.citta?.trim() && !sameText(job.indirizzo?.citta, filters.citta)) return false;
+  if (filters.provincia?.trim() && !sameText(job.indirizzo?.provincia, filters.provincia)) return false;
+  if (filters.minCompenso && !(Number(job.compensoOrario) >= filters.minCompenso)) return false;
+  return true;
+};
+
+/**
+ * Cerca gli incarichi pubblicati e futuri, in ordine di inizio. Categoria,
+ * città, provincia e date sono filtrate da Firestore; passa il cursor della
+ * pagina precedente per caricare la successiva.
+ */
+export async function searchJobs(
+  filters: JobSearchFilters = {},
+  cursor: JobSearchCursor | null = null,
+  pageSize = JOB_SEARCH_PAGE_SIZE
+): Promise<JobSearchPage> {
+  await ensureSignedIn();
+  const jobsCol = collection(db, "jobs");
+
+  const run = async (withEqualityFilters: boolean): Promise<JobSearchPage> => {
+    const constraints = buildJobSearchConstraints(filters, withEqualityFilters);
+    const docs: JobSearchCursor[] = [];
+    let last = cursor;
+    for (let round = 0; round < MAX_SEARCH_ROUNDS; round += 1) {
+      const snap = await getDocs(
+        query(jobsCol, ...constraints, ...(last ? [startAfter(last)] : []), limit(pageSize))
+      );
+      const now = new Date();
+      for (const jobDoc of snap.docs) {
+        last = jobDoc;
+        if (matchesJobSearch(jobDoc.data(), filters, now)) docs.push(jobDoc);
+        if (docs.length >= pageSize) return { docs, cursor: jobDoc };
+      }
+      if (snap.docs.length < pageSize) return { docs, cursor: null };
+    }
+    return { docs, cursor: last };
+  };
+
+  try {
+    return await run(true);
+  } catch (error) {
+    if ((error as { code?: string }).code !== "failed-precondition") throw error;
+    console.warn(
+      "Missing composite index for job search, filtering on the client. Deploy firestore.indexes.json."
+    );
+    return run(false);
+  }
+}
+
+/**
+ * Geohash della posizione dell'incarico e i suoi prefissi, salvati accanto a
+ * location per le ricerche per distanza.
+ */
+export const buildGeohashField = (
+  location: unknown
+): { geohash?: string; geohashPrefixes?: string[] } => {
+  const lat = Number((location as Partial<GeoPoint> | undefined)?.lat);
+  const lng = Number((location as Partial<GeoPoint> | undefined)?.lng);
+  if (!location || !Number.isFinite(lat) || !Number.isFinite(lng)) return {};
+  const geohash = encodeGeohash({ lat, lng });
+  return { geohash, geohashPrefixes: geohashPrefixes(geohash) };
+};
+
+/**
+ * Città e provincia in minuscolo, salvate accanto a indirizzo perché i filtri
+ * di searchJobs non dipendano da come il datore le ha scritte.
+ */
+export const buildPlaceSearchFields = (
+  indirizzo: unknown
+): { cittaLower?: string; provinciaLower?: string } => {
+  const { citta, provincia } = (indirizzo ?? {}) as { citta?: unknown; provincia?: unknown };
+  const normalize = (value: unknown) =>
+    typeof value === "string" && value.trim() ? value.trim().toLowerCase() : undefined;
+  const cittaLower = normalize(citta);
+  const provinciaLower = normalize(provincia);
+  return {
+    ...(cittaLower ? { cittaLower } : {}),
+    ...(provinciaLower ? { provinciaLower } : {}),
+  };
+};
+
+/**
+ * Momento in cui l'incarico diventa visibile ai lavoratori: adesso se è
+ * pubblicato, l'orario programmato se è una bozza con publishAt.
+ */
+export const buildPublishedAtField = (job: Record<string, any>): { publishedAt?: unknown } => {
+  const status = job.status ?? "published";
+  if (status === "published" || status === "open") return { publishedAt: serverTimestamp() };
+  if (status === "draft" && job.publishAt instanceof Timestamp) return { publishedAt: job.publishAt };
+  return {};
+};
+
+export const MAX_SEARCH_RADIUS_KM = 100;
+
+// The SDK allows a range on one field only, so each covering cell is matched
+// through geohashPrefixes and startAt keeps the range: only upcoming published
+// (or scheduled) jobs are read. Each cell is paged until it runs out; the page
+// cap only guards against runaway reads and marks the result as truncated.
+const NEARBY_CELL_PAGE_SIZE = 100;
+const MAX_NEARBY_CELL_PAGES = 20;
+
+export type NearbyJob = {
+  doc: JobSearchCursor;
+  distanceKm: number;
+};
+
+export type NearbyJobSearch = {
+  jobs: NearbyJob[];
+  /** true quando una cella aveva più incarichi di quelli letti */
+  truncated: boolean;
+};
+
+/**
+ * Incarichi pubblicati e futuri entro radiusKm dal punto dato, dal più vicino.
+ * Le celle geohash vengono lette da Firestore e la distanza esatta filtrata qui.
+ */
+export async function searchJobsNearby(
+  center: GeoPoint,
+  radiusKm: number,
+  filters: JobSearchFilters = {}
+): Promise<NearbyJobSearch> {
+  await ensureSignedIn();
+  const radius = Math.min(Math.max(radiusKm, 0.1), MAX_SEARCH_RADIUS_KM);
+  const jobsCol = collection(db, "jobs");
+  const now = new Date();
+  const from = filters.from && filters.from > now ? filters.from : now;
+
+  const readCell = async (cell: string, withIndexedFilters: boolean) => {
+    const constraints: QueryConstraint[] = [where("geohashPrefixes", "array-contains", cell)];
+    if (withIndexedFilters) {
+      constraints.push(where("status", "in", ["draft", "published", "open"]));
+      constraints.push(where("startAt", ">=", Timestamp.fromDate(from)));
+      if (filters.to) constraints.push(where("startAt", "<=", Timestamp.fromDate(filters.to)));
+      constraints.push(orderBy("startAt", "asc"));
+    }
+    const docs: JobSearchCursor[] = [];
+    let last = null as JobSearchCursor | null;
+    for (let page = 0; page < MAX_NEARBY_CELL_PAGES; page += 1) {
+      const snap = await getDocs(
+        query(jobsCol, ...constraints, ...(last ? [startAfter(last)] : []), limit(NEARBY_CELL_PAGE_SIZE))
+      );
+      for (const jobDoc of snap.docs) {
+        last = jobDoc;
+        docs.push(jobDoc);
+      }
+      if (snap.docs.length < NEARBY_CELL_PAGE_SIZE) return { docs, truncated: false };
+    }
+    return { docs, truncated: true };
+  };
+
+  const run = (withIndexedFilters: boolean) =>
+    Promise.all(geohashCoveringCells(center, radius).map((cell) => readCell(cell, withIndexedFilters)));
+
+  let cells: Awaited<ReturnType<typeof run>>;
+  try {
+    cells = await run(true);
+  } catch (error) {
+    if ((error as { code?: string }).code !== "failed-precondition") throw error;
+    console.warn(
+      "Missing composite index for nearby job search, filtering on the client. Deploy firestore.indexes.json."
+    );
+    cells = await run(false);
+  }
+
+  const seen = new Set<string>();
+  const results: NearbyJob[] = [];
+  for (const { docs } of cells) {
+    for (const jobDoc of docs) {
+      if (seen.has(jobDoc.id)) continue;
+      seen.add(jobDoc.id);
+      const data = jobDoc.data();
+      const lat = Number(data.location?.lat);
+      const lng = Number(data.location?.lng);
+      if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+      const distance = distanceKm(center, { lat, lng });
+      if (distance > radius || !matchesJobSearch(data, filters, now)) continue;
+      results.push({ doc: jobDoc, distanceKm: distance });
+    }
+  }
+  return {
+    jobs: results.sort((a, b) => a.distanceKm - b.distanceKm),
+    truncated: cells.some((cell) => cell.truncated),
+  };
 }
 
-const deleteRefsInBatches = async (refs: Array<any>) => {
-  const chunkSize = 400;
-  for (let i = 0; i < refs.length; i += chunkSize) {
-    const batch = writeBatch(db);
-    refs.slice(i, i + chunkSize).forEach((ref) => batch.delete(ref));
-    await batch.commit();
+/**
+ * Incarico ancora pubblicato, come documento di ricerca. null se è stato
+ * rimosso, chiuso o non è più prenotabile.
+ */
+export async function findPublishedJob(jobId: string): Promise<JobSearchCursor | null> {
+  await ensureSignedIn();
+  const snap = await getDocs(query(collection(db, "jobs"), where(documentId(), "==", jobId), limit(1)));
+  const jobDoc = snap.docs[0];
+  if (!jobDoc || !matchesJobSearch(jobDoc.data(), {}, new Date())) return null;
+  return jobDoc;
+}
+
+// -----------------------
+// Saved searches and job alerts
+// -----------------------
+
+export type SavedSearchArea = {
+  center: GeoPoint;
+  radiusKm: number;
+  label: string;
+};
+
+export type SavedSearchCriteria = {
+  /** vuoto = tutte le categorie */
+  categorie: JobCategory[];
+  area: SavedSearchArea | null;
+  minCompenso: number | null;
+  /** giorni della settimana come Date.getDay() (0 = domenica); vuoto = tutti */
+  giorni: number[];
+};
+
+export type SavedSearch = SavedSearchCriteria & {
+  id: string;
+  name: string;
+  /** fino a qui gli incarichi nuovi sono già stati confrontati */
+  lastCheckedAt: Date | null;
+  createdAt: Date | null;
+};
+
+export type JobAlert = {
+  id: string;
+  searchId: string;
+  searchName: string;
+  jobId: string;
+  title: string;
+  data: string;
+  oraInizio: string;
+  citta: string;
+  compensoOrario: number;
+  createdAt: Date | null;
+  openedAt: Date | null;
+};
+
+export const MAX_SAVED_SEARCHES = 10;
+
+// Jobs published while the app was closed are matched on the next start, up to this far back.
+export const JOB_ALERT_CATCH_UP_MS = 7 * 24 * 60 * 60 * 1000;
+
+// One alert per search and job, so two devices never record it twice.
+const buildJobAlertId = (searchId: string, jobId: string) => `${searchId}__${jobId}`;
+
+const mapSavedSearchArea = (value: unknown): SavedSearchArea | null => {
+  const raw = value as Record<string, any> | null | undefined;
+  const lat = Number(raw?.center?.lat);
+  const lng = Number(raw?.center?.lng);
+  const radiusKm = Number(raw?.radiusKm);
+  if (!raw || !Number.isFinite(lat) || !Number.isFinite(lng) || !(radiusKm > 0)) return null;
+  return {
+    center: { lat, lng },
+    radiusKm: Math.min(radiusKm, MAX_SEARCH_RADIUS_KM),
+    label: typeof raw.label === "string" ? raw.label : "",
+  };
+};
+
+const mapSavedSearch = (searchDoc: { id: string; data: () => Record<string, any> }): SavedSearch => {
+  const data = searchDoc.data() ?? {};
+  const minCompenso = Number(data.minCompenso);
+  return {
+    id: searchDoc.id,
+    name: typeof data.name === "string" ? data.name : "Ricerca",
+    categorie: Array.isArray(data.categorie) ? data.categorie.filter(isJobCategory) : [],
+    area: mapSavedSearchArea(data.area),
+    minCompenso: data.minCompenso != null && minCompenso > 0 ? minCompenso : null,
+    giorni: Array.isArray(data.giorni)
+      ? data.giorni.filter((day: unknown): day is number => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)
+      : [],
+    lastCheckedAt: mapTimestamp(data.lastCheckedAt),
+    createdAt: mapTimestamp(data.createdAt),
+  };
+};
+
+const mapJobAlert = (alertDoc: { id: string; data: () => Record<string, any> }): JobAlert => {
+  const data = alertDoc.data() ?? {};
+  return {
+    id: alertDoc.id,
+    searchId: typeof data.searchId === "string" ? data.searchId : "",
+    searchName: typeof data.searchName === "string" ? data.searchName : "",
+    jobId: typeof data.jobId === "string" ? data.jobId : "",
+    title: typeof data.title === "string" ? data.title : "Incarico",
+    data: typeof data.data === "string" ? data.data : "",
+    oraInizio: typeof data.oraInizio === "string" ? data.oraInizio : "",
+    citta: typeof data.citta === "string" ? data.citta : "",
+    compensoOrario: Number(data.compensoOrario) || 0,
+    createdAt: mapTimestamp(data.createdAt),
+    openedAt: mapTimestamp(data.openedAt),
+  };
+};
+
+/** Vero se l'incarico pubblicato rientra nei criteri della ricerca salvata. */
+export const matchesSavedSearch = (
+  search: SavedSearchCriteria,
+  job: Record<string, any>,
+  now: Date = new Date()
+): boolean => {
+  if (!matchesJobSearch(job, search.minCompenso ? { minCompenso: search.minCompenso } : {}, now)) {
+    return false;
+  }
+  if (search.categorie.length > 0 && !search.categorie.includes(job.tipo?.categoria)) return false;
+  if (search.giorni.length > 0) {
+    const startAt = mapTimestamp(job.startAt) ?? buildJobStartAt(job.data, job.oraInizio)?.toDate() ?? null;
+    if (!startAt || !search.giorni.includes(startAt.getDay())) return false;
+  }
+  if (search.area) {
+    const lat = Number(job.location?.lat);
+    const lng = Number(job.location?.lng);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return false;
+    if (distanceKm(search.area.center, { lat, lng }) > search.area.radiusKm) return false;
   }
+  return true;
 };
 
-const deleteQueryDocs = async (docs: Array<{ ref: any }>) => {
-  if (docs.length === 0) return;
-  await deleteRefsInBatches(docs.map((docSnap) => docSnap.ref));
+/** Ricerche salvate del profilo, dalla più vecchia. */
+export async function listSavedSearches(profileId: string): Promise<SavedSearch[]> {
+  const uid = await ensureSignedIn();
+  const snap = await getDocs(query(collection(db, "savedSearches"), where("uid", "==", uid)));
+  return snap.docs
+    .filter((d) => d.data().profileId === profileId)
+    .map(mapSavedSearch)
+    .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+}
+
+/**
+ * Crea o aggiorna una ricerca salvata. Gli avvisi partono dagli incarichi
+ * pubblicati da adesso in poi.
+ */
+export async function saveSavedSearch(
+  profileId: string,
+  name: string,
+  criteria: SavedSearchCriteria,
+  searchId?: string
+): Promise<string> {
+  const uid = await ensureSignedIn();
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Dai un nome alla ricerca");
+  }
+  const payload = {
+    name: trimmed,
+    categorie: criteria.categorie.filter(isJobCategory),
+    area: criteria.area
+      ? {
+          center: { lat: criteria.area.center.lat, lng: criteria.area.center.lng },
+          radiusKm: Math.min(criteria.area.radiusKm, MAX_SEARCH_RADIUS_KM),
+          label: criteria.area.label,
+        }
+      : null,
+    minCompenso: criteria.minCompenso && criteria.minCompenso > 0 ? criteria.minCompenso : null,
+    giorni: [...new Set(criteria.giorni)].sort((a, b) => a - b),
+    updatedAt: serverTimestamp(),
+  };
+
+  if (searchId) {
+    await updateDoc(doc(db, "savedSearches", searchId), payload);
+    return searchId;
+  }
+
+  const existing = await listSavedSearches(profileId);
+  if (existing.length >= MAX_SAVED_SEARCHES) {
+    throw new Error(`Puoi salvare al massimo ${MAX_SAVED_SEARCHES} ricerche`);
+  }
+  const ref = await addDoc(collection(db, "savedSearches"), {
+    uid,
+    profileId,
+    ...payload,
+    lastCheckedAt: serverTimestamp(),
+    createdAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+/** Elimina la ricerca salvata e i suoi avvisi. */
+export async function deleteSavedSearch(searchId: string) {
+  const uid = await ensureSignedIn();
+  const alertsSnap = await getDocs(query(collection(db, "jobAlerts"), where("uid", "==", uid)));
+  await deleteQueryDocs(alertsSnap.docs.filter((d) => d.data().searchId === searchId));
+  await deleteDoc(doc(db, "savedSearches", searchId));
+}
+
+/** Segna come confrontati tutti gli incarichi pubblicati fino a checkedUntil. */
+export async function markSavedSearchesChecked(searchIds: string[], checkedUntil: Date) {
+  if (searchIds.length === 0) return;
+  await ensureSignedIn();
+  await updateRefsInBatches(
+    searchIds.map((id) => doc(db, "savedSearches", id)),
+    { lastCheckedAt: Timestamp.fromDate(checkedUntil) }
+  );
+}
+
+/**
+ * Registra l'avviso per un incarico che corrisponde alla ricerca. Restituisce
+ * null se l'avviso esisteva già (anche se aperto).
+ */
+export async function recordJobAlert(
+  profileId: string,
+  search: Pick<SavedSearch, "id" | "name">,
+  jobDoc: { id: string; data: () => Record<string, any> }
+): Promise<JobAlert | null> {
+  const uid = await ensureSignedIn();
+  const ref = doc(db, "jobAlerts", buildJobAlertId(search.id, jobDoc.id));
+  const existing = await getDoc(ref);
+  if (existing.exists()) return null;
+
+  const job = jobDoc.data() ?? {};
+  const data = {
+    uid,
+    profileId,
+    searchId: search.id,
+    searchName: search.name,
+    jobId: jobDoc.id,
+    title: buildJobTitle(job),
+    data: typeof job.data === "string" ? job.data : "",
+    oraInizio: typeof job.oraInizio === "string" ? job.oraInizio : "",
+    citta: typeof job.indirizzo?.citta === "string" ? job.indirizzo.citta : "",
+    compensoOrario: Number(job.compensoOrario) || 0,
+    createdAt: serverTimestamp(),
+    openedAt: null,
+  };
+  await setDoc(ref, data);
+  return mapJobAlert({ id: ref.id, data: () => ({ ...data, createdAt: Timestamp.now() }) });
+}
+
+/** Segna l'avviso come aperto: esce dalla casella degli avvisi. */
+export async function markJobAlertOpened(alertId: string) {
+  await updateDoc(doc(db, "jobAlerts", alertId), { openedAt: serverTimestamp() });
+}
+
+/** Notifica gli avvisi non ancora aperti del profilo, dal più recente. */
+export function subscribeToJobAlerts(
+  uid: string,
+  profileId: string,
+  onChange: (alerts: JobAlert[]) => void
+) {
+  return onSnapshot(
+    query(collection(db, "jobAlerts"), where("uid", "==", uid)),
+    (snap) => {
+      onChange(
+        snap.docs
+          .filter((d) => d.data().profileId === profileId && !d.data().openedAt)
+          .map(mapJobAlert)
+          .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      );
+    },
+    (error) => {
+      console.warn("subscribeToJobAlerts error:", error);
+    }
+  );
+}
+
+// -----------------------
+// Job lifecycle
+// -----------------------
+
+// draft -> published <-> paused, published <-> filled, then closed or expired.
+export type JobStatus = 'draft' | 'published' | 'paused' | 'filled' | 'closed' | 'expired';
+
+const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  draft: ['published', 'closed'],
+  published: ['paused', 'filled', 'closed', 'expired'],
+  paused: ['published', 'closed', 'expired'],
+  filled: ['published', 'closed', 'expired'],
+  closed: [],
+  expired: [],
 };
 
-export async function deleteJobAndRelated(jobId: string) {
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: 'Bozza',
+  published: 'Pubblicato',
+  paused: 'In pausa',
+  filled: 'Completo',
+  closed: 'Chiuso',
+  expired: 'Scaduto',
+};
+
+const isJobStatus = (value: unknown): value is JobStatus =>
+  typeof value === 'string' && value in JOB_STATUS_TRANSITIONS;
+
+/**
+ * Stato effettivo di un incarico. Oltre al campo status tiene conto della
+ * pubblicazione programmata (publishAt), dei posti tutti coperti e dell'orario
+ * di inizio ormai passato: scade solo un annuncio pubblicato senza assunti,
+ * mentre uno con almeno un assunto risulta completo. Gli incarichi in pausa o
+ * completi restano tali. I vecchi incarichi con status 'open' sono pubblicati.
+ */
+export const getJobStatus = (job: Record<string, any> | undefined | null, now: Date = new Date()): JobStatus => {
+  const stored: JobStatus = isJobStatus(job?.status) ? job.status : 'published';
+  if (!job || stored === 'closed' || stored === 'expired') return stored;
+  const publishAt = mapTimestamp(job.publishAt);
+  const status = stored === 'draft' && publishAt && publishAt <= now ? 'published' : stored;
+  if (status !== 'published') return status;
+  const { positions, filled } = summarizeJobSlots(job);
+  if (filled >= positions) return 'filled';
+  const startAt = mapTimestamp(job.startAt) ?? buildJobStartAt(job.data, job.oraInizio)?.toDate() ?? null;
+  if (startAt && startAt <= now) return filled > 0 ? 'filled' : 'expired';
+  return status;
+};
+
+export const canChangeJobStatus = (from: JobStatus, to: JobStatus) =>
+  JOB_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Porta un incarico nello stato richiesto se la transizione è ammessa
+ * (es. pubblica una bozza, mette in pausa o chiude un annuncio).
+ */
+export async function setJobStatus(jobId: string, next: JobStatus) {
   const uid = await ensureSignedIn();
   const jobRef = doc(db, 'jobs', jobId);
   const jobSnap = await getDoc(jobRef);
   if (!jobSnap.exists()) {
     throw new Error('Incarico non trovato');
   }
+  const job = jobSnap.data() as Record<string, any>;
+  if (getJobOwnerUid(job) !== uid && !(await canManageBusinessJobs(job.businessId, uid))) {
+    throw new Error('Non autorizzato a modificare questo incarico');
+  }
+  const current = getJobStatus(job);
+  if (!canChangeJobStatus(current, next)) {
+    throw new Error(
+      `Un incarico "${JOB_STATUS_LABELS[current]}" non può diventare "${JOB_STATUS_LABELS[next]}".`
+    );
+  }
+  await updateDoc(jobRef, {
+    status: next,
+    ...(next === 'published' ? { publishedAt: serverTimestamp(), publishAt: deleteField() } : {}),
+    ...(next === 'closed' ? { closedAt: serverTimestamp() } : {}),
+    statusChangedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+}
 
+/**
+ * Programma la pubblicazione di una bozza: diventa visibile ai lavoratori
+ * dall'orario indicato, che deve essere futuro e precedere l'inizio del lavoro.
+ */
+export async function scheduleJobPublication(jobId: string, publishAt: Date) {
+  const uid = await ensureSignedIn();
+  const jobRef = doc(db, 'jobs', jobId);
+  const jobSnap = await getDoc(jobRef);
+  if (!jobSnap.exists()) {
+    throw new Error('Incarico non trovato');
+  }
   const job = jobSnap.data() as Record<string, any>;
-  const ownerUid = getJobOwnerUid(job);
-  if (!ownerUid) {
-    throw new Error('Incarico senza proprietario valido');
+  if (getJobOwnerUid(job) !== uid && !(await canManageBusinessJobs(job.businessId, uid))) {
+    throw new Error('Non autorizzato a modificare questo incarico');
   }
-  if (ownerUid !== uid) {
-    throw new Error('Non autorizzato a eliminare questo incarico');
+  if (getJobStatus(job) !== 'draft') {
+    throw new Error('Solo le bozze possono essere programmate.');
   }
+  const startAt = mapTimestamp(job.startAt) ?? buildJobStartAt(job.data, job.oraInizio)?.toDate() ?? null;
+  if (publishAt <= new Date() || (startAt && publishAt >= startAt)) {
+    throw new Error("La pubblicazione deve essere futura e precedere l'inizio dell'incarico.");
+  }
+  await updateDoc(jobRef, {
+    publishAt: Timestamp.fromDate(publishAt),
+    publishedAt: Timestamp.fromDate(publishAt),
+    updatedAt: serverTimestamp(),
+  });
+}
 
-  const applicationsSnap = await getDocs(
-    query(collection(db, 'applications'), where('jobId', '==', jobId))
-  );
-  await deleteQueryDocs(applicationsSnap.docs);
+// -----------------------
+// Job series (recurring / multi-shift postings)
+// -----------------------
 
-  const hiresSnap = await getDocs(query(collection(db, 'hires'), where('jobId', '==', jobId)));
-  await deleteQueryDocs(hiresSnap.docs);
+export type JobOccurrence = {
+  data: string;
+  oraInizio: string;
+  oraFine: string;
+  startAt: Date;
+};
 
-  const chatsSnap = await getDocs(
-    query(collection(db, 'chats'), where('assignmentId', '==', jobId))
-  );
-  for (const chatDoc of chatsSnap.docs) {
-    const messagesSnap = await getDocs(collection(db, 'chats', chatDoc.id, 'messages'));
-    await deleteQueryDocs(messagesSnap.docs);
-    await deleteQueryDocs([chatDoc]);
+// One batch per series (well below the 500 writes a batch allows); keeps the
+// employer's list and the map readable.
+export const MAX_SERIES_OCCURRENCES = 60;
+
+/**
+ * Pubblica una serie di incarichi (ricorrenze e turni) in un'unica
+ * scrittura. Ogni incarico condivide il seriesId della serie.
+ */
+export async function createJobSeries({
+  ownerProfileId,
+  businessId,
+  payload,
+  occurrences,
+  recurrence,
+}: {
+  ownerProfileId: string;
+  businessId?: string;
+  payload: Record<string, any>;
+  occurrences: JobOccurrence[];
+  recurrence?: Record<string, any>;
+}) {
+  const uid = await ensureSignedIn();
+  if (businessId && !(await canManageBusinessJobs(businessId, uid))) {
+    throw new Error('Non autorizzato a pubblicare incarichi per questa attività');
+  }
+  if (occurrences.length === 0 || occurrences.length > MAX_SERIES_OCCURRENCES) {
+    throw new Error(`Una serie può contenere da 1 a ${MAX_SERIES_OCCURRENCES} incarichi`);
   }
 
-  await deleteDoc(jobRef);
+  const col = collection(db, "jobs");
+  const seriesId = doc(col).id;
+  const batch = writeBatch(db);
+  const refs = occurrences.map((occurrence, index) => {
+    const ref = doc(col);
+    batch.set(ref, {
+      ownerUid: uid,
+      ownerProfileId,
+      ...(businessId ? { businessId } : {}),
+      status: "published",
+      hireStatus: "open",
+      ...payload,
+      ...buildGeohashField(payload.location),
+      ...buildPlaceSearchFields(payload.indirizzo),
+      ...buildPublishedAtField(payload),
+      data: occurrence.data,
+      oraInizio: occurrence.oraInizio,
+      oraFine: occurrence.oraFine,
+      startAt: Timestamp.fromDate(occurrence.startAt),
+      seriesId,
+      seriesIndex: index,
+      seriesSize: occurrences.length,
+      ...(recurrence ? { recurrence } : {}),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    return ref;
+  });
+  await batch.commit();
+  return { seriesId, refs };
+}
+
+// Upcoming jobs of the series the caller may manage, split by whether a hire is in progress.
+const getManagedSeriesJobs = async (seriesId: string) => {
+  const uid = await ensureSignedIn();
+  const snap = await getDocs(query(collection(db, "jobs"), where("seriesId", "==", seriesId)));
+  const now = Date.now();
+  const upcoming = snap.docs.filter((jobDoc) => {
+    const startAt = mapTimestamp(jobDoc.data().startAt);
+    return startAt !== null && startAt.getTime() > now;
+  });
+  // Check every job: a seriesId alone does not prove who published it.
+  const managedBusinesses = new Map<unknown, boolean>();
+  for (const jobDoc of upcoming) {
+    const job = jobDoc.data();
+    if (getJobOwnerUid(job) === uid) continue;
+    if (!managedBusinesses.has(job.businessId)) {
+      managedBusinesses.set(job.businessId, await canManageBusinessJobs(job.businessId, uid));
+    }
+    if (!managedBusinesses.get(job.businessId)) {
+      throw new Error('Non autorizzato a gestire questa serie');
+    }
+  }
+  const hasHires = (jobDoc: (typeof upcoming)[number]) => {
+    const { filled, pending } = summarizeJobSlots(jobDoc.data());
+    return filled + pending > 0;
+  };
+  return {
+    open: upcoming.filter((jobDoc) => !hasHires(jobDoc)),
+    staffed: upcoming.filter(hasHires),
+  };
+};
+
+/**
+ * Aggiorna descrizione e compenso di tutti gli incarichi futuri della serie
+ * ancora senza assunzione. Restituisce quanti incarichi sono stati modificati.
+ */
+export async function updateJobSeries(
+  seriesId: string,
+  changes: { descrizione?: string; compensoOrario?: number }
+): Promise<number> {
+  const update: Record<string, any> = {};
+  if (typeof changes.descrizione === "string" && changes.descrizione.trim()) {
+    update.descrizione = changes.descrizione.trim();
+  }
+  if (typeof changes.compensoOrario === "number" && Number.isFinite(changes.compensoOrario) && changes.compensoOrario > 0) {
+    update.compensoOrario = changes.compensoOrario;
+  }
+  if (Object.keys(update).length === 0) return 0;
+
+  const { open } = await getManagedSeriesJobs(seriesId);
+  await updateRefsInBatches(
+    open.map((jobDoc) => jobDoc.ref),
+    { ...update, updatedAt: serverTimestamp() }
+  );
+  return open.length;
+}
+
+/**
+ * Annulla gli incarichi futuri della serie ancora senza assunzione.
+ * Quelli con una proposta o un'assunzione in corso restano pubblicati.
+ */
+export async function cancelJobSeries(seriesId: string): Promise<{ cancelled: number; kept: number }> {
+  const { open, staffed } = await getManagedSeriesJobs(seriesId);
+  for (const jobDoc of open) {
+    await deleteJobAndRelated(jobDoc.id);
+  }
+  return { cancelled: open.length, kept: staffed.length };
 }
 
 // -----------------------
@@ -808,6 +2995,182 @@ const buildJobLocation = (job: Record<string, any>) => {
   return [via, civico, citta, provincia, cap].filter((v) => v).join(' ');
 };
 
+// A job may need several workers: each proposed or confirmed hire holds one of
+// its `positions` in the `hireSlots` map (hireId -> worker and state).
+export type HireSlotStatus = 'proposed' | 'confirmed' | 'completed';
+
+export type HireSlot = {
+  workerUid: string;
+  status: HireSlotStatus;
+};
+
+export type JobSlotSummary = {
+  positions: number;
+  filled: number;
+  pending: number;
+  open: number;
+};
+
+// Mirrors the limit enforced by firestore.rules on job creation.
+export const MAX_JOB_POSITIONS = 20;
+
+export const getJobPositions = (job: Record<string, any> | undefined | null): number => {
+  const value = Number(job?.positions);
+  return Number.isInteger(value) && value > 0 ? value : 1;
+};
+
+export const getHireSlots = (job: Record<string, any> | undefined | null): Record<string, HireSlot> => {
+  if (!job) return {};
+  if (job.hireSlots && typeof job.hireSlots === 'object') {
+    return { ...(job.hireSlots as Record<string, HireSlot>) };
+  }
+  // Jobs hired before positions existed only carry activeHireId.
+  const status = job.hireStatus;
+  if (
+    typeof job.activeHireId === 'string' &&
+    (status === 'proposed' || status === 'confirmed' || status === 'completed')
+  ) {
+    return {
+      [job.activeHireId]: {
+        workerUid: typeof job.hiredWorkerUid === 'string' ? job.hiredWorkerUid : '',
+        status,
+      },
+    };
+  }
+  return {};
+};
+
+/** Riepiloga i posti di un incarico: coperti, in attesa di risposta e liberi. */
+export const summarizeJobSlots = (job: Record<string, any> | undefined | null): JobSlotSummary => {
+  const positions = getJobPositions(job);
+  const slots = Object.values(getHireSlots(job));
+  const filled = slots.filter((slot) => slot.status !== 'proposed').length;
+  const pending = slots.length - filled;
+  return { positions, filled, pending, open: Math.max(0, positions - slots.length) };
+};
+
+// Job fields derived from the slot map; hireStatus only leaves 'open' once every position is taken.
+const buildSlotUpdate = (job: Record<string, any>, slots: Record<string, HireSlot>) => {
+  const positions = getJobPositions(job);
+  const entries = Object.values(slots);
+  const filled = entries.filter((slot) => slot.status !== 'proposed').length;
+  const completed = entries.filter((slot) => slot.status === 'completed').length;
+  const hireStatus =
+    completed >= positions
+      ? 'completed'
+      : filled >= positions
+        ? 'confirmed'
+        : entries.length >= positions
+          ? 'proposed'
+          : 'open';
+  return { hireSlots: slots, filledPositions: filled, hireStatus };
+};
+
+// Two hires of the same worker must not overlap in time.
+export type HireSchedule = {
+  jobDate?: string;
+  jobStartTime?: string;
+  jobEndTime?: string;
+};
+
+export type ScheduleConflict = {
+  hireId: string;
+  jobId: string;
+  jobTitle: string;
+} & HireSchedule;
+
+export const SCHEDULE_CONFLICT_CODE = 'hire/schedule-conflict';
+
+// A hire without an end time is assumed to last this long.
+const DEFAULT_HIRE_DURATION_MS = 60 * 60 * 1000;
+
+const parseClock = (value: unknown): [number, number] | null => {
+  const match = typeof value === 'string' ? /^(\d{1,2}):(\d{2})/.exec(value.trim()) : null;
+  return match ? [Number(match[1]), Number(match[2])] : null;
+};
+
+/**
+ * Inizio e fine di un incarico da data e orari (jobDate GG/MM/AAAA o
+ * AAAA-MM-GG). Se la fine non è dopo l'inizio il turno finisce il giorno dopo.
+ */
+export const getHireInterval = (schedule: HireSchedule): { start: Date; end: Date } | null => {
+  const raw = typeof schedule.jobDate === 'string' ? schedule.jobDate.trim() : '';
+  const italian = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(raw);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(raw);
+  const startClock = parseClock(schedule.jobStartTime);
+  if ((!italian && !iso) || !startClock) return null;
+  const [year, month, day] = italian
+    ? [Number(italian[3]), Number(italian[2]), Number(italian[1])]
+    : [Number(iso![1]), Number(iso![2]), Number(iso![3])];
+  const start = new Date(year, month - 1, day, startClock[0], startClock[1]);
+  if (Number.isNaN(start.getTime())) return null;
+
+  const endClock = parseClock(schedule.jobEndTime);
+  if (!endClock) return { start, end: new Date(start.getTime() + DEFAULT_HIRE_DURATION_MS) };
+  const end = new Date(year, month - 1, day, endClock[0], endClock[1]);
+  if (end.getTime() <= start.getTime()) end.setDate(end.getDate() + 1);
+  return { start, end };
+};
+
+/** Vero se i due incarichi si sovrappongono nel tempo (estremi esclusi). */
+export const schedulesOverlap = (a: HireSchedule, b: HireSchedule): boolean => {
+  const first = getHireInterval(a);
+  const second = getHireInterval(b);
+  if (!first || !second) return false;
+  return first.start < second.end && second.start < first.end;
+};
+
+export const describeSchedule = (schedule: HireSchedule): string =>
+  [schedule.jobDate, [schedule.jobStartTime, schedule.jobEndTime].filter((v) => v).join('-')]
+    .filter((v) => v)
+    .join(' · ');
+
+export const describeScheduleConflicts = (conflicts: ScheduleConflict[]): string =>
+  conflicts.map((conflict) => `${conflict.jobTitle} (${describeSchedule(conflict)})`).join(', ');
+
+/**
+ * Incarichi già confermati del lavoratore che si sovrappongono all'orario
+ * dato. excludeHireId esclude la proposta che si sta valutando.
+ */
+export async function findScheduleConflicts(
+  schedule: HireSchedule,
+  { excludeHireId, excludeJobId }: { excludeHireId?: string; excludeJobId?: string } = {}
+): Promise<ScheduleConflict[]> {
+  const uid = await ensureSignedIn();
+  if (!getHireInterval(schedule)) return [];
+  const snap = await getDocs(
+    query(collection(db, 'hires'), where('workerUid', '==', uid), where('status', '==', 'confirmed'))
+  );
+  return snap.docs
+    .filter((hireDoc) => hireDoc.id !== excludeHireId && hireDoc.data().jobId !== excludeJobId)
+    .map((hireDoc) => {
+      const data = hireDoc.data();
+      return {
+        hireId: hireDoc.id,
+        jobId: typeof data.jobId === 'string' ? data.jobId : '',
+        jobTitle: typeof data.jobTitle === 'string' ? data.jobTitle : 'Incarico',
+        jobDate: typeof data.jobDate === 'string' ? data.jobDate : undefined,
+        jobStartTime: typeof data.jobStartTime === 'string' ? data.jobStartTime : undefined,
+        jobEndTime: typeof data.jobEndTime === 'string' ? data.jobEndTime : undefined,
+      };
+    })
+    .filter((conflict) => schedulesOverlap(schedule, conflict));
+}
+
+/** Rifiuta con SCHEDULE_CONFLICT_CODE se l'orario si sovrappone a un incarico confermato. */
+export async function assertNoScheduleConflicts(
+  schedule: HireSchedule,
+  options: { excludeHireId?: string; excludeJobId?: string } = {}
+) {
+  const conflicts = await findScheduleConflicts(schedule, options);
+  if (conflicts.length > 0) {
+    throw buildAuthError(
+      SCHEDULE_CONFLICT_CODE,
+      `L'orario si sovrappone a un incarico già confermato: ${describeScheduleConflicts(conflicts)}.`
+    );
+  }
+}
+
 export async function createHireProposal({
   jobId,
   workerUid,
@@ -899,21 +3262,35 @@ export async function createHireProposal({
       console.log('[HIRE_DEBUG] createHireProposal not authorized: missing owner uid fields');
       throw new Error('Incarico senza proprietario valido');
     }
-    if (ownerUid !== employerUid) {
+    if (ownerUid !== employerUid && !(await canManageBusinessJobs(job.businessId, employerUid, tx))) {
       console.log('[HIRE_DEBUG] createHireProposal not authorized: owner mismatch', {
         ownerUid,
         authUid: employerUid,
+        businessId: job.businessId ?? null,
       });
       throw new Error('Non autorizzato a proporre per questo incarico');
     }
 
-    const currentStatus =
-      typeof job.hireStatus === 'string' && job.hireStatus
-        ? job.hireStatus
-        : 'open';
-    if (currentStatus !== 'open') {
-      console.log('[HIRE_DEBUG] createHireProposal not authorized: hireStatus not open', currentStatus);
-      throw new Error('Questo incarico ha gia una proposta attiva.');
+    const jobStatus = getJobStatus(job);
+    if (jobStatus !== 'published') {
+      throw new Error(`Incarico ${JOB_STATUS_LABELS[jobStatus].toLowerCase()}: non puoi inviare proposte.`);
+    }
+
+    const slots = getHireSlots(job);
+    const positions = getJobPositions(job);
+    if (Object.keys(slots).length >= positions) {
+      throw new Error(
+        positions > 1
+          ? 'Tutti i posti di questo incarico sono gia coperti o proposti.'
+          : 'Questo incarico ha gia una proposta attiva.'
+      );
+    }
+    if (Object.values(slots).some((slot) => slot.workerUid === workerUid)) {
+      throw new Error('Hai gia una proposta attiva per questo collaboratore.');
+    }
+    // Withdrawn, rejected or already proposed applications cannot receive a new proposal.
+    if (appSnap?.exists() && (appSnap.data() as Record<string, any>).status !== 'applied') {
+      throw new Error('La candidatura non e piu in attesa.');
     }
 
     const jobDate =
@@ -938,6 +3315,7 @@ export async function createHireProposal({
     // Writes must happen after all reads above.
     tx.set(hireRef, {
       jobId,
+      businessId: typeof job.businessId === 'string' ? job.businessId : null,
       applicationId: applicationId ?? null,
       employerUid,
       workerUid,
@@ -960,13 +3338,13 @@ export async function createHireProposal({
     });
 
     const jobUpdates: Record<string, any> = {
-      hireStatus: 'proposed',
-      activeHireId: hireRef.id,
-      hiredWorkerUid: null,
+      ...buildSlotUpdate(job, { ...slots, [hireRef.id]: { workerUid, status: 'proposed' } }),
+      // Single-position jobs keep the legacy pointer for older clients.
+      ...(positions === 1 ? { activeHireId: hireRef.id, hiredWorkerUid: null } : {}),
       updatedAt: serverTimestamp(),
     };
 
-    if (!job?.ownerUid && ownerUid) {
+    if (!job?.ownerUid && ownerUid === employerUid) {
       console.log('[HIRE_DEBUG] createHireProposal normalizing ownerUid on job', ownerUid);
       jobUpdates.ownerUid = ownerUid;
     }
@@ -997,6 +3375,15 @@ export async function acceptHire(hireId: string) {
   console.log('[HIRE_DEBUG] acceptHire', { hireId, uid, authUser: auth.currentUser });
   const hireRef = doc(db, 'hires', hireId);
 
+  // Transactions cannot run queries, so overlaps with confirmed hires are checked first.
+  const pendingHire = (await getDoc(hireRef)).data();
+  if (pendingHire) {
+    await assertNoScheduleConflicts(pendingHire, {
+      excludeHireId: hireId,
+      excludeJobId: typeof pendingHire.jobId === 'string' ? pendingHire.jobId : undefined,
+    });
+  }
+
   await runTransaction(db, async (tx) => {
     const hireSnap = await tx.get(hireRef);
     if (!hireSnap.exists()) {
@@ -1015,30 +3402,39 @@ export async function acceptHire(hireId: string) {
       throw new Error('La proposta non e valida');
     }
 
+    const jobRef = typeof hire.jobId === 'string' ? doc(db, 'jobs', hire.jobId) : null;
+    const jobSnap = jobRef ? await tx.get(jobRef) : null;
+    const appRef =
+      typeof hire.applicationId === 'string' && hire.applicationId
+        ? doc(db, 'applications', hire.applicationId)
+        : null;
+    const appSnap = appRef ? await tx.get(appRef) : null;
+
+    // Writes must happen after all reads above.
     tx.update(hireRef, {
       status: 'confirmed',
       updatedAt: serverTimestamp(),
     });
 
-    if (typeof hire.jobId === 'string') {
-      const jobRef = doc(db, 'jobs', hire.jobId);
+    if (jobRef && jobSnap?.exists()) {
+      const job = jobSnap.data() as Record<string, any>;
+      const slots = getHireSlots(job);
+      slots[hireId] = { workerUid: hire.workerUid ?? uid, status: 'confirmed' };
       tx.update(jobRef, {
-        hireStatus: 'confirmed',
-        activeHireId: hireId,
-        hiredWorkerUid: hire.workerUid ?? null,
+        ...buildSlotUpdate(job, slots),
+        ...(getJobPositions(job) === 1
+          ? { activeHireId: hireId, hiredWorkerUid: hire.workerUid ?? null }
+          : {}),
         updatedAt: serverTimestamp(),
       });
     }
 
-    if (typeof hire.applicationId === 'string' && hire.applicationId) {
-      const appRef = doc(db, 'applications', hire.applicationId);
-      const appSnap = await tx.get(appRef);
-      if (appSnap.exists()) {
-        tx.update(appRef, {
-          status: 'hiredConfirmed',
-          updatedAt: serverTimestamp(),
-        });
-      }
+    // The rules only let the worker answer a proposal still pending on the application.
+    if (appRef && appSnap?.exists() && appSnap.data().status === 'hiredProposed') {
+      tx.update(appRef, {
+        status: 'hiredConfirmed',
+        updatedAt: serverTimestamp(),
+      });
     }
   });
 
@@ -1068,31 +3464,37 @@ export async function rejectHire(hireId: string) {
       throw new Error('La proposta non e valida');
     }
 
+    const appRef =
+      typeof hire.applicationId === 'string' && hire.applicationId
+        ? doc(db, 'applications', hire.applicationId)
+        : null;
+    const appSnap = appRef ? await tx.get(appRef) : null;
+    const jobRef = typeof hire.jobId === 'string' ? doc(db, 'jobs', hire.jobId) : null;
+    const jobSnap = jobRef ? await tx.get(jobRef) : null;
+
+    // Writes must happen after all reads above.
     tx.update(hireRef, {
       status: 'rejected',
       updatedAt: serverTimestamp(),
     });
 
-    if (typeof hire.applicationId === 'string' && hire.applicationId) {
-      const appRef = doc(db, 'applications', hire.applicationId);
-      const appSnap = await tx.get(appRef);
-      if (appSnap.exists()) {
-        tx.update(appRef, {
-          status: 'rejected',
-          updatedAt: serverTimestamp(),
-        });
-      }
+    if (appRef && appSnap?.exists() && appSnap.data().status === 'hiredProposed') {
+      tx.update(appRef, {
+        status: 'rejected',
+        updatedAt: serverTimestamp(),
+      });
     }
 
-    if (typeof hire.jobId === 'string') {
-      const jobRef = doc(db, 'jobs', hire.jobId);
-      const jobSnap = await tx.get(jobRef);
-      const job = jobSnap.data() as Record<string, any> | undefined;
-      if (!job || job.activeHireId === hireId) {
+    if (jobRef && jobSnap?.exists()) {
+      const job = jobSnap.data() as Record<string, any>;
+      const slots = getHireSlots(job);
+      if (slots[hireId]) {
+        delete slots[hireId];
         tx.update(jobRef, {
-          hireStatus: 'open',
-          activeHireId: deleteField(),
-          hiredWorkerUid: deleteField(),
+          ...buildSlotUpdate(job, slots),
+          ...(job.activeHireId === hireId
+            ? { activeHireId: deleteField(), hiredWorkerUid: deleteField() }
+            : {}),
           updatedAt: serverTimestamp(),
         });
       }
@@ -1113,10 +3515,15 @@ export async function completeHire(hireId: string) {
       throw new Error('Assunzione non trovata');
     }
     const hire = hireSnap.data() as Record<string, any>;
-    if (hire.employerUid && hire.employerUid !== uid) {
+    if (
+      hire.employerUid &&
+      hire.employerUid !== uid &&
+      !(await canManageBusinessJobs(hire.businessId, uid, tx))
+    ) {
       console.log('[HIRE_DEBUG] completeHire not authorized: employer mismatch', {
         uid,
         employerUid: hire.employerUid,
+        businessId: hire.businessId ?? null,
       });
       throw new Error('Non autorizzato a completare questo incarico');
     }
@@ -1125,16 +3532,34 @@ export async function completeHire(hireId: string) {
       throw new Error('L\'incarico non e in stato confermato');
     }
 
+    const jobRef = typeof hire.jobId === 'string' ? doc(db, 'jobs', hire.jobId) : null;
+    const jobSnap = jobRef ? await tx.get(jobRef) : null;
+
     tx.update(hireRef, {
       status: 'completed',
       updatedAt: serverTimestamp(),
     });
 
-    if (typeof hire.jobId === 'string') {
-      const jobRef = doc(db, 'jobs', hire.jobId);
+    if (typeof hire.workerProfileId === 'string' && hire.workerProfileId) {
+      tx.set(
+        doc(db, 'workerStats', hire.workerProfileId),
+        {
+          profileId: hire.workerProfileId,
+          completedHires: increment(1),
+          lastCompletedHireId: hireId,
+          updatedAt: serverTimestamp(),
+        },
+        { merge: true }
+      );
+    }
+
+    if (jobRef && jobSnap?.exists()) {
+      const job = jobSnap.data() as Record<string, any>;
+      const slots = getHireSlots(job);
+      slots[hireId] = { workerUid: hire.workerUid ?? '', status: 'completed' };
       tx.update(jobRef, {
-        hireStatus: 'completed',
-        activeHireId: hireId,
+        ...buildSlotUpdate(job, slots),
+        ...(getJobPositions(job) === 1 ? { activeHireId: hireId } : {}),
         updatedAt: serverTimestamp(),
       });
     }
@@ -1143,6 +3568,267 @@ export async function completeHire(hireId: string) {
   console.log('[HIRE_DEBUG] completeHire success', { hireId, uid });
 }
 
+/**
+ * Incarichi completati dal lavoratore con qualsiasi datore, contati da
+ * completeHire (quelli precedenti da scripts/backfill-worker-stats.js).
+ */
+export async function getCompletedHiresCount(workerProfileId: string): Promise<number> {
+  const snap = await getDoc(doc(db, 'workerStats', workerProfileId));
+  const value = Number(snap.data()?.completedHires ?? 0);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+// -----------------------
+// Job editing
+// -----------------------
+
+export type JobChangeField = 'orario' | 'compenso' | 'indirizzo' | 'descrizione' | 'tipo';
+
+export type JobChange = {
+  field: JobChangeField;
+  before: string;
+  after: string;
+};
+
+export type JobPostingChanges = {
+  data?: string;
+  oraInizio?: string;
+  oraFine?: string;
+  indirizzo?: {
+    via: string;
+    civico: string;
+    citta: string;
+    provincia: string;
+    cap: string;
+  };
+  location?: { lat: number; lng: number };
+  compensoOrario?: number;
+  descrizione?: string;
+  tipo?: { categoria: string; altroDettaglio?: string };
+};
+
+export type JobPostingUpdateResult = {
+  changes: JobChange[];
+  /** confirmed workers asked to confirm again */
+  reconfirmations: number;
+};
+
+// A confirmed worker agreed to a time and a rate: changing either needs a new yes.
+const RECONFIRM_FIELDS: JobChangeField[] = ['orario', 'compenso'];
+
+const JOB_CHANGE_DESCRIBERS: Record<JobChangeField, (job: Record<string, any>) => string> = {
+  orario: (job) => `${job.data ?? ''} ${job.oraInizio ?? ''}-${job.oraFine ?? ''}`.trim(),
+  compenso: (job) => `€ ${Number(job.compensoOrario ?? 0).toFixed(2).replace('.', ',')}/ora`,
+  indirizzo: (job) => buildJobLocation(job),
+  descrizione: (job) => (typeof job.descrizione === 'string' ? job.descrizione : ''),
+  tipo: (job) => buildJobTitle(job),
+};
+
+const JOB_CHANGE_LABELS: Record<JobChangeField, string> = {
+  orario: 'orario',
+  compenso: 'compenso',
+  indirizzo: 'indirizzo',
+  descrizione: 'descrizione',
+  tipo: 'categoria',
+};
+
+/** Testo breve per avvisi e notifiche, es. "orario e compenso". */
+export const describeJobChangeFields = (fields: JobChangeField[]): string => {
+  const labels = fields.map((field) => JOB_CHANGE_LABELS[field]);
+  if (labels.length <= 1) return labels[0] ?? '';
+  return `${labels.slice(0, -1).join(', ')} e ${labels[labels.length - 1]}`;
+};
+
+/** Inizio dell'incarico da data (GG/MM/AAAA) e ora di inizio. */
+export const buildJobStartAt = (data: unknown, oraInizio: unknown): Timestamp | null => {
+  if (typeof data !== 'string' || typeof oraInizio !== 'string') return null;
+  const date = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(data.trim());
+  const time = /^(\d{1,2}):(\d{2})$/.exec(oraInizio.trim());
+  if (!date || !time) return null;
+  const start = new Date(
+    Number(date[3]),
+    Number(date[2]) - 1,
+    Number(date[1]),
+    Number(time[1]),
+    Number(time[2])
+  );
+  return Number.isNaN(start.getTime()) ? null : Timestamp.fromDate(start);
+};
+
+const pickJobPostingUpdate = (changes: JobPostingChanges): Record<string, any> => {
+  const update: Record<string, any> = {};
+  (['data', 'oraInizio', 'oraFine', 'descrizione'] as const).forEach((key) => {
+    const value = changes[key];
+    if (typeof value === 'string') update[key] = value.trim();
+  });
+  if (typeof changes.compensoOrario === 'number' && Number.isFinite(changes.compensoOrario) && changes.compensoOrario > 0) {
+    update.compensoOrario = changes.compensoOrario;
+  }
+  if (changes.indirizzo) update.indirizzo = changes.indirizzo;
+  if (changes.location) update.location = changes.location;
+  if (changes.tipo) {
+    update.tipo =
+      changes.tipo.categoria === 'altro'
+        ? { categoria: 'altro', altroDettaglio: (changes.tipo.altroDettaglio ?? '').trim() }
+        : { categoria: changes.tipo.categoria };
+  }
+  return update;
+};
+
+/**
+ * Modifica un incarico pubblicato senza perdere candidature e assunzioni:
+ * registra le modifiche in jobs/{id}/changes, aggiorna i dati copiati su
+ * hires e applications e chiede una nuova conferma ai lavoratori assunti
+ * quando cambiano orario o compenso.
+ */
+export async function updateJobPosting(
+  jobId: string,
+  changes: JobPostingChanges,
+  editorProfileId: string
+): Promise<JobPostingUpdateResult> {
+  const uid = await ensureSignedIn();
+  const jobRef = doc(db, 'jobs', jobId);
+  const jobSnap = await getDoc(jobRef);
+  if (!jobSnap.exists()) {
+    throw new Error('Incarico non trovato');
+  }
+  const job = jobSnap.data() as Record<string, any>;
+  if (getJobOwnerUid(job) !== uid && !(await canManageBusinessJobs(job.businessId, uid))) {
+    throw new Error('Non autorizzato a modificare questo incarico');
+  }
+
+  const update = pickJobPostingUpdate(changes);
+  const next = { ...job, ...update };
+  const jobChanges: JobChange[] = (Object.keys(JOB_CHANGE_DESCRIBERS) as JobChangeField[])
+    .map((field) => ({
+      field,
+      before: JOB_CHANGE_DESCRIBERS[field](job),
+      after: JOB_CHANGE_DESCRIBERS[field](next),
+    }))
+    .filter((change) => change.before !== change.after);
+  if (jobChanges.length === 0) {
+    return { changes: [], reconfirmations: 0 };
+  }
+
+  const fields = jobChanges.map((change) => change.field);
+  const needsReconfirm = fields.some((field) => RECONFIRM_FIELDS.includes(field));
+  const startAt = buildJobStartAt(next.data, next.oraInizio);
+
+  const [hiresSnap, applicationsSnap] = await Promise.all([
+    getDocs(query(collection(db, 'hires'), where('jobId', '==', jobId))),
+    getDocs(query(collection(db, 'applications'), where('jobId', '==', jobId))),
+  ]);
+  const activeHires = hiresSnap.docs.filter((hireDoc) =>
+    ['proposed', 'confirmed'].includes(hireDoc.data().status)
+  );
+  const reconfirmIds = needsReconfirm
+    ? activeHires.filter((hireDoc) => hireDoc.data().status === 'confirmed').map((hireDoc) => hireDoc.id)
+    : [];
+
+  const slots = getHireSlots(job);
+  reconfirmIds.forEach((hireId) => {
+    if (slots[hireId]) slots[hireId] = { ...slots[hireId], status: 'proposed' };
+  });
+
+  const jobChange = {
+    fields,
+    changes: jobChanges,
+    changedByUid: uid,
+    changedAt: serverTimestamp(),
+  };
+
+  const writes: ((batch: ReturnType<typeof writeBatch>) => void)[] = [
+    (batch) =>
+      batch.update(jobRef, {
+        ...update,
+        ...(startAt ? { startAt } : {}),
+        ...(update.location ? buildGeohashField(update.location) : {}),
+        ...(update.indirizzo ? buildPlaceSearchFields(update.indirizzo) : {}),
+        ...(reconfirmIds.length > 0 ? buildSlotUpdate(job, slots) : {}),
+        lastChange: jobChange,
+        updatedAt: serverTimestamp(),
+      }),
+    (batch) =>
+      batch.set(doc(collection(jobRef, 'changes')), {
+        ...jobChange,
+        reconfirmHireIds: reconfirmIds,
+        createdAt: serverTimestamp(),
+      }),
+    ...activeHires.map((hireDoc) => (batch: ReturnType<typeof writeBatch>) => {
+      const reconfirm = reconfirmIds.includes(hireDoc.id);
+      batch.update(hireDoc.ref, {
+        jobTitle: buildJobTitle(next),
+        jobDate: typeof next.data === 'string' ? next.data : '',
+        jobStartTime: typeof next.oraInizio === 'string' ? next.oraInizio : '',
+        jobEndTime: typeof next.oraFine === 'string' ? next.oraFine : '',
+        jobLocationText: buildJobLocation(next),
+        jobPayAmount: Number(next.compensoOrario ?? 0),
+        jobChange: { ...jobChange, reconfirm },
+        ...(reconfirm ? { status: 'proposed' } : {}),
+        updatedAt: serverTimestamp(),
+      });
+    }),
+    ...applicationsSnap.docs.map((appDoc) => (batch: ReturnType<typeof writeBatch>) => {
+      const app = appDoc.data();
+      batch.update(appDoc.ref, {
+        jobSnapshot: { ...(app.jobSnapshot ?? {}), ...update },
+        jobChange,
+        ...(reconfirmIds.includes(app.hireId) ? { status: 'hiredProposed' } : {}),
+        updatedAt: serverTimestamp(),
+      });
+    }),
+  ];
+
+  const chunkSize = 400;
+  for (let i = 0; i < writes.length; i += chunkSize) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + chunkSize).forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  // The notices come from whoever made the edit, so a team manager writes as itself.
+  await notifyJobChange(jobId, next, fields, {
+    employerId: editorProfileId,
+    workerIds: [
+      ...applicationsSnap.docs
+        .filter((appDoc) => !['withdrawn', 'rejected'].includes(appDoc.data().status))
+        .map((appDoc) => appDoc.data().applicantProfileId),
+      ...activeHires.map((hireDoc) => hireDoc.data().workerProfileId),
+    ],
+    reconfirmWorkerIds: activeHires
+      .filter((hireDoc) => reconfirmIds.includes(hireDoc.id))
+      .map((hireDoc) => hireDoc.data().workerProfileId),
+  });
+
+  return { changes: jobChanges, reconfirmations: reconfirmIds.length };
+}
+
+// Non-blocking, as in closeApplication: the edit is saved, the chat message only
+// tells candidates and hired workers what changed.
+const notifyJobChange = async (
+  jobId: string,
+  job: Record<string, any>,
+  fields: JobChangeField[],
+  recipients: { employerId: string; workerIds: unknown[]; reconfirmWorkerIds: unknown[] }
+) => {
+  if (!recipients.employerId) return;
+  const jobLabel = `"${buildJobTitle(job)}"${typeof job.data === 'string' && job.data ? ` del ${job.data}` : ''}`;
+  const workerIds = new Set(
+    recipients.workerIds.filter((id): id is string => typeof id === 'string' && id.length > 0)
+  );
+  for (const workerId of workerIds) {
+    const text = recipients.reconfirmWorkerIds.includes(workerId)
+      ? `Ho modificato ${describeJobChangeFields(fields)} dell'incarico ${jobLabel}: conferma di nuovo dalle proposte per mantenerlo.`
+      : `Ho aggiornato ${describeJobChangeFields(fields)} dell'incarico ${jobLabel}.`;
+    try {
+      const chat = await getOrCreateChat(jobId, recipients.employerId, workerId);
+      await sendMessage(chat.id, recipients.employerId, text);
+    } catch (e) {
+      console.warn('Failed to notify job change:', e);
+    }
+  }
+};
+
 // -----------------------
 // Chats (employer <-> worker per assignment)
 // -----------------------
@@ -1302,3 +3988,481 @@ export async function markChatOpened(chatId: string, role: 'datore' | 'lavorator
     console.warn('Failed to mark chat opened', e);
   }
 }
+
+// -----------------------
+// Account (export / deletion)
+// -----------------------
+
+export type PersonalDataExport = {
+  exportedAt: string;
+  profileId: string;
+  profile: Record<string, unknown>;
+  jobs: Record<string, unknown>[];
+  applications: Record<string, unknown>[];
+  hires: Record<string, unknown>[];
+  chats: Record<string, unknown>[];
+  loginAudit: Record<string, unknown>[];
+  sessions: Record<string, unknown>[];
+  businesses: Record<string, unknown>[];
+  savedSearches: Record<string, unknown>[];
+  jobAlerts: Record<string, unknown>[];
+  workerStats: Record<string, unknown> | null;
+};
+
+const CREDENTIAL_FIELDS = ['passwordHash', 'password'];
+
+// Firestore timestamps become ISO strings so the bundle is plain JSON.
+const toExportValue = (value: unknown): unknown => {
+  const date = mapTimestamp(value);
+  if (date) {
+    return date.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toExportValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, toExportValue(entry)])
+    );
+  }
+  return value;
+};
+
+const toExportDoc = (docSnap: { id: string; data: () => Record<string, any> | undefined }) => ({
+  id: docSnap.id,
+  ...(toExportValue(docSnap.data() ?? {}) as Record<string, unknown>),
+});
+
+const loadOwnProfile = async (profileId: string) => {
+  const uid = await ensureSignedIn();
+  const snap = await getDoc(doc(db, 'profiles', profileId));
+  if (!snap.exists()) {
+    throw buildAuthError('auth/profile-not-found', 'Profilo non trovato');
+  }
+  const data = snap.data() as Record<string, any>;
+  if (data.uid !== uid) {
+    throw buildAuthError('profile/not-owner', 'Il profilo appartiene a un altro account');
+  }
+  return { uid, ref: snap.ref, data };
+};
+
+const getPartyHires = async (uid: string, profileId: string) => {
+  const [asEmployer, asWorker] = await Promise.all([
+    getDocs(query(collection(db, 'hires'), where('employerUid', '==', uid))),
+    getDocs(query(collection(db, 'hires'), where('workerUid', '==', uid))),
+  ]);
+  return {
+    employer: asEmployer.docs.filter((d) => d.data().employerProfileId === profileId),
+    worker: asWorker.docs.filter((d) => d.data().workerProfileId === profileId),
+  };
+};
+
+const getPartyChats = async (profileId: string) => {
+  const [asEmployer, asWorker] = await Promise.all([
+    getDocs(query(collection(db, 'chats'), where('employerId', '==', profileId))),
+    getDocs(query(collection(db, 'chats'), where('workerId', '==', profileId))),
+  ]);
+  return { employer: asEmployer.docs, worker: asWorker.docs };
+};
+
+/**
+ * Raccoglie tutti i dati salvati per il profilo (profilo, incarichi,
+ * candidature, assunzioni, chat con messaggi) in un bundle JSON.
+ */
+export async function exportMyData(profileId: string): Promise<PersonalDataExport> {
+  const { uid, data } = await loadOwnProfile(profileId);
+
+  const profile = toExportValue(data) as Record<string, unknown>;
+  CREDENTIAL_FIELDS.forEach((field) => delete profile[field]);
+
+  const jobsSnap = await getDocs(
+    query(collection(db, 'jobs'), where('ownerProfileId', '==', profileId))
+  );
+
+  // Applications received are listed per job, the way the rules authorise them.
+  const [asApplicant, ...received] = await Promise.all([
+    getDocs(query(collection(db, 'applications'), where('applicantUid', '==', uid))),
+    ...jobsSnap.docs.map((jobDoc) =>
+      getDocs(query(collection(db, 'applications'), where('jobId', '==', jobDoc.id)))
+    ),
+  ]);
+  const applications = new Map<string, Record<string, unknown>>();
+  asApplicant.docs
+    .filter((d) => d.data().applicantProfileId === profileId)
+    .forEach((d) => applications.set(d.id, toExportDoc(d)));
+  received.forEach((snap) => snap.docs.forEach((d) => applications.set(d.id, toExportDoc(d))));
+
+  const hires = await getPartyHires(uid, profileId);
+  const chats = await getPartyChats(profileId);
+  const chatExports: Record<string, unknown>[] = [];
+  for (const chatDoc of [...chats.employer, ...chats.worker]) {
+    const messagesSnap = await getDocs(
+      query(collection(chatDoc.ref, 'messages'), orderBy('createdAt', 'asc'))
+    );
+    chatExports.push({ ...toExportDoc(chatDoc), messages: messagesSnap.docs.map(toExportDoc) });
+  }
+
+  const auditSnap = await getDocs(
+    query(collection(db, 'loginAudit'), where('profileId', '==', profileId))
+  );
+
+  const sessionsSnap = await getDocs(
+    query(collection(db, 'sessions'), where('uid', '==', uid))
+  );
+  const sessions = sessionsSnap.docs
+    .filter((d) => d.data().profileId === profileId)
+    .map((d) => {
+      const { tokenHash: _tokenHash, ...session } = toExportDoc(d) as Record<string, unknown>;
+      return session;
+    });
+
+  const businessesSnap = await getDocs(
+    query(collection(db, 'businesses'), where('memberUids', 'array-contains', uid))
+  );
+
+  const [savedSearchesSnap, jobAlertsSnap, workerStatsSnap] = await Promise.all([
+    getDocs(query(collection(db, 'savedSearches'), where('uid', '==', uid))),
+    getDocs(query(collection(db, 'jobAlerts'), where('uid', '==', uid))),
+    getDoc(doc(db, 'workerStats', profileId)),
+  ]);
+  const ownedByProfile = (d: { data: () => Record<string, any> }) => d.data().profileId === profileId;
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profileId,
+    profile,
+    jobs: jobsSnap.docs.map(toExportDoc),
+    applications: Array.from(applications.values()),
+    hires: [...hires.employer, ...hires.worker].map(toExportDoc),
+    chats: chatExports,
+    loginAudit: auditSnap.docs.map(toExportDoc),
+    sessions,
+    businesses: businessesSnap.docs.map(toExportDoc),
+    savedSearches: savedSearchesSnap.docs.filter(ownedByProfile).map(toExportDoc),
+    jobAlerts: jobAlertsSnap.docs.filter(ownedByProfile).map(toExportDoc),
+    workerStats: workerStatsSnap.exists() ? toExportDoc(workerStatsSnap) : null,
+  };
+}
+
+/**
+ * Elimina definitivamente il profilo e l'account Firebase Auth collegato.
+ * Candidature e incarichi del profilo vengono cancellati; assunzioni e chat
+ * condivise restano alla controparte, ma senza riferimenti al profilo.
+ */
+export async function deleteAccount({
+  profileId,
+  password,
+}: {
+  profileId: string;
+  password: string;
+}) {
+  const { data } = await loadOwnProfile(profileId);
+  // Also gives deleteUser() the recent login it requires.
+  const uid = await signInWithProfilePassword(profileId, data, password);
+  if (!uid) {
+    throw buildAuthError('auth/invalid-password', 'Password non valida');
+  }
+
+  // Chats: drop the profile's messages, then detach it from the conversation.
+  const chats = await getPartyChats(profileId);
+  const chatSides: ['employer' | 'worker', typeof chats.employer][] = [
+    ['employer', chats.employer],
+    ['worker', chats.worker],
+  ];
+  for (const [side, chatDocs] of chatSides) {
+    for (const chatDoc of chatDocs) {
+      const messagesSnap = await getDocs(
+        query(collection(chatDoc.ref, 'messages'), where('senderId', '==', profileId))
+      );
+      await deleteQueryDocs(messagesSnap.docs);
+      const chat = chatDoc.data();
+      await updateDoc(chatDoc.ref, {
+        [`${side}Id`]: '',
+        [`${side}Deleted`]: true,
+        ...(chat.lastSenderId === profileId ? { lastMessage: '', lastSenderId: '' } : {}),
+        updatedAt: serverTimestamp(),
+      });
+    }
+  }
+
+  // Hires: the counterpart keeps the record, open ones are cancelled.
+  const hires = await getPartyHires(uid, profileId);
+  const hireSides: ['employer' | 'worker', typeof hires.employer][] = [
+    ['employer', hires.employer],
+    ['worker', hires.worker],
+  ];
+  for (const [side, hireDocs] of hireSides) {
+    for (const hireDoc of hireDocs) {
+      const hire = hireDoc.data();
+      const isOpen = hire.status === 'proposed' || hire.status === 'confirmed';
+      const batch = writeBatch(db);
+      if (isOpen && side === 'worker' && typeof hire.jobId === 'string' && hire.jobId) {
+        const jobSnap = await getDoc(doc(db, 'jobs', hire.jobId));
+        const job = jobSnap.data();
+        const slots = getHireSlots(job);
+        if (job && slots[hireDoc.id]) {
+          delete slots[hireDoc.id];
+          batch.update(jobSnap.ref, {
+            ...buildSlotUpdate(job, slots),
+            ...(job.activeHireId === hireDoc.id
+              ? { activeHireId: deleteField(), hiredWorkerUid: deleteField() }
+              : {}),
+            updatedAt: serverTimestamp(),
+          });
+        }
+      }
+      batch.update(hireDoc.ref, {
+        [`${side}ProfileId`]: null,
+        [`${side}Uid`]: null,
+        [`${side}Deleted`]: true,
+        ...(isOpen ? { status: 'cancelled' } : {}),
+        updatedAt: serverTimestamp(),
+      });
+      await batch.commit();
+    }
+  }
+
+  // Applications sent by the profile.
+  const applicationsSnap = await getDocs(
+    query(collection(db, 'applications'), where('applicantUid', '==', uid))
+  );
+  const ownApplications = applicationsSnap.docs.filter(
+    (d) => d.data().applicantProfileId === profileId
+  );
+  for (const appDoc of ownApplications) {
+    const jobId = appDoc.data().jobId;
+    if (typeof jobId !== 'string' || !jobId) continue;
+    try {
+      await updateDoc(doc(db, 'jobs', jobId), {
+        applicants: arrayRemove(profileId),
+        updatedAt: serverTimestamp(),
+      });
+    } catch (e) {
+      // The job may already be gone; the application is deleted anyway.
+      console.warn('Failed to update job applicants array:', e);
+    }
+  }
+  await deleteQueryDocs(ownApplications);
+
+  // Jobs published by the profile, with their applications.
+  const jobsSnap = await getDocs(
+    query(collection(db, 'jobs'), where('ownerProfileId', '==', profileId))
+  );
+  for (const jobDoc of jobsSnap.docs) {
+    if (getJobOwnerUid(jobDoc.data()) !== uid) continue;
+    const jobApplications = await getDocs(
+      query(collection(db, 'applications'), where('jobId', '==', jobDoc.id))
+    );
+    const jobChanges = await getDocs(collection(jobDoc.ref, 'changes'));
+    const candidateNotes = await getDocs(collection(jobDoc.ref, 'candidateNotes'));
+    await deleteQueryDocs([...jobApplications.docs, ...jobChanges.docs, ...candidateNotes.docs]);
+    await deleteDoc(jobDoc.ref);
+  }
+
+  // Businesses: an owner closes them, a member leaves the team.
+  const businessesSnap = await getDocs(
+    query(collection(db, 'businesses'), where('memberUids', 'array-contains', uid))
+  );
+  for (const businessDoc of businessesSnap.docs) {
+    const business = businessDoc.data();
+    if (business.ownerProfileId === profileId) {
+      const membersSnap = await getDocs(collection(businessDoc.ref, 'members'));
+      const locationsSnap = await getDocs(collection(businessDoc.ref, 'locations'));
+      const templatesSnap = await getDocs(collection(businessDoc.ref, 'jobTemplates'));
+      const invitesSnap = await getDocs(
+        query(collection(db, 'businessInvites'), where('businessId', '==', businessDoc.id))
+      );
+      await deleteQueryDocs([
+        ...membersSnap.docs,
+        ...locationsSnap.docs,
+        ...templatesSnap.docs,
+        ...invitesSnap.docs,
+      ]);
+      await deleteDoc(businessDoc.ref);
+    } else {
+      await removeBusinessMember(businessDoc.id, {
+        profileId,
+        uid,
+        role: isBusinessRole(business.roles?.[uid]) ? business.roles[uid] : 'viewer',
+        displayName: '',
+      });
+    }
+  }
+
+  const auditSnap = await getDocs(
+    query(collection(db, 'loginAudit'), where('profileId', '==', profileId))
+  );
+  await deleteQueryDocs(auditSnap.docs);
+  await deleteDoc(doc(db, 'loginAttempts', profileId));
+
+  const sessionsSnap = await getDocs(
+    query(collection(db, 'sessions'), where('uid', '==', uid))
+  );
+  await deleteQueryDocs(sessionsSnap.docs);
+
+  for (const collectionName of ['savedSearches', 'jobAlerts']) {
+    const ownSnap = await getDocs(
+      query(collection(db, collectionName), where('uid', '==', uid))
+    );
+    await deleteQueryDocs(ownSnap.docs.filter((d) => d.data().profileId === profileId));
+  }
+  await deleteDoc(doc(db, 'workerStats', profileId));
+  const handles: [LoginHandleKind, unknown][] = [
+    ['email', data.emailLower],
+    ['username', data.usernameLower],
+  ];
+  for (const [kind, value] of handles) {
+    if (typeof value !== 'string' || !value) continue;
+    const handle = await getLoginHandle(kind, value);
+    if (handle?.profileId === profileId) {
+      await deleteDoc(loginHandleRef(kind, value));
+    }
+  }
+
+  // The profile goes last: the rules above authorise through it.
+  await deleteDoc(doc(db, 'profiles', profileId));
+
+  const user = auth.currentUser;
+  if (user && user.uid === uid) {
+    try {
+      await deleteUser(user);
+    } catch (error) {
+      const code = (error as { code?: string }).code ?? '';
+      if (code === 'auth/requires-recent-login') {
+        throw buildAuthError(code, 'Accedi di nuovo per eliminare l\'account');
+      }
+      throw error;
+    }
+  }
+}
+
+// -----------------------
+// Sessions (one per device)
+// -----------------------
+
+export type StoredSession = {
+  id: string;
+  token: string;
+  /** epoch ms */
+  expiresAt: number;
+};
+
+export type SessionInfo = {
+  id: string;
+  deviceName: string;
+  platform: string;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date | null;
+};
+
+const DEFAULT_SESSION_TTL_DAYS = 30;
+const SESSION_TOKEN_BYTES = 32;
+
+// Overridable through expo.extra.sessionTtlDays in app.json.
+const getSessionTtlMs = (): number => {
+  const days = Number(Constants.expoConfig?.extra?.sessionTtlDays);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_SESSION_TTL_DAYS) * 24 * 60 * 60 * 1000;
+};
+
+const describeDevice = (): string => {
+  const name = Constants.deviceName;
+  if (name) return name;
+  if (Platform.OS === 'web') return 'Browser web';
+  return Platform.OS === 'ios' ? 'iPhone / iPad' : 'Android';
+};
+
+const isSessionActive = (data: Record<string, any> | undefined, token?: string): boolean => {
+  if (!data || data.revokedAt) return false;
+  const expiresAt = mapTimestamp(data.expiresAt);
+  if (!expiresAt || expiresAt.getTime() <= Date.now()) return false;
+  return token === undefined || data.tokenHash === hashToken(token);
+};
+
+/**
+ * Apre una sessione per il dispositivo corrente. Sul dispositivo resta
+ * solo il token; su Firestore ne viene salvato l'hash.
+ */
+export async function createSession(profileId: string): Promise<StoredSession> {
+  const uid = await ensureSignedIn();
+  const token = randomHex(SESSION_TOKEN_BYTES);
+  const expiresAt = Date.now() + getSessionTtlMs();
+  const ref = await addDoc(collection(db, 'sessions'), {
+    uid,
+    profileId,
+    tokenHash: hashToken(token),
+    deviceName: describeDevice(),
+    platform: Platform.OS,
+    createdAt: serverTimestamp(),
+    lastSeenAt: serverTimestamp(),
+    expiresAt: Timestamp.fromMillis(expiresAt),
+    revokedAt: null,
+  });
+  return { id: ref.id, token, expiresAt };
+}
+
+/** Verifica una sessione salvata sul dispositivo e ne aggiorna lastSeenAt. */
+export async function validateSession(session: StoredSession): Promise<boolean> {
+  const ref = doc(db, 'sessions', session.id);
+  const snap = await getDoc(ref);
+  if (!isSessionActive(snap.data(), session.token)) {
+    return false;
+  }
+  try {
+    await updateDoc(ref, { lastSeenAt: serverTimestamp() });
+  } catch (e) {
+    console.warn('Failed to refresh session:', e);
+  }
+  return true;
+}
+
+/**
+ * Notifica onEnded quando la sessione viene revocata, eliminata o scade
+ * lato server.
+ */
+export function subscribeToSession(session: StoredSession, onEnded: () => void) {
+  return onSnapshot(
+    doc(db, 'sessions', session.id),
+    (snap) => {
+      if (!isSessionActive(snap.data(), session.token)) {
+        onEnded();
+      }
+    },
+    (error) => {
+      // A session the account can no longer read is gone for this device too.
+      if (error.code === 'permission-denied') {
+        onEnded();
+        return;
+      }
+      console.warn('subscribeToSession error:', error);
+    }
+  );
+}
+
+/** Sessioni attive del profilo, dalla più recente. */
+export async function listSessions(profileId: string): Promise<SessionInfo[]> {
+  const uid = await ensureSignedIn();
+  const snap = await getDocs(query(collection(db, 'sessions'), where('uid', '==', uid)));
+  return snap.docs
+    .filter((d) => d.data().profileId === profileId && isSessionActive(d.data()))
+    .map((d) => {
+      const data = d.data();
+      return {
+        id: d.id,
+        deviceName: typeof data.deviceName === 'string' ? data.deviceName : 'Dispositivo',
+        platform: typeof data.platform === 'string' ? data.platform : '',
+        createdAt: mapTimestamp(data.createdAt),
+        lastSeenAt: mapTimestamp(data.lastSeenAt),
+        expiresAt: mapTimestamp(data.expiresAt),
+      };
+    })
+    .sort((a, b) => (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+}
+
+/** Revoca una sessione: il dispositivo collegato esegue il logout. */
+export async function revokeSession(sessionId: string) {
+  await updateDoc(doc(db, 'sessions', sessionId), {
+    revokedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+}
@@ -0,0 +1,120 @@
+// configuratore/lib/availability.ts
+
+/** fascia oraria "HH:MM"-"HH:MM"; la fine può essere "24:00" */
+export type AvailabilitySlot = { from: string; to: string };
+
+/** fascia che si ripete ogni settimana; day come Date.getDay() (0 = domenica) */
+export type WeeklyAvailabilitySlot = AvailabilitySlot & { day: number };
+
+/** sostituisce le fasce settimanali di una data; senza fasce = non disponibile */
+export type AvailabilityException = { date: string; slots: AvailabilitySlot[] };
+
+export type WorkerAvailability = {
+  weekly: WeeklyAvailabilitySlot[];
+  exceptions: AvailabilityException[];
+};
+
+export type AvailabilityMatch = 'available' | 'unavailable' | 'unknown';
+
+const DAY_MINUTES = 24 * 60;
+
+export const parseSlotMinutes = (value: string): number | null => {
+  const match = /^([0-2]\d):([0-5]\d)$/.exec(value.trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= DAY_MINUTES ? minutes : null;
+};
+
+export const isValidSlot = (slot: AvailabilitySlot): boolean => {
+  const from = parseSlotMinutes(slot.from);
+  const to = parseSlotMinutes(slot.to);
+  return from !== null && to !== null && from < to;
+};
+
+/** Chiave YYYY-MM-DD della data locale, come salvata nelle eccezioni. */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const mapSlot = (value: unknown): AvailabilitySlot | null => {
+  const raw = value as Record<string, unknown> | null | undefined;
+  if (!raw || typeof raw.from !== 'string' || typeof raw.to !== 'string') return null;
+  const slot = { from: raw.from, to: raw.to };
+  return isValidSlot(slot) ? slot : null;
+};
+
+/** Legge la disponibilità salvata sul profilo scartando le fasce non valide. */
+export const normalizeAvailability = (value: unknown): WorkerAvailability | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const weekly = (Array.isArray(raw.weekly) ? raw.weekly : [])
+    .map((entry): WeeklyAvailabilitySlot | null => {
+      const slot = mapSlot(entry);
+      const day = (entry as Record<string, unknown> | null)?.day;
+      return slot && Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6
+        ? { day: day as number, ...slot }
+        : null;
+    })
+    .filter((entry): entry is WeeklyAvailabilitySlot => !!entry);
+  const exceptions = (Array.isArray(raw.exceptions) ? raw.exceptions : [])
+    .map((entry): AvailabilityException | null => {
+      const date = (entry as Record<string, unknown> | null)?.date;
+      if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+      const slots = (entry as Record<string, unknown>).slots;
+      return {
+        date,
+        slots: (Array.isArray(slots) ? slots : [])
+          .map(mapSlot)
+          .filter((slot): slot is AvailabilitySlot => !!slot),
+      };
+    })
+    .filter((entry): entry is AvailabilityException => !!entry);
+  return { weekly, exceptions };
+};
+
+export const hasAvailability = (availability: WorkerAvailability | null | undefined): boolean =>
+  !!availability && (availability.weekly.length > 0 || availability.exceptions.length > 0);
+
+// Windows of one calendar day in epoch ms: its exception if any, otherwise the weekly slots.
+const windowsForDay = (availability: WorkerAvailability, day: Date): [number, number][] => {
+  const key = toDateKey(day);
+  const exception = availability.exceptions.find((entry) => entry.date === key);
+  const slots = exception
+    ? exception.slots
+    : availability.weekly.filter((slot) => slot.day === day.getDay());
+  const midnight = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  return slots.map((slot) => {
+    const from = new Date(midnight);
+    from.setMinutes(parseSlotMinutes(slot.from) ?? 0);
+    const to = new Date(midnight);
+    to.setMinutes(parseSlotMinutes(slot.to) ?? 0);
+    return [from.getTime(), to.getTime()];
+  });
+};
+
+/**
+ * Vero se le fasce dichiarate coprono tutto l'intervallo [start, end], anche
+ * a cavallo della mezzanotte. 'unknown' se il lavoratore non ha indicato nulla.
+ */
+export const checkAvailability = (
+  availability: WorkerAvailability | null | undefined,
+  start: Date,
+  end: Date
+): AvailabilityMatch => {
+  if (!availability || !hasAvailability(availability)) return 'unknown';
+
+  const windows: [number, number][] = [];
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  while (day.getTime() <= end.getTime()) {
+    windows.push(...windowsForDay(availability, day));
+    day.setDate(day.getDate() + 1);
+  }
+  windows.sort((a, b) => a[0] - b[0]);
+
+  let covered = start.getTime();
+  for (const [from, to] of windows) {
+    if (from > covered) break;
+    covered = Math.max(covered, to);
+    if (covered >= end.getTime()) return 'available';
+  }
+  return covered >= end.getTime() ? 'available' : 'unavailable';
+};
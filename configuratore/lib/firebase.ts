@@ -6,8 +6,11 @@ import {
   browserLocalPersistence,
   getAuth,
   initializeAuth,
+  onAuthStateChanged,
   setPersistence,
   signInAnonymously,
+  signOut,
+  type User,
 } from "firebase/auth";
 import { getReactNativePersistence } from "firebase/auth/react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
@@ -39,10 +42,20 @@ if (Platform.OS === "web") {
   });
 }
 
+// Resolves once the persisted session (if any) has been restored, so that an
+// email/password user is not replaced by a fresh anonymous one at startup.
+const initialAuthState = new Promise<User | null>((resolve) => {
+  const unsubscribe = onAuthStateChanged(auth, (user) => {
+    unsubscribe();
+    resolve(user);
+  });
+});
+
 export const authReady = ensureAnonAuth();
 
 // Assicurati di avere un uid anche in Release
 export async function ensureAnonAuth(): Promise<string> {
+  await initialAuthState;
   const u = auth.currentUser;
   if (u?.uid) return u.uid;
   const cred = await signInAnonymously(auth);
@@ -52,3 +65,12 @@ export async function ensureAnonAuth(): Promise<string> {
 export async function ensureSignedIn(): Promise<string> {
   return ensureAnonAuth();
 }
+
+/**
+ * Chiude la sessione dell'account e torna a una sessione anonima,
+ * necessaria per consultare gli incarichi prima del login.
+ */
+export async function signOutAccount(): Promise<string> {
+  await signOut(auth);
+  return ensureAnonAuth();
+}
@@ -0,0 +1,41 @@
+// configuratore/lib/geocode.ts
+
+/**
+ * Geocodifica un indirizzo italiano tramite Nominatim.
+ * Restituisce null se l'indirizzo non viene trovato o la richiesta fallisce.
+ */
+export const geocodeAddress = async (
+  address: string
+): Promise<{ lat: number; lng: number } | null> => {
+  try {
+    const response = await fetch(
+      `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(address)}&format=json&limit=1&countrycodes=it`,
+      {
+        headers: {
+          'User-Agent': 'JoblyApp/1.0 (support@jobly.placeholder)',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Geocode status ${response.status}`);
+    }
+
+    const data = (await response.json()) as unknown;
+    if (!Array.isArray(data) || data.length === 0) {
+      return null;
+    }
+
+    const { lat, lon } = data[0] as { lat?: string; lon?: string };
+    const parsedLat = Number(lat);
+    const parsedLng = Number(lon);
+    if (!Number.isFinite(parsedLat) || !Number.isFinite(parsedLng)) {
+      return null;
+    }
+
+    return { lat: parsedLat, lng: parsedLng };
+  } catch (error) {
+    console.warn('Failed to geocode address:', error);
+    return null;
+  }
+};
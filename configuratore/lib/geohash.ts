@@ -0,0 +1,102 @@
+// configuratore/lib/geohash.ts
+
+export type GeoPoint = { lat: number; lng: number };
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// ~5 m cells: precise enough for any radius the app offers.
+export const GEOHASH_PRECISION = 9;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Codifica un punto in geohash: stringhe con lo stesso prefisso sono celle
+ * vicine, quindi un intervallo di stringhe copre un'area.
+ */
+export const encodeGeohash = (point: GeoPoint, precision: number = GEOHASH_PRECISION): string => {
+  let latRange: [number, number] = [-90, 90];
+  let lngRange: [number, number] = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const coordinate = evenBit ? point.lng : point.lat;
+    const mid = (range[0] + range[1]) / 2;
+    value <<= 1;
+    if (coordinate >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    if (evenBit) lngRange = range;
+    else latRange = range;
+    evenBit = !evenBit;
+    bits += 1;
+    if (bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+};
+
+/** Distanza in km tra due punti (formula dell'emisenoverso). */
+export const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Size in degrees of a geohash cell of the given length.
+const cellSize = (precision: number) => {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = totalBits - lngBits;
+  return { lat: 180 / 2 ** latBits, lng: 360 / 2 ** lngBits };
+};
+
+const wrapLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Celle geohash, lunghe quanto basta per il raggio, che coprono il cerchio
+ * dato. Possono includere punti fuori dal raggio: il chiamante filtra con
+ * distanceKm.
+ */
+export const geohashCoveringCells = (center: GeoPoint, radiusKm: number): string[] => {
+  const latDelta = radiusKm / KM_PER_DEGREE;
+  const cosLat = Math.max(Math.cos((center.lat * Math.PI) / 180), 0.01);
+  const lngDelta = Math.min(radiusKm / (KM_PER_DEGREE * cosLat), 180);
+
+  // The longest hash whose cells are at least as large as the radius, so
+  // sampling the bounding box every radius length touches every cell.
+  let precision = 1;
+  for (let candidate = GEOHASH_PRECISION; candidate >= 1; candidate -= 1) {
+    const size = cellSize(candidate);
+    if (size.lat >= latDelta && size.lng >= lngDelta) {
+      precision = candidate;
+      break;
+    }
+  }
+
+  const hashes = new Set<string>();
+  for (const dLat of [-latDelta, 0, latDelta]) {
+    for (const dLng of [-lngDelta, 0, lngDelta]) {
+      const lat = Math.max(-90, Math.min(90, center.lat + dLat));
+      hashes.add(encodeGeohash({ lat, lng: wrapLng(center.lng + dLng) }, precision));
+    }
+  }
+  return [...hashes].sort();
+};
+
+/** Tutti i prefissi di un geohash, dal più corto: le celle che contengono il punto. */
+export const geohashPrefixes = (hash: string): string[] =>
+  Array.from({ length: hash.length }, (_, index) => hash.slice(0, index + 1));
@@ -0,0 +1,47 @@
+// configuratore/lib/login-handles.ts
+
+export type LoginHandleKind = 'email' | 'username';
+
+export type LoginHandleValues = {
+  emailLower?: unknown;
+  usernameLower?: unknown;
+};
+
+export type LoginHandlePlan = {
+  /** handle da (ri)scrivere verso l'account del profilo */
+  write: [LoginHandleKind, string][];
+  /** handle di valori che il profilo non usa più */
+  drop: [LoginHandleKind, string][];
+};
+
+const KINDS: LoginHandleKind[] = ['email', 'username'];
+
+const pick = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+const valueOf = (values: LoginHandleValues | null | undefined, kind: LoginHandleKind) =>
+  pick(kind === 'email' ? values?.emailLower : values?.usernameLower);
+
+/**
+ * Decide quali loginHandles scrivere e quali eliminare dopo un salvataggio del
+ * profilo. Un valore non passato (es. updateCv senza email) resta quello salvato:
+ * solo un valore diverso fa cadere il vecchio handle.
+ */
+export const planLoginHandles = (
+  next: LoginHandleValues,
+  previous: LoginHandleValues | null | undefined
+): LoginHandlePlan => {
+  const write: [LoginHandleKind, string][] = [];
+  const drop: [LoginHandleKind, string][] = [];
+  for (const kind of KINDS) {
+    const current = valueOf(next, kind) ?? valueOf(previous, kind);
+    const old = valueOf(previous, kind);
+    if (current) {
+      write.push([kind, current]);
+    }
+    if (old && old !== current) {
+      drop.push([kind, old]);
+    }
+  }
+  return { write, drop };
+};
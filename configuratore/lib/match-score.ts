@@ -0,0 +1,135 @@
+// configuratore/lib/match-score.ts
+
+import type { JobCategory } from './api';
+import { distanceKm, type GeoPoint } from './geohash';
+
+export type MatchFactorKey = 'competenze' | 'distanza' | 'esperienza';
+
+export type MatchFactor = {
+  key: MatchFactorKey;
+  label: string;
+  points: number;
+  max: number;
+  /** spiegazione mostrata al datore, es. "3,2 km dall'incarico" */
+  detail: string;
+};
+
+export type MatchScore = {
+  /** 0-100 */
+  total: number;
+  factors: MatchFactor[];
+};
+
+export type MatchCandidate = {
+  skills?: string[];
+  certifications?: string[];
+  experiences?: string[];
+  /** zona in cui il lavoratore cerca incarichi */
+  area?: GeoPoint;
+  /** incarichi portati a termine su tutta la piattaforma */
+  completedHires?: number;
+};
+
+export type MatchJob = {
+  categoria: JobCategory;
+  location?: GeoPoint;
+};
+
+const SKILLS_MAX = 40;
+const CERTIFICATIONS_MAX = 10;
+const DISTANCE_MAX = 30;
+const EXPERIENCE_MAX = 20;
+const POINTS_PER_KEYWORD = 15;
+const POINTS_PER_COMPLETED_HIRE = 4;
+
+// Lowercase fragments matched against skills and experiences (see data/cv-templates).
+const CATEGORY_KEYWORDS: Record<JobCategory, string[]> = {
+  bar: ['caffetteria', 'cocktail', 'mixology', 'barista', 'banchista', 'cassa'],
+  pizzeria: ['forno', 'pizza', 'pizzaiolo', 'impasto', 'servizio ai tavoli', 'cameriere'],
+  ristorante: ['servizio ai tavoli', 'allestimento sala', 'addetto sala', 'cameriere', 'aiuto cuoco', 'preparazioni'],
+  negozio: ['cassa', 'cassiere', 'commesso', 'accoglienza', 'customer care', 'vendita'],
+  magazzino: ['magazzin', 'inventario', 'consegne', 'rider', 'logistica'],
+  altro: ['teamwork', 'problem solving', 'accoglienza', 'customer care'],
+};
+
+const FOOD_CERTIFICATIONS = ['haccp', 'alimentarista', 'allergeni'];
+
+const CATEGORY_CERTIFICATIONS: Record<JobCategory, string[]> = {
+  bar: FOOD_CERTIFICATIONS,
+  pizzeria: FOOD_CERTIFICATIONS,
+  ristorante: FOOD_CERTIFICATIONS,
+  negozio: ['sicurezza sul lavoro'],
+  magazzino: ['carrello elevatore', 'muletto', 'sicurezza sul lavoro'],
+  altro: ['sicurezza sul lavoro', 'primo soccorso'],
+};
+
+// Upper bound in km and points for each distance band.
+const DISTANCE_BANDS: [number, number][] = [
+  [5, 30],
+  [10, 24],
+  [25, 15],
+  [50, 6],
+];
+
+const matchingEntries = (entries: string[], keywords: string[]) =>
+  entries.filter((entry) => {
+    const normalized = entry.toLowerCase();
+    return keywords.some((keyword) => normalized.includes(keyword));
+  });
+
+const formatKm = (km: number) =>
+  `${km.toLocaleString('it-IT', { maximumFractionDigits: km < 10 ? 1 : 0 })} km`;
+
+/**
+ * Punteggio di compatibilità tra candidato e incarico: competenze e
+ * certificazioni per la categoria, distanza e incarichi già completati.
+ */
+export const computeMatchScore = (candidate: MatchCandidate, job: MatchJob): MatchScore => {
+  const skillMatches = matchingEntries(
+    [...(candidate.skills ?? []), ...(candidate.experiences ?? [])],
+    CATEGORY_KEYWORDS[job.categoria]
+  );
+  const certMatches = matchingEntries(candidate.certifications ?? [], CATEGORY_CERTIFICATIONS[job.categoria]);
+  const skillPoints =
+    Math.min(SKILLS_MAX, skillMatches.length * POINTS_PER_KEYWORD) +
+    (certMatches.length > 0 ? CERTIFICATIONS_MAX : 0);
+  const relevant = [...skillMatches, ...certMatches];
+
+  let distancePoints = 0;
+  let distanceDetail = 'Zona del candidato non indicata';
+  if (!job.location) {
+    distanceDetail = 'Posizione dell\'incarico non disponibile';
+  } else if (candidate.area) {
+    const km = distanceKm(candidate.area, job.location);
+    distancePoints = DISTANCE_BANDS.find(([limit]) => km <= limit)?.[1] ?? 0;
+    distanceDetail = `${formatKm(km)} dall'incarico`;
+  }
+
+  const completed = Math.max(0, Math.floor(candidate.completedHires ?? 0));
+  const experiencePoints = Math.min(EXPERIENCE_MAX, completed * POINTS_PER_COMPLETED_HIRE);
+
+  const factors: MatchFactor[] = [
+    {
+      key: 'competenze',
+      label: 'Competenze',
+      points: skillPoints,
+      max: SKILLS_MAX + CERTIFICATIONS_MAX,
+      detail: relevant.length > 0 ? relevant.join(', ') : 'Nessuna competenza specifica per la categoria',
+    },
+    { key: 'distanza', label: 'Distanza', points: distancePoints, max: DISTANCE_MAX, detail: distanceDetail },
+    {
+      key: 'esperienza',
+      label: 'Incarichi completati',
+      points: experiencePoints,
+      max: EXPERIENCE_MAX,
+      detail:
+        completed === 0
+          ? 'Nessun incarico completato'
+          : completed === 1
+            ? '1 incarico completato'
+            : `${completed} incarichi completati`,
+    },
+  ];
+
+  return { total: factors.reduce((sum, factor) => sum + factor.points, 0), factors };
+};
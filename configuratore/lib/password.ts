@@ -0,0 +1,36 @@
+// configuratore/lib/password.ts
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+
+// Session tokens are only compared by hash and never sent as credentials,
+// so fall back to Math.random on runtimes (Hermes without polyfills) that do not
+// expose crypto.getRandomValues.
+export const randomHex = (byteLength: number): string => {
+  const bytes = new Uint8Array(byteLength);
+  const webCrypto = (globalThis as { crypto?: { getRandomValues?: (arr: Uint8Array) => Uint8Array } })
+    .crypto;
+  if (webCrypto && typeof webCrypto.getRandomValues === 'function') {
+    webCrypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i += 1) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  return bytesToHex(bytes);
+};
+
+/** SHA-256 esadecimale, usato per non salvare in chiaro i token di sessione. */
+export const hashToken = (token: string): string => bytesToHex(sha256(token));
+
+/**
+ * Hash djb2 a 32 bit delle prime versioni dell'app. scripts/migrate-legacy-profiles.js
+ * importa questi hash in Firebase Auth così come sono: serve solo al primo login
+ * dei profili con legacyPassword = "djb2", poi la password viene sostituita.
+ */
+export const legacyPasswordDigest = (password: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < password.length; i += 1) {
+    hash = (hash * 33) ^ password.charCodeAt(i);
+  }
+  return (hash >>> 0).toString(16);
+};
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+
+/**
+ * Rebuilds workerStats/{profileId}.completedHires from the hires with status "completed".
+ * completeHire only counts the hires it completes, so run this once after deploying the counter
+ * (and whenever the counts look off); the totals are recomputed, not added to.
+ *
+ * Run it with the Admin SDK credentials of the project:
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run backfill:worker-stats -- [--dry-run]
+ */
+
+const admin = require("firebase-admin");
+
+const dryRun = process.argv.includes("--dry-run");
+
+admin.initializeApp();
+const db = admin.firestore();
+
+const main = async () => {
+  const completed = await db.collection("hires").where("status", "==", "completed").get();
+  const profileIds = new Set(
+    completed.docs
+      .map((hireDoc) => hireDoc.get("workerProfileId"))
+      .filter((id) => typeof id === "string" && id.length > 0)
+  );
+
+  let updated = 0;
+  for (const profileId of profileIds) {
+    // Recounted in a transaction, so a hire completed meanwhile is not lost.
+    const count = await db.runTransaction(async (tx) => {
+      const hires = await tx.get(
+        db.collection("hires").where("workerProfileId", "==", profileId).where("status", "==", "completed")
+      );
+      const statsRef = db.collection("workerStats").doc(profileId);
+      const stats = await tx.get(statsRef);
+      if (stats.get("completedHires") === hires.size) return null;
+      if (!dryRun) {
+        tx.set(
+          statsRef,
+          {
+            profileId,
+            completedHires: hires.size,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          { merge: true }
+        );
+      }
+      return hires.size;
+    });
+    if (count !== null) {
+      updated += 1;
+      console.log(`${profileId}: ${count}`);
+    }
+  }
+
+  console.log(
+    `${dryRun ? "[dry run] " : ""}Lavoratori con incarichi completati: ${profileIds.size}, contatori aggiornati: ${updated}`
+  );
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,219 @@
+#!/usr/bin/env node
+
+/**
+ * One-time migration of legacy profiles (passwordHash / password, no authEmail) to Firebase Auth.
+ * Clients can no longer claim these profiles, so this script links each one to an Auth account,
+ * removes the credentials from the profile document and writes the loginHandles used at login.
+ *
+ * Every stored secret is imported as a salted PBKDF2 hash. djb2 hashes are wrapped as they are:
+ * those profiles are flagged with legacyPassword = "djb2", and the app signs them in with the
+ * djb2 digest of the typed password once, then replaces it (signInWithProfilePassword in lib/api.ts).
+ *
+ * Run it with the Admin SDK credentials of the project:
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run migrate:legacy-profiles -- [--dry-run]
+ */
+
+const crypto = require("node:crypto");
+const admin = require("firebase-admin");
+
+// Same values as AUTH_EMAIL_DOMAIN / buildAuthEmail in configuratore/lib/api.ts.
+const AUTH_EMAIL_DOMAIN = "profiles.jobly.app";
+const PBKDF2_SCHEME = "pbkdf2-sha256";
+const PBKDF2_ROUNDS = 60000;
+const PBKDF2_KEY_BYTES = 32;
+
+const dryRun = process.argv.includes("--dry-run");
+
+admin.initializeApp();
+const db = admin.firestore();
+const auth = admin.auth();
+
+const lower = (value) =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim().toLowerCase() : undefined;
+
+const buildAuthEmail = (email, handle) => {
+  if (email) {
+    return email;
+  }
+  const local = (handle || "")
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "");
+  return `${local || "profilo"}@${AUTH_EMAIL_DOMAIN}`;
+};
+
+const parsePbkdf2 = (stored) => {
+  const parts = typeof stored === "string" ? stored.trim().split("$") : [];
+  if (parts.length !== 4 || parts[0] !== PBKDF2_SCHEME) {
+    return null;
+  }
+  const rounds = Number(parts[1]);
+  if (!Number.isInteger(rounds) || rounds <= 0 || !/^[0-9a-f]+$/.test(parts[2]) || !/^[0-9a-f]+$/.test(parts[3])) {
+    return null;
+  }
+  return { rounds, salt: Buffer.from(parts[2], "hex"), hash: Buffer.from(parts[3], "hex") };
+};
+
+const findUser = async (uid) => {
+  try {
+    return await auth.getUser(uid);
+  } catch (err) {
+    if (err.code === "auth/user-not-found") return null;
+    throw err;
+  }
+};
+
+const importPassword = async (uid, authEmail, { rounds, salt, hash }) => {
+  // importUsers overwrites the anonymous account that created the profile.
+  const result = await auth.importUsers(
+    [{ uid, email: authEmail, passwordHash: hash, passwordSalt: salt }],
+    { hash: { algorithm: "PBKDF2_SHA256", rounds } }
+  );
+  if (result.failureCount > 0) {
+    throw result.errors[0].error;
+  }
+};
+
+const wrapSecret = (secret) => {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.pbkdf2Sync(secret, salt, PBKDF2_ROUNDS, PBKDF2_KEY_BYTES, "sha256");
+  return { rounds: PBKDF2_ROUNDS, salt, hash };
+};
+
+const nonEmpty = (value) => (typeof value === "string" && value.trim().length > 0 ? value : undefined);
+
+/**
+ * Links the profile to an Auth account with the same uid, so every uid-based
+ * reference (jobs, applications, hires, sessions) keeps working.
+ * Returns whether a password was carried over and, for djb2 records, the
+ * legacyPassword scheme the app has to sign in with.
+ */
+const linkAuthAccount = async (uid, authEmail, data) => {
+  const pbkdf2 = parsePbkdf2(data.passwordHash);
+  if (pbkdf2) {
+    await importPassword(uid, authEmail, pbkdf2);
+    return { keptPassword: true };
+  }
+
+  // The first app versions stored the djb2 digest in passwordHash (some records the
+  // password itself): both are wrapped, the login tries the typed password first.
+  const storedHash = nonEmpty(data.passwordHash);
+  if (storedHash) {
+    await importPassword(uid, authEmail, wrapSecret(storedHash.trim()));
+    return { keptPassword: true, legacyPassword: "djb2" };
+  }
+  const plaintext = nonEmpty(data.password);
+  if (plaintext) {
+    await importPassword(uid, authEmail, wrapSecret(plaintext));
+    return { keptPassword: true };
+  }
+
+  if (await findUser(uid)) {
+    await auth.updateUser(uid, { email: authEmail });
+  } else {
+    await auth.createUser({ uid, email: authEmail });
+  }
+  return { keptPassword: false };
+};
+
+const writeLoginHandles = async (profileId, data, report) => {
+  const entry = {
+    profileId,
+    authEmail: data.authEmail,
+    ...(data.legacyPassword ? { legacyPassword: data.legacyPassword } : {}),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  const handles = [
+    ["email", lower(data.emailLower) || lower(data.email)],
+    ["username", lower(data.usernameLower) || lower(data.username)],
+  ];
+  for (const [kind, value] of handles) {
+    if (!value) continue;
+    const ref = db.collection("loginHandles").doc(`${kind}:${encodeURIComponent(value)}`);
+    const snap = await ref.get();
+    if (snap.exists && snap.get("profileId") !== profileId) {
+      report.conflicts.push(`${profileId}: ${kind} "${value}" già usato da ${snap.get("profileId")}`);
+      continue;
+    }
+    if (!dryRun) {
+      await ref.set(entry);
+    }
+  }
+};
+
+const main = async () => {
+  const report = { migrated: 0, stripped: 0, handles: 0, needsReset: [], conflicts: [], failed: [] };
+  const profiles = await db.collection("profiles").get();
+
+  for (const snap of profiles.docs) {
+    const data = snap.data();
+    const hasCredentials = data.passwordHash !== undefined || data.password !== undefined;
+
+    if (!data.authEmail && hasCredentials) {
+      const uid = typeof data.uid === "string" && data.uid ? data.uid : db.collection("profiles").doc().id;
+      const emailLower = lower(data.emailLower) || lower(data.email);
+      const authEmail = buildAuthEmail(emailLower, lower(data.usernameLower) || lower(data.username));
+      try {
+        const { keptPassword, legacyPassword } = dryRun
+          ? { keptPassword: true }
+          : await linkAuthAccount(uid, authEmail, data);
+        if (!keptPassword) {
+          report.needsReset.push(`${snap.id} (${authEmail})`);
+        }
+        if (!dryRun) {
+          await snap.ref.update({
+            uid,
+            authEmail,
+            ...(legacyPassword ? { legacyPassword } : {}),
+            passwordHash: admin.firestore.FieldValue.delete(),
+            password: admin.firestore.FieldValue.delete(),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+        data.uid = uid;
+        data.authEmail = authEmail;
+        data.legacyPassword = legacyPassword;
+        report.migrated += 1;
+      } catch (err) {
+        report.failed.push(`${snap.id}: ${err.message}`);
+        continue;
+      }
+    } else if (hasCredentials) {
+      // Already on Firebase Auth: the old credentials are only a leak.
+      if (!dryRun) {
+        await snap.ref.update({
+          passwordHash: admin.firestore.FieldValue.delete(),
+          password: admin.firestore.FieldValue.delete(),
+        });
+      }
+      report.stripped += 1;
+    }
+
+    if (data.authEmail) {
+      await writeLoginHandles(snap.id, data, report);
+      report.handles += 1;
+    }
+  }
+
+  console.log(`${dryRun ? "[dry run] " : ""}Profili migrati: ${report.migrated}`);
+  console.log(`Credenziali rimosse da profili già migrati: ${report.stripped}`);
+  console.log(`Profili con login handle: ${report.handles}`);
+  const sections = [
+    ["Senza password importata (serve un reset o l'assistenza)", report.needsReset],
+    ["Handle in conflitto", report.conflicts],
+    ["Errori", report.failed],
+  ];
+  for (const [title, lines] of sections) {
+    if (lines.length > 0) {
+      console.log(`\n${title}:`);
+      lines.forEach((line) => console.log(`  - ${line}`));
+    }
+  }
+  if (report.failed.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
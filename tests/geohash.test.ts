@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import { encodeGeohash, geohashCoveringCells, geohashPrefixes } from '../configuratore/lib/geohash';
+
+const MILANO = { lat: 45.4642, lng: 9.19 };
+
+describe('geohashPrefixes', () => {
+  it('lists every cell that holds the point, shortest first', () => {
+    expect(geohashPrefixes('u0nd9')).toEqual(['u', 'u0', 'u0n', 'u0nd', 'u0nd9']);
+  });
+});
+
+describe('geohashCoveringCells', () => {
+  it('covers points within the radius through a stored prefix', () => {
+    const nearby = [MILANO, { lat: 45.5, lng: 9.25 }, { lat: 45.42, lng: 9.12 }];
+    for (const radiusKm of [0.1, 10, 100]) {
+      const cells = geohashCoveringCells(MILANO, radiusKm);
+      const points = radiusKm < 1 ? [MILANO] : nearby;
+      for (const point of points) {
+        const prefixes = geohashPrefixes(encodeGeohash(point));
+        expect(cells.some((cell) => prefixes.includes(cell))).toBe(true);
+      }
+    }
+  });
+
+  it('uses cells of one length', () => {
+    const lengths = new Set(geohashCoveringCells(MILANO, 10).map((cell) => cell.length));
+    expect(lengths.size).toBe(1);
+  });
+});
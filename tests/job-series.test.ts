@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import { expandJobSchedule, validateShifts } from '../configuratore/app/job-series';
+
+describe('validateShifts', () => {
+  it('accepts shifts on the same day', () => {
+    expect(
+      validateShifts([
+        { oraInizio: '08:00', oraFine: '12:00' },
+        { oraInizio: '14:00', oraFine: '18:00' },
+      ])
+    ).toBeNull();
+  });
+
+  it('accepts an overnight shift', () => {
+    expect(validateShifts([{ oraInizio: '22:00', oraFine: '06:00' }])).toBeNull();
+    expect(
+      validateShifts([
+        { oraInizio: '12:00', oraFine: '18:00' },
+        { oraInizio: '20:00', oraFine: '02:00' },
+      ])
+    ).toBeNull();
+  });
+
+  it('rejects a shift ending when it starts', () => {
+    expect(validateShifts([{ oraInizio: '09:00', oraFine: '09:00' }])).toMatch(/diverso/);
+  });
+
+  it('rejects overlapping shifts', () => {
+    expect(
+      validateShifts([
+        { oraInizio: '08:00', oraFine: '12:00' },
+        { oraInizio: '11:00', oraFine: '15:00' },
+      ])
+    ).toMatch(/sovrapporsi/);
+  });
+
+  it('rejects an overnight shift running into the next day', () => {
+    expect(
+      validateShifts([
+        { oraInizio: '07:00', oraFine: '12:00' },
+        { oraInizio: '22:00', oraFine: '08:00' },
+      ])
+    ).toMatch(/sovrapporsi/);
+  });
+});
+
+describe('expandJobSchedule', () => {
+  const now = new Date(2030, 0, 1, 12, 0);
+
+  it('expands the weekdays of a recurrence', () => {
+    const occurrences = expandJobSchedule(
+      '07/01/2030',
+      {
+        shifts: [{ oraInizio: '22:00', oraFine: '06:00' }],
+        recurrence: { weekdays: [1, 3], endDate: '16/01/2030' },
+      },
+      now
+    );
+    expect(occurrences.map((occurrence) => occurrence.data)).toEqual([
+      '07/01/2030',
+      '09/01/2030',
+      '14/01/2030',
+      '16/01/2030',
+    ]);
+    expect(occurrences[0].startAt).toEqual(new Date(2030, 0, 7, 22, 0));
+  });
+
+  it('skips shifts that already started', () => {
+    const occurrences = expandJobSchedule(
+      '01/01/2030',
+      {
+        shifts: [
+          { oraInizio: '08:00', oraFine: '11:00' },
+          { oraInizio: '18:00', oraFine: '23:00' },
+        ],
+      },
+      now
+    );
+    expect(occurrences.map((occurrence) => occurrence.oraInizio)).toEqual(['18:00']);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { planLoginHandles } from '../configuratore/lib/login-handles';
+
+const saved = { emailLower: 'mario@example.com', usernameLower: 'mario' };
+
+describe('planLoginHandles', () => {
+  it('keeps the email handle when the update carries no email', () => {
+    // updateCv / updatePhone save the profile without the email field.
+    expect(planLoginHandles({ usernameLower: 'mario' }, saved)).toEqual({
+      write: [
+        ['email', 'mario@example.com'],
+        ['username', 'mario'],
+      ],
+      drop: [],
+    });
+  });
+
+  it('drops the handles of a changed email and username', () => {
+    expect(
+      planLoginHandles({ emailLower: 'mario.rossi@example.com', usernameLower: 'mrossi' }, saved)
+    ).toEqual({
+      write: [
+        ['email', 'mario.rossi@example.com'],
+        ['username', 'mrossi'],
+      ],
+      drop: [
+        ['email', 'mario@example.com'],
+        ['username', 'mario'],
+      ],
+    });
+  });
+
+  it('writes the handles of a new profile', () => {
+    expect(planLoginHandles({ usernameLower: 'giulia' }, null)).toEqual({
+      write: [['username', 'giulia']],
+      drop: [],
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeMatchScore } from '../configuratore/lib/match-score';
+
+const points = (score: ReturnType<typeof computeMatchScore>, key: string) =>
+  score.factors.find((factor) => factor.key === key)?.points;
+
+describe('computeMatchScore', () => {
+  it('scores skills and certifications of the job category', () => {
+    const score = computeMatchScore(
+      { skills: ['Barista', 'Cocktail'], certifications: ['HACCP'] },
+      { categoria: 'bar' }
+    );
+    expect(points(score, 'competenze')).toBe(40);
+  });
+
+  it('ignores skills of other categories', () => {
+    const score = computeMatchScore({ skills: ['Muletto'] }, { categoria: 'bar' });
+    expect(points(score, 'competenze')).toBe(0);
+  });
+
+  it('gives distance points by band', () => {
+    const job = { categoria: 'bar' as const, location: { lat: 45.4642, lng: 9.19 } };
+    expect(points(computeMatchScore({ area: { lat: 45.4642, lng: 9.19 } }, job), 'distanza')).toBe(30);
+    expect(points(computeMatchScore({ area: { lat: 41.9028, lng: 12.4964 } }, job), 'distanza')).toBe(0);
+    expect(points(computeMatchScore({}, job), 'distanza')).toBe(0);
+  });
+
+  it('caps the points for completed hires', () => {
+    expect(points(computeMatchScore({ completedHires: 2 }, { categoria: 'bar' }), 'esperienza')).toBe(8);
+    expect(points(computeMatchScore({ completedHires: 50 }, { categoria: 'bar' }), 'esperienza')).toBe(20);
+  });
+
+  it('adds up to the factors', () => {
+    const score = computeMatchScore(
+      { skills: ['Barista'], area: { lat: 45.4642, lng: 9.19 }, completedHires: 1 },
+      { categoria: 'bar', location: { lat: 45.4642, lng: 9.19 } }
+    );
+    expect(score.total).toBe(15 + 30 + 4);
+  });
+});
@@ -0,0 +1,168 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import { as, createRulesEnv, EMPLOYER_UID, OTHER_UID, seed, seedProfiles, WORKER_UID } from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, {
+    'jobs/job-1': { ownerUid: EMPLOYER_UID, ownerProfileId: 'employer-1', status: 'published' },
+    'applications/job-1__worker-1': {
+      jobId: 'job-1',
+      applicantUid: WORKER_UID,
+      applicantProfileId: 'worker-1',
+      status: 'applied',
+    },
+  });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+const APPLICATION = 'applications/job-1__worker-1';
+
+const statusChange = (uid: string) => ({ changedByUid: uid, changedAt: new Date() });
+
+describe('applications', () => {
+  it('is readable by the applicant and the job owner only', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc(APPLICATION).get());
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(APPLICATION).get());
+    await assertFails(as(env, OTHER_UID).doc(APPLICATION).get());
+  });
+
+  it('is created once per job and profile', async () => {
+    const application = {
+      jobId: 'job-1',
+      applicantUid: OTHER_UID,
+      applicantProfileId: 'other-1',
+      status: 'applied',
+    };
+    await assertSucceeds(as(env, OTHER_UID).doc('applications/job-1__other-1').set(application));
+    await assertFails(as(env, OTHER_UID).doc('applications/other-id').set(application));
+  });
+
+  it('is not created for a profile of someone else', async () => {
+    await assertFails(
+      as(env, OTHER_UID).doc('applications/job-2__worker-1').set({
+        jobId: 'job-2',
+        applicantUid: OTHER_UID,
+        applicantProfileId: 'worker-1',
+        status: 'applied',
+      })
+    );
+  });
+
+  it('is withdrawn by the applicant and rejected by the job owner', async () => {
+    await assertFails(
+      as(env, WORKER_UID).doc(APPLICATION).update({ status: 'rejected', statusChange: statusChange(WORKER_UID) })
+    );
+    await assertFails(
+      as(env, OTHER_UID).doc(APPLICATION).update({ status: 'withdrawn', statusChange: statusChange(OTHER_UID) })
+    );
+    await assertSucceeds(
+      as(env, EMPLOYER_UID).doc(APPLICATION).update({ status: 'rejected', statusChange: statusChange(EMPLOYER_UID) })
+    );
+  });
+
+  it('lets the applicant withdraw a waiting application', async () => {
+    await assertSucceeds(
+      as(env, WORKER_UID).doc(APPLICATION).update({ status: 'withdrawn', statusChange: statusChange(WORKER_UID) })
+    );
+  });
+
+  it('lets the applicant answer only a pending proposal', async () => {
+    await assertFails(as(env, WORKER_UID).doc(APPLICATION).update({ status: 'hiredConfirmed' }));
+    await seed(env, {
+      [APPLICATION]: {
+        jobId: 'job-1',
+        applicantUid: WORKER_UID,
+        applicantProfileId: 'worker-1',
+        status: 'hiredProposed',
+      },
+    });
+    await assertSucceeds(as(env, WORKER_UID).doc(APPLICATION).update({ status: 'hiredConfirmed' }));
+  });
+
+  it('gets a proposal only while waiting', async () => {
+    const propose = () =>
+      as(env, EMPLOYER_UID).doc(APPLICATION).update({ status: 'hiredProposed', hireId: 'hire-1' });
+    await assertFails(as(env, EMPLOYER_UID).doc(APPLICATION).update({ status: 'applied', hireId: 'hire-1' }));
+    await assertSucceeds(propose());
+    await seed(env, {
+      [APPLICATION]: {
+        jobId: 'job-1',
+        applicantUid: WORKER_UID,
+        applicantProfileId: 'worker-1',
+        status: 'withdrawn',
+      },
+    });
+    await assertFails(propose());
+  });
+
+  it('asks again only a confirmed worker when the job is edited', async () => {
+    const edit = (status: string) =>
+      as(env, EMPLOYER_UID).doc(APPLICATION).update({ status, jobSnapshot: { compensoOrario: 12 } });
+    await assertSucceeds(edit('applied'));
+    await assertFails(edit('hiredProposed'));
+    for (const status of ['withdrawn', 'rejected']) {
+      await seed(env, {
+        [APPLICATION]: { jobId: 'job-1', applicantUid: WORKER_UID, applicantProfileId: 'worker-1', status },
+      });
+      await assertFails(edit('hiredProposed'));
+    }
+    await seed(env, {
+      [APPLICATION]: {
+        jobId: 'job-1',
+        applicantUid: WORKER_UID,
+        applicantProfileId: 'worker-1',
+        status: 'hiredConfirmed',
+      },
+    });
+    await assertSucceeds(edit('hiredProposed'));
+  });
+
+  it('moves on the pipeline board only for the job owner', async () => {
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(APPLICATION).update({ pipelineStage: 'shortlisted' }));
+    await assertFails(as(env, WORKER_UID).doc(APPLICATION).update({ pipelineStage: 'shortlisted' }));
+  });
+
+  it('is listed by the applicant', async () => {
+    await assertSucceeds(as(env, WORKER_UID).collection('applications').where('applicantUid', '==', WORKER_UID).get());
+    await assertSucceeds(
+      as(env, WORKER_UID)
+        .collection('applications')
+        .where('applicantUid', '==', WORKER_UID)
+        .where('jobId', '==', 'job-1')
+        .get()
+    );
+    await assertFails(as(env, OTHER_UID).collection('applications').where('applicantUid', '==', WORKER_UID).get());
+  });
+
+  it('is listed by job for the job owner only', async () => {
+    const byJob = (uid: string) => as(env, uid).collection('applications').where('jobId', '==', 'job-1');
+    await assertSucceeds(byJob(EMPLOYER_UID).get());
+    await assertSucceeds(byJob(EMPLOYER_UID).where('status', '==', 'applied').get());
+    await assertSucceeds(byJob(EMPLOYER_UID).where('status', 'in', ['rejected', 'withdrawn']).get());
+    await assertSucceeds(byJob(EMPLOYER_UID).where('applicantProfileId', '==', 'worker-1').limit(1).get());
+    await assertFails(byJob(OTHER_UID).get());
+  });
+
+  it('is not listed by a field the rules do not check', async () => {
+    await assertFails(as(env, EMPLOYER_UID).collection('applications').where('ownerUid', '==', EMPLOYER_UID).get());
+  });
+});
@@ -0,0 +1,179 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import {
+  as,
+  BUSINESS,
+  createRulesEnv,
+  EMPLOYER_UID,
+  MANAGER_UID,
+  OTHER_UID,
+  seed,
+  seedProfiles,
+} from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, {
+    'businesses/business-1': BUSINESS,
+    'businesses/business-1/members/employer-1': { uid: EMPLOYER_UID, role: 'owner' },
+    'businesses/business-1/members/manager-1': { uid: MANAGER_UID, role: 'manager' },
+    'businessInvites/business-1__other-uid': {
+      businessId: 'business-1',
+      invitedUid: OTHER_UID,
+      invitedProfileId: 'other-1',
+      role: 'viewer',
+      status: 'pending',
+    },
+  });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+const BUSINESS_DOC = 'businesses/business-1';
+const INVITE = 'businessInvites/business-1__other-uid';
+
+describe('businesses', () => {
+  it('is read and listed by its members only', async () => {
+    await assertSucceeds(as(env, MANAGER_UID).doc(BUSINESS_DOC).get());
+    await assertFails(as(env, OTHER_UID).doc(BUSINESS_DOC).get());
+    await assertSucceeds(
+      as(env, MANAGER_UID).collection('businesses').where('memberUids', 'array-contains', MANAGER_UID).get()
+    );
+    await assertFails(
+      as(env, OTHER_UID).collection('businesses').where('memberUids', 'array-contains', MANAGER_UID).get()
+    );
+  });
+
+  it('is created with the caller as the only owner', async () => {
+    await assertSucceeds(
+      as(env, OTHER_UID).doc('businesses/business-2').set({
+        ownerUid: OTHER_UID,
+        ownerProfileId: 'other-1',
+        roles: { [OTHER_UID]: 'owner' },
+        memberUids: [OTHER_UID],
+      })
+    );
+    await assertFails(
+      as(env, OTHER_UID).doc('businesses/business-3').set({
+        ownerUid: OTHER_UID,
+        ownerProfileId: 'employer-1',
+        roles: { [OTHER_UID]: 'owner' },
+        memberUids: [OTHER_UID],
+      })
+    );
+  });
+
+  it('lets only the owner change the team', async () => {
+    const roles = { ...BUSINESS.roles, [MANAGER_UID]: 'viewer' };
+    await assertFails(as(env, MANAGER_UID).doc(BUSINESS_DOC).update({ roles }));
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(BUSINESS_DOC).update({ roles }));
+  });
+
+  it('lets an invitee join with the invited role', async () => {
+    const join = (role: string) => ({
+      roles: { ...BUSINESS.roles, [OTHER_UID]: role },
+      memberUids: [...BUSINESS.memberUids, OTHER_UID],
+    });
+    await assertFails(as(env, OTHER_UID).doc(BUSINESS_DOC).update(join('manager')));
+    await assertSucceeds(as(env, OTHER_UID).doc(BUSINESS_DOC).update(join('viewer')));
+  });
+
+  it('lets a member leave', async () => {
+    await assertSucceeds(
+      as(env, MANAGER_UID).doc(BUSINESS_DOC).update({
+        roles: { [EMPLOYER_UID]: 'owner' },
+        memberUids: [EMPLOYER_UID],
+      })
+    );
+  });
+});
+
+describe('business members', () => {
+  it('are listed by the team only', async () => {
+    await assertSucceeds(as(env, MANAGER_UID).collection(`${BUSINESS_DOC}/members`).get());
+    await assertFails(as(env, OTHER_UID).collection(`${BUSINESS_DOC}/members`).get());
+  });
+
+  it('are added by the owner or by the invitee itself', async () => {
+    await assertFails(
+      as(env, MANAGER_UID).doc(`${BUSINESS_DOC}/members/other-1`).set({ uid: OTHER_UID, role: 'viewer' })
+    );
+    await assertFails(
+      as(env, OTHER_UID).doc(`${BUSINESS_DOC}/members/other-1`).set({ uid: OTHER_UID, role: 'manager' })
+    );
+    await assertSucceeds(
+      as(env, OTHER_UID).doc(`${BUSINESS_DOC}/members/other-1`).set({ uid: OTHER_UID, role: 'viewer' })
+    );
+  });
+});
+
+describe('business invites', () => {
+  it('are listed by the owner and by the invitee', async () => {
+    await assertSucceeds(
+      as(env, EMPLOYER_UID)
+        .collection('businessInvites')
+        .where('businessId', '==', 'business-1')
+        .where('status', '==', 'pending')
+        .get()
+    );
+    await assertSucceeds(
+      as(env, OTHER_UID)
+        .collection('businessInvites')
+        .where('invitedUid', '==', OTHER_UID)
+        .where('status', '==', 'pending')
+        .get()
+    );
+    await assertFails(as(env, MANAGER_UID).collection('businessInvites').where('businessId', '==', 'business-1').get());
+  });
+
+  it('are sent by the owner only', async () => {
+    const invite = { businessId: 'business-1', invitedUid: 'someone-uid', role: 'viewer', status: 'pending' };
+    await assertFails(as(env, MANAGER_UID).doc('businessInvites/business-1__someone-uid').set(invite));
+    await assertSucceeds(as(env, EMPLOYER_UID).doc('businessInvites/business-1__someone-uid').set(invite));
+    await assertFails(
+      as(env, EMPLOYER_UID).doc('businessInvites/business-1__someone-uid').set({ ...invite, role: 'owner' })
+    );
+  });
+
+  it('are answered by the invitee', async () => {
+    await assertFails(as(env, MANAGER_UID).doc(INVITE).update({ status: 'accepted' }));
+    await assertSucceeds(as(env, OTHER_UID).doc(INVITE).update({ status: 'accepted' }));
+  });
+});
+
+describe('business locations and job templates', () => {
+  const location = { name: 'Sede centrale', location: { lat: 45.46, lng: 9.19 } };
+  const template = { name: 'Cameriere serale', fields: { categoria: 'ristorante' } };
+
+  it('are listed by the team and maintained by managers', async () => {
+    await assertSucceeds(as(env, MANAGER_UID).doc(`${BUSINESS_DOC}/locations/location-1`).set(location));
+    await assertSucceeds(as(env, MANAGER_UID).doc(`${BUSINESS_DOC}/jobTemplates/template-1`).set(template));
+    await assertSucceeds(as(env, MANAGER_UID).collection(`${BUSINESS_DOC}/locations`).get());
+    await assertSucceeds(as(env, MANAGER_UID).collection(`${BUSINESS_DOC}/jobTemplates`).get());
+    await assertFails(as(env, OTHER_UID).collection(`${BUSINESS_DOC}/locations`).get());
+    await assertFails(as(env, OTHER_UID).doc(`${BUSINESS_DOC}/jobTemplates/template-2`).set(template));
+  });
+
+  it('refuse a site without coordinates', async () => {
+    await assertFails(
+      as(env, MANAGER_UID).doc(`${BUSINESS_DOC}/locations/location-2`).set({ name: 'Sede', location: {} })
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import { as, createRulesEnv, EMPLOYER_UID, OTHER_UID, seed, seedProfiles, WORKER_UID } from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, {
+    'jobs/job-1': { ownerUid: EMPLOYER_UID, ownerProfileId: 'employer-1', status: 'published' },
+    'chats/chat-1': { assignmentId: 'job-1', employerId: 'employer-1', workerId: 'worker-1' },
+    'chats/chat-1/messages/message-1': { senderId: 'employer-1', text: 'Ciao' },
+  });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+const CHAT = 'chats/chat-1';
+
+describe('chats', () => {
+  it('is readable by its participants only', async () => {
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(CHAT).get());
+    await assertSucceeds(as(env, WORKER_UID).doc(`${CHAT}/messages/message-1`).get());
+    await assertFails(as(env, OTHER_UID).doc(CHAT).get());
+    await assertFails(as(env, OTHER_UID).doc(`${CHAT}/messages/message-1`).get());
+  });
+
+  it('takes messages from participants signed as themselves', async () => {
+    await assertSucceeds(
+      as(env, WORKER_UID).doc(`${CHAT}/messages/message-2`).set({ senderId: 'worker-1', text: 'Arrivo' })
+    );
+    await assertFails(
+      as(env, WORKER_UID).doc(`${CHAT}/messages/message-3`).set({ senderId: 'employer-1', text: 'Arrivo' })
+    );
+    await assertFails(
+      as(env, OTHER_UID).doc(`${CHAT}/messages/message-4`).set({ senderId: 'other-1', text: 'Ciao' })
+    );
+  });
+
+  it('lets a participant blank only its own id', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc(CHAT).update({ workerId: '', workerDeleted: true }));
+    await assertFails(as(env, EMPLOYER_UID).doc(CHAT).update({ workerId: '' }));
+  });
+
+  it('is deleted by the job owner', async () => {
+    await assertFails(as(env, WORKER_UID).doc(CHAT).delete());
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(CHAT).delete());
+  });
+
+  it('can be looked up before it exists', async () => {
+    // getOrCreateChat reads the fixed id first.
+    await assertSucceeds(as(env, WORKER_UID).doc('chats/chat-2').get());
+    await assertSucceeds(
+      as(env, WORKER_UID).doc('chats/chat-2').set({ assignmentId: 'job-1', employerId: 'employer-1', workerId: 'worker-1' })
+    );
+  });
+
+  it('is listed by its participants', async () => {
+    await assertSucceeds(as(env, EMPLOYER_UID).collection('chats').where('employerId', '==', 'employer-1').get());
+    await assertSucceeds(as(env, WORKER_UID).collection('chats').where('workerId', '==', 'worker-1').get());
+    await assertSucceeds(
+      as(env, WORKER_UID)
+        .collection('chats')
+        .where('employerId', '==', 'employer-1')
+        .where('workerId', '==', 'worker-1')
+        .limit(1)
+        .get()
+    );
+    await assertFails(as(env, OTHER_UID).collection('chats').where('workerId', '==', 'worker-1').get());
+    await assertSucceeds(as(env, WORKER_UID).collection(`${CHAT}/messages`).orderBy('createdAt', 'asc').get());
+  });
+
+  it('is listed by job, with its messages, for the job owner only', async () => {
+    // deleteJobAndRelated
+    await assertSucceeds(as(env, EMPLOYER_UID).collection('chats').where('assignmentId', '==', 'job-1').get());
+    await assertFails(as(env, OTHER_UID).collection('chats').where('assignmentId', '==', 'job-1').get());
+    await assertSucceeds(as(env, EMPLOYER_UID).collection(`${CHAT}/messages`).get());
+    await assertFails(as(env, OTHER_UID).collection(`${CHAT}/messages`).get());
+  });
+});
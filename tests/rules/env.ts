@@ -0,0 +1,55 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+export const EMPLOYER_UID = 'employer-uid';
+export const WORKER_UID = 'worker-uid';
+export const OTHER_UID = 'other-uid';
+export const MANAGER_UID = 'manager-uid';
+
+// One profile per account, plus a legacy profile that was never migrated.
+export const PROFILES: Record<string, Record<string, unknown>> = {
+  'employer-1': { uid: EMPLOYER_UID, role: 'datore', authEmail: 'datore@example.com', usernameLower: 'datore' },
+  'worker-1': { uid: WORKER_UID, role: 'lavoratore', authEmail: 'lavoratore@example.com', usernameLower: 'lavoratore' },
+  'other-1': { uid: OTHER_UID, role: 'lavoratore', authEmail: 'altro@example.com', usernameLower: 'altro' },
+  'manager-1': { uid: MANAGER_UID, role: 'datore', authEmail: 'manager@example.com', usernameLower: 'manager' },
+  'legacy-1': { uid: 'anonymous-uid', role: 'lavoratore', usernameLower: 'legacy', passwordHash: 'pbkdf2-sha256$60000$00$00' },
+};
+
+// The employer's business, with a manager on the team.
+export const BUSINESS = {
+  ownerUid: EMPLOYER_UID,
+  ownerProfileId: 'employer-1',
+  roles: { [EMPLOYER_UID]: 'owner', [MANAGER_UID]: 'manager' },
+  memberUids: [EMPLOYER_UID, MANAGER_UID],
+};
+
+export const createRulesEnv = () =>
+  initializeTestEnvironment({
+    projectId: 'demo-jobly',
+    firestore: { rules: readFileSync(resolve(process.cwd(), 'firestore.rules'), 'utf8') },
+  });
+
+/** Scrive i documenti senza passare dalle regole. */
+export const seed = async (
+  env: RulesTestEnvironment,
+  docs: Record<string, Record<string, unknown>>
+) => {
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    for (const [path, data] of Object.entries(docs)) {
+      await db.doc(path).set(data);
+    }
+  });
+};
+
+export const seedProfiles = (env: RulesTestEnvironment) =>
+  seed(
+    env,
+    Object.fromEntries(Object.entries(PROFILES).map(([id, data]) => [`profiles/${id}`, data]))
+  );
+
+export const as = (env: RulesTestEnvironment, uid: string) => env.authenticatedContext(uid).firestore();
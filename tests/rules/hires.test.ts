@@ -0,0 +1,105 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import {
+  as,
+  BUSINESS,
+  createRulesEnv,
+  EMPLOYER_UID,
+  MANAGER_UID,
+  OTHER_UID,
+  seed,
+  seedProfiles,
+  WORKER_UID,
+} from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, {
+    'jobs/job-1': { ownerUid: EMPLOYER_UID, ownerProfileId: 'employer-1', status: 'published' },
+    'hires/hire-1': {
+      jobId: 'job-1',
+      employerUid: EMPLOYER_UID,
+      employerProfileId: 'employer-1',
+      workerUid: WORKER_UID,
+      workerProfileId: 'worker-1',
+      status: 'proposed',
+    },
+  });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+const HIRE = 'hires/hire-1';
+
+describe('hires', () => {
+  it('is readable by its parties only', async () => {
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(HIRE).get());
+    await assertSucceeds(as(env, WORKER_UID).doc(HIRE).get());
+    await assertFails(as(env, OTHER_UID).doc(HIRE).get());
+  });
+
+  it('is proposed only by the job owner', async () => {
+    const hire = { jobId: 'job-1', employerUid: EMPLOYER_UID, workerUid: WORKER_UID, status: 'proposed' };
+    await assertSucceeds(as(env, EMPLOYER_UID).doc('hires/hire-2').set(hire));
+    await assertFails(as(env, OTHER_UID).doc('hires/hire-3').set({ ...hire, employerUid: OTHER_UID }));
+  });
+
+  it('is accepted only by the proposed worker', async () => {
+    await assertFails(as(env, EMPLOYER_UID).doc(HIRE).update({ status: 'confirmed' }));
+    await assertFails(as(env, OTHER_UID).doc(HIRE).update({ status: 'confirmed' }));
+    await assertSucceeds(as(env, WORKER_UID).doc(HIRE).update({ status: 'confirmed' }));
+  });
+
+  it('is completed only by the employer once confirmed', async () => {
+    await assertFails(as(env, EMPLOYER_UID).doc(HIRE).update({ status: 'completed' }));
+    await seed(env, { [HIRE]: { jobId: 'job-1', employerUid: EMPLOYER_UID, workerUid: WORKER_UID, status: 'confirmed' } });
+    await assertFails(as(env, WORKER_UID).doc(HIRE).update({ status: 'completed' }));
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(HIRE).update({ status: 'completed' }));
+  });
+
+  it('is listed by its parties', async () => {
+    await assertSucceeds(
+      as(env, WORKER_UID).collection('hires').where('workerUid', '==', WORKER_UID).where('status', '==', 'proposed').get()
+    );
+    await assertSucceeds(as(env, EMPLOYER_UID).collection('hires').where('employerUid', '==', EMPLOYER_UID).get());
+    await assertFails(as(env, OTHER_UID).collection('hires').where('employerUid', '==', EMPLOYER_UID).get());
+    await assertFails(as(env, OTHER_UID).collection('hires').get());
+  });
+
+  it('is listed by job for the job owner only', async () => {
+    // updateJobPosting and deleteJobAndRelated
+    await assertSucceeds(as(env, EMPLOYER_UID).collection('hires').where('jobId', '==', 'job-1').get());
+    await assertFails(as(env, WORKER_UID).collection('hires').where('jobId', '==', 'job-1').get());
+  });
+
+  it('is listed by business for the team', async () => {
+    await seed(env, {
+      'businesses/business-1': BUSINESS,
+      [HIRE]: { jobId: 'job-1', employerUid: EMPLOYER_UID, workerUid: WORKER_UID, businessId: 'business-1', status: 'proposed' },
+    });
+    await assertSucceeds(as(env, MANAGER_UID).collection('hires').where('businessId', '==', 'business-1').get());
+    await assertFails(as(env, OTHER_UID).collection('hires').where('businessId', '==', 'business-1').get());
+  });
+
+  it('is deleted only by the job owner', async () => {
+    await assertFails(as(env, WORKER_UID).doc(HIRE).delete());
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(HIRE).delete());
+  });
+});
@@ -0,0 +1,156 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import { as, createRulesEnv, EMPLOYER_UID, OTHER_UID, seed, seedProfiles, WORKER_UID } from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, {
+    'jobs/job-1': { ownerUid: EMPLOYER_UID, ownerProfileId: 'employer-1', status: 'published', applicants: [] },
+  });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+describe('jobs', () => {
+  it('is readable by any session', async () => {
+    await assertSucceeds(as(env, OTHER_UID).doc('jobs/job-1').get());
+  });
+
+  it('is created only for the caller', async () => {
+    await assertSucceeds(
+      as(env, EMPLOYER_UID).doc('jobs/job-2').set({ ownerUid: EMPLOYER_UID, ownerProfileId: 'employer-1', status: 'draft' })
+    );
+    await assertFails(
+      as(env, OTHER_UID).doc('jobs/job-3').set({ ownerUid: EMPLOYER_UID, ownerProfileId: 'employer-1' })
+    );
+  });
+
+  it('lets the owner edit it', async () => {
+    await assertSucceeds(as(env, EMPLOYER_UID).doc('jobs/job-1').update({ descrizione: 'Turno serale' }));
+    await assertFails(as(env, WORKER_UID).doc('jobs/job-1').update({ descrizione: 'Turno serale' }));
+  });
+
+  it('lets a worker append only a profile it owns', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc('jobs/job-1').update({ applicants: ['worker-1'] }));
+    await assertFails(as(env, WORKER_UID).doc('jobs/job-1').update({ applicants: ['other-1'] }));
+    await assertFails(
+      as(env, WORKER_UID).doc('jobs/job-1').update({ applicants: ['worker-1', 'other-1'] })
+    );
+  });
+
+  it('lets a worker remove only its own profile', async () => {
+    await seed(env, {
+      'jobs/job-1': {
+        ownerUid: EMPLOYER_UID,
+        ownerProfileId: 'employer-1',
+        status: 'published',
+        applicants: ['worker-1', 'other-1'],
+      },
+    });
+    await assertFails(as(env, WORKER_UID).doc('jobs/job-1').update({ applicants: ['worker-1'] }));
+    await assertSucceeds(as(env, WORKER_UID).doc('jobs/job-1').update({ applicants: ['other-1'] }));
+  });
+
+  describe('hire slots', () => {
+    beforeEach(async () => {
+      await seed(env, {
+        'jobs/job-1': {
+          ownerUid: EMPLOYER_UID,
+          ownerProfileId: 'employer-1',
+          status: 'published',
+          positions: 2,
+          hireSlots: { 'hire-1': { workerUid: WORKER_UID, status: 'proposed' } },
+          filledPositions: 0,
+          hireStatus: 'open',
+        },
+        'hires/hire-1': { jobId: 'job-1', workerUid: WORKER_UID, status: 'proposed' },
+      });
+    });
+
+    const answer = (uid: string, changes: Record<string, unknown>) =>
+      as(env, uid).doc('jobs/job-1').update({ updatedAt: new Date(), ...changes });
+    const confirmed = { 'hire-1': { workerUid: WORKER_UID, status: 'confirmed' } };
+
+    it('lets the proposed worker confirm or drop its own slot', async () => {
+      await assertFails(answer(OTHER_UID, { hireSlots: confirmed, filledPositions: 1, hireStatus: 'open' }));
+      await assertSucceeds(answer(WORKER_UID, { hireSlots: {}, filledPositions: 0, hireStatus: 'open' }));
+    });
+
+    it('keeps the counters in line with the slots', async () => {
+      await assertFails(answer(WORKER_UID, { hireSlots: confirmed, filledPositions: 2, hireStatus: 'confirmed' }));
+      await assertFails(answer(WORKER_UID, { hireSlots: confirmed, filledPositions: 1, hireStatus: 'completed' }));
+      await assertFails(
+        answer(WORKER_UID, { hireSlots: confirmed, filledPositions: 1, hireStatus: 'open', activeHireId: 'hire-1' })
+      );
+      await assertSucceeds(answer(WORKER_UID, { hireSlots: confirmed, filledPositions: 1, hireStatus: 'open' }));
+    });
+
+    it('refuses any other slot state', async () => {
+      await assertFails(
+        answer(WORKER_UID, {
+          hireSlots: { 'hire-1': { workerUid: WORKER_UID, status: 'completed' } },
+          filledPositions: 1,
+          hireStatus: 'open',
+        })
+      );
+    });
+  });
+
+  it('is deleted only by the owner', async () => {
+    await assertFails(as(env, WORKER_UID).doc('jobs/job-1').delete());
+    await assertSucceeds(as(env, EMPLOYER_UID).doc('jobs/job-1').delete());
+  });
+
+  it('is listed by any session', async () => {
+    const db = as(env, OTHER_UID);
+    await assertSucceeds(db.collection('jobs').where('ownerProfileId', '==', 'employer-1').get());
+    await assertSucceeds(db.collection('jobs').where('seriesId', '==', 'series-1').get());
+  });
+});
+
+describe('job changes', () => {
+  const CHANGE = 'jobs/job-1/changes/change-1';
+  const change = (uid: string) => ({ fields: ['orario'], changedByUid: uid, changedAt: new Date() });
+
+  it('are written and listed by the job owner only', async () => {
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(CHANGE).set(change(EMPLOYER_UID)));
+    await assertFails(as(env, EMPLOYER_UID).doc('jobs/job-1/changes/change-2').set(change(OTHER_UID)));
+    await assertFails(as(env, WORKER_UID).doc('jobs/job-1/changes/change-3').set(change(WORKER_UID)));
+    await assertSucceeds(as(env, EMPLOYER_UID).collection('jobs/job-1/changes').get());
+    await assertFails(as(env, WORKER_UID).collection('jobs/job-1/changes').get());
+  });
+});
+
+describe('candidate notes', () => {
+  const NOTE = 'jobs/job-1/candidateNotes/worker-1';
+  const note = (uid: string, text = 'Disponibile nel weekend') => ({ text, updatedByUid: uid, updatedAt: new Date() });
+
+  it('are private to the job owner', async () => {
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(NOTE).set(note(EMPLOYER_UID)));
+    await assertSucceeds(as(env, EMPLOYER_UID).doc(NOTE).get());
+    await assertSucceeds(as(env, EMPLOYER_UID).collection('jobs/job-1/candidateNotes').get());
+    await assertFails(as(env, WORKER_UID).doc(NOTE).get());
+    await assertFails(as(env, WORKER_UID).doc(NOTE).set(note(WORKER_UID)));
+  });
+
+  it('are limited to 1000 characters', async () => {
+    await assertFails(as(env, EMPLOYER_UID).doc(NOTE).set(note(EMPLOYER_UID, 'x'.repeat(1001))));
+  });
+});
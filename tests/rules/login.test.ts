@@ -0,0 +1,51 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import { as, createRulesEnv, OTHER_UID, seed, seedProfiles, WORKER_UID } from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, { 'loginAttempts/worker-1': { failedCount: 2, lockedUntil: null } });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+describe('login attempts', () => {
+  it('cannot be written by any client', async () => {
+    const failure = { failedCount: 3, lockedUntil: null, lastFailedAt: new Date(), updatedAt: new Date() };
+    await assertFails(as(env, OTHER_UID).doc('loginAttempts/worker-1').set(failure));
+    await assertFails(as(env, OTHER_UID).doc('loginAttempts/other-1').set({ ...failure, failedCount: 1 }));
+    await assertFails(as(env, WORKER_UID).doc('loginAttempts/worker-1').set({ failedCount: 0, lockedUntil: null }));
+  });
+
+  it('can be removed by the owner only', async () => {
+    await assertFails(as(env, OTHER_UID).doc('loginAttempts/worker-1').delete());
+    await assertSucceeds(as(env, WORKER_UID).doc('loginAttempts/worker-1').delete());
+  });
+});
+
+describe('login audit', () => {
+  it('is written for the caller and read by the profile owner', async () => {
+    const entry = { profileId: 'worker-1', uid: OTHER_UID, success: false };
+    await assertSucceeds(as(env, OTHER_UID).doc('loginAudit/entry-1').set(entry));
+    await assertFails(as(env, OTHER_UID).doc('loginAudit/entry-2').set({ ...entry, uid: WORKER_UID }));
+    await assertFails(as(env, OTHER_UID).doc('loginAudit/entry-1').get());
+    await assertSucceeds(as(env, WORKER_UID).doc('loginAudit/entry-1').get());
+  });
+});
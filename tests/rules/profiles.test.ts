@@ -0,0 +1,110 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import { as, createRulesEnv, EMPLOYER_UID, OTHER_UID, seed, seedProfiles, WORKER_UID } from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+describe('profiles', () => {
+  it('requires a session to read a profile', async () => {
+    await assertFails(env.unauthenticatedContext().firestore().doc('profiles/worker-1').get());
+    await assertSucceeds(as(env, EMPLOYER_UID).doc('profiles/worker-1').get());
+  });
+
+  it('hides legacy profiles that still hold credentials', async () => {
+    await assertFails(as(env, OTHER_UID).doc('profiles/legacy-1').get());
+  });
+
+  it('lists only the caller\'s own profiles', async () => {
+    const db = as(env, WORKER_UID);
+    await assertSucceeds(db.collection('profiles').where('uid', '==', WORKER_UID).get());
+    await assertFails(db.collection('profiles').where('usernameLower', '==', 'datore').limit(1).get());
+    await assertFails(db.collection('profiles').limit(10).get());
+  });
+
+  it('lets only the owner update a profile', async () => {
+    await assertSucceeds(
+      as(env, WORKER_UID).doc('profiles/worker-1').update({ nome: 'Mario', uid: WORKER_UID })
+    );
+    await assertFails(
+      as(env, OTHER_UID).doc('profiles/worker-1').update({ nome: 'Mario', uid: OTHER_UID })
+    );
+  });
+
+  it('never lets a session claim a legacy profile', async () => {
+    await assertFails(
+      as(env, OTHER_UID).doc('profiles/legacy-1').update({ uid: OTHER_UID, authEmail: 'x@example.com' })
+    );
+  });
+
+  it('refuses credentials on profiles', async () => {
+    await assertFails(
+      as(env, OTHER_UID).doc('profiles/new-1').set({ uid: OTHER_UID, passwordHash: 'secret' })
+    );
+    await assertFails(
+      as(env, WORKER_UID).doc('profiles/worker-1').update({ uid: WORKER_UID, passwordHash: 'secret' })
+    );
+  });
+});
+
+describe('loginHandles', () => {
+  const handle = (profileId: string, authEmail: string) => ({ profileId, authEmail, updatedAt: new Date() });
+
+  it('lets a profile publish its own handles', async () => {
+    await assertSucceeds(
+      as(env, WORKER_UID).doc('loginHandles/username:lavoratore').set(handle('worker-1', 'lavoratore@example.com'))
+    );
+  });
+
+  it('refuses handles for another profile or another account email', async () => {
+    const db = as(env, OTHER_UID);
+    await assertFails(db.doc('loginHandles/username:lavoratore').set(handle('worker-1', 'lavoratore@example.com')));
+    await assertFails(db.doc('loginHandles/username:altro').set(handle('other-1', 'lavoratore@example.com')));
+  });
+
+  it('keeps a taken handle with its profile', async () => {
+    await seed(env, { 'loginHandles/username:lavoratore': handle('worker-1', 'lavoratore@example.com') });
+    await assertFails(
+      as(env, OTHER_UID).doc('loginHandles/username:lavoratore').set(handle('other-1', 'altro@example.com'))
+    );
+    await assertFails(as(env, OTHER_UID).doc('loginHandles/username:lavoratore').delete());
+  });
+
+  it('can be fetched by id but not listed', async () => {
+    await seed(env, { 'loginHandles/username:lavoratore': handle('worker-1', 'lavoratore@example.com') });
+    const db = as(env, OTHER_UID);
+    await assertSucceeds(db.doc('loginHandles/username:lavoratore').get());
+    await assertFails(db.collection('loginHandles').get());
+  });
+
+  it('reveals the account email of a known username to any session', async () => {
+    // Documented in firestore.rules: the login needs it until a backend resolves handles.
+    await seed(env, { 'loginHandles/username:lavoratore': handle('worker-1', 'lavoratore@example.com') });
+    const anonymous = env
+      .authenticatedContext('anonymous-uid', { firebase: { sign_in_provider: 'anonymous' } })
+      .firestore();
+    const snap = await assertSucceeds(anonymous.doc('loginHandles/username:lavoratore').get());
+    expect(snap.data()?.authEmail).toBe('lavoratore@example.com');
+    await assertFails(env.unauthenticatedContext().firestore().doc('loginHandles/username:lavoratore').get());
+  });
+});
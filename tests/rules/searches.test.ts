@@ -0,0 +1,91 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import { as, createRulesEnv, OTHER_UID, seed, seedProfiles, WORKER_UID } from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, {
+    'savedSearches/search-1': { uid: WORKER_UID, profileId: 'worker-1', name: 'Bar a Milano' },
+    'jobAlerts/search-1__job-1': {
+      uid: WORKER_UID,
+      profileId: 'worker-1',
+      searchId: 'search-1',
+      jobId: 'job-1',
+      openedAt: null,
+    },
+  });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+const SEARCH = 'savedSearches/search-1';
+const ALERT = 'jobAlerts/search-1__job-1';
+
+describe('saved searches', () => {
+  it('are read and listed by their account only', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc(SEARCH).get());
+    await assertSucceeds(as(env, WORKER_UID).collection('savedSearches').where('uid', '==', WORKER_UID).get());
+    await assertFails(as(env, OTHER_UID).collection('savedSearches').where('uid', '==', WORKER_UID).get());
+  });
+
+  it('are saved for a profile of the caller', async () => {
+    const search = { uid: WORKER_UID, profileId: 'worker-1', name: 'Pizzerie' };
+    await assertSucceeds(as(env, WORKER_UID).doc('savedSearches/search-2').set(search));
+    await assertFails(as(env, WORKER_UID).doc('savedSearches/search-3').set({ ...search, profileId: 'other-1' }));
+    await assertFails(as(env, WORKER_UID).doc('savedSearches/search-4').set({ ...search, name: '' }));
+  });
+
+  it('keep their owner when edited', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc(SEARCH).update({ name: 'Bar in centro' }));
+    await assertFails(as(env, WORKER_UID).doc(SEARCH).update({ uid: OTHER_UID }));
+    await assertFails(as(env, OTHER_UID).doc(SEARCH).delete());
+    await assertSucceeds(as(env, WORKER_UID).doc(SEARCH).delete());
+  });
+});
+
+describe('job alerts', () => {
+  const alert = (jobId: string) => ({
+    uid: WORKER_UID,
+    profileId: 'worker-1',
+    searchId: 'search-1',
+    jobId,
+    openedAt: null,
+  });
+
+  it('are looked up before they exist and listed by their account only', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc('jobAlerts/search-1__job-2').get());
+    await assertSucceeds(as(env, WORKER_UID).collection('jobAlerts').where('uid', '==', WORKER_UID).get());
+    await assertFails(as(env, OTHER_UID).doc(ALERT).get());
+    await assertFails(as(env, OTHER_UID).collection('jobAlerts').where('uid', '==', WORKER_UID).get());
+  });
+
+  it('are recorded only for the caller\'s own searches', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc('jobAlerts/search-1__job-2').set(alert('job-2')));
+    await assertFails(as(env, WORKER_UID).doc('jobAlerts/other-id').set(alert('job-3')));
+    await assertFails(
+      as(env, OTHER_UID).doc('jobAlerts/search-1__job-4').set({ ...alert('job-4'), uid: OTHER_UID })
+    );
+  });
+
+  it('are only marked as opened', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc(ALERT).update({ openedAt: new Date() }));
+    await assertFails(as(env, WORKER_UID).doc(ALERT).update({ jobId: 'job-2' }));
+  });
+});
@@ -0,0 +1,59 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import { as, createRulesEnv, OTHER_UID, seed, seedProfiles, WORKER_UID } from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, {
+    'sessions/session-1': { uid: WORKER_UID, profileId: 'worker-1', tokenHash: 'abc', revokedAt: null },
+  });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+const SESSION = 'sessions/session-1';
+
+describe('sessions', () => {
+  it('are read and listed by the same account only', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc(SESSION).get());
+    await assertSucceeds(as(env, WORKER_UID).collection('sessions').where('uid', '==', WORKER_UID).get());
+    await assertFails(as(env, OTHER_UID).doc(SESSION).get());
+    await assertFails(as(env, OTHER_UID).collection('sessions').where('uid', '==', WORKER_UID).get());
+  });
+
+  it('are opened for a profile of the caller', async () => {
+    const session = { uid: WORKER_UID, profileId: 'worker-1', tokenHash: 'def', revokedAt: null };
+    await assertSucceeds(as(env, WORKER_UID).doc('sessions/session-2').set(session));
+    await assertFails(as(env, WORKER_UID).doc('sessions/session-3').set({ ...session, profileId: 'other-1' }));
+    await assertFails(as(env, WORKER_UID).doc('sessions/session-4').set({ ...session, revokedAt: new Date() }));
+  });
+
+  it('are refreshed and revoked by the same account only', async () => {
+    await assertFails(as(env, OTHER_UID).doc(SESSION).update({ revokedAt: new Date() }));
+    await assertFails(as(env, WORKER_UID).doc(SESSION).update({ tokenHash: 'other' }));
+    await assertSucceeds(as(env, WORKER_UID).doc(SESSION).update({ lastSeenAt: new Date() }));
+    await assertSucceeds(as(env, WORKER_UID).doc(SESSION).update({ revokedAt: new Date(), updatedAt: new Date() }));
+  });
+
+  it('stay readable once deleted, so the device sees the session end', async () => {
+    await assertSucceeds(as(env, WORKER_UID).doc(SESSION).delete());
+    await assertSucceeds(as(env, WORKER_UID).doc(SESSION).get());
+  });
+});
@@ -0,0 +1,120 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import {
+  as,
+  BUSINESS,
+  createRulesEnv,
+  EMPLOYER_UID,
+  MANAGER_UID,
+  OTHER_UID,
+  seed,
+  seedProfiles,
+  WORKER_UID,
+} from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+// A business job created by the owner and handled by a manager of the team.
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, {
+    'businesses/business-1': BUSINESS,
+    'jobs/job-1': {
+      ownerUid: EMPLOYER_UID,
+      ownerProfileId: 'employer-1',
+      businessId: 'business-1',
+      status: 'published',
+      applicants: ['worker-1'],
+    },
+    'applications/job-1__worker-1': {
+      jobId: 'job-1',
+      applicantUid: WORKER_UID,
+      applicantProfileId: 'worker-1',
+      ownerProfileId: 'employer-1',
+      status: 'applied',
+    },
+    'hires/hire-1': {
+      jobId: 'job-1',
+      businessId: 'business-1',
+      employerUid: EMPLOYER_UID,
+      employerProfileId: 'employer-1',
+      workerUid: WORKER_UID,
+      workerProfileId: 'worker-1',
+      status: 'proposed',
+    },
+    'chats/employer-1__worker-1': { assignmentId: 'job-1', employerId: 'employer-1', workerId: 'worker-1' },
+    'chats/employer-1__worker-1/messages/message-1': { senderId: 'employer-1', text: 'Ciao' },
+  });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+const MANAGER_CHAT = 'chats/manager-1__worker-1';
+
+describe('business managers', () => {
+  it('reject an application and tell the candidate as themselves', async () => {
+    const db = as(env, MANAGER_UID);
+    await assertSucceeds(
+      db.doc('applications/job-1__worker-1').update({
+        status: 'rejected',
+        statusChange: { status: 'rejected', changedByUid: MANAGER_UID, changedAt: new Date() },
+        updatedAt: new Date(),
+      })
+    );
+    await assertSucceeds(db.doc(MANAGER_CHAT).get());
+    await assertSucceeds(
+      db.doc(MANAGER_CHAT).set({ assignmentId: 'job-1', employerId: 'manager-1', workerId: 'worker-1' })
+    );
+    await assertSucceeds(
+      db.doc(`${MANAGER_CHAT}/messages/message-1`).set({ senderId: 'manager-1', text: 'Non selezionata' })
+    );
+    await assertFails(
+      db.doc(`${MANAGER_CHAT}/messages/message-2`).set({ senderId: 'employer-1', text: 'Non selezionata' })
+    );
+  });
+
+  it('edit the job and ask the hired worker again', async () => {
+    const db = as(env, MANAGER_UID);
+    await assertSucceeds(db.collection('hires').where('jobId', '==', 'job-1').get());
+    await assertSucceeds(db.doc('jobs/job-1').update({ compensoOrario: 12, updatedAt: new Date() }));
+    await assertSucceeds(
+      db.doc('jobs/job-1/changes/change-1').set({ fields: ['compenso'], changedByUid: MANAGER_UID })
+    );
+    await assertSucceeds(db.doc('hires/hire-1').update({ jobPayAmount: 12, updatedAt: new Date() }));
+  });
+
+  it('delete the job with its hires, chats and messages', async () => {
+    // deleteJobAndRelated
+    const db = as(env, MANAGER_UID);
+    await assertSucceeds(db.collection('applications').where('jobId', '==', 'job-1').get());
+    await assertSucceeds(db.collection('chats').where('assignmentId', '==', 'job-1').get());
+    await assertSucceeds(db.collection('chats/employer-1__worker-1/messages').get());
+    await assertSucceeds(db.doc('chats/employer-1__worker-1/messages/message-1').delete());
+    await assertSucceeds(db.doc('chats/employer-1__worker-1').delete());
+    await assertSucceeds(db.doc('hires/hire-1').delete());
+    await assertSucceeds(db.doc('applications/job-1__worker-1').delete());
+    await assertSucceeds(db.doc('jobs/job-1').delete());
+  });
+
+  it('stay closed to accounts outside the team', async () => {
+    const db = as(env, OTHER_UID);
+    await assertFails(db.collection('hires').where('jobId', '==', 'job-1').get());
+    await assertFails(db.collection('chats').where('assignmentId', '==', 'job-1').get());
+    await assertFails(db.doc('jobs/job-1').delete());
+  });
+});
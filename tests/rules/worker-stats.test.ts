@@ -0,0 +1,77 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+import { as, createRulesEnv, EMPLOYER_UID, OTHER_UID, seed, seedProfiles, WORKER_UID } from './env';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnv();
+});
+
+beforeEach(async () => {
+  await seedProfiles(env);
+  await seed(env, {
+    'jobs/job-1': { ownerUid: EMPLOYER_UID, ownerProfileId: 'employer-1', status: 'published' },
+    'hires/hire-1': {
+      jobId: 'job-1',
+      employerUid: EMPLOYER_UID,
+      employerProfileId: 'employer-1',
+      workerUid: WORKER_UID,
+      workerProfileId: 'worker-1',
+      status: 'confirmed',
+    },
+  });
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+const STATS = 'workerStats/worker-1';
+const stats = (completedHires: number) => ({
+  profileId: 'worker-1',
+  completedHires,
+  lastCompletedHireId: 'hire-1',
+  updatedAt: new Date(),
+});
+
+describe('worker stats', () => {
+  it('are readable by any session', async () => {
+    await seed(env, { [STATS]: stats(3) });
+    await assertSucceeds(as(env, OTHER_UID).doc(STATS).get());
+  });
+
+  it('count a hire only while completing it', async () => {
+    await assertFails(as(env, EMPLOYER_UID).doc(STATS).set(stats(1)));
+
+    // completeHire
+    const db = as(env, EMPLOYER_UID);
+    const batch = db.batch();
+    batch.update(db.doc('hires/hire-1'), { status: 'completed', updatedAt: new Date() });
+    batch.set(db.doc(STATS), stats(1));
+    await assertSucceeds(batch.commit());
+  });
+
+  it('never skip ahead', async () => {
+    const db = as(env, EMPLOYER_UID);
+    const batch = db.batch();
+    batch.update(db.doc('hires/hire-1'), { status: 'completed', updatedAt: new Date() });
+    batch.set(db.doc(STATS), stats(5));
+    await assertFails(batch.commit());
+  });
+
+  it('are removed by the profile owner only', async () => {
+    await seed(env, { [STATS]: stats(3) });
+    await assertFails(as(env, OTHER_UID).doc(STATS).delete());
+    await assertSucceeds(as(env, WORKER_UID).doc(STATS).delete());
+  });
+});
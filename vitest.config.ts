@@ -0,0 +1,17 @@
+import { configDefaults, defineConfig } from 'vitest/config';
+
+// tests/rules needs the Firestore emulator: `npm run test:rules` starts it and
+// sets FIRESTORE_EMULATOR_HOST, plain `npm test` runs the unit tests only.
+const withEmulator = !!process.env.FIRESTORE_EMULATOR_HOST;
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: [...configDefaults.exclude, ...(withEmulator ? [] : ['tests/rules/**'])],
+    passWithNoTests: true,
+    // The rules suites share one emulator project.
+    fileParallelism: !withEmulator,
+    testTimeout: withEmulator ? 20000 : 5000,
+  },
+});